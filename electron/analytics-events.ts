@@ -2,7 +2,7 @@ import type { ConnectionProfile } from './types'
 import type { ApiKeys } from './settings-store'
 
 export type ConnectionMode = 'local' | 'hosted'
-export type ConnectionType = 'cloud' | 'self-hosted'
+export type ConnectionType = 'cloud' | 'self-hosted' | 'local-folder'
 
 interface ApiKeyProvider {
   provider: string
@@ -55,6 +55,12 @@ export function getConnectionAnalyticsProperties(profile: ConnectionProfile): {
       connection_mode: 'hosted',
     }
   }
+  if (connectionType === 'local-folder') {
+    return {
+      connection_type: connectionType,
+      connection_mode: 'local',
+    }
+  }
 
   try {
     const { hostname } = new URL(profile.url)
@@ -0,0 +1,76 @@
+import type { Collection, Metadata } from 'chromadb'
+import { WRITE_BATCH_SIZE, type CreateDocumentsBatchParams, type CreateDocumentsBatchResult, type IdCollisionPolicy } from './types'
+import { ChromaAddPayload, addToCollection, existingIds, upsertToCollection } from './chromadb-payloads'
+
+type BatchDocument = CreateDocumentsBatchParams['documents'][number]
+
+function toPayload(batch: BatchDocument[]): ChromaAddPayload {
+  const payload: ChromaAddPayload = { ids: batch.map(d => d.id) }
+  // Only send the columns some document actually has
+  if (batch.some(d => d.document !== undefined)) {
+    payload.documents = batch.map(d => d.document || '')
+  }
+  if (batch.some(d => d.metadata !== undefined)) {
+    payload.metadatas = batch.map(d => (d.metadata || {}) as Metadata)
+  }
+  return payload
+}
+
+/**
+ * Write records in batches, resolving IDs the collection already has per
+ * `onCollision`. 'fail' looks every ID up before writing, so a conflict
+ * leaves the collection untouched and the result lists the offending IDs.
+ * A batch that fails to write is reported in `errors` and the rest go ahead.
+ */
+export async function writeDocumentBatches(
+  collection: Collection,
+  documents: BatchDocument[],
+  onCollision: IdCollisionPolicy
+): Promise<CreateDocumentsBatchResult> {
+  const result: CreateDocumentsBatchResult = {
+    createdIds: [],
+    conflictingIds: [],
+    skipped: 0,
+    overwritten: 0,
+    errors: [],
+  }
+  const batches: BatchDocument[][] = []
+  for (let start = 0; start < documents.length; start += WRITE_BATCH_SIZE) {
+    batches.push(documents.slice(start, start + WRITE_BATCH_SIZE))
+  }
+
+  if (onCollision === 'fail') {
+    for (const batch of batches) {
+      const existing = await existingIds(collection, batch.map(d => d.id))
+      result.conflictingIds.push(...batch.filter(d => existing.has(d.id)).map(d => d.id))
+    }
+    if (result.conflictingIds.length > 0) {
+      const count = result.conflictingIds.length
+      result.errors.push(`${count} ${count === 1 ? 'ID already exists' : 'IDs already exist'} in the collection`)
+      return result
+    }
+  }
+
+  for (const [index, batch] of batches.entries()) {
+    try {
+      const existing = onCollision === 'fail' ? new Set<string>() : await existingIds(collection, batch.map(d => d.id))
+      const conflicting = batch.filter(d => existing.has(d.id)).map(d => d.id)
+      const toWrite = onCollision === 'skip' ? batch.filter(d => !existing.has(d.id)) : batch
+
+      if (toWrite.length > 0) {
+        if (onCollision === 'overwrite') await upsertToCollection(collection, toPayload(toWrite))
+        else await addToCollection(collection, toPayload(toWrite))
+      }
+
+      result.conflictingIds.push(...conflicting)
+      result.createdIds.push(...batch.filter(d => !existing.has(d.id)).map(d => d.id))
+      if (onCollision === 'skip') result.skipped += conflicting.length
+      else result.overwritten += conflicting.length
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      result.errors.push(`Batch ${index + 1}: ${message}`)
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,112 @@
+import type { Collection } from 'chromadb'
+import {
+  BulkMetadataParams,
+  BulkMetadataProgress,
+  BulkMetadataResult,
+  BulkMetadataTarget,
+  MAX_BULK_ERRORS,
+  MAX_BULK_SAMPLES,
+} from './types'
+import { readDocumentPages } from './chromadb-search'
+import { filterPagesById } from './chromadb-export'
+import { applyMetadataOperation, metadataUpdate } from './metadata-operations'
+
+// Records read and updated per round trip
+export const BULK_BATCH_SIZE = 100
+
+/**
+ * IDs of every record the target covers. Resolved up front so that updates
+ * which change whether a record matches the filter cannot shift the pages.
+ */
+export async function resolveTargetIds(
+  collection: Collection,
+  target: BulkMetadataTarget,
+  onProgress: (progress: BulkMetadataProgress) => void,
+  signal?: AbortSignal
+): Promise<string[] | null> {
+  if (target.kind === 'ids') return target.ids
+  const ids: string[] = []
+  const pages = filterPagesById(
+    readDocumentPages(collection, { ...target, include: [] }, BULK_BATCH_SIZE),
+    target.idContains
+  )
+  for await (const page of pages) {
+    if (signal?.aborted) return null
+    ids.push(...page.map(record => record.id))
+    onProgress({ phase: 'scanning', total: 0, processed: ids.length, message: `Finding records... ${ids.length}` })
+  }
+  return ids
+}
+
+/**
+ * Apply one metadata operation to every record in the target, in batches of
+ * `update` calls. A dry run reads and counts the same way without writing.
+ * Batches written before a cancel are kept.
+ */
+export async function bulkUpdateMetadata(
+  collection: Collection,
+  params: Pick<BulkMetadataParams, 'target' | 'operation' | 'dryRun'>,
+  onProgress: (progress: BulkMetadataProgress) => void,
+  signal?: AbortSignal
+): Promise<BulkMetadataResult> {
+  const result: BulkMetadataResult = { success: false, matched: 0, changed: 0, failed: 0, samples: [], errors: [] }
+  let total = 0
+  let processed = 0
+
+  const cancelled = (): BulkMetadataResult => {
+    onProgress({ phase: 'cancelled', total, processed, message: `Cancelled after ${processed} of ${total} records` })
+    return { ...result, error: 'Operation cancelled' }
+  }
+
+  try {
+    onProgress({ phase: 'scanning', total, processed, message: 'Finding records...' })
+    const ids = await resolveTargetIds(collection, params.target, onProgress, signal)
+    if (!ids) return cancelled()
+    total = ids.length
+
+    for (let start = 0; start < ids.length; start += BULK_BATCH_SIZE) {
+      if (signal?.aborted) return cancelled()
+      const batchIds = ids.slice(start, start + BULK_BATCH_SIZE)
+      const { ids: found, metadatas } = await collection.get({ ids: batchIds, include: ['metadatas'] })
+      const updateIds: string[] = []
+      const updates: ReturnType<typeof metadataUpdate>[] = []
+
+      found.forEach((id, i) => {
+        const before = (metadatas?.[i] ?? null) as Record<string, unknown> | null
+        try {
+          const after = applyMetadataOperation(before, params.operation)
+          if (!after) return
+          updateIds.push(id)
+          updates.push(metadataUpdate(before, after))
+          if (result.samples.length < MAX_BULK_SAMPLES) result.samples.push({ id, before, after })
+        } catch (error) {
+          result.failed++
+          if (result.errors.length < MAX_BULK_ERRORS) {
+            result.errors.push(`${id}: ${error instanceof Error ? error.message : String(error)}`)
+          }
+        }
+      })
+
+      if (!params.dryRun && updateIds.length > 0) {
+        await collection.update({ ids: updateIds, metadatas: updates })
+      }
+      result.matched += found.length
+      result.changed += updateIds.length
+      processed += batchIds.length
+      onProgress({
+        phase: 'updating',
+        total,
+        processed,
+        message: `${params.dryRun ? 'Checking' : 'Updating'} records... ${processed}/${total}`,
+      })
+    }
+
+    const verb = params.dryRun ? 'would change' : 'changed'
+    onProgress({ phase: 'complete', total, processed, message: `${result.changed} of ${result.matched} records ${verb}` })
+    return { ...result, success: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Bulk update failed'
+    onProgress({ phase: 'error', total, processed, message })
+    return { ...result, error: message }
+  }
+}
@@ -0,0 +1,280 @@
+import type { ChromaClient, CloudClient, Collection, Metadata } from 'chromadb'
+import {
+  CollectionInfo,
+  CopyCollectionParams,
+  CopyCollectionResult,
+  CopyDocumentsParams,
+  CopyDocumentsResult,
+  CopyProgress,
+  DocumentInclude,
+  DocumentRecord,
+  EmbeddingFunctionOverride,
+  WRITE_BATCH_SIZE,
+} from './types'
+import { EmbeddingFunctionFactory } from './embedding-function-factory'
+import { buildCollectionMetadata, buildEfConfigFromOverride } from './chromadb-metadata'
+import { addToCollection, recordsToPayload } from './chromadb-payloads'
+import { readDocumentPages } from './chromadb-search'
+import { resolveCopyIds } from './document-ids'
+
+export interface NewCollectionSpec {
+  name: string
+  metadata?: Metadata
+  embeddingFunction: CollectionInfo['embeddingFunction']
+}
+
+// How progress messages describe the work, e.g. "Copying" / "Copied"
+export interface FillWording {
+  ongoing: string
+  done: string
+  failed: string
+}
+
+const COPY_WORDING: FillWording = { ongoing: 'Copying', done: 'Copied', failed: 'Failed to copy collection' }
+
+/**
+ * Create a collection and add batches of records to it, reporting progress.
+ * This is the write half of a copy, shared with snapshot restores. A
+ * cancelled fill deletes the partially filled collection.
+ */
+export async function createAndFillCollection(
+  client: ChromaClient | CloudClient,
+  efFactory: EmbeddingFunctionFactory | null,
+  spec: NewCollectionSpec,
+  batches: AsyncIterable<DocumentRecord[]>,
+  totalDocuments: number,
+  onProgress: (progress: CopyProgress) => void,
+  signal?: AbortSignal,
+  wording: FillWording = COPY_WORDING
+): Promise<CopyCollectionResult> {
+  try {
+    // Phase 1: Creating target collection
+    onProgress({
+      phase: 'creating',
+      totalDocuments,
+      processedDocuments: 0,
+      message: 'Creating collection...',
+    })
+
+    // Check for cancellation
+    if (signal?.aborted) {
+      return {
+        success: false,
+        totalDocuments,
+        copiedDocuments: 0,
+        error: 'Operation cancelled',
+      }
+    }
+
+    // Get embedding function for the new collection
+    const embeddingFunction = await efFactory?.getEmbeddingFunction(spec.name, spec.embeddingFunction)
+
+    const targetCollection = await client.createCollection({
+      name: spec.name,
+      embeddingFunction,
+      metadata: spec.metadata,
+    })
+
+    // Phase 2: Add documents batch by batch as they are read
+    let copiedDocuments = 0
+    for await (const batch of batches) {
+      // Check for cancellation
+      if (signal?.aborted) {
+        // Delete the partially created collection on cancellation
+        try {
+          await client.deleteCollection({ name: spec.name })
+        } catch {
+          // Ignore cleanup errors
+        }
+
+        onProgress({
+          phase: 'cancelled',
+          totalDocuments,
+          processedDocuments: copiedDocuments,
+          message: `Cancelled after ${copiedDocuments} documents`,
+        })
+        return {
+          success: false,
+          totalDocuments,
+          copiedDocuments,
+          error: 'Operation cancelled',
+        }
+      }
+
+      onProgress({
+        phase: 'copying',
+        totalDocuments,
+        processedDocuments: copiedDocuments,
+        message: `${wording.ongoing} documents... ${copiedDocuments}/${totalDocuments}`,
+      })
+
+      await addToCollection(targetCollection, recordsToPayload(batch))
+      copiedDocuments += batch.length
+    }
+
+    // Phase 3: Complete
+    onProgress({
+      phase: 'complete',
+      totalDocuments,
+      processedDocuments: copiedDocuments,
+      message: `${wording.done} ${copiedDocuments} documents`,
+    })
+
+    const finalCount = await targetCollection.count()
+
+    return {
+      success: true,
+      collectionInfo: {
+        name: targetCollection.name,
+        id: targetCollection.id,
+        metadata: targetCollection.metadata ?? null,
+        count: finalCount,
+        embeddingFunction: spec.embeddingFunction,
+      },
+      totalDocuments,
+      copiedDocuments,
+    }
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : wording.failed
+
+    onProgress({
+      phase: 'error',
+      totalDocuments: 0,
+      processedDocuments: 0,
+      message,
+    })
+
+    return {
+      success: false,
+      totalDocuments: 0,
+      copiedDocuments: 0,
+      error: message,
+    }
+  }
+}
+
+// Leave embeddings behind when the target's function must regenerate them
+function copyInclude(regenerateEmbeddings: boolean): DocumentInclude[] {
+  return regenerateEmbeddings ? ['documents', 'metadatas'] : ['documents', 'metadatas', 'embeddings']
+}
+
+/**
+ * Create `params.targetName` on `client` and copy every record of `source`
+ * into it in batches, reporting progress. The source may live on another
+ * connection. A cancelled copy deletes the partially filled target.
+ */
+export async function copyCollection(
+  client: ChromaClient | CloudClient,
+  efFactory: EmbeddingFunctionFactory | null,
+  source: Collection,
+  params: CopyCollectionParams,
+  embeddingOverride: EmbeddingFunctionOverride | null,
+  onProgress: (progress: CopyProgress) => void,
+  signal?: AbortSignal
+): Promise<CopyCollectionResult> {
+  // Build embedding function config
+  let efConfig: CollectionInfo['embeddingFunction'] = null
+  if (params.embeddingFunction) {
+    efConfig = buildEfConfigFromOverride(params.embeddingFunction)
+  } else if (embeddingOverride) {
+    efConfig = buildEfConfigFromOverride(embeddingOverride)
+  }
+
+  try {
+    const totalDocuments = await source.count()
+    const pages = readDocumentPages(source, { include: copyInclude(params.regenerateEmbeddings) }, WRITE_BATCH_SIZE)
+
+    return await createAndFillCollection(
+      client,
+      efFactory,
+      { name: params.targetName, metadata: buildCollectionMetadata(params.metadata, params.hnsw), embeddingFunction: efConfig },
+      pages,
+      totalDocuments,
+      onProgress,
+      signal
+    )
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to copy collection'
+    onProgress({ phase: 'error', totalDocuments: 0, processedDocuments: 0, message })
+    return { success: false, totalDocuments: 0, copiedDocuments: 0, error: message }
+  }
+}
+
+/**
+ * Rename a batch's IDs so none collides with a record already in `target`,
+ * using the same "-copy" scheme as pasting within a connection. `taken`
+ * remembers the target IDs seen so far, so later batches skip known clashes.
+ */
+async function resolveTargetIds(target: Collection, ids: string[], taken: Set<string>): Promise<string[]> {
+  for (;;) {
+    const candidates = resolveCopyIds(ids, taken)
+    const existing = await target.get({ ids: candidates, include: [] })
+    if (existing.ids.length === 0) return candidates
+    existing.ids.forEach(id => taken.add(id))
+  }
+}
+
+/**
+ * Copy the records `params.ids` from `source` into the existing `target`,
+ * which may be on another connection. `target` must carry the embedding
+ * function when embeddings are regenerated. Records added before a cancel
+ * are kept.
+ */
+export async function copyDocuments(
+  source: Collection,
+  target: Collection,
+  params: CopyDocumentsParams,
+  onProgress: (progress: CopyProgress) => void,
+  signal?: AbortSignal
+): Promise<CopyDocumentsResult> {
+  const totalDocuments = params.ids.length
+  let copiedDocuments = 0
+  let renamedDocuments = 0
+  const copiedIds: string[] = []
+
+  try {
+    const taken = new Set<string>()
+    const pages = readDocumentPages(
+      source,
+      { ids: params.ids, include: copyInclude(params.regenerateEmbeddings) },
+      WRITE_BATCH_SIZE
+    )
+    for await (const batch of pages) {
+      if (signal?.aborted) {
+        onProgress({
+          phase: 'cancelled',
+          totalDocuments,
+          processedDocuments: copiedDocuments,
+          message: `Cancelled after ${copiedDocuments} documents`,
+        })
+        return { success: false, totalDocuments, copiedDocuments, renamedDocuments, copiedIds, error: 'Operation cancelled' }
+      }
+
+      onProgress({
+        phase: 'copying',
+        totalDocuments,
+        processedDocuments: copiedDocuments,
+        message: `Copying documents... ${copiedDocuments}/${totalDocuments}`,
+      })
+
+      const ids = await resolveTargetIds(target, batch.map(record => record.id), taken)
+      renamedDocuments += ids.filter((id, i) => id !== batch[i].id).length
+      await addToCollection(target, recordsToPayload(batch.map((record, i) => ({ ...record, id: ids[i] }))))
+      copiedDocuments += batch.length
+      copiedIds.push(...ids)
+    }
+
+    onProgress({
+      phase: 'complete',
+      totalDocuments,
+      processedDocuments: copiedDocuments,
+      message: `Copied ${copiedDocuments} documents`,
+    })
+    return { success: true, totalDocuments, copiedDocuments, renamedDocuments, copiedIds }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to copy documents'
+    onProgress({ phase: 'error', totalDocuments, processedDocuments: copiedDocuments, message })
+    return { success: false, totalDocuments, copiedDocuments, renamedDocuments, copiedIds, error: message }
+  }
+}
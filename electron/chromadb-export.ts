@@ -0,0 +1,81 @@
+import { unlink } from 'node:fs/promises'
+import { DocumentRecord, ExportDocumentsResult, ExportFormat, ExportProgress } from './types'
+import { ExportColumns, openExportFile } from './export-file'
+
+// Records read per page when streaming a collection or filter to disk
+export const EXPORT_PAGE_SIZE = 500
+
+export interface ExportTarget {
+  filePath: string
+  fileName: string
+  format: ExportFormat
+}
+
+export function matchingIds(records: DocumentRecord[], idContains?: string): DocumentRecord[] {
+  const needle = idContains?.trim().toLowerCase()
+  return needle ? records.filter(record => record.id.toLowerCase().includes(needle)) : records
+}
+
+export async function* filterPagesById(
+  pages: AsyncIterable<DocumentRecord[]>,
+  idContains?: string
+): AsyncGenerator<DocumentRecord[]> {
+  for await (const page of pages) {
+    const matches = matchingIds(page, idContains)
+    if (matches.length > 0) yield matches
+  }
+}
+
+function progressMessage(processedRows: number, totalRows: number | null): string {
+  return totalRows === null
+    ? `Exporting rows... ${processedRows}`
+    : `Exporting rows... ${processedRows}/${totalRows}`
+}
+
+/**
+ * Write pages of records to the target file as they arrive. A cancelled or
+ * failed export deletes the partial file rather than leave a truncated one.
+ */
+export async function exportDocuments(
+  pages: AsyncIterable<DocumentRecord[]> | Iterable<DocumentRecord[]>,
+  totalRows: number | null,
+  target: ExportTarget,
+  columns: ExportColumns,
+  onProgress: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+): Promise<ExportDocumentsResult> {
+  let processedRows = 0
+  const writer = await openExportFile(target.filePath, target.format, columns)
+  const discard = async () => {
+    await writer.abort().catch(() => {})
+    await unlink(target.filePath).catch(() => {})
+  }
+
+  try {
+    onProgress({ phase: 'exporting', processedRows, totalRows, message: progressMessage(processedRows, totalRows) })
+    for await (const page of pages) {
+      if (signal?.aborted) {
+        await discard()
+        onProgress({
+          phase: 'cancelled',
+          processedRows,
+          totalRows,
+          message: `Cancelled after ${processedRows} rows`,
+        })
+        return { success: false, fileName: target.fileName, exportedRows: 0, error: 'Operation cancelled' }
+      }
+      await writer.write(page)
+      processedRows += page.length
+      onProgress({ phase: 'exporting', processedRows, totalRows, message: progressMessage(processedRows, totalRows) })
+    }
+    await writer.close()
+
+    onProgress({ phase: 'complete', processedRows, totalRows: processedRows, message: `Exported ${processedRows} rows` })
+    return { success: true, fileName: target.fileName, exportedRows: processedRows }
+  } catch (error) {
+    await discard()
+    const message = error instanceof Error ? error.message : String(error)
+    onProgress({ phase: 'error', processedRows, totalRows, message })
+    return { success: false, fileName: target.fileName, exportedRows: 0, error: message }
+  }
+}
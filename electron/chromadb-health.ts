@@ -0,0 +1,289 @@
+import { createHash } from 'node:crypto'
+import type { Collection } from 'chromadb'
+import {
+  CollectionHealthReport,
+  HealthFinding,
+  HealthScanProgress,
+  MAX_HEALTH_FINDING_IDS,
+  NearDuplicatePair,
+  NormHistogramBin,
+} from './types'
+
+const SCAN_BATCH_SIZE = 200
+const HISTOGRAM_BINS = 20
+// How far a norm may drift from 1 before a vector counts as unnormalized
+const NORM_TOLERANCE = 1e-3
+// Pairs kept for display; the finding still counts every pair
+const MAX_NEAR_DUPLICATE_PAIRS = 200
+
+export interface HealthRecord {
+  id: string
+  document: string | null
+  embedding: number[] | null
+}
+
+type Space = CollectionHealthReport['space']
+
+// Affected IDs for one finding: the first few for linking, the total for display
+class IdSample {
+  readonly ids: string[] = []
+  count = 0
+
+  add(id: string) {
+    this.count++
+    if (this.ids.length < MAX_HEALTH_FINDING_IDS) this.ids.push(id)
+  }
+
+  addAll(ids: string[]) {
+    ids.forEach(id => this.add(id))
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+function histogram(values: number[], min: number, max: number): NormHistogramBin[] {
+  const bins = max > min ? HISTOGRAM_BINS : 1
+  const width = (max - min) / bins
+  const counts = new Array<number>(bins).fill(0)
+  for (const value of values) {
+    counts[width > 0 ? Math.min(bins - 1, Math.floor((value - min) / width)) : 0]++
+  }
+  return counts.map((count, i) => ({ start: min + i * width, end: i === bins - 1 ? max : min + (i + 1) * width, count }))
+}
+
+/**
+ * Running tallies for a health scan. Records arrive batch by batch and the
+ * report can be built at any point, so a cancelled scan still reports what it
+ * has read.
+ */
+export class HealthAccumulator {
+  private scanned = 0
+  private readonly idCounts = new Map<string, number>()
+  private readonly textIds = new Map<string, string[]>()
+  private readonly dimensionIds = new Map<number, IdSample>()
+  private readonly norms: number[] = []
+  private readonly missing = new IdSample()
+  private readonly nan = new IdSample()
+  private readonly zero = new IdSample()
+  private readonly unnormalized = new IdSample()
+  private readonly pairs = new Map<string, NearDuplicatePair>()
+
+  constructor(private readonly space: Space) {}
+
+  get scannedRecords(): number {
+    return this.scanned
+  }
+
+  /** Vectors worth a nearest-neighbour lookup: present, finite and non-zero. */
+  addRecords(records: HealthRecord[]): HealthRecord[] {
+    const comparable: HealthRecord[] = []
+    for (const record of records) {
+      this.scanned++
+      this.idCounts.set(record.id, (this.idCounts.get(record.id) ?? 0) + 1)
+
+      if (record.document) {
+        const hash = createHash('sha1').update(record.document).digest('hex')
+        const ids = this.textIds.get(hash)
+        if (ids) ids.push(record.id)
+        else this.textIds.set(hash, [record.id])
+      }
+
+      const embedding = record.embedding
+      if (!embedding || embedding.length === 0) {
+        this.missing.add(record.id)
+        continue
+      }
+      const sample = this.dimensionIds.get(embedding.length) ?? new IdSample()
+      sample.add(record.id)
+      this.dimensionIds.set(embedding.length, sample)
+
+      if (embedding.some(value => !Number.isFinite(value))) {
+        this.nan.add(record.id)
+        continue
+      }
+      const norm = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0))
+      this.norms.push(norm)
+      if (norm === 0) {
+        this.zero.add(record.id)
+        continue
+      }
+      if (this.space === 'cosine' && Math.abs(norm - 1) > NORM_TOLERANCE) {
+        this.unnormalized.add(record.id)
+      }
+      comparable.push(record)
+    }
+    return comparable
+  }
+
+  addNearDuplicate(a: string, b: string, similarity: number) {
+    const ids: [string, string] = a < b ? [a, b] : [b, a]
+    const key = ids.join('\u0000')
+    if (!this.pairs.has(key)) this.pairs.set(key, { ids, similarity })
+  }
+
+  report(collectionName: string, nearDuplicateThreshold: number, partial: boolean): CollectionHealthReport {
+    const findings: HealthFinding[] = []
+    const push = (kind: HealthFinding['kind'], severity: HealthFinding['severity'], sample: IdSample, message: string) => {
+      if (sample.count > 0) findings.push({ kind, severity, message, ids: sample.ids, count: sample.count })
+    }
+
+    let dimension: number | null = null
+    let dimensionCount = 0
+    for (const [length, sample] of this.dimensionIds) {
+      if (sample.count > dimensionCount) {
+        dimension = length
+        dimensionCount = sample.count
+      }
+    }
+    const mismatched = new IdSample()
+    for (const [length, sample] of this.dimensionIds) {
+      if (length === dimension) continue
+      mismatched.addAll(sample.ids)
+      mismatched.count += sample.count - sample.ids.length
+    }
+
+    const duplicateIds = new IdSample()
+    for (const [id, count] of this.idCounts) {
+      if (count > 1) duplicateIds.add(id)
+    }
+    const duplicateTexts = new IdSample()
+    let duplicateTextGroups = 0
+    for (const ids of this.textIds.values()) {
+      if (ids.length < 2) continue
+      duplicateTextGroups++
+      duplicateTexts.addAll(ids)
+    }
+    const pairs = [...this.pairs.values()].sort((a, b) => b.similarity - a.similarity)
+    const nearDuplicateIds = new IdSample()
+    new Set(pairs.flatMap(pair => pair.ids)).forEach(id => nearDuplicateIds.add(id))
+
+    push('missing-embedding', 'error', this.missing, `${this.missing.count} records have no embedding`)
+    push('dimension-mismatch', 'error', mismatched, `${mismatched.count} vectors are not ${dimension}-dimensional`)
+    push('nan-vector', 'error', this.nan, `${this.nan.count} vectors contain NaN or infinite values`)
+    push('zero-vector', 'error', this.zero, `${this.zero.count} vectors are all zeros`)
+    push('duplicate-id', 'error', duplicateIds, `${duplicateIds.count} IDs were returned more than once`)
+    push('unnormalized-vector', 'warning', this.unnormalized, `${this.unnormalized.count} vectors in a cosine collection are not unit length`)
+    push('duplicate-text', 'warning', duplicateTexts, `${duplicateTexts.count} records share their text with another record (${duplicateTextGroups} groups)`)
+    push('near-duplicate', 'warning', nearDuplicateIds, `${pairs.length} record pairs have cosine similarity ≥ ${nearDuplicateThreshold}`)
+
+    let norms: CollectionHealthReport['norms'] = null
+    if (this.norms.length > 0) {
+      let min = Infinity
+      let max = -Infinity
+      let sum = 0
+      for (const norm of this.norms) {
+        min = Math.min(min, norm)
+        max = Math.max(max, norm)
+        sum += norm
+      }
+      const mean = sum / this.norms.length
+      const variance = this.norms.reduce((total, norm) => total + (norm - mean) ** 2, 0) / this.norms.length
+      norms = { min, max, mean, stddev: Math.sqrt(variance), histogram: histogram(this.norms, min, max) }
+    }
+
+    return {
+      collectionName,
+      space: this.space,
+      scannedRecords: this.scanned,
+      dimension,
+      dimensionCounts: Object.fromEntries([...this.dimensionIds].map(([length, sample]) => [String(length), sample.count])),
+      norms,
+      nearDuplicateThreshold,
+      nearDuplicates: pairs.slice(0, MAX_NEAR_DUPLICATE_PAIRS),
+      findings,
+      partial,
+    }
+  }
+}
+
+export function collectionSpace(collection: Collection): Space {
+  const configuration = collection.configuration as { hnsw?: { space?: unknown } } | undefined
+  const space = configuration?.hnsw?.space ?? collection.metadata?.['hnsw:space']
+  return space === 'cosine' || space === 'ip' ? space : 'l2'
+}
+
+/**
+ * Read the whole collection in batches and build a health report. Each batch's
+ * vectors are also sent back as queries, so the index finds every record's
+ * nearest neighbour without comparing all pairs here.
+ */
+export async function scanCollectionHealth(
+  collection: Collection,
+  nearDuplicateThreshold: number,
+  onProgress: (progress: HealthScanProgress) => void,
+  signal?: AbortSignal
+): Promise<CollectionHealthReport> {
+  const accumulator = new HealthAccumulator(collectionSpace(collection))
+  const totalRecords = await collection.count()
+
+  for (let offset = 0; offset < totalRecords; offset += SCAN_BATCH_SIZE) {
+    if (signal?.aborted) {
+      onProgress({
+        phase: 'cancelled',
+        totalRecords,
+        scannedRecords: accumulator.scannedRecords,
+        message: `Cancelled after ${accumulator.scannedRecords} of ${totalRecords} records`,
+      })
+      return accumulator.report(collection.name, nearDuplicateThreshold, true)
+    }
+
+    onProgress({
+      phase: 'scanning',
+      totalRecords,
+      scannedRecords: accumulator.scannedRecords,
+      message: `Scanning records... ${accumulator.scannedRecords}/${totalRecords}`,
+    })
+
+    const batch = await collection.get({
+      limit: SCAN_BATCH_SIZE,
+      offset,
+      include: ['documents', 'embeddings'],
+    })
+    const records = batch.ids.map((id, i) => ({
+      id,
+      document: batch.documents?.[i] ?? null,
+      embedding: batch.embeddings?.[i] ?? null,
+    }))
+    if (records.length === 0) break
+
+    // Chroma rejects queries whose length differs from the index, so only
+    // vectors matching the batch's first comparable one are looked up
+    const comparable = accumulator.addRecords(records)
+    const queryRecords = comparable.filter(record => record.embedding!.length === comparable[0].embedding!.length)
+    if (queryRecords.length > 0) {
+      const neighbors = await collection.query({
+        queryEmbeddings: queryRecords.map(record => record.embedding!),
+        nResults: 2,
+        include: ['embeddings'],
+      })
+      queryRecords.forEach((record, i) => {
+        const ids = neighbors.ids[i] ?? []
+        const position = ids.findIndex(id => id !== record.id)
+        const neighborEmbedding = position === -1 ? null : neighbors.embeddings?.[i]?.[position]
+        if (!neighborEmbedding) return
+        const similarity = cosineSimilarity(record.embedding!, neighborEmbedding)
+        if (similarity >= nearDuplicateThreshold) {
+          accumulator.addNearDuplicate(record.id, ids[position], similarity)
+        }
+      })
+    }
+  }
+
+  onProgress({
+    phase: 'complete',
+    totalRecords,
+    scannedRecords: accumulator.scannedRecords,
+    message: `Scanned ${accumulator.scannedRecords} records`,
+  })
+  return accumulator.report(collection.name, nearDuplicateThreshold, false)
+}
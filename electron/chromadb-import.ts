@@ -0,0 +1,189 @@
+import type { Collection, Metadata } from 'chromadb'
+import {
+  ImportDocumentsParams,
+  ImportDocumentsResult,
+  ImportProgress,
+  MAX_IMPORT_ERRORS,
+} from './types'
+import { ImportRecord, importRowId, mapImportRow } from './import-mapping'
+import { ChromaAddPayload, addToCollection, existingIds, upsertToCollection } from './chromadb-payloads'
+
+// IDs checked per lookup when the policy is to fail on collisions
+const CHECK_BATCH_SIZE = 500
+const MAX_LISTED_COLLISIONS = 5
+
+export type ImportRowBatches = () => AsyncIterable<Record<string, unknown>[]>
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function toPayload(records: ImportRecord[]): ChromaAddPayload {
+  const payload: ChromaAddPayload = { ids: records.map(record => record.id) }
+  if (records.some(record => record.document !== undefined)) {
+    payload.documents = records.map(record => record.document ?? null)
+  }
+  if (records.some(record => record.metadata)) {
+    payload.metadatas = records.map(record => (record.metadata ?? null) as Metadata | null)
+  }
+  if (records.some(record => record.embedding)) {
+    payload.embeddings = records.map(record => record.embedding ?? null)
+  }
+  return payload
+}
+
+/**
+ * Check every ID in the file before anything is written, so the 'fail' policy
+ * leaves the collection untouched. IDs repeated within the file count too.
+ * Blank IDs are left to the import, which reports those rows as errors.
+ */
+async function findCollisions(
+  collection: Collection,
+  readBatches: ImportRowBatches,
+  params: ImportDocumentsParams,
+  totalRows: number,
+  onProgress: (progress: ImportProgress) => void,
+  signal?: AbortSignal
+): Promise<string[] | null> {
+  const idColumn = params.mapping.idColumn
+  if (!idColumn) return []
+
+  const seen = new Set<string>()
+  const collisions = new Set<string>()
+  let pending: string[] = []
+  let checkedRows = 0
+  const checkPending = async () => {
+    const found = await existingIds(collection, pending)
+    found.forEach(id => collisions.add(id))
+    pending = []
+  }
+
+  for await (const rows of readBatches()) {
+    if (signal?.aborted) return null
+    for (const row of rows) {
+      const id = importRowId(row, idColumn)
+      if (id === null) continue
+      if (seen.has(id)) {
+        collisions.add(id)
+        continue
+      }
+      seen.add(id)
+      pending.push(id)
+    }
+    checkedRows += rows.length
+    if (pending.length >= CHECK_BATCH_SIZE) await checkPending()
+    onProgress({
+      phase: 'checking',
+      totalRows,
+      processedRows: checkedRows,
+      message: `Checking IDs... ${checkedRows}/${totalRows}`,
+    })
+  }
+  await checkPending()
+  return [...collisions]
+}
+
+/**
+ * Map file rows to records and write them in batches. Collisions with stored
+ * IDs, or with IDs earlier in the file, are skipped, overwritten (upsert) or
+ * rejected up front, per `params.onCollision`. Rows that fail to map or write
+ * are reported and the import carries on.
+ */
+export async function importDocuments(
+  collection: Collection,
+  readBatches: ImportRowBatches,
+  totalRows: number,
+  params: ImportDocumentsParams,
+  onProgress: (progress: ImportProgress) => void,
+  signal?: AbortSignal
+): Promise<ImportDocumentsResult> {
+  const result: ImportDocumentsResult = { success: false, totalRows, importedRows: 0, skippedRows: 0, failedRows: 0, errors: [] }
+  const addError = (message: string) => {
+    if (result.errors.length < MAX_IMPORT_ERRORS) result.errors.push(message)
+  }
+  const cancel = (processedRows: number): ImportDocumentsResult => {
+    onProgress({
+      phase: 'cancelled',
+      totalRows,
+      processedRows,
+      message: `Cancelled after ${processedRows} of ${totalRows} rows`,
+    })
+    return { ...result, error: 'Operation cancelled' }
+  }
+
+  try {
+    if (params.onCollision === 'fail') {
+      const collisions = await findCollisions(collection, readBatches, params, totalRows, onProgress, signal)
+      if (!collisions) return cancel(0)
+      if (collisions.length > 0) {
+        const listed = collisions.slice(0, MAX_LISTED_COLLISIONS).map(id => `"${id}"`).join(', ')
+        const more = collisions.length > MAX_LISTED_COLLISIONS ? ` and ${collisions.length - MAX_LISTED_COLLISIONS} more` : ''
+        throw new Error(`${collisions.length} IDs already exist or repeat in the file: ${listed}${more}. Nothing was imported.`)
+      }
+    }
+
+    const seen = new Set<string>()
+    let processedRows = 0
+    for await (const rows of readBatches()) {
+      if (signal?.aborted) return cancel(processedRows)
+      onProgress({
+        phase: 'importing',
+        totalRows,
+        processedRows,
+        message: `Importing rows... ${processedRows}/${totalRows}`,
+      })
+
+      // Keyed by ID: a repeat within the batch replaces the earlier row when
+      // overwriting and is dropped otherwise
+      const records = new Map<string, ImportRecord>()
+      rows.forEach((row, index) => {
+        const rowNumber = processedRows + index + 1
+        let record: ImportRecord
+        try {
+          record = mapImportRow(row, params.mapping)
+        } catch (error) {
+          result.failedRows++
+          addError(`Row ${rowNumber}: ${errorMessage(error)}`)
+          return
+        }
+        if (seen.has(record.id) && params.onCollision !== 'overwrite') {
+          result.skippedRows++
+          return
+        }
+        seen.add(record.id)
+        records.set(record.id, record)
+      })
+
+      let batch = [...records.values()]
+      try {
+        if (params.onCollision === 'skip') {
+          const existing = await existingIds(collection, batch.map(record => record.id))
+          result.skippedRows += existing.size
+          batch = batch.filter(record => !existing.has(record.id))
+        }
+        if (batch.length > 0) {
+          const payload = toPayload(batch)
+          if (params.onCollision === 'overwrite') await upsertToCollection(collection, payload)
+          else await addToCollection(collection, payload)
+          result.importedRows += batch.length
+        }
+      } catch (error) {
+        result.failedRows += batch.length
+        addError(`Rows ${processedRows + 1}-${processedRows + rows.length}: ${errorMessage(error)}`)
+      }
+      processedRows += rows.length
+    }
+
+    onProgress({
+      phase: 'complete',
+      totalRows,
+      processedRows,
+      message: `Imported ${result.importedRows} rows`,
+    })
+    return { ...result, success: true }
+  } catch (error) {
+    const message = errorMessage(error)
+    onProgress({ phase: 'error', totalRows, processedRows: 0, message })
+    return { ...result, error: message }
+  }
+}
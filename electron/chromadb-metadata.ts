@@ -71,3 +71,52 @@ export function buildCollectionMetadata(metadata?: JsonRecord, hnsw?: HNSWConfig
   return Object.keys(collectionMetadata).length > 0 ? collectionMetadata as Metadata : undefined
 }
 
+
+// Collection metadata keys that hold HNSW settings, by HNSWConfig field
+const HNSW_METADATA_KEYS: Record<keyof HNSWConfig, string> = {
+  space: 'hnsw:space',
+  efConstruction: 'hnsw:construction_ef',
+  efSearch: 'hnsw:search_ef',
+  maxNeighbors: 'hnsw:M',
+  numThreads: 'hnsw:num_threads',
+  batchSize: 'hnsw:batch_size',
+  syncThreshold: 'hnsw:sync_threshold',
+  resizeFactor: 'hnsw:resize_factor',
+}
+
+// The same settings as named in a collection's configuration
+const HNSW_CONFIGURATION_KEYS: Record<keyof HNSWConfig, string> = {
+  space: 'space',
+  efConstruction: 'ef_construction',
+  efSearch: 'ef_search',
+  maxNeighbors: 'max_neighbors',
+  numThreads: 'num_threads',
+  batchSize: 'batch_size',
+  syncThreshold: 'sync_threshold',
+  resizeFactor: 'resize_factor',
+}
+
+/**
+ * The inverse of buildCollectionMetadata: HNSW settings of an existing
+ * collection, preferring its configuration over legacy `hnsw:` metadata keys.
+ */
+export function extractHnswConfig(collection: Collection): HNSWConfig {
+  const configured = (collection.configuration as { hnsw?: unknown } | undefined)?.hnsw
+  const fromConfiguration = isRecord(configured) ? configured : {}
+  const metadata = collection.metadata ?? {}
+  const hnsw: JsonRecord = {}
+
+  for (const field of Object.keys(HNSW_METADATA_KEYS) as (keyof HNSWConfig)[]) {
+    const value = fromConfiguration[HNSW_CONFIGURATION_KEYS[field]] ?? metadata[HNSW_METADATA_KEYS[field]]
+    if (field === 'space' ? value === 'l2' || value === 'cosine' || value === 'ip' : typeof value === 'number') {
+      hnsw[field] = value
+    }
+  }
+  return hnsw as HNSWConfig
+}
+
+/** Collection metadata without the `hnsw:` keys buildCollectionMetadata adds back. */
+export function userCollectionMetadata(collection: Collection): JsonRecord {
+  const hnswKeys = new Set(Object.values(HNSW_METADATA_KEYS))
+  return Object.fromEntries(Object.entries(collection.metadata ?? {}).filter(([key]) => !hnswKeys.has(key)))
+}
@@ -1,4 +1,5 @@
 import { Collection, Metadata } from 'chromadb'
+import type { DocumentRecord } from './types'
 
 export interface ChromaAddPayload {
   ids: string[]
@@ -11,3 +12,30 @@ export async function addToCollection(collection: Collection, payload: ChromaAdd
   await collection.add(payload as Parameters<Collection['add']>[0])
 }
 
+export async function upsertToCollection(collection: Collection, payload: ChromaAddPayload): Promise<void> {
+  await collection.upsert(payload as Parameters<Collection['upsert']>[0])
+}
+
+// The subset of `ids` already stored in the collection
+export async function existingIds(collection: Collection, ids: string[]): Promise<Set<string>> {
+  if (ids.length === 0) return new Set()
+  const result = await collection.get({ ids, include: [] })
+  return new Set(result.ids)
+}
+
+/**
+ * Records read from one collection as a payload for another. Embeddings go
+ * along only when every record has one; otherwise the target collection's
+ * embedding function computes them.
+ */
+export function recordsToPayload(records: DocumentRecord[]): ChromaAddPayload {
+  const payload: ChromaAddPayload = {
+    ids: records.map(record => record.id),
+    documents: records.map(record => record.document),
+    metadatas: records.map(record => record.metadata as Metadata | null),
+  }
+  if (records.every(record => record.embedding)) {
+    payload.embeddings = records.map(record => record.embedding)
+  }
+  return payload
+}
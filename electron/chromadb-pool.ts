@@ -0,0 +1,282 @@
+import type { Collection } from 'chromadb'
+import { ChromaDBService } from './chromadb-service'
+import { connectionStore } from './connection-store'
+import { diffCollections } from './collection-diff'
+import { LocalChromaServer } from './local-chroma-server'
+import { SshTunnel } from './ssh-tunnel'
+import {
+  ApplyDiffParams,
+  ApplyDiffResult,
+  CollectionDiff,
+  CollectionRef,
+  ConnectionProfile,
+  CopyCollectionParams,
+  CopyCollectionResult,
+  CopyDocumentsParams,
+  CopyDocumentsResult,
+  CopyProgress,
+  DiffCollectionsParams,
+  DiffProgress,
+  EmbeddingFunctionOverride,
+  LocalServerLogLine,
+} from './types'
+
+const NOT_CONNECTED = 'Not connected to ChromaDB'
+// Another profile is only connected while a window for it is open
+const CONNECTION_CLOSED = 'That connection is closed. Open a window for it and try again.'
+
+// Refusing a change on a read-only profile is expected, so it isn't reported as a crash
+export class ReadOnlyProfileError extends Error {
+  constructor(profileName: string) {
+    super(`"${profileName}" is read-only. Turn off read-only in its connection settings to make changes.`)
+    this.name = 'ReadOnlyProfileError'
+  }
+}
+
+interface PooledConnection {
+  service: ChromaDBService
+  refCount: number
+  tunnel: SshTunnel | null
+  // The server the app runs for a local folder profile
+  localServer: LocalChromaServer | null
+}
+
+/**
+ * Connection pool for managing multiple ChromaDB connections by profile
+ */
+class ChromaDBConnectionPool {
+  private connections: Map<string, PooledConnection> = new Map()
+  private localServerLogListener: ((profileId: string, line: LocalServerLogLine) => void) | null = null
+
+  /**
+   * Receive local server output for every profile as it is written
+   */
+  setLocalServerLogListener(listener: (profileId: string, line: LocalServerLogLine) => void): void {
+    this.localServerLogListener = listener
+  }
+
+  /**
+   * Connect to a profile (or increment refCount if already connected)
+   */
+  async connect(profileId: string, profile: ConnectionProfile): Promise<ChromaDBService> {
+    const existing = this.connections.get(profileId)
+
+    if (existing) {
+      // Connection already exists, increment reference count
+      existing.refCount++
+      console.log(`[ChromaDB Pool] Reusing connection for profile ${profileId} (refCount: ${existing.refCount})`)
+      return existing.service
+    }
+
+    // Create new connection
+    const service = new ChromaDBService((type, modelName, texts) => {
+      connectionStore.recordEmbeddingUsage(profileId, type, modelName, texts)
+    })
+    // The tunnel and local server live as long as the pooled connection, not the request
+    const localServer = profile.connectionType === 'local-folder'
+      ? new LocalChromaServer(profile.url, line => this.localServerLogListener?.(profileId, line))
+      : null
+    const tunnel = profile.sshTunnel && !localServer && profile.connectionType !== 'cloud'
+      ? new SshTunnel(profile.sshTunnel, profile.url)
+      : null
+    try {
+      const endpointUrl = localServer ? await localServer.start() : tunnel ? await tunnel.open() : undefined
+      await service.connect(profile, endpointUrl)
+    } catch (error) {
+      tunnel?.close()
+      localServer?.stop()
+      throw error
+    }
+
+    this.connections.set(profileId, {
+      service,
+      refCount: 1,
+      tunnel,
+      localServer,
+    })
+
+    console.log(`[ChromaDB Pool] Created new connection for profile ${profileId}`)
+    return service
+  }
+
+  /**
+   * Decrement refCount for a profile connection
+   * Disconnects and removes if refCount reaches 0
+   */
+  disconnect(profileId: string): void {
+    const connection = this.connections.get(profileId)
+
+    if (!connection) {
+      console.warn(`[ChromaDB Pool] Attempted to disconnect unknown profile ${profileId}`)
+      return
+    }
+
+    connection.refCount--
+    console.log(`[ChromaDB Pool] Decremented refCount for profile ${profileId} (refCount: ${connection.refCount})`)
+
+    if (connection.refCount <= 0) {
+      this.closeConnection(profileId)
+    }
+  }
+
+  /**
+   * Close a profile's connection whatever its refCount, when no window is
+   * left to use it
+   */
+  closeConnection(profileId: string): void {
+    const connection = this.connections.get(profileId)
+    if (!connection) return
+    connection.service.disconnect()
+    connection.tunnel?.close()
+    connection.localServer?.stop()
+    this.connections.delete(profileId)
+    console.log(`[ChromaDB Pool] Disconnected and removed profile ${profileId}`)
+  }
+
+  /**
+   * Get an existing connection (without incrementing refCount)
+   */
+  getConnection(profileId: string): ChromaDBService | null {
+    return this.connections.get(profileId)?.service || null
+  }
+
+  /**
+   * Why the profile's SSH tunnel or local server is down, while it recovers
+   */
+  getConnectionError(profileId: string): string | null {
+    const connection = this.connections.get(profileId)
+    return connection?.tunnel?.getError() ?? connection?.localServer?.getError() ?? null
+  }
+
+  /**
+   * Output of the profile's local server so far; empty for other profiles
+   */
+  getLocalServerLog(profileId: string): LocalServerLogLine[] {
+    return this.connections.get(profileId)?.localServer?.getLog() ?? []
+  }
+
+  /**
+   * Close every connection, ending the processes behind tunnels and local servers
+   */
+  disconnectAll(): void {
+    for (const profileId of [...this.connections.keys()]) {
+      this.closeConnection(profileId)
+    }
+  }
+
+  /**
+   * Whether the profile refuses changes. The saved profile decides, so
+   * turning read-only on applies to open windows without reconnecting.
+   */
+  isReadOnly(profileId: string): boolean {
+    return this.profileFor(profileId)?.readOnly ?? false
+  }
+
+  /**
+   * Throw a ReadOnlyProfileError before anything writes to a read-only profile
+   */
+  assertWritable(profileId: string): void {
+    const profile = this.profileFor(profileId)
+    if (profile?.readOnly) {
+      throw new ReadOnlyProfileError(profile.name)
+    }
+  }
+
+  /**
+   * Check if a profile is connected
+   */
+  isConnected(profileId: string): boolean {
+    return this.connections.has(profileId)
+  }
+
+  /**
+   * Get refCount for a profile
+   */
+  getRefCount(profileId: string): number {
+    return this.connections.get(profileId)?.refCount || 0
+  }
+
+  /**
+   * Copy a collection into the target profile's connection. The source is
+   * read from `params.sourceProfileId` when given, so a copy can stream pages
+   * from one server to another (local to cloud, staging to prod).
+   */
+  async copyCollection(
+    targetProfileId: string,
+    params: CopyCollectionParams,
+    embeddingOverride: EmbeddingFunctionOverride | null,
+    onProgress: (progress: CopyProgress) => void,
+    signal?: AbortSignal
+  ): Promise<CopyCollectionResult> {
+    this.assertWritable(targetProfileId)
+    const target = this.requireConnection(targetProfileId, NOT_CONNECTED)
+    const source = await this.requireConnection(params.sourceProfileId ?? targetProfileId, CONNECTION_CLOSED)
+      .openCollection(params.sourceCollectionName)
+    return target.copyCollection(params, source, embeddingOverride, onProgress, signal)
+  }
+
+  /**
+   * Copy records from a collection on `params.sourceProfileId` into an
+   * existing collection on the target profile's connection.
+   */
+  async copyDocuments(
+    targetProfileId: string,
+    params: CopyDocumentsParams,
+    embeddingOverride: EmbeddingFunctionOverride | null,
+    onProgress: (progress: CopyProgress) => void,
+    signal?: AbortSignal
+  ): Promise<CopyDocumentsResult> {
+    this.assertWritable(targetProfileId)
+    const target = this.requireConnection(targetProfileId, NOT_CONNECTED)
+    const source = await this.requireConnection(params.sourceProfileId, CONNECTION_CLOSED)
+      .openCollection(params.sourceCollectionName)
+    return target.copyDocumentsFrom(source, params, embeddingOverride, onProgress, signal)
+  }
+
+  /**
+   * Compare two collections, on the same connection or on two different ones.
+   */
+  async diffCollections(
+    params: DiffCollectionsParams,
+    onProgress: (progress: DiffProgress) => void,
+    signal?: AbortSignal
+  ): Promise<CollectionDiff> {
+    const [a, b] = await Promise.all([this.openCollection(params.a), this.openCollection(params.b)])
+    return diffCollections(a, b, params, onProgress, signal)
+  }
+
+  /**
+   * Apply chosen differences from A to B through B's service.
+   */
+  async applyCollectionDiff(
+    params: ApplyDiffParams,
+    onProgress: (progress: DiffProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ApplyDiffResult> {
+    this.assertWritable(params.b.profileId)
+    const source = await this.openCollection(params.a)
+    const target = this.requireConnection(params.b.profileId, CONNECTION_CLOSED)
+    return target.applyCollectionDiff(params.b.collectionName, source, params, onProgress, signal)
+  }
+
+  private profileFor(profileId: string): ConnectionProfile | undefined {
+    return connectionStore.getProfiles().find(p => p.id === profileId)
+      ?? this.getConnection(profileId)?.getProfile()
+      ?? undefined
+  }
+
+  private openCollection(ref: CollectionRef): Promise<Collection> {
+    return this.requireConnection(ref.profileId, CONNECTION_CLOSED).openCollection(ref.collectionName)
+  }
+
+  private requireConnection(profileId: string, notConnectedMessage: string): ChromaDBService {
+    const service = this.getConnection(profileId)
+    if (!service) {
+      throw new Error(notConnectedMessage)
+    }
+    return service
+  }
+}
+
+// Export singleton connection pool
+export const chromaDBConnectionPool = new ChromaDBConnectionPool()
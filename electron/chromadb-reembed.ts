@@ -0,0 +1,226 @@
+import { ChromaNotFoundError, type ChromaClient, type CloudClient, type Collection } from 'chromadb'
+import {
+  CollectionInfo,
+  EmbeddingFunctionOverride,
+  EmbeddingFunctionType,
+  FinishReembedParams,
+  ReembedProgress,
+  ReembedResult,
+  reembedCollectionNames,
+  WRITE_BATCH_SIZE,
+} from './types'
+import { EmbeddingFunctionFactory } from './embedding-function-factory'
+import {
+  buildCollectionMetadata,
+  buildEfConfigFromOverride,
+  extractEmbeddingFunction,
+  extractHnswConfig,
+  userCollectionMetadata,
+} from './chromadb-metadata'
+import { recordsToPayload, upsertToCollection } from './chromadb-payloads'
+import { getResultToDocuments, readDocumentPages } from './chromadb-search'
+import { compareRecords } from './collection-diff'
+
+// Texts per embedding request for providers whose limits are known; the rest
+// use the write batch size. Local models get small batches so progress moves.
+const PROVIDER_BATCH_SIZES: Partial<Record<EmbeddingFunctionType, number>> = {
+  default: 32,
+  'sentence-transformer': 32,
+  ollama: 32,
+  openai: 100,
+  cohere: 96,
+  'google-gemini': 100,
+  voyageai: 128,
+}
+
+export function reembedBatchSize(efName: string): number {
+  return PROVIDER_BATCH_SIZES[efName as EmbeddingFunctionType] ?? WRITE_BATCH_SIZE
+}
+
+async function findCollection(client: ChromaClient | CloudClient, name: string): Promise<Collection | null> {
+  try {
+    return await client.getCollection({ name })
+  } catch (error) {
+    if (error instanceof ChromaNotFoundError || (error instanceof Error && /does not exist|not found/i.test(error.message))) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Give `incoming` the name `name`, moving `outgoing` to `outgoingName`.
+ * Chroma renames one collection at a time, so when the second rename fails
+ * the first is undone rather than leaving `name` pointing at nothing.
+ */
+async function swapNames(outgoing: Collection, incoming: Collection, name: string, outgoingName: string): Promise<void> {
+  await outgoing.modify({ name: outgoingName })
+  try {
+    await incoming.modify({ name })
+  } catch (error) {
+    await outgoing.modify({ name })
+    throw error
+  }
+}
+
+function sameFunction(a: CollectionInfo['embeddingFunction'], b: CollectionInfo['embeddingFunction']): boolean {
+  return a?.name === b?.name && a?.config?.model_name === b?.config?.model_name
+}
+
+/**
+ * Remove records from `shadow` whose IDs are not in `keep`, such as ones
+ * deleted from the source while a re-embed was paused.
+ */
+async function removeOthers(shadow: Collection, keep: Set<string>): Promise<void> {
+  const stale: string[] = []
+  for await (const page of readDocumentPages(shadow, { include: [] }, WRITE_BATCH_SIZE)) {
+    stale.push(...page.filter(record => !keep.has(record.id)).map(record => record.id))
+  }
+  for (let start = 0; start < stale.length; start += WRITE_BATCH_SIZE) {
+    await shadow.delete({ ids: stale.slice(start, start + WRITE_BATCH_SIZE) })
+  }
+}
+
+/**
+ * Re-embed `collectionName` with another embedding function under the same
+ * name. Records go into a shadow collection first; a run that is cancelled
+ * or crashes leaves the shadow behind, and the next run resumes by skipping
+ * the records it already holds unchanged. Records edited or deleted in the
+ * source meanwhile are embedded again or dropped. Once the counts match, the
+ * shadow takes the name and the original stays as a backup for finishReembed
+ * to resolve.
+ */
+export async function reembedCollection(
+  client: ChromaClient | CloudClient,
+  efFactory: EmbeddingFunctionFactory | null,
+  collectionName: string,
+  override: EmbeddingFunctionOverride | null,
+  onProgress: (progress: ReembedProgress) => void,
+  signal?: AbortSignal
+): Promise<ReembedResult> {
+  const names = reembedCollectionNames(collectionName)
+  let totalDocuments = 0
+  let processedDocuments = 0
+  let embeddedDocuments = 0
+  const partial = () => ({ totalDocuments, embeddedDocuments, resumedDocuments: processedDocuments - embeddedDocuments })
+
+  try {
+    onProgress({ phase: 'preparing', totalDocuments, processedDocuments, message: 'Preparing...' })
+    if (await findCollection(client, names.backup)) {
+      throw new Error(`"${names.backup}" from an earlier re-embed still exists. Keep or restore it first.`)
+    }
+
+    const source = await client.getCollection({ name: collectionName })
+    const existingShadow = await findCollection(client, names.shadow)
+    const shadowConfig = existingShadow ? extractEmbeddingFunction(existingShadow) : null
+    const efConfig = override ? buildEfConfigFromOverride(override) : shadowConfig
+    if (!efConfig) throw new Error('Choose an embedding function to re-embed with')
+    // Mixing two models' vectors in one collection would make it unsearchable
+    if (shadowConfig?.type === 'known' && !sameFunction(shadowConfig, efConfig)) {
+      throw new Error(`An interrupted re-embed with ${shadowConfig.name} exists. Resume it with the same function or discard "${names.shadow}".`)
+    }
+
+    const embeddingFunction = await efFactory?.getEmbeddingFunction(names.shadow, efConfig)
+    if (!embeddingFunction) throw new Error(`Could not create the ${efConfig.name} embedding function`)
+    const shadow = existingShadow
+      ? await client.getCollection({ name: names.shadow, embeddingFunction })
+      : await client.createCollection({
+          name: names.shadow,
+          embeddingFunction,
+          metadata: buildCollectionMetadata(userCollectionMetadata(source), extractHnswConfig(source)),
+        })
+
+    totalDocuments = await source.count()
+    const sourceIds = new Set<string>()
+    const pages = readDocumentPages(source, { include: ['documents', 'metadatas'] }, reembedBatchSize(efConfig.name))
+    for await (const batch of pages) {
+      if (signal?.aborted) {
+        onProgress({
+          phase: 'cancelled',
+          totalDocuments,
+          processedDocuments,
+          message: `Paused after ${processedDocuments} of ${totalDocuments} documents`,
+        })
+        return { success: false, ...partial(), error: 'Operation cancelled' }
+      }
+
+      batch.forEach(record => sourceIds.add(record.id))
+      const held = new Map(getResultToDocuments(
+        await shadow.get({ ids: batch.map(record => record.id), include: ['documents', 'metadatas'] })
+      ).map(record => [record.id, record]))
+      const pending = batch.filter(record => {
+        const heldRecord = held.get(record.id)
+        return !heldRecord || compareRecords(record, heldRecord, null).length > 0
+      })
+      const withoutText = pending.find(record => !record.document)
+      if (withoutText) throw new Error(`Record "${withoutText.id}" has no document text to embed`)
+      if (pending.length > 0) await upsertToCollection(shadow, recordsToPayload(pending))
+
+      processedDocuments += batch.length
+      embeddedDocuments += pending.length
+      onProgress({
+        phase: 'embedding',
+        totalDocuments,
+        processedDocuments,
+        message: `Embedding documents... ${processedDocuments}/${totalDocuments}`,
+      })
+    }
+
+    onProgress({ phase: 'verifying', totalDocuments, processedDocuments, message: 'Verifying counts...' })
+    if (existingShadow) await removeOthers(shadow, sourceIds)
+    const [sourceCount, shadowCount] = await Promise.all([source.count(), shadow.count()])
+    if (sourceCount !== shadowCount) {
+      throw new Error(`"${names.shadow}" has ${shadowCount} records but "${collectionName}" has ${sourceCount}. Run again to resume.`)
+    }
+
+    onProgress({ phase: 'swapping', totalDocuments, processedDocuments, message: 'Swapping collections...' })
+    await swapNames(source, shadow, collectionName, names.backup)
+
+    onProgress({
+      phase: 'complete',
+      totalDocuments,
+      processedDocuments,
+      message: `Re-embedded ${sourceCount} documents`,
+    })
+    return { success: true, ...partial(), backupName: names.backup }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to re-embed collection'
+    onProgress({ phase: 'error', totalDocuments, processedDocuments, message })
+    return { success: false, ...partial(), error: message }
+  }
+}
+
+/**
+ * Resolve the backup a re-embed left: delete it, or swap it back in and
+ * delete the re-embedded collection instead. A swap cut short between its
+ * two renames leaves the re-embedded records under the shadow name and
+ * nothing under the original one; either choice finishes from there.
+ */
+export async function finishReembed(client: ChromaClient | CloudClient, params: FinishReembedParams): Promise<void> {
+  const names = reembedCollectionNames(params.collectionName)
+  const backup = await findCollection(client, names.backup)
+  if (!backup) throw new Error(`There is no re-embed backup of "${params.collectionName}"`)
+  const reembedded = await findCollection(client, params.collectionName)
+  const shadow = await findCollection(client, names.shadow)
+
+  if (params.keep === 'reembedded') {
+    if (!reembedded) {
+      if (!shadow) {
+        throw new Error(`Neither "${params.collectionName}" nor "${names.shadow}" exists, so "${names.backup}" was kept.`)
+      }
+      await shadow.modify({ name: params.collectionName })
+    }
+    await client.deleteCollection({ name: names.backup })
+    return
+  }
+  if (!reembedded) {
+    await backup.modify({ name: params.collectionName })
+    if (shadow) await client.deleteCollection({ name: names.shadow })
+    return
+  }
+  if (shadow) {
+    throw new Error(`"${names.shadow}" already exists. Delete it before restoring the original.`)
+  }
+  await swapNames(reembedded, backup, params.collectionName, names.shadow)
+  await client.deleteCollection({ name: names.shadow })
+}
@@ -0,0 +1,127 @@
+import type { Collection, Metadata } from 'chromadb'
+import {
+  MetadataKeyStats,
+  MetadataSchema,
+  MetadataValueCount,
+  MetadataValueType,
+} from './types'
+
+const SCAN_BATCH_SIZE = 500
+const TOP_VALUE_COUNT = 10
+// Per key; past this, distinct counts are a lower bound and top values approximate
+const MAX_TRACKED_VALUES = 5000
+
+interface KeyTally {
+  present: number
+  types: Partial<Record<MetadataValueType, number>>
+  values: Map<string, MetadataValueCount>
+  capped: boolean
+  min: number | null
+  max: number | null
+}
+
+export interface ScanWindow {
+  offset: number
+  limit: number
+}
+
+function valueType(value: unknown): MetadataValueType | null {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return typeof value as MetadataValueType
+  return null
+}
+
+/**
+ * Batches to read for a schema scan. A full scan walks the collection in
+ * order; a sample takes batches at even strides so it is not just the oldest
+ * records.
+ */
+export function scanWindows(totalRecords: number, sampleSize?: number): ScanWindow[] {
+  const windows: ScanWindow[] = []
+  if (sampleSize === undefined || sampleSize >= totalRecords) {
+    for (let offset = 0; offset < totalRecords; offset += SCAN_BATCH_SIZE) {
+      windows.push({ offset, limit: Math.min(SCAN_BATCH_SIZE, totalRecords - offset) })
+    }
+    return windows
+  }
+
+  const count = Math.ceil(sampleSize / SCAN_BATCH_SIZE)
+  const stride = totalRecords / count
+  for (let i = 0; i < count; i++) {
+    windows.push({
+      offset: Math.floor(i * stride),
+      limit: Math.min(SCAN_BATCH_SIZE, sampleSize - i * SCAN_BATCH_SIZE),
+    })
+  }
+  return windows
+}
+
+/** Running per-key tallies over metadata read batch by batch. */
+export class MetadataSchemaAccumulator {
+  private scanned = 0
+  private readonly keys = new Map<string, KeyTally>()
+
+  addMetadatas(metadatas: (Metadata | null | undefined)[]) {
+    for (const metadata of metadatas) {
+      this.scanned++
+      if (!metadata) continue
+      for (const [key, value] of Object.entries(metadata)) {
+        const type = valueType(value)
+        if (!type) continue
+        let tally = this.keys.get(key)
+        if (!tally) {
+          tally = { present: 0, types: {}, values: new Map(), capped: false, min: null, max: null }
+          this.keys.set(key, tally)
+        }
+        tally.present++
+        tally.types[type] = (tally.types[type] ?? 0) + 1
+        if (type === 'number') {
+          const number = value as number
+          tally.min = tally.min === null ? number : Math.min(tally.min, number)
+          tally.max = tally.max === null ? number : Math.max(tally.max, number)
+        }
+        if (type === 'string' || type === 'number' || type === 'boolean') {
+          this.countValue(tally, value as string | number | boolean)
+        }
+      }
+    }
+  }
+
+  // Typed key so 1, "1" and true stay distinct values
+  private countValue(tally: KeyTally, value: string | number | boolean) {
+    const valueKey = `${typeof value}:${value}`
+    const entry = tally.values.get(valueKey)
+    if (entry) entry.count++
+    else if (tally.values.size < MAX_TRACKED_VALUES) tally.values.set(valueKey, { value, count: 1 })
+    else tally.capped = true
+  }
+
+  schema(collectionName: string, totalRecords: number, sampled: boolean): MetadataSchema {
+    const keys: MetadataKeyStats[] = [...this.keys]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, tally]) => ({
+        key,
+        types: tally.types,
+        fillRate: this.scanned > 0 ? tally.present / this.scanned : 0,
+        distinctCount: tally.values.size,
+        distinctCapped: tally.capped,
+        topValues: [...tally.values.values()].sort((a, b) => b.count - a.count).slice(0, TOP_VALUE_COUNT),
+        min: tally.min,
+        max: tally.max,
+      }))
+    return { collectionName, totalRecords, scannedRecords: this.scanned, sampled, keys }
+  }
+}
+
+/** Infer the metadata schema from a sample of records, or all of them. */
+export async function inferMetadataSchema(collection: Collection, sampleSize?: number): Promise<MetadataSchema> {
+  const totalRecords = await collection.count()
+  const accumulator = new MetadataSchemaAccumulator()
+  for (const { offset, limit } of scanWindows(totalRecords, sampleSize)) {
+    const batch = await collection.get({ limit, offset, include: ['metadatas'] })
+    if (batch.ids.length === 0) break
+    accumulator.addMetadatas(batch.metadatas)
+  }
+  return accumulator.schema(collection.name, totalRecords, sampleSize !== undefined && sampleSize < totalRecords)
+}
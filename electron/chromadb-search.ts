@@ -0,0 +1,147 @@
+import type { Collection, GetResult, QueryResult } from 'chromadb'
+import { DocumentInclude, DocumentRecord, DocumentsPage, DocumentsPageParams, SearchDocumentsParams } from './types'
+
+const DEFAULT_INCLUDE: DocumentInclude[] = ['documents', 'metadatas']
+// Records a read without a query returns when the caller sets no limit
+const DEFAULT_READ_LIMIT = 300
+
+export function resolveInclude(include?: DocumentInclude[]): DocumentInclude[] {
+  return include ?? DEFAULT_INCLUDE
+}
+
+export function getResultToDocuments(results: GetResult): DocumentRecord[] {
+  return (results.ids || []).map((id, i) => ({
+    id,
+    document: results.documents?.[i] || null,
+    metadata: results.metadatas?.[i] || null,
+    embedding: results.embeddings?.[i] || null,
+  }))
+}
+
+// Query results are nested per query text; we only ever send one query.
+export function queryResultToDocuments(results: QueryResult): DocumentRecord[] {
+  return (results.ids?.[0] || []).map((id, i) => ({
+    id,
+    document: results.documents?.[0]?.[i] || null,
+    metadata: results.metadatas?.[0]?.[i] || null,
+    embedding: results.embeddings?.[0]?.[i] || null,
+    distance: results.distances?.[0]?.[i] ?? null,
+  }))
+}
+
+/**
+ * Read one offset-addressed page of a collection. Chroma has no filtered count,
+ * so the total is only reported for unfiltered reads; filtered readers learn the
+ * end from a short page instead.
+ */
+export async function fetchDocumentsPage(
+  collection: Collection,
+  params: DocumentsPageParams
+): Promise<DocumentsPage> {
+  const isFiltered = params.metadataFilter !== undefined ||
+    params.documentFilter !== undefined ||
+    (params.ids !== undefined && params.ids.length > 0)
+
+  const [results, total] = await Promise.all([
+    collection.get({
+      ids: params.ids && params.ids.length > 0 ? params.ids : undefined,
+      where: params.metadataFilter,
+      whereDocument: params.documentFilter,
+      limit: params.pageSize,
+      offset: params.offset,
+      include: resolveInclude(params.include),
+    }),
+    isFiltered ? Promise.resolve(null) : collection.count(),
+  ])
+
+  const documents = getResultToDocuments(results)
+  const end = params.offset + documents.length
+  const isLastPage = documents.length < params.pageSize || (total !== null && end >= total)
+
+  return {
+    documents,
+    offset: params.offset,
+    nextOffset: isLastPage ? null : end,
+    total,
+  }
+}
+
+export type DocumentReadOptions = Omit<DocumentsPageParams, 'collectionName' | 'offset' | 'pageSize'> & {
+  // Stop after this many records; omitted reads everything
+  maxResults?: number
+}
+
+/**
+ * Walk a plain or filtered read page by page, for work that must visit every
+ * matching record without holding them all at once.
+ */
+export async function* readDocumentPages(
+  collection: Collection,
+  options: DocumentReadOptions,
+  pageSize: number
+): AsyncGenerator<DocumentRecord[]> {
+  for (let offset = 0; ;) {
+    const limit = options.maxResults === undefined ? pageSize : Math.min(pageSize, options.maxResults - offset)
+    if (limit <= 0) return
+    const results = await collection.get({
+      ids: options.ids && options.ids.length > 0 ? options.ids : undefined,
+      where: options.metadataFilter,
+      whereDocument: options.documentFilter,
+      limit,
+      offset,
+      include: resolveInclude(options.include),
+    })
+    const documents = getResultToDocuments(results)
+    if (documents.length > 0) yield documents
+    if (documents.length < limit) return
+    offset += documents.length
+  }
+}
+
+/**
+ * Read records without a query, as one bounded page. The page size is the
+ * caller's limit, else the number of IDs asked for, else a default; reading
+ * everything goes through readDocumentPages instead.
+ */
+export async function readDocuments(collection: Collection, params: SearchDocumentsParams): Promise<DocumentRecord[]> {
+  const page = await fetchDocumentsPage(collection, {
+    collectionName: params.collectionName,
+    metadataFilter: params.metadataFilter,
+    documentFilter: params.documentFilter,
+    ids: params.ids,
+    offset: params.offset || 0,
+    pageSize: params.nResults || params.limit || params.ids?.length || DEFAULT_READ_LIMIT,
+    include: params.include,
+  })
+  return page.documents
+}
+
+type VectorQueryOptions = Pick<SearchDocumentsParams, 'nResults' | 'metadataFilter' | 'documentFilter' | 'ids' | 'include'>
+
+/**
+ * Nearest neighbours of a vector. Sending the vector itself bypasses the
+ * collection's embedding function, so this also works for collections whose
+ * function is legacy, unknown or not installed.
+ */
+export async function queryByVector(
+  collection: Collection,
+  embedding: number[],
+  options: VectorQueryOptions
+): Promise<DocumentRecord[]> {
+  const results = await collection.query({
+    queryEmbeddings: [embedding],
+    // nResults: 0 means no limit - omit to use ChromaDB's default behavior
+    nResults: options.nResults === 0 ? undefined : options.nResults || 10,
+    where: options.metadataFilter,
+    whereDocument: options.documentFilter,
+    ids: options.ids && options.ids.length > 0 ? options.ids : undefined,
+    include: [...resolveInclude(options.include), 'distances'],
+  })
+  return queryResultToDocuments(results)
+}
+
+// The SDK doesn't expose a collection's dimension, so read it off one stored vector
+export async function peekDimension(collection: Collection): Promise<number | null> {
+  const sample = await collection.get({ limit: 1, include: ['embeddings'] })
+  return sample.embeddings?.[0]?.length ?? null
+}
@@ -8,41 +8,112 @@ import {
   ChromaUnauthorizedError,
   Metadata,
   Where,
+  WhereDocument,
 } from 'chromadb'
+import type { Dispatcher } from 'undici'
 import {
   ConnectionProfile,
   CollectionInfo,
+  DocumentInclude,
   DocumentRecord,
+  DocumentsPage,
+  DocumentsPageParams,
+  QueryByEmbeddingParams,
+  EmbedQueryParams,
+  ExportDocumentsParams,
+  ExportDocumentsResult,
+  ExportProgress,
   SearchDocumentsParams,
   UpdateDocumentParams,
   CreateDocumentParams,
   DeleteDocumentsParams,
   CreateDocumentsBatchParams,
+  WRITE_BATCH_SIZE,
+  CreateDocumentsBatchResult,
+  UpsertDocumentsParams,
   CreateCollectionParams,
   CopyCollectionParams,
   CopyCollectionResult,
+  CopyDocumentsParams,
+  CopyDocumentsResult,
   CopyProgress,
+  ApplyDiffParams,
+  BulkMetadataParams,
+  BulkMetadataProgress,
+  BulkMetadataResult,
+  ApplyDiffResult,
+  DiffProgress,
+  CollectionHealthParams,
+  CollectionHealthReport,
+  DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+  HealthScanProgress,
+  ImportDocumentsParams,
+  ImportDocumentsResult,
+  ImportProgress,
+  MetadataSchema,
+  MetadataSchemaParams,
   EmbeddingFunctionOverride,
+  EmbeddingInputStats,
+  FinishReembedParams,
+  MeasureEmbeddingInputParams,
+  ReembedCollectionParams,
+  ReembedProgress,
+  ReembedResult,
+  SnapshotCollectionResult,
 } from './types'
 import { EmbeddingFunctionFactory } from './embedding-function-factory'
-import { buildCollectionMetadata, buildEfConfigFromOverride, extractEmbeddingFunction } from './chromadb-metadata'
+import { EmbeddingUsageSink, measureEmbeddingInput } from './embedding-usage'
+import { sshTunnelLabel } from './ssh-tunnel'
+import { buildConnectionDispatcher, describeConnectionTransport } from './connection-transport'
+import {
+  buildCollectionMetadata,
+  buildEfConfigFromOverride,
+  extractEmbeddingFunction,
+  extractHnswConfig,
+  userCollectionMetadata,
+} from './chromadb-metadata'
 import { addToCollection, ChromaAddPayload } from './chromadb-payloads'
-
-class ChromaDBService {
+import { writeDocumentBatches } from './chromadb-batch'
+import { bulkUpdateMetadata, resolveTargetIds } from './chromadb-bulk'
+import {
+  fetchDocumentsPage,
+  peekDimension,
+  queryByVector,
+  queryResultToDocuments,
+  readDocumentPages,
+  readDocuments,
+  resolveInclude,
+} from './chromadb-search'
+import { copyCollection, copyDocuments, createAndFillCollection } from './chromadb-copy'
+import { applyCollectionDiff } from './collection-diff'
+import { finishReembed, reembedBatchSize, reembedCollection } from './chromadb-reembed'
+import { RESTORE_WORDING, SNAPSHOT_PAGE_SIZE, SnapshotCollection, writeSnapshot } from './collection-snapshot'
+import { scanCollectionHealth } from './chromadb-health'
+import { importDocuments, ImportRowBatches } from './chromadb-import'
+import { EXPORT_PAGE_SIZE, exportDocuments, ExportTarget, filterPagesById, matchingIds } from './chromadb-export'
+import { inferMetadataSchema } from './chromadb-schema'
+
+export class ChromaDBService {
   private client: ChromaClient | CloudClient | null = null
+  // Proxy and TLS settings of the connected profile, if it has any
+  private dispatcher: Dispatcher | null = null
   private efFactory: EmbeddingFunctionFactory | null = null
   private profile: ConnectionProfile | null = null
   private collectionsCache: CollectionInfo[] = []
 
-  constructor() {
-    // Factory will be initialized when client connects
-  }
+  // Factory will be initialized when client connects
+  constructor(private readonly onEmbeddingUsage?: EmbeddingUsageSink) {}
 
   getProfile(): ConnectionProfile | null {
     return this.profile
   }
 
-  async connect(profile: ConnectionProfile): Promise<void> {
+  /**
+   * `endpointUrl` is where the connection pool made the server reachable: the
+   * local end of an SSH tunnel to `profile.url`, or the server it runs for a
+   * local folder. The client talks to it instead.
+   */
+  async connect(profile: ConnectionProfile, endpointUrl?: string): Promise<void> {
     let resolvedTarget = profile.url
     let isCloud = false
 
@@ -60,6 +131,14 @@ class ChromaDBService {
         ? profile.connectionType === 'cloud'
         : (parsedUrl?.hostname.endsWith('trychroma.com') ?? false)
 
+      // Through a tunnel the client dials 127.0.0.1, but TLS and the Host
+      // header still have to name the server behind it
+      const tunneledUrl = endpointUrl && profile.sshTunnel && parsedUrl ? parsedUrl : undefined
+      this.dispatcher = (await buildConnectionDispatcher(profile, tunneledUrl)) ?? null
+      // `dispatcher` is undici's extension to RequestInit, read by Node's fetch
+      const fetchOptions = this.dispatcher ? ({ dispatcher: this.dispatcher } as RequestInit) : undefined
+      const customHeaders = profile.customHeaders ?? {}
+
       if (isCloud) {
         const cloudConfig: {
           tenant?: string
@@ -67,26 +146,65 @@ class ChromaDBService {
           apiKey?: string
           host?: string
           port?: number
+          fetchOptions?: RequestInit
         } = {
           tenant: profile.tenant,
           database: profile.database,
           apiKey: profile.apiKey,
+          fetchOptions,
         }
         if (parsedUrl) {
           cloudConfig.host = parsedUrl.hostname
           if (parsedUrl.port) cloudConfig.port = parseInt(parsedUrl.port, 10)
         }
         resolvedTarget = `Chroma Cloud (${parsedUrl?.host ?? 'api.trychroma.com'})`
-        this.client = new CloudClient(cloudConfig)
+        if (Object.keys(customHeaders).length === 0) {
+          this.client = new CloudClient(cloudConfig)
+        } else {
+          // CloudClient takes no extra headers, so build what it would with
+          // them added, API key check included
+          const apiKey = profile.apiKey || process.env.CHROMA_API_KEY
+          if (!apiKey) {
+            throw new Error('Missing API key. Add your Chroma Cloud API key to the connection.')
+          }
+          this.client = new ChromaClient({
+            host: cloudConfig.host ?? 'api.trychroma.com',
+            port: cloudConfig.port ?? 443,
+            ssl: true,
+            tenant: profile.tenant,
+            database: profile.database,
+            headers: { 'x-chroma-token': apiKey, ...customHeaders },
+            fetchOptions,
+          })
+        }
+      } else if (profile.connectionType === 'local-folder') {
+        if (!endpointUrl) {
+          throw new Error('The local Chroma server is not running')
+        }
+        resolvedTarget = `local folder ${profile.url}`
+        const clientUrl = new URL(endpointUrl)
+        this.client = new ChromaClient({
+          host: clientUrl.hostname,
+          port: parseInt(clientUrl.port, 10),
+          ssl: false,
+          tenant: profile.tenant,
+          database: profile.database,
+        })
       } else {
         if (!parsedUrl) {
           throw new Error(`Invalid URL: "${profile.url}"`)
         }
+        resolvedTarget = `${parsedUrl.protocol}//${parsedUrl.host}`
+        if (profile.sshTunnel) {
+          resolvedTarget += ` via SSH ${sshTunnelLabel(profile.sshTunnel)}`
+        }
+        const clientUrl = endpointUrl ? new URL(endpointUrl) : parsedUrl
 
         const clientConfig: ChromaClientArgs = {
-          host: parsedUrl.hostname,
-          port: parsedUrl.port ? parseInt(parsedUrl.port, 10) : (parsedUrl.protocol === 'https:' ? 443 : 8000),
-          ssl: parsedUrl.protocol === 'https:',
+          host: clientUrl.hostname,
+          port: clientUrl.port ? parseInt(clientUrl.port, 10) : (clientUrl.protocol === 'https:' ? 443 : 8000),
+          ssl: clientUrl.protocol === 'https:',
+          fetchOptions,
         }
 
         // Multi-tenant self-hosted: pass tenant/database to ChromaClient.
@@ -103,11 +221,11 @@ class ChromaDBService {
         } else if (profile.authType === 'basic' && profile.authCredentials) {
           headers['Authorization'] = `Basic ${Buffer.from(profile.authCredentials).toString('base64')}`
         }
+        Object.assign(headers, customHeaders)
         if (Object.keys(headers).length > 0) {
           clientConfig.headers = headers
         }
 
-        resolvedTarget = `${parsedUrl.protocol}//${parsedUrl.host}`
         this.client = new ChromaClient(clientConfig)
       }
 
@@ -115,7 +233,7 @@ class ChromaDBService {
       await this.client.heartbeat()
 
       // Initialize embedding function factory
-      this.efFactory = new EmbeddingFunctionFactory(this.client)
+      this.efFactory = new EmbeddingFunctionFactory(this.client, this.onEmbeddingUsage)
 
       // Store profile on successful connection
       this.profile = profile
@@ -123,6 +241,8 @@ class ChromaDBService {
       this.client = null
       this.efFactory = null
       this.profile = null
+      void this.dispatcher?.close()
+      this.dispatcher = null
       throw this.mapConnectError(error, profile, resolvedTarget, isCloud)
     }
   }
@@ -143,7 +263,8 @@ class ChromaDBService {
 
     const tenantPart = profile.tenant ? `, tenant="${profile.tenant}"` : ''
     const dbPart = profile.database ? `, database="${profile.database}"` : ''
-    const ctx = `(${resolvedTarget}${tenantPart}${dbPart}, ${authMode})`
+    const transport = describeConnectionTransport(profile).map(part => `, ${part}`).join('')
+    const ctx = `(${resolvedTarget}${tenantPart}${dbPart}, ${authMode}${transport})`
 
     if (error instanceof ChromaUnauthorizedError) {
       const credName = isCloud
@@ -178,6 +299,8 @@ class ChromaDBService {
     this.efFactory?.clearCache()
     this.efFactory = null
     this.client = null
+    void this.dispatcher?.close()
+    this.dispatcher = null
     this.profile = null
     this.collectionsCache = []
   }
@@ -192,6 +315,7 @@ class ChromaDBService {
     const collectionsWithCounts = await Promise.all(
       collectionsList.map(async (collection: Collection) => {
         const count = await collection.count()
+        const dimension = count > 0 ? await peekDimension(collection) : null
 
         const embeddingFunction = extractEmbeddingFunction(collection)
 
@@ -200,6 +324,7 @@ class ChromaDBService {
           id: collection.id,
           metadata: collection.metadata ?? null,
           count,
+          dimension,
           embeddingFunction,
         }
       })
@@ -210,28 +335,60 @@ class ChromaDBService {
     return collectionsWithCounts
   }
 
-  async getCollectionDocuments(collectionName: string): Promise<DocumentRecord[]> {
+  async getDocumentsPage(params: DocumentsPageParams): Promise<DocumentsPage> {
     if (!this.client) {
       throw new Error('ChromaDB client not connected. Please connect first.')
     }
 
-    const collection = await this.client.getCollection({ name: collectionName })
-    const results = await collection.get()
-
-    // Transform ChromaDB response to our document format
-    const documents: DocumentRecord[] = []
-    const count = results.ids.length
-
-    for (let i = 0; i < count; i++) {
-      documents.push({
-        id: results.ids[i],
-        document: results.documents?.[i] || null,
-        metadata: results.metadatas?.[i] || null,
-        embedding: results.embeddings?.[i] || null,
-      })
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    return fetchDocumentsPage(collection, params)
+  }
+
+  async queryByEmbedding(params: QueryByEmbeddingParams): Promise<DocumentRecord[]> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
+
+    // No embedding function: the stored vector is the query
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    const source = await collection.get({ ids: [params.documentId], include: ['embeddings'] })
+    if (source.ids.length === 0) {
+      throw new Error(`Document "${params.documentId}" not found in ${params.collectionName}`)
+    }
+    const embedding = source.embeddings?.[0]
+    if (!embedding || embedding.length === 0) {
+      throw new Error(`Document "${params.documentId}" has no stored embedding`)
+    }
+
+    return queryByVector(collection, embedding, params)
+  }
+
+  async embedQuery(
+    params: EmbedQueryParams,
+    embeddingOverride?: EmbeddingFunctionOverride | null
+  ): Promise<number[]> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
+
+    const embeddingFunction = await this.resolveEmbeddingFunction(params.collectionName, embeddingOverride)
+    if (!embeddingFunction) {
+      throw new Error(`No embedding function configured for ${params.collectionName}`)
     }
+    const [embedding] = await embeddingFunction.generate([params.queryText])
+    return embedding
+  }
 
-    return documents
+  // Override if provided, otherwise the collection's server-side config
+  private async resolveEmbeddingFunction(
+    collectionName: string,
+    embeddingOverride?: EmbeddingFunctionOverride | null
+  ) {
+    const collectionInfo = this.collectionsCache.find(c => c.name === collectionName)
+    const efConfig: CollectionInfo['embeddingFunction'] = embeddingOverride
+      ? buildEfConfigFromOverride(embeddingOverride)
+      : collectionInfo?.embeddingFunction ?? null
+    return this.efFactory?.getEmbeddingFunction(collectionName, efConfig)
   }
 
   async searchDocuments(
@@ -242,22 +399,22 @@ class ChromaDBService {
       throw new Error('ChromaDB client not connected. Please connect first.')
     }
 
-    // If queryText is provided, use semantic search (query method) - requires embedding function
-    if (params.queryText && params.queryText.trim() !== '') {
-      // Find the collection's embedding function config from cache
+    // A raw query vector needs no embedding function, only a matching dimension
+    if (params.queryEmbedding) {
       const collectionInfo = this.collectionsCache.find(c => c.name === params.collectionName)
+      const dimension = collectionInfo?.dimension
+      if (dimension && params.queryEmbedding.length !== dimension) {
+        throw new Error(
+          `Query vector has ${params.queryEmbedding.length} dimensions; ${params.collectionName} expects ${dimension}`
+        )
+      }
+      const collection = await this.client.getCollection({ name: params.collectionName })
+      return queryByVector(collection, params.queryEmbedding, params)
+    }
 
-      // Use override if provided, otherwise fall back to server config
-      const efConfig: CollectionInfo['embeddingFunction'] = embeddingOverride
-        ? buildEfConfigFromOverride(embeddingOverride)
-        : collectionInfo?.embeddingFunction ?? null
-
-      // Get the appropriate embedding function for this collection
-      const embeddingFunction = await this.efFactory?.getEmbeddingFunction(
-        params.collectionName,
-        efConfig
-      )
-
+    // If queryText is provided, use semantic search (query method) - requires embedding function
+    if (params.queryText && params.queryText.trim() !== '') {
+      const embeddingFunction = await this.resolveEmbeddingFunction(params.collectionName, embeddingOverride)
       const collection = await this.client.getCollection({
         name: params.collectionName,
         embeddingFunction,
@@ -268,67 +425,29 @@ class ChromaDBService {
         queryTexts: string[]
         nResults?: number
         where?: Where
+        whereDocument?: WhereDocument
+        ids?: string[]
         include: ('documents' | 'metadatas' | 'embeddings' | 'distances')[]
       } = {
         queryTexts: [params.queryText],
         where: params.metadataFilter,
-        include: ['documents', 'metadatas', 'embeddings', 'distances'],
+        whereDocument: params.documentFilter,
+        ids: params.ids && params.ids.length > 0 ? params.ids : undefined,
+        include: [...resolveInclude(params.include), 'distances'],
       }
       // Only specify nResults if not "no limit" (0)
       if (params.nResults !== 0) {
         queryOptions.nResults = params.nResults || 10
       }
       const queryResults = await collection.query(queryOptions)
-
-      // Transform query results to DocumentRecord format by mapping over documents[0]
-      const documents: DocumentRecord[] = (queryResults.ids?.[0] || []).map((id, i) => ({
-        id: queryResults.ids?.[0]?.[i] || '',
-        document: queryResults.documents?.[0]?.[i] || null,
-        metadata: queryResults.metadatas?.[0]?.[i] || null,
-        embedding: queryResults.embeddings?.[0]?.[i] || null,
-        distance: queryResults.distances?.[0]?.[i] ?? null,
-      }));
-
-      return documents
+      return queryResultToDocuments(queryResults)
     }
 
     // Use get method for metadata/ID filtering - no embedding function needed
     const collection = await this.client.getCollection({
       name: params.collectionName,
     })
-
-    const getOptions: {
-      ids?: string[]
-      where?: Where
-      limit?: number
-      offset?: number
-      include: ('documents' | 'metadatas' | 'embeddings')[]
-    } = {
-      where: params.metadataFilter,
-      offset: params.offset || 0,
-      include: ['documents', 'metadatas', 'embeddings'],
-    }
-
-    // Add ID filter if provided
-    if (params.ids && params.ids.length > 0) {
-      getOptions.ids = params.ids
-    }
-
-    // Only specify limit if not "no limit" (0)
-    if (params.nResults !== 0) {
-      getOptions.limit = params.nResults || params.limit || 300
-    }
-    const getResults = await collection.get(getOptions)
-
-    // Transform get results to DocumentRecord format
-    const documents: DocumentRecord[] = (getResults.ids || []).map((id, i) => ({
-      id,
-      document: getResults.documents?.[i] || null,
-      metadata: getResults.metadatas?.[i] || null,
-      embedding: getResults.embeddings?.[i] || null,
-    }));
-
-    return documents
+    return readDocuments(collection, params)
   }
 
   async updateDocument(
@@ -458,13 +577,11 @@ class ChromaDBService {
   async createDocumentsBatch(
     params: CreateDocumentsBatchParams,
     embeddingOverride?: EmbeddingFunctionOverride | null
-  ): Promise<{ createdIds: string[]; errors: string[] }> {
+  ): Promise<CreateDocumentsBatchResult> {
     if (!this.client) {
       throw new Error('ChromaDB client not connected. Please connect first.')
     }
 
-    const BATCH_SIZE = 100
-
     // Find the collection's embedding function config from cache
     const collectionInfo = this.collectionsCache.find(c => c.name === params.collectionName)
 
@@ -494,44 +611,14 @@ class ChromaDBService {
       embeddingFunction,
     })
 
-    const createdIds: string[] = []
-    const errors: string[] = []
-
-    // Process documents in batches
-    const totalDocs = params.documents.length
-    const totalBatches = Math.ceil(totalDocs / BATCH_SIZE)
-
-    for (let i = 0; i < totalBatches; i++) {
-      const start = i * BATCH_SIZE
-      const end = Math.min(start + BATCH_SIZE, totalDocs)
-      const batch = params.documents.slice(start, end)
-
-      try {
-        const addPayload: ChromaAddPayload = {
-          ids: batch.map(d => d.id),
-        }
-
-        // Include documents if any have document text
-        const documents = batch.map(d => d.document).filter((d): d is string => d !== undefined)
-        if (documents.length > 0) {
-          addPayload.documents = batch.map(d => d.document || '')
-        }
-
-        // Include metadatas if any have metadata
-        const metadatas = batch.map(d => d.metadata).filter((m): m is Record<string, unknown> => m !== undefined)
-        if (metadatas.length > 0) {
-          addPayload.metadatas = batch.map(d => (d.metadata || {}) as Metadata)
-        }
-
-        await addToCollection(collection, addPayload)
-        createdIds.push(...batch.map(d => d.id))
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error'
-        errors.push(`Batch ${i + 1}: ${message}`)
-      }
-    }
+    return writeDocumentBatches(collection, params.documents, params.onCollision ?? 'fail')
+  }
 
-    return { createdIds, errors }
+  async upsertDocuments(
+    params: UpsertDocumentsParams,
+    embeddingOverride?: EmbeddingFunctionOverride | null
+  ): Promise<CreateDocumentsBatchResult> {
+    return this.createDocumentsBatch({ ...params, onCollision: 'overwrite' }, embeddingOverride)
   }
 
   async createCollection(params: CreateCollectionParams): Promise<CollectionInfo> {
@@ -623,8 +710,18 @@ class ChromaDBService {
     }
   }
 
+  // A collection handle for another connection to read from, e.g. as a copy source
+  async openCollection(collectionName: string): Promise<Collection> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
+
+    return this.client.getCollection({ name: collectionName })
+  }
+
   async copyCollection(
     params: CopyCollectionParams,
+    source: Collection,
     embeddingOverride: EmbeddingFunctionOverride | null,
     onProgress: (progress: CopyProgress) => void,
     signal?: AbortSignal
@@ -633,272 +730,252 @@ class ChromaDBService {
       throw new Error('ChromaDB client not connected. Please connect first.')
     }
 
-    // Reduced from 100 to accommodate provider limits (e.g., Cohere max 96)
-    const BATCH_SIZE = 50
-
-    try {
-      // Phase 1: Creating target collection
-      onProgress({
-        phase: 'creating',
-        totalDocuments: 0,
-        processedDocuments: 0,
-        message: 'Creating collection...',
-      })
-
-      // Check for cancellation
-      if (signal?.aborted) {
-        return {
-          success: false,
-          totalDocuments: 0,
-          copiedDocuments: 0,
-          error: 'Operation cancelled',
-        }
-      }
-
-      // Build embedding function config
-      let efConfig: CollectionInfo['embeddingFunction'] = null
-      if (params.embeddingFunction) {
-        efConfig = buildEfConfigFromOverride(params.embeddingFunction)
-      } else if (embeddingOverride) {
-        efConfig = buildEfConfigFromOverride(embeddingOverride)
-      }
-
-      // Get embedding function for the new collection
-      const embeddingFunction = await this.efFactory?.getEmbeddingFunction(
-        params.targetName,
-        efConfig
-      )
-
-      const collectionMetadata = buildCollectionMetadata(params.metadata, params.hnsw)
-
-      // Create the target collection
-      const targetCollection = await this.client.createCollection({
-        name: params.targetName,
-        embeddingFunction,
-        metadata: collectionMetadata,
-      })
-
-      // Phase 2: Fetch source documents
-      const sourceCollection = await this.client.getCollection({
-        name: params.sourceCollectionName,
-      })
-
-      const allDocs = await sourceCollection.get({
-        include: ['documents', 'metadatas', 'embeddings'],
-      })
-
-      const totalDocuments = allDocs.ids.length
-
-      // If no documents, we're done
-      if (totalDocuments === 0) {
-        onProgress({
-          phase: 'complete',
-          totalDocuments: 0,
-          processedDocuments: 0,
-          message: 'Collection copied (empty)',
-        })
-
-        return {
-          success: true,
-          collectionInfo: {
-            name: targetCollection.name,
-            id: targetCollection.id,
-            metadata: targetCollection.metadata ?? null,
-            count: 0,
-            embeddingFunction: efConfig,
-          },
-          totalDocuments: 0,
-          copiedDocuments: 0,
-        }
-      }
+    return copyCollection(this.client, this.efFactory, source, params, embeddingOverride, onProgress, signal)
+  }
 
-      // Phase 3: Copy documents in batches
-      const totalBatches = Math.ceil(totalDocuments / BATCH_SIZE)
-      let copiedDocuments = 0
-
-      for (let i = 0; i < totalBatches; i++) {
-        // Check for cancellation
-        if (signal?.aborted) {
-          // Delete the partially created collection on cancellation
-          try {
-            await this.client.deleteCollection({ name: params.targetName })
-          } catch {
-            // Ignore cleanup errors
-          }
+  async copyDocumentsFrom(
+    source: Collection,
+    params: CopyDocumentsParams,
+    embeddingOverride: EmbeddingFunctionOverride | null,
+    onProgress: (progress: CopyProgress) => void,
+    signal?: AbortSignal
+  ): Promise<CopyDocumentsResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-          return {
-            success: false,
-            totalDocuments,
-            copiedDocuments,
-            error: 'Operation cancelled',
-          }
-        }
+    // Carried-over vectors are added as they are; only regeneration embeds
+    const embeddingFunction = params.regenerateEmbeddings
+      ? await this.resolveEmbeddingFunction(params.targetCollectionName, embeddingOverride)
+      : undefined
+    const target = await this.client.getCollection({ name: params.targetCollectionName, embeddingFunction })
+    return copyDocuments(source, target, params, onProgress, signal)
+  }
 
-        const start = i * BATCH_SIZE
-        const end = Math.min(start + BATCH_SIZE, totalDocuments)
+  // One-way sync: make `collectionName` match `source` for the chosen IDs
+  async applyCollectionDiff(
+    collectionName: string,
+    source: Collection,
+    changes: Pick<ApplyDiffParams, 'upsertIds' | 'deleteIds'>,
+    onProgress: (progress: DiffProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ApplyDiffResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-        onProgress({
-          phase: 'copying',
-          totalDocuments,
-          processedDocuments: copiedDocuments,
-          message: `Copying documents... ${copiedDocuments}/${totalDocuments}`,
-        })
+    const target = await this.client.getCollection({ name: collectionName })
+    return applyCollectionDiff(source, target, changes, onProgress, signal)
+  }
 
-        // Build batch add payload
-        const batchPayload: ChromaAddPayload = {
-          ids: allDocs.ids.slice(start, end),
-        }
+  async bulkUpdateMetadata(
+    params: BulkMetadataParams,
+    onProgress: (progress: BulkMetadataProgress) => void,
+    signal?: AbortSignal
+  ): Promise<BulkMetadataResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-        // Always include documents and metadatas
-        if (allDocs.documents) {
-          batchPayload.documents = allDocs.documents.slice(start, end)
-        }
-        if (allDocs.metadatas) {
-          batchPayload.metadatas = allDocs.metadatas.slice(start, end)
-        }
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    return bulkUpdateMetadata(collection, params, onProgress, signal)
+  }
 
-        // Include embeddings only if not regenerating
-        if (!params.regenerateEmbeddings && allDocs.embeddings) {
-          batchPayload.embeddings = allDocs.embeddings.slice(start, end)
-        }
+  // IDs of the records a bulk update covers, or null if cancelled while finding them
+  async bulkTargetIds(
+    params: Pick<BulkMetadataParams, 'collectionName' | 'target'>,
+    onProgress: (progress: BulkMetadataProgress) => void,
+    signal?: AbortSignal
+  ): Promise<string[] | null> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-        await addToCollection(targetCollection, batchPayload)
-        copiedDocuments = end
-      }
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    return resolveTargetIds(collection, params.target, onProgress, signal)
+  }
 
-      // Phase 4: Complete
-      onProgress({
-        phase: 'complete',
-        totalDocuments,
-        processedDocuments: copiedDocuments,
-        message: `Copied ${copiedDocuments} documents`,
-      })
+  async reembedCollection(
+    params: ReembedCollectionParams,
+    onProgress: (progress: ReembedProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ReembedResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-      const finalCount = await targetCollection.count()
-
-      return {
-        success: true,
-        collectionInfo: {
-          name: targetCollection.name,
-          id: targetCollection.id,
-          metadata: targetCollection.metadata ?? null,
-          count: finalCount,
-          embeddingFunction: efConfig,
-        },
-        totalDocuments,
-        copiedDocuments,
-      }
+    return reembedCollection(
+      this.client,
+      this.efFactory,
+      params.collectionName,
+      params.embeddingFunction ?? null,
+      onProgress,
+      signal
+    )
+  }
 
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to copy collection'
+  async finishReembed(params: FinishReembedParams): Promise<void> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-      onProgress({
-        phase: 'error',
-        totalDocuments: 0,
-        processedDocuments: 0,
-        message,
-      })
+    await finishReembed(this.client, params)
+  }
 
-      return {
-        success: false,
-        totalDocuments: 0,
-        copiedDocuments: 0,
-        error: message,
-      }
+  async measureEmbeddingInput(params: MeasureEmbeddingInputParams): Promise<EmbeddingInputStats> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
     }
+
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    const batchSize = params.purpose === 'reembed' && params.embeddingFunction
+      ? reembedBatchSize(params.embeddingFunction.type)
+      : WRITE_BATCH_SIZE
+    return measureEmbeddingInput(collection, params.ids, batchSize)
   }
 
-  async deleteCollection(collectionName: string): Promise<void> {
+  async scanCollectionHealth(
+    params: CollectionHealthParams,
+    onProgress: (progress: HealthScanProgress) => void,
+    signal?: AbortSignal
+  ): Promise<CollectionHealthReport> {
     if (!this.client) {
       throw new Error('ChromaDB client not connected. Please connect first.')
     }
 
-    await this.client.deleteCollection({ name: collectionName })
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    return scanCollectionHealth(
+      collection,
+      params.nearDuplicateThreshold ?? DEFAULT_NEAR_DUPLICATE_THRESHOLD,
+      onProgress,
+      signal
+    )
   }
 
-  isConnected(): boolean {
-    return this.client !== null
+  async importDocuments(
+    params: ImportDocumentsParams,
+    readBatches: ImportRowBatches,
+    totalRows: number,
+    embeddingOverride: EmbeddingFunctionOverride | null,
+    onProgress: (progress: ImportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ImportDocumentsResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
+
+    // Without a mapped embedding column, rows are embedded from their text
+    const embeddingFunction = params.mapping.embeddingColumn
+      ? undefined
+      : await this.resolveEmbeddingFunction(params.collectionName, embeddingOverride)
+    const collection = await this.client.getCollection({ name: params.collectionName, embeddingFunction })
+    return importDocuments(collection, readBatches, totalRows, params, onProgress, signal)
   }
-}
 
-/**
- * Connection pool for managing multiple ChromaDB connections by profile
- */
-class ChromaDBConnectionPool {
-  private connections: Map<string, { service: ChromaDBService; refCount: number }> = new Map()
+  async exportDocuments(
+    params: ExportDocumentsParams,
+    target: ExportTarget,
+    embeddingOverride: EmbeddingFunctionOverride | null,
+    onProgress: (progress: ExportProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ExportDocumentsResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-  /**
-   * Connect to a profile (or increment refCount if already connected)
-   */
-  async connect(profileId: string, profile: ConnectionProfile): Promise<ChromaDBService> {
-    const existing = this.connections.get(profileId)
+    const { source, collectionName } = params
+    const include: DocumentInclude[] = params.includeEmbeddings
+      ? ['documents', 'metadatas', 'embeddings']
+      : ['documents', 'metadatas']
+    const columns = { embeddings: params.includeEmbeddings, distances: params.includeDistances && source.kind !== 'filter' }
 
-    if (existing) {
-      // Connection already exists, increment reference count
-      existing.refCount++
-      console.log(`[ChromaDB Pool] Reusing connection for profile ${profileId} (refCount: ${existing.refCount})`)
-      return existing.service
+    if (source.kind === 'filter') {
+      const collection = await this.client.getCollection({ name: collectionName })
+      const isFiltered = !!source.metadataFilter || !!source.documentFilter || (source.ids?.length ?? 0) > 0 || !!params.idContains
+      const count = isFiltered ? null : await collection.count()
+      const totalRows = count === null ? null : Math.min(count, source.maxResults ?? count)
+      const pages = filterPagesById(readDocumentPages(collection, { ...source, include }, EXPORT_PAGE_SIZE), params.idContains)
+      return exportDocuments(pages, totalRows, target, columns, onProgress, signal)
     }
 
-    // Create new connection
-    const service = new ChromaDBService()
-    await service.connect(profile)
+    // Ranked results are bounded by nResults, so they are fetched in one go
+    const ranked = source.kind === 'search'
+      ? await this.searchDocuments({ ...source.search, collectionName, include }, embeddingOverride)
+      : await this.queryByEmbedding({ ...source.similar, collectionName, include })
+    const documents = matchingIds(ranked, params.idContains)
+    return exportDocuments([documents], documents.length, target, columns, onProgress, signal)
+  }
 
-    this.connections.set(profileId, {
-      service,
-      refCount: 1,
-    })
+  async snapshotCollection(
+    collectionName: string,
+    filePath: string,
+    onProgress: (progress: CopyProgress) => void,
+    signal?: AbortSignal
+  ): Promise<SnapshotCollectionResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
 
-    console.log(`[ChromaDB Pool] Created new connection for profile ${profileId}`)
-    return service
+    const collection = await this.client.getCollection({ name: collectionName })
+    const snapshot: SnapshotCollection = {
+      name: collection.name,
+      metadata: userCollectionMetadata(collection),
+      hnsw: extractHnswConfig(collection),
+      embeddingFunction: extractEmbeddingFunction(collection),
+      documentCount: await collection.count(),
+    }
+    const pages = readDocumentPages(collection, { include: ['documents', 'metadatas', 'embeddings'] }, SNAPSHOT_PAGE_SIZE)
+    return writeSnapshot(filePath, snapshot, pages, onProgress, signal)
   }
 
-  /**
-   * Decrement refCount for a profile connection
-   * Disconnects and removes if refCount reaches 0
-   */
-  disconnect(profileId: string): void {
-    const connection = this.connections.get(profileId)
-
-    if (!connection) {
-      console.warn(`[ChromaDB Pool] Attempted to disconnect unknown profile ${profileId}`)
-      return
+  async restoreSnapshot(
+    targetName: string,
+    snapshot: SnapshotCollection,
+    records: AsyncIterable<DocumentRecord[]>,
+    onProgress: (progress: CopyProgress) => void,
+    signal?: AbortSignal
+  ): Promise<CopyCollectionResult> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
     }
 
-    connection.refCount--
-    console.log(`[ChromaDB Pool] Decremented refCount for profile ${profileId} (refCount: ${connection.refCount})`)
+    return createAndFillCollection(
+      this.client,
+      this.efFactory,
+      {
+        name: targetName,
+        metadata: buildCollectionMetadata(snapshot.metadata, snapshot.hnsw),
+        embeddingFunction: snapshot.embeddingFunction,
+      },
+      records,
+      snapshot.documentCount,
+      onProgress,
+      signal,
+      RESTORE_WORDING
+    )
+  }
 
-    if (connection.refCount <= 0) {
-      connection.service.disconnect()
-      this.connections.delete(profileId)
-      console.log(`[ChromaDB Pool] Disconnected and removed profile ${profileId}`)
+  async getMetadataSchema(params: MetadataSchemaParams): Promise<MetadataSchema> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
     }
-  }
 
-  /**
-   * Get an existing connection (without incrementing refCount)
-   */
-  getConnection(profileId: string): ChromaDBService | null {
-    return this.connections.get(profileId)?.service || null
+    const collection = await this.client.getCollection({ name: params.collectionName })
+    return inferMetadataSchema(collection, params.sampleSize)
   }
 
-  /**
-   * Check if a profile is connected
-   */
-  isConnected(profileId: string): boolean {
-    return this.connections.has(profileId)
+  async deleteCollection(collectionName: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('ChromaDB client not connected. Please connect first.')
+    }
+
+    await this.client.deleteCollection({ name: collectionName })
   }
 
-  /**
-   * Get refCount for a profile
-   */
-  getRefCount(profileId: string): number {
-    return this.connections.get(profileId)?.refCount || 0
+  isConnected(): boolean {
+    return this.client !== null
   }
 }
 
-// Export singleton connection pool
-export const chromaDBConnectionPool = new ChromaDBConnectionPool()
-
 // Keep legacy export for backwards compatibility (will be removed)
 export const chromaDBService = new ChromaDBService()
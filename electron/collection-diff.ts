@@ -0,0 +1,217 @@
+import type { Collection } from 'chromadb'
+import {
+  ApplyDiffParams,
+  ApplyDiffResult,
+  CollectionDiff,
+  DiffCollectionsParams,
+  DiffEntry,
+  DiffField,
+  DiffProgress,
+  DocumentInclude,
+  DocumentRecord,
+  JsonRecord,
+  MAX_DIFF_ENTRIES,
+  WRITE_BATCH_SIZE,
+} from './types'
+import { getResultToDocuments, readDocumentPages } from './chromadb-search'
+import { recordsToPayload, upsertToCollection } from './chromadb-payloads'
+
+// Records compared per round trip; each page of one side is looked up in the
+// other by ID
+export const DIFF_PAGE_SIZE = 200
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => sameValue(value, b[i]))
+  }
+  return a === b
+}
+
+// Missing metadata and an empty record are the same thing to Chroma
+function sameMetadata(a: JsonRecord | null, b: JsonRecord | null): boolean {
+  const left = a ?? {}
+  const right = b ?? {}
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return [...keys].every(key => sameValue(left[key], right[key]))
+}
+
+function embeddingsDiffer(a: number[] | null, b: number[] | null, tolerance: number): boolean {
+  if (!a || !b) return a !== b
+  if (a.length !== b.length) return true
+  return a.some((value, i) => Math.abs(value - b[i]) > tolerance)
+}
+
+/**
+ * Fields that differ between two versions of a record. Embeddings are
+ * skipped when `embeddingTolerance` is null.
+ */
+export function compareRecords(a: DocumentRecord, b: DocumentRecord, embeddingTolerance: number | null): DiffField[] {
+  const fields: DiffField[] = []
+  if (a.document !== b.document) fields.push('document')
+  if (!sameMetadata(a.metadata, b.metadata)) fields.push('metadata')
+  if (embeddingTolerance !== null && embeddingsDiffer(a.embedding, b.embedding, embeddingTolerance)) {
+    fields.push('embedding')
+  }
+  return fields
+}
+
+/**
+ * Compare two collections by ID without holding either in memory. Pages of A
+ * are looked up in B to find changed and A-only records, then B's IDs are
+ * paged and looked up in A to find B-only ones.
+ */
+export async function diffCollections(
+  a: Collection,
+  b: Collection,
+  options: Pick<DiffCollectionsParams, 'compareEmbeddings' | 'embeddingTolerance'>,
+  onProgress: (progress: DiffProgress) => void,
+  signal?: AbortSignal
+): Promise<CollectionDiff> {
+  const [countA, countB] = await Promise.all([a.count(), b.count()])
+  const total = countA + countB
+  const include: DocumentInclude[] = options.compareEmbeddings
+    ? ['documents', 'metadatas', 'embeddings']
+    : ['documents', 'metadatas']
+  const tolerance = options.compareEmbeddings ? options.embeddingTolerance : null
+  const diff: CollectionDiff = {
+    onlyInA: 0,
+    onlyInB: 0,
+    changed: 0,
+    unchanged: 0,
+    entries: [],
+    truncated: false,
+    cancelled: false,
+  }
+  let processed = 0
+
+  const addEntry = (entry: DiffEntry) => {
+    if (diff.entries.length < MAX_DIFF_ENTRIES) {
+      diff.entries.push(entry)
+    } else {
+      diff.truncated = true
+    }
+  }
+  const stopIfCancelled = () => {
+    if (!signal?.aborted) return false
+    diff.cancelled = true
+    onProgress({ phase: 'cancelled', total, processed, message: `Cancelled after comparing ${processed} of ${total} records` })
+    return true
+  }
+  const reportPage = (count: number) => {
+    processed += count
+    onProgress({ phase: 'comparing', total, processed, message: `Comparing records... ${processed}/${total}` })
+  }
+
+  onProgress({ phase: 'comparing', total, processed, message: 'Comparing records...' })
+
+  for await (const page of readDocumentPages(a, { include }, DIFF_PAGE_SIZE)) {
+    if (stopIfCancelled()) return diff
+    const matches = await b.get({ ids: page.map(record => record.id), include })
+    const inB = new Map(getResultToDocuments(matches).map(record => [record.id, record]))
+    for (const recordA of page) {
+      const recordB = inB.get(recordA.id)
+      if (!recordB) {
+        diff.onlyInA++
+        addEntry({ id: recordA.id, kind: 'onlyInA' })
+        continue
+      }
+      const fields = compareRecords(recordA, recordB, tolerance)
+      if (fields.length === 0) {
+        diff.unchanged++
+      } else {
+        diff.changed++
+        addEntry({ id: recordA.id, kind: 'changed', fields })
+      }
+    }
+    reportPage(page.length)
+  }
+
+  for await (const page of readDocumentPages(b, { include: [] }, DIFF_PAGE_SIZE)) {
+    if (stopIfCancelled()) return diff
+    const found = await a.get({ ids: page.map(record => record.id), include: [] })
+    const inA = new Set(found.ids)
+    for (const { id } of page) {
+      if (!inA.has(id)) {
+        diff.onlyInB++
+        addEntry({ id, kind: 'onlyInB' })
+      }
+    }
+    reportPage(page.length)
+  }
+
+  onProgress({ phase: 'complete', total, processed, message: `Compared ${processed} records` })
+  return diff
+}
+
+/**
+ * Make `target` match `source` for the chosen IDs: upsert the source's
+ * records, embeddings included so the target's function is not needed, then
+ * delete the target's extras. Batches written before a cancel are kept.
+ */
+export async function applyCollectionDiff(
+  source: Collection,
+  target: Collection,
+  changes: Pick<ApplyDiffParams, 'upsertIds' | 'deleteIds'>,
+  onProgress: (progress: DiffProgress) => void,
+  signal?: AbortSignal
+): Promise<ApplyDiffResult> {
+  const total = changes.upsertIds.length + changes.deleteIds.length
+  let upserted = 0
+  let deleted = 0
+
+  const cancelled = (): ApplyDiffResult => {
+    onProgress({
+      phase: 'cancelled',
+      total,
+      processed: upserted + deleted,
+      message: `Cancelled after applying ${upserted + deleted} of ${total} changes`,
+    })
+    return { success: false, upserted, deleted, error: 'Operation cancelled' }
+  }
+  const reportBatch = () => {
+    onProgress({
+      phase: 'applying',
+      total,
+      processed: upserted + deleted,
+      message: `Applying changes... ${upserted + deleted}/${total}`,
+    })
+  }
+
+  try {
+    reportBatch()
+    // An empty ID filter would read the whole collection
+    if (changes.upsertIds.length > 0) {
+      const pages = readDocumentPages(
+        source,
+        { ids: changes.upsertIds, include: ['documents', 'metadatas', 'embeddings'] },
+        WRITE_BATCH_SIZE
+      )
+      for await (const batch of pages) {
+        if (signal?.aborted) return cancelled()
+        await upsertToCollection(target, recordsToPayload(batch))
+        upserted += batch.length
+        reportBatch()
+      }
+    }
+
+    for (let start = 0; start < changes.deleteIds.length; start += WRITE_BATCH_SIZE) {
+      if (signal?.aborted) return cancelled()
+      const ids = changes.deleteIds.slice(start, start + WRITE_BATCH_SIZE)
+      await target.delete({ ids })
+      deleted += ids.length
+      reportBatch()
+    }
+
+    onProgress({
+      phase: 'complete',
+      total,
+      processed: upserted + deleted,
+      message: `Upserted ${upserted} and deleted ${deleted} records`,
+    })
+    return { success: true, upserted, deleted }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to apply changes'
+    onProgress({ phase: 'error', total, processed: upserted + deleted, message })
+    return { success: false, upserted, deleted, error: message }
+  }
+}
@@ -0,0 +1,208 @@
+import { createReadStream, createWriteStream } from 'node:fs'
+import { unlink } from 'node:fs/promises'
+import path from 'node:path'
+import { pipeline as pipeStreams, Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { createGunzip, createGzip } from 'node:zlib'
+import type { CollectionInfo, CopyProgress, DocumentRecord, HNSWConfig, JsonRecord, SnapshotCollectionResult } from './types'
+import { isRecord } from './ipc-parse'
+import type { FillWording } from './chromadb-copy'
+
+// A snapshot is gzipped JSON Lines: a header describing the collection, then
+// one record per line, embeddings included
+export const SNAPSHOT_FILE_EXTENSION = 'chromasnap'
+const SNAPSHOT_FORMAT = 'chroma-explorer-snapshot'
+const SNAPSHOT_VERSION = 1
+// Records read per page while writing a snapshot
+export const SNAPSHOT_PAGE_SIZE = 500
+
+export const RESTORE_WORDING: FillWording = { ongoing: 'Restoring', done: 'Restored', failed: 'Failed to restore snapshot' }
+
+export interface SnapshotCollection {
+  name: string
+  // Without `hnsw:` keys; those are rebuilt from `hnsw` on restore
+  metadata: JsonRecord
+  hnsw: HNSWConfig
+  embeddingFunction: CollectionInfo['embeddingFunction']
+  documentCount: number
+}
+
+export interface SnapshotHeader {
+  format: typeof SNAPSHOT_FORMAT
+  version: number
+  createdAt: string
+  collection: SnapshotCollection
+}
+
+class SnapshotCancelled extends Error {}
+
+function snapshotLine(record: DocumentRecord): string {
+  const { id, document, metadata, embedding } = record
+  return `${JSON.stringify({ id, document, metadata, embedding })}\n`
+}
+
+/**
+ * Stream a collection's records into a new snapshot file. Progress counts
+ * against the record count taken when the snapshot started; a cancelled or
+ * failed snapshot deletes the partial file.
+ */
+export async function writeSnapshot(
+  filePath: string,
+  collection: SnapshotCollection,
+  pages: AsyncIterable<DocumentRecord[]>,
+  onProgress: (progress: CopyProgress) => void,
+  signal?: AbortSignal
+): Promise<SnapshotCollectionResult> {
+  const fileName = path.basename(filePath)
+  const totalDocuments = collection.documentCount
+  const header: SnapshotHeader = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    collection,
+  }
+  let processedDocuments = 0
+
+  async function* lines() {
+    yield `${JSON.stringify(header)}\n`
+    for await (const page of pages) {
+      if (signal?.aborted) throw new SnapshotCancelled()
+      const chunk = page.map(snapshotLine).join('')
+      processedDocuments += page.length
+      onProgress({
+        phase: 'copying',
+        totalDocuments,
+        processedDocuments,
+        message: `Writing snapshot... ${processedDocuments}/${totalDocuments}`,
+      })
+      yield chunk
+    }
+  }
+
+  try {
+    onProgress({ phase: 'copying', totalDocuments, processedDocuments, message: 'Writing snapshot...' })
+    await pipeline(Readable.from(lines()), createGzip(), createWriteStream(filePath))
+    onProgress({
+      phase: 'complete',
+      totalDocuments,
+      processedDocuments,
+      message: `Saved ${processedDocuments} documents to ${fileName}`,
+    })
+    return { success: true, fileName, documentCount: processedDocuments }
+  } catch (error) {
+    await unlink(filePath).catch(() => {})
+    if (error instanceof SnapshotCancelled) {
+      onProgress({
+        phase: 'cancelled',
+        totalDocuments,
+        processedDocuments,
+        message: `Cancelled after ${processedDocuments} documents`,
+      })
+      return { success: false, fileName, documentCount: 0, error: 'Operation cancelled' }
+    }
+    const message = error instanceof Error ? error.message : 'Failed to write snapshot'
+    onProgress({ phase: 'error', totalDocuments, processedDocuments, message })
+    return { success: false, fileName, documentCount: 0, error: message }
+  }
+}
+
+async function* snapshotLines(filePath: string): AsyncGenerator<string> {
+  // The callback form returns the gunzip stream and fails it when any stage fails
+  const input = pipeStreams(createReadStream(filePath), createGunzip(), () => {})
+  input.setEncoding('utf8')
+  let buffered = ''
+  for await (const chunk of input) {
+    buffered += chunk
+    const lines = buffered.split('\n')
+    buffered = lines.pop() ?? ''
+    yield* lines
+  }
+  if (buffered) yield buffered
+}
+
+export function parseSnapshotHeader(line: string): SnapshotHeader {
+  let value: unknown
+  try {
+    value = JSON.parse(line)
+  } catch {
+    value = null
+  }
+  if (!isRecord(value) || value.format !== SNAPSHOT_FORMAT || !isRecord(value.collection)) {
+    throw new Error('Not a Chroma Explorer snapshot')
+  }
+  if (typeof value.version !== 'number' || value.version > SNAPSHOT_VERSION) {
+    throw new Error('This snapshot was made by a newer version of Chroma Explorer')
+  }
+  const collection = value.collection
+  if (typeof collection.name !== 'string' || typeof collection.documentCount !== 'number') {
+    throw new Error('Snapshot header is missing the collection name or size')
+  }
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: value.version,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : '',
+    collection: {
+      name: collection.name,
+      metadata: isRecord(collection.metadata) ? collection.metadata : {},
+      hnsw: isRecord(collection.hnsw) ? collection.hnsw as HNSWConfig : {},
+      embeddingFunction: isRecord(collection.embeddingFunction)
+        ? collection.embeddingFunction as CollectionInfo['embeddingFunction']
+        : null,
+      documentCount: collection.documentCount,
+    },
+  }
+}
+
+export function parseSnapshotRecord(line: string, lineNumber: number): DocumentRecord {
+  let value: unknown
+  try {
+    value = JSON.parse(line)
+  } catch {
+    value = null
+  }
+  if (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    (value.document === null || typeof value.document === 'string') &&
+    (value.metadata === null || isRecord(value.metadata)) &&
+    (value.embedding === null || (Array.isArray(value.embedding) && value.embedding.every(item => typeof item === 'number')))
+  ) {
+    return {
+      id: value.id,
+      document: value.document,
+      metadata: value.metadata,
+      embedding: value.embedding as number[] | null,
+    }
+  }
+  throw new Error(`Snapshot line ${lineNumber} is not a valid record`)
+}
+
+export async function readSnapshotHeader(filePath: string): Promise<SnapshotHeader> {
+  let firstLine: string | undefined
+  try {
+    for await (const line of snapshotLines(filePath)) {
+      firstLine = line
+      break
+    }
+  } catch {
+    // Not gzip, or unreadable; reported the same as a bad header
+  }
+  if (firstLine === undefined) throw new Error('Not a Chroma Explorer snapshot')
+  return parseSnapshotHeader(firstLine)
+}
+
+/** The records of a snapshot in batches, after its header line. */
+export async function* readSnapshotRecords(filePath: string, batchSize: number): AsyncGenerator<DocumentRecord[]> {
+  let lineNumber = 0
+  let batch: DocumentRecord[] = []
+  for await (const line of snapshotLines(filePath)) {
+    lineNumber++
+    if (lineNumber === 1 || line.trim() === '') continue
+    batch.push(parseSnapshotRecord(line, lineNumber))
+    if (batch.length >= batchSize) {
+      yield batch
+      batch = []
+    }
+  }
+  if (batch.length > 0) yield batch
+}
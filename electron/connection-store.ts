@@ -2,7 +2,7 @@ import Store from 'electron-store'
 import { app } from 'electron'
 import path from 'path'
 import { existsSync } from 'fs'
-import { ConnectionProfile, EmbeddingFunctionOverride } from './types'
+import { ConnectionProfile, EmbeddingFunctionOverride, EmbeddingUsage } from './types'
 import { getEncryptionKey } from './secure-key-manager'
 import { removeCorruptedStore } from './store-recovery'
 
@@ -23,6 +23,7 @@ function migrateFromLegacyStore(newStore: Store<StoreSchema>): void {
         profiles: [],
         lastActiveProfileId: null,
         embeddingOverrides: {},
+        embeddingUsage: {},
       },
       encryptionKey: 'chroma-explorer-obfuscation-key-v1',
     })
@@ -54,11 +55,17 @@ interface StoreSchema {
   // Store overrides separately so they persist even for unsaved profiles
   // Key format: "profileId:collectionName"
   embeddingOverrides: Record<string, EmbeddingFunctionOverride>
+  // Text sent to embedding providers, by profile ID and then "type:modelName"
+  embeddingUsage: Record<string, Record<string, EmbeddingUsage>>
 }
 
 // Lazy-initialized store (requires app to be ready for keychain access)
 let store: Store<StoreSchema> | null = null
 
+// Embedding usage changes on every embedding request, and each store write
+// rewrites the whole encrypted file, so usage is written at most this often
+const USAGE_FLUSH_DELAY_MS = 5000
+
 function getStore(): Store<StoreSchema> {
   if (!store) {
     try {
@@ -68,6 +75,7 @@ function getStore(): Store<StoreSchema> {
           profiles: [],
           lastActiveProfileId: null,
           embeddingOverrides: {},
+          embeddingUsage: {},
         },
         encryptionKey: getEncryptionKey(),
         clearInvalidConfig: true,
@@ -94,6 +102,7 @@ function getStore(): Store<StoreSchema> {
           profiles: [],
           lastActiveProfileId: null,
           embeddingOverrides: {},
+          embeddingUsage: {},
         },
         encryptionKey: getEncryptionKey(),
         clearInvalidConfig: true,
@@ -104,6 +113,10 @@ function getStore(): Store<StoreSchema> {
 }
 
 export class ConnectionStore {
+  // Embedding usage as last counted, ahead of what the store holds
+  private usage: StoreSchema['embeddingUsage'] | null = null
+  private usageFlushTimer: ReturnType<typeof setTimeout> | null = null
+
   getProfiles(): ConnectionProfile[] {
     return getStore().get('profiles', [])
   }
@@ -123,10 +136,27 @@ export class ConnectionStore {
     getStore().set('profiles', profiles)
   }
 
+  /** Save imported profiles over any with the same ID, keeping their timestamps. */
+  importProfiles(imported: ConnectionProfile[]): void {
+    const profiles = this.getProfiles()
+    for (const profile of imported) {
+      const existingIndex = profiles.findIndex((p) => p.id === profile.id)
+      if (existingIndex >= 0) {
+        profiles[existingIndex] = profile
+      } else {
+        profiles.push(profile)
+      }
+    }
+    getStore().set('profiles', profiles)
+  }
+
   deleteProfile(id: string): void {
     const profiles = this.getProfiles().filter((p) => p.id !== id)
     getStore().set('profiles', profiles)
 
+    delete this.loadEmbeddingUsage()[id]
+    this.flushEmbeddingUsage(true)
+
     // Clear last active if it was the deleted profile
     if (this.getLastActiveProfileId() === id) {
       this.setLastActiveProfileId(null)
@@ -147,6 +177,16 @@ export class ConnectionStore {
     return overrides[key] ?? null
   }
 
+  /** A profile's overrides by collection name. */
+  getEmbeddingOverrides(profileId: string): Record<string, EmbeddingFunctionOverride> {
+    const prefix = `${profileId}:`
+    return Object.fromEntries(
+      Object.entries(getStore().get('embeddingOverrides', {}))
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, override]) => [key.slice(prefix.length), override])
+    )
+  }
+
   setEmbeddingOverride(profileId: string, collectionName: string, override: EmbeddingFunctionOverride): void {
     const key = `${profileId}:${collectionName}`
     const overrides = getStore().get('embeddingOverrides', {})
@@ -160,6 +200,44 @@ export class ConnectionStore {
     delete overrides[key]
     getStore().set('embeddingOverrides', overrides)
   }
+
+  private loadEmbeddingUsage(): StoreSchema['embeddingUsage'] {
+    this.usage ??= getStore().get('embeddingUsage', {})
+    return this.usage
+  }
+
+  /** Write counted usage to the store; only when some is unwritten unless `force`. */
+  flushEmbeddingUsage(force = false): void {
+    const pending = this.usageFlushTimer !== null
+    if (this.usageFlushTimer) {
+      clearTimeout(this.usageFlushTimer)
+      this.usageFlushTimer = null
+    }
+    if ((pending || force) && this.usage) {
+      getStore().set('embeddingUsage', this.usage)
+    }
+  }
+
+  getEmbeddingUsage(profileId: string): EmbeddingUsage[] {
+    return Object.values(this.loadEmbeddingUsage()[profileId] ?? {})
+  }
+
+  recordEmbeddingUsage(profileId: string, type: string, modelName: string | undefined, texts: string[]): void {
+    const usage = this.loadEmbeddingUsage()
+    const profileUsage = usage[profileId] ?? {}
+    const key = `${type}:${modelName ?? ''}`
+    const now = Date.now()
+    const current = profileUsage[key] ?? { type, modelName, requests: 0, texts: 0, characters: 0, firstUsedAt: now, lastUsedAt: now }
+    profileUsage[key] = {
+      ...current,
+      requests: current.requests + 1,
+      texts: current.texts + texts.length,
+      characters: current.characters + texts.reduce((sum, text) => sum + text.length, 0),
+      lastUsedAt: now,
+    }
+    usage[profileId] = profileUsage
+    this.usageFlushTimer ??= setTimeout(() => this.flushEmbeddingUsage(), USAGE_FLUSH_DELAY_MS)
+  }
 }
 
 export const connectionStore = new ConnectionStore()
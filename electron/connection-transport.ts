@@ -0,0 +1,95 @@
+import { readFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { isIP } from 'net'
+import { checkServerIdentity, rootCertificates, type ConnectionOptions } from 'tls'
+import { Agent, ProxyAgent, type Dispatcher } from 'undici'
+import type { ConnectionProfile } from './types'
+
+async function readPem(file: string, description: string): Promise<string> {
+  const resolved = file.startsWith('~/') ? path.join(os.homedir(), file.slice(2)) : file
+  try {
+    return await readFile(resolved, 'utf8')
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`Could not read the ${description} ${file}: ${reason}`)
+  }
+}
+
+/**
+ * The fetch dispatcher carrying a profile's proxy, CA bundle and client
+ * certificate, or undefined when it sets none and Node's default will do.
+ * The CA bundle extends the system roots rather than replacing them, so a
+ * proxy or gateway with a public certificate keeps working.
+ *
+ * `serverUrl` is where the server really is when the client reaches it at
+ * another address, such as the local end of an SSH tunnel. Requests then
+ * carry its Host header and TLS checks its certificate against its name.
+ */
+export async function buildConnectionDispatcher(profile: ConnectionProfile, serverUrl?: URL): Promise<Dispatcher | undefined> {
+  const tls: ConnectionOptions = {}
+  if (serverUrl?.protocol === 'https:') {
+    const host = serverUrl.hostname.replace(/^\[|\]$/g, '')
+    // SNI carries names only; an IP host is still checked against the certificate
+    if (!isIP(host)) tls.servername = host
+    tls.checkServerIdentity = (_hostname, certificate) => checkServerIdentity(host, certificate)
+  }
+  if (profile.caFile) {
+    tls.ca = [...rootCertificates, await readPem(profile.caFile, 'CA file')]
+  }
+  if (profile.clientCertificate) {
+    tls.cert = await readPem(profile.clientCertificate.certFile, 'client certificate')
+    tls.key = await readPem(profile.clientCertificate.keyFile, 'client key')
+    if (profile.clientCertificate.passphrase) tls.passphrase = profile.clientCertificate.passphrase
+  }
+
+  if (profile.proxyUrl) {
+    return new ProxyAgent({
+      uri: profile.proxyUrl,
+      requestTls: tls,
+      proxyTls: tls.ca ? { ca: tls.ca } : undefined,
+    })
+  }
+  if (serverUrl) return new HostHeaderAgent(serverUrl.host, { connect: tls })
+  return Object.keys(tls).length > 0 ? new Agent({ connect: tls }) : undefined
+}
+
+type DispatchHeaders = Dispatcher.DispatchOptions['headers']
+
+function withHostHeader(headers: DispatchHeaders, host: string): Record<string, string | string[] | undefined> {
+  let entries: [string, string | string[] | undefined][] = []
+  if (Array.isArray(headers)) {
+    // undici's flat [name, value, name, value, ...] form
+    for (let i = 0; i + 1 < headers.length; i += 2) entries.push([headers[i], headers[i + 1]])
+  } else if (headers && Symbol.iterator in headers) {
+    entries = [...(headers as Iterable<[string, string | string[] | undefined]>)]
+  } else if (headers) {
+    entries = Object.entries(headers)
+  }
+  return Object.fromEntries([...entries.filter(([name]) => name.toLowerCase() !== 'host'), ['host', host]])
+}
+
+// fetch drops a Host header set by the caller, so it is set here instead
+class HostHeaderAgent extends Agent {
+  constructor(private readonly host: string, options: Agent.Options) {
+    super(options)
+  }
+
+  dispatch(options: Dispatcher.DispatchOptions, handler: Dispatcher.DispatchHandlers): boolean {
+    return super.dispatch({ ...options, headers: withHostHeader(options.headers, this.host) }, handler)
+  }
+}
+
+/** Describe a profile's transport settings for connection errors. */
+export function describeConnectionTransport(profile: ConnectionProfile): string[] {
+  const parts: string[] = []
+  if (profile.proxyUrl) {
+    const proxy = new URL(profile.proxyUrl)
+    parts.push(`proxy ${proxy.protocol}//${proxy.host}`)
+  }
+  if (profile.caFile) parts.push('custom CA')
+  if (profile.clientCertificate) parts.push('client certificate')
+  const headerCount = Object.keys(profile.customHeaders ?? {}).length
+  if (headerCount > 0) parts.push(`${headerCount} custom header${headerCount === 1 ? '' : 's'}`)
+  return parts
+}
@@ -0,0 +1,106 @@
+import type { Collection } from 'chromadb'
+import type { DocumentRecord, HistoryChange } from './types'
+import { readDocumentPages } from './chromadb-search'
+import { recordsToPayload, upsertToCollection } from './chromadb-payloads'
+import { compareRecords } from './collection-diff'
+
+export const MAX_HISTORY_ENTRIES = 50
+const IMAGE_PAGE_SIZE = 100
+
+/**
+ * One undoable change: the affected records as they were before and after it,
+ * embeddings included so restoring never needs the embedding function.
+ */
+export interface HistoryEntry extends HistoryChange {
+  before: DocumentRecord[]
+  after: DocumentRecord[]
+}
+
+/** The stored records among `ids`, with everything needed to write them back. */
+export async function readImage(collection: Collection, ids: string[]): Promise<DocumentRecord[]> {
+  // An empty ID filter would read the whole collection
+  if (ids.length === 0) return []
+  const records: DocumentRecord[] = []
+  const pages = readDocumentPages(collection, { ids, include: ['documents', 'metadatas', 'embeddings'] }, IMAGE_PAGE_SIZE)
+  for await (const page of pages) {
+    records.push(...page)
+  }
+  return records
+}
+
+/**
+ * Build an entry holding only the records the change touched, or null when it
+ * changed nothing.
+ */
+export function historyEntry(change: HistoryChange, before: DocumentRecord[], after: DocumentRecord[]): HistoryEntry | null {
+  const beforeById = new Map(before.map(record => [record.id, record]))
+  const afterById = new Map(after.map(record => [record.id, record]))
+  const changed = new Set(
+    [...new Set([...beforeById.keys(), ...afterById.keys()])].filter(id => {
+      const a = beforeById.get(id)
+      const b = afterById.get(id)
+      return !a || !b || compareRecords(a, b, 0).length > 0
+    })
+  )
+  if (changed.size === 0) return null
+  return {
+    ...change,
+    before: before.filter(record => changed.has(record.id)),
+    after: after.filter(record => changed.has(record.id)),
+  }
+}
+
+/** Put the records of `image` back and remove those only `current` has. */
+export async function restoreImage(collection: Collection, image: DocumentRecord[], current: DocumentRecord[]): Promise<void> {
+  for (let start = 0; start < image.length; start += IMAGE_PAGE_SIZE) {
+    await upsertToCollection(collection, recordsToPayload(image.slice(start, start + IMAGE_PAGE_SIZE)))
+  }
+  const kept = new Set(image.map(record => record.id))
+  const extra = current.filter(record => !kept.has(record.id)).map(record => record.id)
+  if (extra.length > 0) {
+    await collection.delete({ ids: extra })
+  }
+}
+
+/**
+ * Undo and redo stacks for one window. An entry only moves between stacks
+ * once `apply` succeeds, so a failed undo can be retried.
+ */
+export class DocumentHistory {
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  private applying = false
+
+  push(entry: HistoryEntry): void {
+    this.undoStack.push(entry)
+    if (this.undoStack.length > MAX_HISTORY_ENTRIES) this.undoStack.shift()
+    this.redoStack = []
+  }
+
+  undo(apply: (entry: HistoryEntry) => Promise<void>): Promise<HistoryEntry | null> {
+    return this.move(this.undoStack, this.redoStack, apply)
+  }
+
+  redo(apply: (entry: HistoryEntry) => Promise<void>): Promise<HistoryEntry | null> {
+    return this.move(this.redoStack, this.undoStack, apply)
+  }
+
+  private async move(
+    from: HistoryEntry[],
+    to: HistoryEntry[],
+    apply: (entry: HistoryEntry) => Promise<void>
+  ): Promise<HistoryEntry | null> {
+    const entry = from.at(-1)
+    if (!entry) return null
+    if (this.applying) throw new Error('The previous undo or redo is still running')
+    this.applying = true
+    try {
+      await apply(entry)
+    } finally {
+      this.applying = false
+    }
+    from.pop()
+    to.push(entry)
+    return entry
+  }
+}
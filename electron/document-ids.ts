@@ -0,0 +1,23 @@
+// Naming for pasted copies whose IDs are already taken. Pure, so the renderer's
+// draft paste and the main process's cross-connection copy agree on the scheme.
+
+/** The `attempt`-th alternative to `id`: "a-copy", then "a-copy-2", "a-copy-3", ... */
+export function copyIdCandidate(id: string, attempt: number): string {
+  return attempt === 1 ? `${id}-copy` : `${id}-copy-${attempt}`
+}
+
+/**
+ * Give each ID the first name not in `takenIds` or already handed out to an
+ * earlier ID in the list. Unclaimed IDs keep their name.
+ */
+export function resolveCopyIds(ids: string[], takenIds: ReadonlySet<string>): string[] {
+  const used = new Set(takenIds)
+  return ids.map(id => {
+    let candidate = id
+    for (let attempt = 1; used.has(candidate); attempt++) {
+      candidate = copyIdCandidate(id, attempt)
+    }
+    used.add(candidate)
+    return candidate
+  })
+}
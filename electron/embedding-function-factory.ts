@@ -1,5 +1,6 @@
 import { ChromaClient, CloudClient, EmbeddingFunction } from 'chromadb'
 import { CollectionInfo } from './types'
+import { EmbeddingUsageSink, trackEmbeddingUsage } from './embedding-usage'
 
 // Custom error for missing API credentials
 export class EmbeddingCredentialsError extends Error {
@@ -43,9 +44,11 @@ type EFConfig = CollectionInfo['embeddingFunction']
 export class EmbeddingFunctionFactory {
   private cache = new Map<string, EmbeddingFunction>()
   private client: ChromaClient | CloudClient
+  private onUsage?: EmbeddingUsageSink
 
-  constructor(client: ChromaClient | CloudClient) {
+  constructor(client: ChromaClient | CloudClient, onUsage?: EmbeddingUsageSink) {
     this.client = client
+    this.onUsage = onUsage
   }
 
   async getEmbeddingFunction(
@@ -70,7 +73,8 @@ export class EmbeddingFunctionFactory {
     }
 
     // Build new EF
-    const ef = await this.buildEmbeddingFunction(collectionName, efConfig)
+    const built = await this.buildEmbeddingFunction(collectionName, efConfig)
+    const ef = built && this.trackUsage(built, efConfig)
     if (ef) {
       this.cache.set(cacheKey, ef)
     }
@@ -78,6 +82,16 @@ export class EmbeddingFunctionFactory {
     return ef
   }
 
+  private trackUsage(ef: EmbeddingFunction, efConfig: NonNullable<EFConfig>): EmbeddingFunction {
+    const onUsage = this.onUsage
+    if (!onUsage) return ef
+    // Record under the renderer's provider names, e.g. "google-gemini" rather than "google_generative_ai"
+    const packageName = PYTHON_TO_JS_PACKAGE[efConfig.name] || efConfig.name
+    const type = packageName === 'default-embed' ? 'default' : packageName
+    const modelName = typeof efConfig.config?.model_name === 'string' ? efConfig.config.model_name : undefined
+    return trackEmbeddingUsage(ef, texts => onUsage(type, modelName, texts))
+  }
+
   private getCacheKey(collectionName: string, config: NonNullable<EFConfig>): string {
     const configStr = JSON.stringify(config)
     return `${collectionName}:${configStr}`
@@ -0,0 +1,52 @@
+import type { Collection, EmbeddingFunction } from 'chromadb'
+import { EmbeddingInputStats } from './types'
+import { readDocumentPages } from './chromadb-search'
+
+// Receives the texts an embedding function was just paid to embed
+export type EmbeddingUsageSink = (type: string, modelName: string | undefined, texts: string[]) => void
+
+const MEASURE_PAGE_SIZE = 500
+
+/**
+ * `ef`, reporting each successful call to `record`. Providers bill for
+ * document and query embeddings alike, so both count. Everything else the
+ * Chroma client reads from an embedding function comes through the prototype.
+ */
+export function trackEmbeddingUsage(ef: EmbeddingFunction, record: (texts: string[]) => void): EmbeddingFunction {
+  const tracked: EmbeddingFunction = Object.create(ef)
+  tracked.generate = async texts => {
+    const embeddings = await ef.generate(texts)
+    record(texts)
+    return embeddings
+  }
+  if (ef.generateForQueries) {
+    const generateForQueries = ef.generateForQueries.bind(ef)
+    tracked.generateForQueries = async texts => {
+      const embeddings = await generateForQueries(texts)
+      record(texts)
+      return embeddings
+    }
+  }
+  return tracked
+}
+
+/**
+ * The document text a job would send for embedding, read without the
+ * vectors. `batchSize` is how many texts the job sends per request.
+ */
+export async function measureEmbeddingInput(
+  collection: Collection,
+  ids: string[] | undefined,
+  batchSize: number
+): Promise<EmbeddingInputStats> {
+  let documents = 0
+  let characters = 0
+  for await (const page of readDocumentPages(collection, { ids, include: ['documents'] }, MEASURE_PAGE_SIZE)) {
+    for (const record of page) {
+      if (!record.document) continue
+      documents++
+      characters += record.document.length
+    }
+  }
+  return { documents, characters, requests: Math.ceil(documents / batchSize) }
+}
@@ -0,0 +1,109 @@
+import { open } from 'node:fs/promises'
+import type { DocumentRecord, ExportFormat } from './types'
+import { ParquetColumn, ParquetFileWriter, ParquetValue } from './parquet-writer'
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  jsonl: 'jsonl',
+  csv: 'csv',
+  parquet: 'parquet',
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  jsonl: 'JSON Lines',
+  csv: 'CSV',
+  parquet: 'Apache Parquet',
+}
+
+// Optional columns; id, document and metadata are always written
+export interface ExportColumns {
+  embeddings: boolean
+  distances: boolean
+}
+
+export interface ExportFileWriter {
+  write(records: DocumentRecord[]): Promise<void>
+  close(): Promise<void>
+  // Release the file without finishing it, before it is deleted
+  abort(): Promise<void>
+}
+
+export function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** One record as written to JSONL. */
+export function exportObject(record: DocumentRecord, columns: ExportColumns): Record<string, unknown> {
+  const row: Record<string, unknown> = { id: record.id, document: record.document, metadata: record.metadata }
+  if (columns.embeddings) row.embedding = record.embedding
+  if (columns.distances) row.distance = record.distance ?? null
+  return row
+}
+
+/**
+ * One record as a CSV line. Metadata and embeddings are JSON text, which the
+ * CSV importer reads back as a string column and an embedding column.
+ */
+export function csvLine(record: DocumentRecord, columns: ExportColumns): string {
+  const fields = [
+    record.id,
+    record.document ?? '',
+    record.metadata ? JSON.stringify(record.metadata) : '',
+  ]
+  if (columns.embeddings) fields.push(record.embedding ? JSON.stringify(record.embedding) : '')
+  if (columns.distances) fields.push(record.distance == null ? '' : String(record.distance))
+  return fields.map(csvField).join(',')
+}
+
+function csvHeader(columns: ExportColumns): string {
+  return ['id', 'document', 'metadata', ...(columns.embeddings ? ['embedding'] : []), ...(columns.distances ? ['distance'] : [])].join(',')
+}
+
+async function openTextWriter(
+  filePath: string,
+  header: string | null,
+  line: (record: DocumentRecord) => string
+): Promise<ExportFileWriter> {
+  const file = await open(filePath, 'w')
+  if (header !== null) await file.write(`${header}\n`)
+  return {
+    write: async (records) => {
+      if (records.length > 0) await file.write(records.map(record => `${line(record)}\n`).join(''))
+    },
+    close: () => file.close(),
+    abort: () => file.close(),
+  }
+}
+
+async function openParquetWriter(filePath: string, columns: ExportColumns): Promise<ExportFileWriter> {
+  const parquetColumns: ParquetColumn[] = [
+    { name: 'id', type: 'utf8', required: true },
+    { name: 'document', type: 'utf8' },
+    { name: 'metadata', type: 'json' },
+  ]
+  if (columns.embeddings) parquetColumns.push({ name: 'embedding', type: 'float-list' })
+  if (columns.distances) parquetColumns.push({ name: 'distance', type: 'double' })
+
+  const writer = await ParquetFileWriter.open(filePath, parquetColumns)
+  return {
+    write: (records) => writer.appendRows(records.map(record => {
+      const row: ParquetValue[] = [
+        record.id,
+        record.document,
+        record.metadata ? JSON.stringify(record.metadata) : null,
+      ]
+      if (columns.embeddings) row.push(record.embedding)
+      if (columns.distances) row.push(record.distance ?? null)
+      return row
+    })),
+    close: () => writer.close(),
+    abort: () => writer.abort(),
+  }
+}
+
+export function openExportFile(filePath: string, format: ExportFormat, columns: ExportColumns): Promise<ExportFileWriter> {
+  switch (format) {
+    case 'jsonl': return openTextWriter(filePath, null, record => JSON.stringify(exportObject(record, columns)))
+    case 'csv': return openTextWriter(filePath, csvHeader(columns), record => csvLine(record, columns))
+    case 'parquet': return openParquetWriter(filePath, columns)
+  }
+}
@@ -0,0 +1,197 @@
+import { createReadStream } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { createInterface } from 'node:readline'
+import type { ImportFileFormat, ImportFilePreview } from './types'
+
+const PREVIEW_ROW_COUNT = 20
+
+const EXTENSION_FORMATS: Record<string, ImportFileFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'tsv',
+  '.tab': 'tsv',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+  '.json': 'json',
+}
+
+export const IMPORT_FILE_EXTENSIONS = Object.keys(EXTENSION_FORMATS).map(extension => extension.slice(1))
+
+export function importFileFormat(filePath: string): ImportFileFormat | null {
+  return EXTENSION_FORMATS[path.extname(filePath).toLowerCase()] ?? null
+}
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may hold delimiters, doubled
+ * quotes and line breaks, and a record can span any number of chunks.
+ */
+export class DelimitedParser {
+  private field = ''
+  private record: string[] = []
+  private inQuotes = false
+  // A quote inside a quoted field: either an escaped quote or the closing one
+  private pendingQuote = false
+  private skipLineFeed = false
+
+  constructor(private readonly delimiter: string) {}
+
+  push(chunk: string): string[][] {
+    const records: string[][] = []
+    for (const char of chunk) {
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false
+        if (char === '\n') continue
+      }
+      if (this.pendingQuote) {
+        this.pendingQuote = false
+        if (char === '"') {
+          this.field += '"'
+          continue
+        }
+        this.inQuotes = false
+      }
+      if (this.inQuotes) {
+        if (char === '"') this.pendingQuote = true
+        else this.field += char
+      } else if (char === '"' && this.field === '') {
+        this.inQuotes = true
+      } else if (char === this.delimiter) {
+        this.endField()
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r'
+        this.endRecord(records)
+      } else {
+        this.field += char
+      }
+    }
+    return records
+  }
+
+  end(): string[][] {
+    const records: string[][] = []
+    if (this.field !== '' || this.record.length > 0) this.endRecord(records)
+    return records
+  }
+
+  private endField() {
+    this.record.push(this.field)
+    this.field = ''
+  }
+
+  private endRecord(records: string[][]) {
+    this.endField()
+    // Blank lines carry no record
+    if (this.record.length > 1 || this.record[0] !== '') records.push(this.record)
+    this.record = []
+  }
+}
+
+// Blank headers get a positional name; repeated ones a numeric suffix
+export function headerColumns(header: string[]): string[] {
+  const seen = new Map<string, number>()
+  return header.map((raw, index) => {
+    const name = raw.trim() || `column_${index + 1}`
+    const count = (seen.get(name) ?? 0) + 1
+    seen.set(name, count)
+    return count > 1 ? `${name}_${count}` : name
+  })
+}
+
+async function* readDelimitedRows(filePath: string, delimiter: string): AsyncGenerator<Record<string, unknown>> {
+  const parser = new DelimitedParser(delimiter)
+  let columns: string[] | null = null
+  let first = true
+  const toRows = function* (records: string[][]) {
+    for (const record of records) {
+      if (!columns) {
+        columns = headerColumns(record)
+        continue
+      }
+      const row: Record<string, unknown> = {}
+      columns.forEach((column, index) => {
+        row[column] = record[index] ?? ''
+      })
+      yield row
+    }
+  }
+
+  for await (const chunk of createReadStream(filePath, { encoding: 'utf8' })) {
+    const text = first ? (chunk as string).replace(/^\uFEFF/, '') : chunk as string
+    first = false
+    yield* toRows(parser.push(text))
+  }
+  yield* toRows(parser.end())
+}
+
+function parseObject(value: unknown, location: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${location} is not a JSON object`)
+  }
+  return value as Record<string, unknown>
+}
+
+async function* readJsonLines(filePath: string): AsyncGenerator<Record<string, unknown>> {
+  const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity })
+  let lineNumber = 0
+  for await (const line of lines) {
+    lineNumber++
+    if (line.trim() === '') continue
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch (error) {
+      throw new Error(`Line ${lineNumber}: ${error instanceof Error ? error.message : 'invalid JSON'}`)
+    }
+    yield parseObject(value, `Line ${lineNumber}`)
+  }
+}
+
+// A JSON array has to be parsed whole; rows are still handed out one by one
+async function* readJsonArray(filePath: string): AsyncGenerator<Record<string, unknown>> {
+  const value: unknown = JSON.parse((await readFile(filePath, 'utf8')).replace(/^\uFEFF/, ''))
+  if (!Array.isArray(value)) throw new Error('The file must contain a JSON array of objects')
+  for (let i = 0; i < value.length; i++) {
+    yield parseObject(value[i], `Item ${i + 1}`)
+  }
+}
+
+export function readImportRows(filePath: string, format: ImportFileFormat): AsyncGenerator<Record<string, unknown>> {
+  switch (format) {
+    case 'csv': return readDelimitedRows(filePath, ',')
+    case 'tsv': return readDelimitedRows(filePath, '\t')
+    case 'jsonl': return readJsonLines(filePath)
+    case 'json': return readJsonArray(filePath)
+  }
+}
+
+export async function* readImportBatches(
+  filePath: string,
+  format: ImportFileFormat,
+  batchSize: number
+): AsyncGenerator<Record<string, unknown>[]> {
+  let batch: Record<string, unknown>[] = []
+  for await (const row of readImportRows(filePath, format)) {
+    batch.push(row)
+    if (batch.length >= batchSize) {
+      yield batch
+      batch = []
+    }
+  }
+  if (batch.length > 0) yield batch
+}
+
+/** Read the file once for its columns, first rows and row count. */
+export async function previewImportFile(
+  filePath: string,
+  format: ImportFileFormat
+): Promise<Omit<ImportFilePreview, 'fileToken'>> {
+  const columns = new Set<string>()
+  const rows: Record<string, unknown>[] = []
+  let totalRows = 0
+  for await (const row of readImportRows(filePath, format)) {
+    totalRows++
+    Object.keys(row).forEach(column => columns.add(column))
+    if (rows.length < PREVIEW_ROW_COUNT) rows.push(row)
+  }
+  return { fileName: path.basename(filePath), format, columns: [...columns], rows, totalRows }
+}
@@ -0,0 +1,183 @@
+// Row-to-record mapping for file imports. Shared by the main process, which
+// writes the records, and the import wizard, which previews them, so it must
+// stay free of Node and Electron imports.
+import type { ImportColumnMapping, ImportColumnType, ImportMetadataColumn } from './ipc-contract-transfer'
+
+type ImportScalar = string | number | boolean
+
+export interface ImportRecord {
+  id: string
+  document?: string
+  metadata?: Record<string, ImportScalar | ImportScalar[]>
+  embedding?: number[]
+}
+
+const ID_COLUMN_NAMES = ['id', '_id', 'ids', 'uuid', 'key']
+const DOCUMENT_COLUMN_NAMES = ['document', 'documents', 'text', 'content', 'body', 'chunk', 'page_content']
+const EMBEDDING_COLUMN_NAMES = ['embedding', 'embeddings', 'vector', 'vectors', 'values']
+const TRUE_VALUES = ['true', 'yes', 'y', '1']
+const FALSE_VALUES = ['false', 'no', 'n', '0']
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+}
+
+// CSV cells are always strings, so arrays may arrive as JSON text
+function parseArrayValue(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(value)
+      return Array.isArray(parsed) ? parsed : null
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function coerceScalar(value: unknown, type: Exclude<ImportColumnType, 'array'>): ImportScalar {
+  switch (type) {
+    case 'string':
+      return toText(value)
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim())
+      if (typeof value === 'boolean' || !Number.isFinite(number)) throw new Error(`${toText(value)} is not a number`)
+      return number
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const text = String(value).trim().toLowerCase()
+      if (TRUE_VALUES.includes(text)) return true
+      if (FALSE_VALUES.includes(text)) return false
+      throw new Error(`${toText(value)} is not a boolean`)
+    }
+  }
+}
+
+/**
+ * Convert a cell to the metadata type chosen for its column. Blank cells
+ * return null so the key is left out of the record.
+ */
+export function coerceImportValue(value: unknown, type: ImportColumnType): ImportScalar | ImportScalar[] | null {
+  if (isBlank(value)) return null
+  if (type !== 'array') return coerceScalar(value, type)
+
+  const items = parseArrayValue(value)
+  if (!items) throw new Error(`${toText(value)} is not an array`)
+  const itemType = typeof items[0]
+  if (itemType !== 'string' && itemType !== 'number' && itemType !== 'boolean') {
+    throw new Error('arrays must hold strings, numbers or booleans')
+  }
+  if (items.some(item => typeof item !== itemType)) throw new Error('array items must all have the same type')
+  return items as ImportScalar[]
+}
+
+export function parseImportEmbedding(value: unknown): number[] {
+  const items = parseArrayValue(value)
+  if (!items || items.length === 0 || items.some(item => typeof item !== 'number' || !Number.isFinite(item))) {
+    throw new Error('embedding must be a non-empty array of numbers')
+  }
+  return items as number[]
+}
+
+function mapMetadata(row: Record<string, unknown>, columns: ImportMetadataColumn[]): ImportRecord['metadata'] {
+  const metadata: NonNullable<ImportRecord['metadata']> = {}
+  for (const { column, key, type } of columns) {
+    try {
+      const value = coerceImportValue(row[column], type)
+      if (value !== null) metadata[key] = value
+    } catch (error) {
+      throw new Error(`${column}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return Object.keys(metadata).length > 0 ? metadata : undefined
+}
+
+/** The ID a row is written under, or null when its ID cell is blank. */
+export function importRowId(row: Record<string, unknown>, idColumn: string): string | null {
+  const value = row[idColumn]
+  return isBlank(value) ? null : toText(value).trim()
+}
+
+/** Build the record for one row; throws with a message naming the bad column. */
+export function mapImportRow(row: Record<string, unknown>, mapping: ImportColumnMapping): ImportRecord {
+  let id: string
+  if (mapping.idColumn) {
+    const rowId = importRowId(row, mapping.idColumn)
+    if (rowId === null) throw new Error(`${mapping.idColumn}: missing ID`)
+    id = rowId
+  } else {
+    id = crypto.randomUUID()
+  }
+
+  const record: ImportRecord = { id }
+  if (mapping.documentColumn && !isBlank(row[mapping.documentColumn])) {
+    record.document = toText(row[mapping.documentColumn])
+  }
+  record.metadata = mapMetadata(row, mapping.metadataColumns)
+  if (!record.metadata) delete record.metadata
+
+  if (mapping.embeddingColumn) {
+    try {
+      record.embedding = parseImportEmbedding(row[mapping.embeddingColumn])
+    } catch (error) {
+      throw new Error(`${mapping.embeddingColumn}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  } else if (record.document === undefined) {
+    throw new Error('no document text to embed')
+  }
+  return record
+}
+
+function converts(convert: (value: unknown) => unknown): (value: unknown) => boolean {
+  return value => {
+    try {
+      convert(value)
+      return true
+    } catch {
+      return false
+    }
+  }
+}
+
+/** Most specific type every non-blank sample value converts to. */
+export function inferImportColumnType(values: unknown[]): ImportColumnType {
+  const present = values.filter(value => !isBlank(value))
+  if (present.length === 0) return 'string'
+  // Numbers first, so 0/1 columns stay numeric
+  for (const type of ['number', 'boolean', 'array'] as const) {
+    if (present.every(converts(value => coerceImportValue(value, type)))) return type
+  }
+  return 'string'
+}
+
+function findColumn(columns: string[], names: string[]): string | null {
+  return columns.find(column => names.includes(column.trim().toLowerCase())) ?? null
+}
+
+/** First guess at a mapping from column names and the preview rows. */
+export function suggestImportMapping(columns: string[], rows: Record<string, unknown>[]): ImportColumnMapping {
+  const idColumn = findColumn(columns, ID_COLUMN_NAMES)
+  const documentColumn = findColumn(columns, DOCUMENT_COLUMN_NAMES)
+  // Only suggested when the preview values really are vectors
+  const embeddingCandidate = findColumn(columns, EMBEDDING_COLUMN_NAMES)
+  const candidateValues = embeddingCandidate ? rows.map(row => row[embeddingCandidate]).filter(value => !isBlank(value)) : []
+  const embeddingColumn = candidateValues.length > 0 && candidateValues.every(converts(parseImportEmbedding))
+    ? embeddingCandidate
+    : null
+
+  const mapped = new Set([idColumn, documentColumn, embeddingColumn])
+  return {
+    idColumn,
+    documentColumn,
+    embeddingColumn,
+    metadataColumns: columns
+      .filter(column => !mapped.has(column))
+      .map(column => ({ column, key: column, type: inferImportColumnType(rows.map(row => row[column])) })),
+  }
+}
@@ -0,0 +1,54 @@
+import { ipcMain } from 'electron'
+import { track } from './analytics'
+import { chromaDBConnectionPool } from './chromadb-pool'
+import { BulkMetadataParams, BulkMetadataProgress } from './types'
+import { parseBulkMetadataParams } from './ipc-contract-bulk'
+import { cancelOperation, handleConnected } from './ipc-helpers'
+import { documentsLabel, recordHistory } from './ipc-history'
+
+// Bulk metadata edits, one running per profile
+const activeBulkUpdates: Map<string, AbortController> = new Map()
+
+export function registerBulkHandlers(): void {
+  handleConnected(
+    'chromadb:bulkUpdateMetadata',
+    'chromadb.bulkUpdateMetadata',
+    'Failed to update metadata',
+    async ({ event, profileId, service }, rawParams) => {
+      const params = parseBulkMetadataParams(rawParams)
+      // A dry run only previews, so it is allowed on read-only profiles
+      if (!params.dryRun) chromaDBConnectionPool.assertWritable(profileId)
+      const abortController = new AbortController()
+      activeBulkUpdates.set(profileId, abortController)
+      const onProgress = (progress: BulkMetadataProgress) => {
+        event.sender.send('chromadb:bulkUpdateProgress', progress)
+      }
+      const update = (run: BulkMetadataParams) => service.bulkUpdateMetadata(run, onProgress, abortController.signal)
+      try {
+        // History needs the records up front, so a real run finds them first and updates exactly those
+        const ids = params.dryRun ? null : await service.bulkTargetIds(params, onProgress, abortController.signal)
+        const result = ids
+          ? await recordHistory(
+            event.sender,
+            service,
+            { label: documentsLabel('Edit Metadata of', ids.length), profileId, collectionName: params.collectionName },
+            ids,
+            () => update({ ...params, target: { kind: 'ids', ids } })
+          )
+          // A dry run, or a run cancelled while finding records, which the update reports
+          : await update(params)
+        if (result.success && !params.dryRun) {
+          track('metadata_bulk_updated', { operation: params.operation.kind, count: result.changed })
+        }
+        // Like an import, a cancelled or failed run still reports what it changed
+        return result
+      } finally {
+        activeBulkUpdates.delete(profileId)
+      }
+    }
+  )
+
+  ipcMain.handle('chromadb:cancelBulkUpdate', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeBulkUpdates, rawProfileId, 'No active bulk update')
+  })
+}
@@ -0,0 +1,135 @@
+// Contract for editing metadata across many records at once. Split from
+// ipc-contract.ts, whose ElectronAPI declares the calls that take these types.
+import type { JsonRecord, WhereClause, WhereDocumentClause } from './ipc-contract'
+import {
+  parseBoolean,
+  parseEnum,
+  parseOptionalString,
+  parseRecord,
+  parseString,
+  parseStringArray,
+  parseWhereClause,
+  parseWhereDocumentClause,
+} from './ipc-parse'
+
+export type MetadataScalar = string | number | boolean
+export type MetadataScalarType = 'string' | 'number' | 'boolean'
+
+export type MetadataOperation =
+  | { kind: 'set'; key: string; value: MetadataScalar }
+  | { kind: 'rename'; key: string; newKey: string }
+  | { kind: 'delete'; key: string }
+  | { kind: 'convert'; key: string; type: MetadataScalarType }
+  // key null searches every string value
+  | { kind: 'replace'; key: string | null; find: string; replace: string }
+
+// Either the rows picked in the table or everything the filters match
+export type BulkMetadataTarget =
+  | { kind: 'ids'; ids: string[] }
+  | {
+      kind: 'filter'
+      metadataFilter?: WhereClause
+      documentFilter?: WhereDocumentClause
+      ids?: string[]
+      // Case-insensitive ID substring, matching the table's ID search
+      idContains?: string
+    }
+
+export interface BulkMetadataParams {
+  collectionName: string
+  target: BulkMetadataTarget
+  operation: MetadataOperation
+  // Count and sample the changes without writing them
+  dryRun: boolean
+}
+
+export interface BulkMetadataChange {
+  id: string
+  before: JsonRecord | null
+  after: JsonRecord | null
+}
+
+export interface BulkMetadataResult {
+  success: boolean
+  matched: number
+  changed: number
+  // Records the operation could not apply to, e.g. a value that is not a number
+  failed: number
+  samples: BulkMetadataChange[]
+  errors: string[]
+  error?: string
+}
+
+export interface BulkMetadataProgress {
+  phase: 'scanning' | 'updating' | 'complete' | 'cancelled' | 'error'
+  total: number
+  processed: number
+  message: string
+}
+
+export const MAX_BULK_SAMPLES = 5
+export const MAX_BULK_ERRORS = 20
+
+const SCALAR_TYPES = ['string', 'number', 'boolean'] as const
+
+function parseScalar(value: unknown, field: string): MetadataScalar {
+  if (typeof value === 'string' || typeof value === 'boolean') return value
+  if (typeof value === 'number' && Number.isFinite(value)) return value
+  throw new Error(`${field} must be a string, finite number or boolean`)
+}
+
+function parseMetadataOperation(value: unknown): MetadataOperation {
+  const record = parseRecord(value, 'params.operation')
+  const kind = parseEnum(record.kind, 'params.operation.kind', ['set', 'rename', 'delete', 'convert', 'replace'] as const)
+  if (kind === 'replace') {
+    // An empty replacement removes the matched text
+    if (typeof record.replace !== 'string') throw new Error('params.operation.replace must be a string')
+    return {
+      kind,
+      key: parseOptionalString(record.key, 'params.operation.key') || null,
+      find: parseString(record.find, 'params.operation.find'),
+      replace: record.replace,
+    }
+  }
+  const key = parseString(record.key, 'params.operation.key')
+  switch (kind) {
+    case 'set':
+      return { kind, key, value: parseScalar(record.value, 'params.operation.value') }
+    case 'rename': {
+      const newKey = parseString(record.newKey, 'params.operation.newKey')
+      if (newKey === key) throw new Error('params.operation.newKey must differ from params.operation.key')
+      return { kind, key, newKey }
+    }
+    case 'delete':
+      return { kind, key }
+    case 'convert':
+      return { kind, key, type: parseEnum(record.type, 'params.operation.type', SCALAR_TYPES) }
+  }
+}
+
+function parseBulkTarget(value: unknown): BulkMetadataTarget {
+  const record = parseRecord(value, 'params.target')
+  const kind = parseEnum(record.kind, 'params.target.kind', ['ids', 'filter'] as const)
+  if (kind === 'ids') {
+    const ids = parseStringArray(record.ids, 'params.target.ids')
+    if (ids.length === 0) throw new Error('params.target.ids must not be empty')
+    return { kind, ids }
+  }
+  return {
+    kind,
+    metadataFilter: record.metadataFilter === undefined ? undefined : parseWhereClause(record.metadataFilter, 'params.target.metadataFilter'),
+    documentFilter: record.documentFilter === undefined ? undefined : parseWhereDocumentClause(record.documentFilter, 'params.target.documentFilter'),
+    ids: record.ids === undefined ? undefined : parseStringArray(record.ids, 'params.target.ids'),
+    idContains: parseOptionalString(record.idContains, 'params.target.idContains'),
+  }
+}
+
+export function parseBulkMetadataParams(value: unknown): BulkMetadataParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    target: parseBulkTarget(record.target),
+    operation: parseMetadataOperation(record.operation),
+    dryRun: parseBoolean(record.dryRun, 'params.dryRun'),
+  }
+}
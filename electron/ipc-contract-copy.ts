@@ -0,0 +1,234 @@
+// Contract for copying and syncing records between collections and connections,
+// including the clipboard that every window shares. Split from ipc-contract.ts,
+// whose ElectronAPI declares the calls that take these types.
+import type { CollectionInfo, JsonRecord } from './ipc-contract'
+import {
+  isRecord,
+  parseBoolean,
+  parseEnum,
+  parseInteger,
+  parseOptionalNumber,
+  parseRecord,
+  parseString,
+  parseStringArray,
+} from './ipc-parse'
+
+export interface ClipboardDocument {
+  id: string
+  document: string | null
+  metadata: JsonRecord | null
+}
+
+// Where a clipboard item was copied from, so a paste in another window can
+// tell whether it crosses connections
+interface ClipboardSource {
+  sourceProfileId: string
+  sourceProfileName: string
+}
+
+export interface CollectionClipboardEntry extends ClipboardSource {
+  type: 'collection'
+  collection: CollectionInfo
+}
+
+export interface DocumentsClipboardEntry extends ClipboardSource {
+  type: 'documents'
+  documents: ClipboardDocument[]
+  sourceCollectionName: string
+}
+
+export type ClipboardEntry = CollectionClipboardEntry | DocumentsClipboardEntry
+
+// Paste records from a collection on another connection into an existing one
+export interface CopyDocumentsParams {
+  sourceProfileId: string
+  sourceCollectionName: string
+  ids: string[]
+  targetCollectionName: string
+  // Embed with the target's function instead of carrying the source vectors over
+  regenerateEmbeddings: boolean
+}
+
+export interface CopyDocumentsResult {
+  success: boolean
+  totalDocuments: number
+  copiedDocuments: number
+  // Records given a "-copy" ID because theirs was taken in the target
+  renamedDocuments: number
+  // IDs the records were added under in the target
+  copiedIds: string[]
+  error?: string
+}
+
+// A collection on any connected profile
+export interface CollectionRef {
+  profileId: string
+  collectionName: string
+}
+
+export interface DiffCollectionsParams {
+  a: CollectionRef
+  b: CollectionRef
+  compareEmbeddings: boolean
+  // Largest per-component difference at which two vectors still count as equal
+  embeddingTolerance: number
+}
+
+export type DiffField = 'document' | 'metadata' | 'embedding'
+
+export type DiffEntry =
+  | { id: string; kind: 'onlyInA' | 'onlyInB' }
+  | { id: string; kind: 'changed'; fields: DiffField[] }
+
+export interface CollectionDiff {
+  onlyInA: number
+  onlyInB: number
+  changed: number
+  unchanged: number
+  // The first MAX_DIFF_ENTRIES differences; the counts above cover all of them
+  entries: DiffEntry[]
+  truncated: boolean
+  // A cancelled diff reports what it compared before stopping
+  cancelled: boolean
+}
+
+export const MAX_DIFF_ENTRIES = 2000
+export const DEFAULT_EMBEDDING_TOLERANCE = 1e-6
+
+// Reported by both diffing and applying a diff
+export interface DiffProgress {
+  phase: 'comparing' | 'applying' | 'complete' | 'cancelled' | 'error'
+  total: number
+  processed: number
+  message: string
+}
+
+// Make B match A for the chosen IDs: upsert A's records, delete B's extras
+export interface ApplyDiffParams {
+  a: CollectionRef
+  b: CollectionRef
+  upsertIds: string[]
+  deleteIds: string[]
+}
+
+export interface ApplyDiffResult {
+  success: boolean
+  upserted: number
+  deleted: number
+  error?: string
+}
+
+const EMBEDDING_FUNCTION_TYPES = ['known', 'legacy', 'unknown'] as const
+
+function parseNullableRecord(value: unknown, field: string): JsonRecord | null {
+  return value === null || value === undefined ? null : parseRecord(value, field)
+}
+
+function parseClipboardCollection(value: unknown): CollectionInfo {
+  const record = parseRecord(value, 'entry.collection')
+  const ef = record.embeddingFunction
+  return {
+    name: parseString(record.name, 'entry.collection.name'),
+    id: parseString(record.id, 'entry.collection.id'),
+    metadata: parseNullableRecord(record.metadata, 'entry.collection.metadata'),
+    count: parseInteger(record.count, 'entry.collection.count', 0),
+    dimension: typeof record.dimension === 'number' ? record.dimension : null,
+    embeddingFunction: isRecord(ef)
+      ? {
+          name: parseString(ef.name, 'entry.collection.embeddingFunction.name'),
+          type: parseEnum(ef.type, 'entry.collection.embeddingFunction.type', EMBEDDING_FUNCTION_TYPES),
+          config: ef.config === undefined ? undefined : parseRecord(ef.config, 'entry.collection.embeddingFunction.config'),
+        }
+      : null,
+  }
+}
+
+function parseClipboardDocument(value: unknown, index: number): ClipboardDocument {
+  const record = parseRecord(value, `entry.documents[${index}]`)
+  const document = record.document
+  if (document !== null && typeof document !== 'string') {
+    throw new Error(`entry.documents[${index}].document must be a string or null`)
+  }
+  return {
+    id: parseString(record.id, `entry.documents[${index}].id`),
+    document,
+    metadata: parseNullableRecord(record.metadata, `entry.documents[${index}].metadata`),
+  }
+}
+
+export function parseClipboardEntry(value: unknown): ClipboardEntry | null {
+  if (value === null) return null
+  const record = parseRecord(value, 'entry')
+  const source: ClipboardSource = {
+    sourceProfileId: parseString(record.sourceProfileId, 'entry.sourceProfileId'),
+    sourceProfileName: parseString(record.sourceProfileName, 'entry.sourceProfileName'),
+  }
+  if (parseEnum(record.type, 'entry.type', ['collection', 'documents'] as const) === 'collection') {
+    return { type: 'collection', collection: parseClipboardCollection(record.collection), ...source }
+  }
+  if (!Array.isArray(record.documents)) {
+    throw new Error('entry.documents must be an array')
+  }
+  return {
+    type: 'documents',
+    documents: record.documents.map(parseClipboardDocument),
+    sourceCollectionName: parseString(record.sourceCollectionName, 'entry.sourceCollectionName'),
+    ...source,
+  }
+}
+
+export function parseCopyDocumentsParams(value: unknown): CopyDocumentsParams {
+  const record = parseRecord(value, 'params')
+  const ids = parseStringArray(record.ids, 'params.ids')
+  if (ids.length === 0) {
+    throw new Error('params.ids must not be empty')
+  }
+  return {
+    sourceProfileId: parseString(record.sourceProfileId, 'params.sourceProfileId'),
+    sourceCollectionName: parseString(record.sourceCollectionName, 'params.sourceCollectionName'),
+    ids,
+    targetCollectionName: parseString(record.targetCollectionName, 'params.targetCollectionName'),
+    regenerateEmbeddings: parseBoolean(record.regenerateEmbeddings, 'params.regenerateEmbeddings'),
+  }
+}
+
+function parseCollectionRef(value: unknown, field: string): CollectionRef {
+  const record = parseRecord(value, field)
+  return {
+    profileId: parseString(record.profileId, `${field}.profileId`),
+    collectionName: parseString(record.collectionName, `${field}.collectionName`),
+  }
+}
+
+export function parseDiffCollectionsParams(value: unknown): DiffCollectionsParams {
+  const record = parseRecord(value, 'params')
+  const tolerance = parseOptionalNumber(record.embeddingTolerance, 'params.embeddingTolerance')
+  if (tolerance !== undefined && tolerance < 0) {
+    throw new Error('params.embeddingTolerance must not be negative')
+  }
+  const a = parseCollectionRef(record.a, 'params.a')
+  const b = parseCollectionRef(record.b, 'params.b')
+  if (a.profileId === b.profileId && a.collectionName === b.collectionName) {
+    throw new Error('params.b must be a different collection from params.a')
+  }
+  return {
+    a,
+    b,
+    compareEmbeddings: parseBoolean(record.compareEmbeddings, 'params.compareEmbeddings'),
+    embeddingTolerance: tolerance ?? DEFAULT_EMBEDDING_TOLERANCE,
+  }
+}
+
+export function parseApplyDiffParams(value: unknown): ApplyDiffParams {
+  const record = parseRecord(value, 'params')
+  const params = {
+    a: parseCollectionRef(record.a, 'params.a'),
+    b: parseCollectionRef(record.b, 'params.b'),
+    upsertIds: parseStringArray(record.upsertIds, 'params.upsertIds'),
+    deleteIds: parseStringArray(record.deleteIds, 'params.deleteIds'),
+  }
+  if (params.upsertIds.length + params.deleteIds.length === 0) {
+    throw new Error('params must select at least one change')
+  }
+  return params
+}
@@ -0,0 +1,69 @@
+// Contract for sharing connection profiles as a file. Split from
+// ipc-contract.ts, whose ElectronAPI declares the calls that take these types.
+import { parseEnum, parseOptionalString, parseRecord, parseString, parseStringArray } from './ipc-parse'
+
+export interface ExportProfilesParams {
+  profileIds: string[]
+  // Secrets are encrypted with this; they are left out of the file without it
+  passphrase?: string
+}
+
+export interface ExportProfilesResult {
+  fileName: string
+  profileCount: number
+  includesSecrets: boolean
+}
+
+// What to do with a profile whose name or server matches a saved one
+export type ProfileConflictPolicy = 'skip' | 'replace' | 'keep-both'
+
+export interface ProfileImportEntry {
+  name: string
+  connectionType: 'cloud' | 'self-hosted' | 'local-folder'
+  url: string
+  // The saved profile it would replace, when its name or server matches one
+  conflict?: { profileId: string; name: string }
+}
+
+export interface ProfileImportPreview {
+  fileToken: string
+  fileName: string
+  exportedAt: string
+  profiles: ProfileImportEntry[]
+  // Whether the file carries secrets, which then need its passphrase
+  encryptedSecrets: boolean
+}
+
+export interface ImportProfilesParams {
+  fileToken: string
+  onConflict: ProfileConflictPolicy
+  // Imports without secrets when omitted
+  passphrase?: string
+}
+
+export interface ImportProfilesResult {
+  imported: number
+  replaced: number
+  skipped: number
+}
+
+export function parseExportProfilesParams(value: unknown): ExportProfilesParams {
+  const record = parseRecord(value, 'params')
+  const profileIds = parseStringArray(record.profileIds, 'params.profileIds')
+  if (profileIds.length === 0) {
+    throw new Error('params.profileIds must not be empty')
+  }
+  return {
+    profileIds,
+    passphrase: parseOptionalString(record.passphrase, 'params.passphrase') || undefined,
+  }
+}
+
+export function parseImportProfilesParams(value: unknown): ImportProfilesParams {
+  const record = parseRecord(value, 'params')
+  return {
+    fileToken: parseString(record.fileToken, 'params.fileToken'),
+    onConflict: parseEnum(record.onConflict, 'params.onConflict', ['skip', 'replace', 'keep-both'] as const),
+    passphrase: parseOptionalString(record.passphrase, 'params.passphrase') || undefined,
+  }
+}
@@ -0,0 +1,62 @@
+// Contract for re-embedding a collection in place with another embedding
+// function. Split from ipc-contract.ts, whose ElectronAPI declares the calls
+// that take these types.
+import { parseEmbeddingOverride, type EmbeddingFunctionOverride } from './ipc-contract'
+import { parseEnum, parseRecord, parseString } from './ipc-parse'
+
+export interface ReembedCollectionParams {
+  collectionName: string
+  // Required to start; a resumed run keeps the function it started with
+  embeddingFunction?: EmbeddingFunctionOverride
+}
+
+export interface ReembedProgress {
+  phase: 'preparing' | 'embedding' | 'verifying' | 'swapping' | 'complete' | 'cancelled' | 'error'
+  totalDocuments: number
+  processedDocuments: number
+  message: string
+}
+
+export interface ReembedResult {
+  success: boolean
+  totalDocuments: number
+  embeddedDocuments: number
+  // Records an earlier, interrupted run had already embedded
+  resumedDocuments: number
+  // Where the original now lives, once the names are swapped
+  backupName?: string
+  error?: string
+}
+
+export interface FinishReembedParams {
+  collectionName: string
+  // 'reembedded' deletes the backup; 'original' puts the backup back
+  keep: 'reembedded' | 'original'
+}
+
+/**
+ * Names of the collections a re-embed works with. Derived from the name
+ * rather than stored anywhere, so an interrupted run can be found again
+ * after a restart.
+ */
+export function reembedCollectionNames(collectionName: string): { shadow: string; backup: string } {
+  return { shadow: `${collectionName}-reembed`, backup: `${collectionName}-pre-reembed` }
+}
+
+export function parseReembedCollectionParams(value: unknown): ReembedCollectionParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    embeddingFunction: record.embeddingFunction === undefined
+      ? undefined
+      : parseEmbeddingOverride(record.embeddingFunction, 'params.embeddingFunction'),
+  }
+}
+
+export function parseFinishReembedParams(value: unknown): FinishReembedParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    keep: parseEnum(record.keep, 'params.keep', ['reembedded', 'original'] as const),
+  }
+}
@@ -0,0 +1,251 @@
+// Contract for moving records in and out of files. Split from ipc-contract.ts,
+// whose ElectronAPI declares the calls that take these types.
+import type {
+  CollectionInfo,
+  HNSWConfig,
+  MetadataValueType,
+  QueryByEmbeddingParams,
+  SearchDocumentsParams,
+  WhereClause,
+  WhereDocumentClause,
+} from './ipc-contract'
+import { parseQueryByEmbeddingParams, parseSearchDocumentsParams } from './ipc-contract'
+import {
+  parseBoolean,
+  parseEnum,
+  parseInteger,
+  parseOptionalString,
+  parseRecord,
+  parseString,
+  parseStringArray,
+  parseWhereClause,
+  parseWhereDocumentClause,
+} from './ipc-parse'
+
+export type ImportFileFormat = 'csv' | 'tsv' | 'jsonl' | 'json'
+
+// What the wizard shows after a file is picked. `fileToken` names the file in
+// later calls, so the renderer never passes a path to read.
+export interface ImportFilePreview {
+  fileToken: string
+  fileName: string
+  format: ImportFileFormat
+  columns: string[]
+  rows: Record<string, unknown>[]
+  totalRows: number
+}
+
+// Metadata value types a column can be imported as
+export type ImportColumnType = Exclude<MetadataValueType, 'null'>
+
+export interface ImportMetadataColumn {
+  column: string
+  key: string
+  type: ImportColumnType
+}
+
+export interface ImportColumnMapping {
+  // null generates a UUID per row
+  idColumn: string | null
+  documentColumn: string | null
+  metadataColumns: ImportMetadataColumn[]
+  // null embeds the document column with the collection's embedding function
+  embeddingColumn: string | null
+}
+
+export type IdCollisionPolicy = 'skip' | 'overwrite' | 'fail'
+
+export interface ImportDocumentsParams {
+  collectionName: string
+  fileToken: string
+  mapping: ImportColumnMapping
+  onCollision: IdCollisionPolicy
+}
+
+export interface ImportDocumentsResult {
+  success: boolean
+  totalRows: number
+  importedRows: number
+  // Rows whose ID collided under the 'skip' policy
+  skippedRows: number
+  // Rows that could not be mapped or written; `errors` describes the first
+  // MAX_IMPORT_ERRORS of them
+  failedRows: number
+  errors: string[]
+  error?: string
+}
+
+export interface ImportProgress {
+  phase: 'checking' | 'importing' | 'complete' | 'error' | 'cancelled'
+  totalRows: number
+  processedRows: number
+  message: string
+}
+
+export const MAX_IMPORT_ERRORS = 100
+
+export type ExportFormat = 'jsonl' | 'csv' | 'parquet'
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['jsonl', 'csv', 'parquet']
+
+// Records to export. A 'filter' source pages through a plain or filtered read,
+// so a collection of any size streams to disk; 'search' and 'similar' re-run
+// the ranked query behind the current results, which carry distances.
+export type ExportSource =
+  | {
+      kind: 'filter'
+      metadataFilter?: WhereClause
+      documentFilter?: WhereDocumentClause
+      ids?: string[]
+      // Stop after this many records; omitted reads everything
+      maxResults?: number
+    }
+  | { kind: 'search'; search: SearchDocumentsParams }
+  | { kind: 'similar'; similar: QueryByEmbeddingParams }
+
+// Save location picked in the main process; like imports, the renderer only
+// ever holds the token
+export interface ExportFileTarget {
+  fileToken: string
+  fileName: string
+  format: ExportFormat
+}
+
+export interface ExportDocumentsParams {
+  collectionName: string
+  fileToken: string
+  source: ExportSource
+  // Case-insensitive ID substring, matching the table's ID search
+  idContains?: string
+  includeEmbeddings: boolean
+  includeDistances: boolean
+}
+
+export interface ExportDocumentsResult {
+  success: boolean
+  fileName: string
+  exportedRows: number
+  error?: string
+}
+
+export interface ExportProgress {
+  phase: 'exporting' | 'complete' | 'error' | 'cancelled'
+  processedRows: number
+  // null when a filter makes the count unknown up front
+  totalRows: number | null
+  message: string
+}
+
+// A snapshot is a self-contained archive of one collection: its settings and
+// embedding function, then every record with its embedding. Taking and
+// restoring one both report CopyProgress.
+export interface SnapshotFileTarget {
+  fileToken: string
+  fileName: string
+}
+
+export interface SnapshotCollectionParams {
+  collectionName: string
+  fileToken: string
+}
+
+export interface SnapshotCollectionResult {
+  success: boolean
+  fileName: string
+  documentCount: number
+  error?: string
+}
+
+// What the restore dialog shows after a snapshot file is picked
+export interface SnapshotSummary {
+  fileToken: string
+  fileName: string
+  collectionName: string
+  documentCount: number
+  createdAt: string
+  embeddingFunction: CollectionInfo['embeddingFunction']
+  hnsw: HNSWConfig
+}
+
+export interface RestoreSnapshotParams {
+  fileToken: string
+  // The original collection name or a new one; it must not exist yet
+  targetName: string
+}
+
+const IMPORT_COLUMN_TYPES: readonly ImportColumnType[] = ['string', 'number', 'boolean', 'array']
+
+function parseOptionalColumn(value: unknown, field: string): string | null {
+  return value === null || value === undefined ? null : parseString(value, field)
+}
+
+export function parseImportDocumentsParams(value: unknown): ImportDocumentsParams {
+  const record = parseRecord(value, 'params')
+  const mapping = parseRecord(record.mapping, 'params.mapping')
+  if (!Array.isArray(mapping.metadataColumns)) throw new Error('params.mapping.metadataColumns must be an array')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    fileToken: parseString(record.fileToken, 'params.fileToken'),
+    mapping: {
+      idColumn: parseOptionalColumn(mapping.idColumn, 'params.mapping.idColumn'),
+      documentColumn: parseOptionalColumn(mapping.documentColumn, 'params.mapping.documentColumn'),
+      metadataColumns: mapping.metadataColumns.map((item, index) => {
+        const field = `params.mapping.metadataColumns[${index}]`
+        const column = parseRecord(item, field)
+        return {
+          column: parseString(column.column, `${field}.column`),
+          key: parseString(column.key, `${field}.key`),
+          type: parseEnum(column.type, `${field}.type`, IMPORT_COLUMN_TYPES),
+        }
+      }),
+      embeddingColumn: parseOptionalColumn(mapping.embeddingColumn, 'params.mapping.embeddingColumn'),
+    },
+    onCollision: parseEnum(record.onCollision, 'params.onCollision', ['skip', 'overwrite', 'fail'] as const),
+  }
+}
+
+export function parseExportFormat(value: unknown): ExportFormat {
+  return parseEnum(value, 'format', EXPORT_FORMATS)
+}
+
+function parseExportSource(value: unknown): ExportSource {
+  const record = parseRecord(value, 'params.source')
+  const kind = parseEnum(record.kind, 'params.source.kind', ['filter', 'search', 'similar'] as const)
+  if (kind === 'search') return { kind, search: parseSearchDocumentsParams(record.search) }
+  if (kind === 'similar') return { kind, similar: parseQueryByEmbeddingParams(record.similar) }
+  return {
+    kind,
+    metadataFilter: record.metadataFilter === undefined ? undefined : parseWhereClause(record.metadataFilter, 'params.source.metadataFilter'),
+    documentFilter: record.documentFilter === undefined ? undefined : parseWhereDocumentClause(record.documentFilter, 'params.source.documentFilter'),
+    ids: record.ids === undefined ? undefined : parseStringArray(record.ids, 'params.source.ids'),
+    maxResults: record.maxResults === undefined ? undefined : parseInteger(record.maxResults, 'params.source.maxResults', 1),
+  }
+}
+
+export function parseExportDocumentsParams(value: unknown): ExportDocumentsParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    fileToken: parseString(record.fileToken, 'params.fileToken'),
+    source: parseExportSource(record.source),
+    idContains: parseOptionalString(record.idContains, 'params.idContains'),
+    includeEmbeddings: parseBoolean(record.includeEmbeddings, 'params.includeEmbeddings'),
+    includeDistances: parseBoolean(record.includeDistances, 'params.includeDistances'),
+  }
+}
+
+export function parseSnapshotCollectionParams(value: unknown): SnapshotCollectionParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    fileToken: parseString(record.fileToken, 'params.fileToken'),
+  }
+}
+
+export function parseRestoreSnapshotParams(value: unknown): RestoreSnapshotParams {
+  const record = parseRecord(value, 'params')
+  return {
+    fileToken: parseString(record.fileToken, 'params.fileToken'),
+    targetName: parseString(record.targetName, 'params.targetName'),
+  }
+}
@@ -0,0 +1,46 @@
+// Contract for estimating embedding work before it runs and for the usage
+// recorded as it does. Split from ipc-contract.ts, whose ElectronAPI declares
+// the calls that take these types.
+import { parseEmbeddingOverride, type EmbeddingFunctionOverride } from './ipc-contract'
+import { parseEnum, parseRecord, parseString, parseStringArray } from './ipc-parse'
+
+export interface MeasureEmbeddingInputParams {
+  collectionName: string
+  // Only these records, e.g. documents being pasted; the whole collection when omitted
+  ids?: string[]
+  // Which job will send the text, since each batches its requests differently
+  purpose: 'copy' | 'reembed'
+  embeddingFunction?: EmbeddingFunctionOverride
+}
+
+// What an embedding job would send, before tokens and prices are applied
+export interface EmbeddingInputStats {
+  documents: number
+  characters: number
+  requests: number
+}
+
+// Text sent to one embedding function from one profile, accumulated since
+// the first request. Embedding functions don't report the tokens a provider
+// billed, so this counts characters; tokens and cost are estimated from them.
+export interface EmbeddingUsage {
+  type: string
+  modelName?: string
+  requests: number
+  texts: number
+  characters: number
+  firstUsedAt: number
+  lastUsedAt: number
+}
+
+export function parseMeasureEmbeddingInputParams(value: unknown): MeasureEmbeddingInputParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    ids: record.ids === undefined ? undefined : parseStringArray(record.ids, 'params.ids'),
+    purpose: parseEnum(record.purpose, 'params.purpose', ['copy', 'reembed'] as const),
+    embeddingFunction: record.embeddingFunction === undefined
+      ? undefined
+      : parseEmbeddingOverride(record.embeddingFunction, 'params.embeddingFunction'),
+  }
+}
@@ -1,7 +1,68 @@
-import type { Metadata, Where } from 'chromadb'
+import type { Metadata, Where, WhereDocument } from 'chromadb'
+import {
+  isRecord,
+  parseEnum,
+  parseInteger,
+  parseNumberArray,
+  parseOptionalBoolean,
+  parseOptionalEnum,
+  parseOptionalNumber,
+  parseOptionalString,
+  parseQueryEmbedding,
+  parseRecord,
+  parseString,
+  parseStringArray,
+  parseWhereClause,
+  parseWhereDocumentClause,
+} from './ipc-parse'
+import type {
+  ExportDocumentsParams,
+  ExportDocumentsResult,
+  ExportFileTarget,
+  ExportFormat,
+  ExportProgress,
+  IdCollisionPolicy,
+  ImportDocumentsParams,
+  ImportDocumentsResult,
+  ImportFilePreview,
+  ImportProgress,
+  RestoreSnapshotParams,
+  SnapshotCollectionParams,
+  SnapshotCollectionResult,
+  SnapshotFileTarget,
+  SnapshotSummary,
+} from './ipc-contract-transfer'
+import type {
+  ApplyDiffParams,
+  ApplyDiffResult,
+  ClipboardEntry,
+  CollectionDiff,
+  CopyDocumentsParams,
+  CopyDocumentsResult,
+  DiffCollectionsParams,
+  DiffProgress,
+} from './ipc-contract-copy'
+import type { BulkMetadataParams, BulkMetadataProgress, BulkMetadataResult } from './ipc-contract-bulk'
+import type { FinishReembedParams, ReembedCollectionParams, ReembedProgress, ReembedResult } from './ipc-contract-reembed'
+import type { EmbeddingInputStats, EmbeddingUsage, MeasureEmbeddingInputParams } from './ipc-contract-usage'
+import type {
+  ExportProfilesParams,
+  ExportProfilesResult,
+  ImportProfilesParams,
+  ImportProfilesResult,
+  ProfileImportPreview,
+} from './ipc-contract-profiles'
 
 export type JsonRecord = Record<string, unknown>
 export type WhereClause = Where
+export type WhereDocumentClause = WhereDocument
+
+// Operators accepted in a where clause and a where_document clause. The
+// renderer's filter builder and raw JSON editor validate against these too.
+export type MetadataOperator = '$eq' | '$ne' | '$gt' | '$gte' | '$lt' | '$lte' | '$in' | '$nin'
+export type WhereDocumentOperator = '$contains' | '$not_contains' | '$regex' | '$not_regex'
+
+export { METADATA_OPERATORS, WHERE_DOCUMENT_OPERATORS, parseWhereClause, parseWhereDocumentClause } from './ipc-parse'
 
 export type EmbeddingFunctionType =
   | 'default'
@@ -43,10 +104,31 @@ export interface EmbeddingFunctionOverride {
   accountId?: string
 }
 
+// A jump host the main process forwards a local port through to reach `url`
+export interface SshTunnelConfig {
+  host: string
+  // 22 when omitted
+  port?: number
+  user: string
+  // Private key file; the SSH agent is used when omitted
+  keyPath?: string
+}
+
+// PEM files for a server or gateway that requires mutual TLS
+export interface ClientCertificateConfig {
+  certFile: string
+  keyFile: string
+  passphrase?: string
+}
+
+export const PROFILE_ENVIRONMENTS = ['dev', 'staging', 'prod'] as const
+export type ProfileEnvironment = typeof PROFILE_ENVIRONMENTS[number]
+
 export interface ConnectionProfile {
   id: string
   name: string
-  connectionType?: 'cloud' | 'self-hosted'
+  connectionType?: 'cloud' | 'self-hosted' | 'local-folder'
+  // The persist directory for a local folder, which the app serves itself
   url: string
   tenant?: string
   database?: string
@@ -55,11 +137,33 @@ export interface ConnectionProfile {
   authToken?: string
   authTokenHeader?: 'authorization' | 'x-chroma-token'
   authCredentials?: string
+  // Self-hosted only
+  sshTunnel?: SshTunnelConfig
+  // Sent with every request after the auth header, so one can replace it
+  customHeaders?: Record<string, string>
+  // http(s)://[user:password@]host:port
+  proxyUrl?: string
+  // PEM bundle trusted in addition to the system roots
+  caFile?: string
+  clientCertificate?: ClientCertificateConfig
+  // Every handler that writes to the database refuses while set
+  readOnly?: boolean
+  environment?: ProfileEnvironment
+  // #rrggbb for the window chrome; the environment's default when unset
+  environmentColor?: string
   createdAt: number
   lastUsed?: number
   embeddingOverrides?: Record<string, EmbeddingFunctionOverride>
 }
 
+// Output of the Chroma server the app runs for a local folder profile;
+// 'explorer' lines are the app's own notes (start, exit, restart)
+export interface LocalServerLogLine {
+  time: number
+  stream: 'stdout' | 'stderr' | 'explorer'
+  text: string
+}
+
 export interface CollectionInfo {
   name: string
   id: string
@@ -81,14 +185,63 @@ export interface DocumentRecord {
   distance?: number | null
 }
 
+// Record fields a read can return. Embeddings are opt-in because they dominate
+// the IPC payload; when omitted, reads return documents and metadatas only.
+export type DocumentInclude = 'documents' | 'metadatas' | 'embeddings'
+
+const DOCUMENT_INCLUDES: readonly DocumentInclude[] = ['documents', 'metadatas', 'embeddings']
+
 export interface SearchDocumentsParams {
   collectionName: string
   queryText?: string
+  // Raw query vector; takes precedence over queryText and skips the embedding function
+  queryEmbedding?: number[]
   nResults?: number
   metadataFilter?: WhereClause
+  documentFilter?: WhereDocumentClause
   ids?: string[]
   limit?: number
   offset?: number
+  include?: DocumentInclude[]
+}
+
+// "Find similar": nearest neighbours of a stored record, queried with its own
+// vector so no embedding function is needed
+export interface QueryByEmbeddingParams {
+  collectionName: string
+  documentId: string
+  nResults?: number
+  metadataFilter?: WhereClause
+  documentFilter?: WhereDocumentClause
+  include?: DocumentInclude[]
+}
+
+// Embed free text with the collection's embedding function, e.g. to place a
+// semantic query among its results on the embedding map
+export interface EmbedQueryParams {
+  collectionName: string
+  queryText: string
+}
+
+export const MAX_DOCUMENTS_PAGE_SIZE = 1000
+
+export interface DocumentsPageParams {
+  collectionName: string
+  metadataFilter?: WhereClause
+  documentFilter?: WhereDocumentClause
+  ids?: string[]
+  offset: number
+  pageSize: number
+  include?: DocumentInclude[]
+}
+
+export interface DocumentsPage {
+  documents: DocumentRecord[]
+  offset: number
+  // Offset of the following page, or null once the last page has been read.
+  nextOffset: number | null
+  // Collection count when unfiltered; null when a filter makes the total unknown.
+  total: number | null
 }
 
 export interface UpdateDocumentParams {
@@ -122,6 +275,24 @@ export interface CreateDocumentsBatchParams {
     metadata?: JsonRecord
   }>
   generateEmbeddings?: boolean
+  // What to do with IDs the collection already has; 'fail' when omitted
+  onCollision?: IdCollisionPolicy
+}
+
+export type UpsertDocumentsParams = Omit<CreateDocumentsBatchParams, 'onCollision'>
+
+// Records written per request, which is also how many texts each embedding
+// request carries. Reduced from 100 to accommodate provider limits (e.g.,
+// Cohere max 96)
+export const WRITE_BATCH_SIZE = 50
+
+export interface CreateDocumentsBatchResult {
+  createdIds: string[]
+  // IDs the collection already had, whatever the policy did with them
+  conflictingIds: string[]
+  skipped: number
+  overwritten: number
+  errors: string[]
 }
 
 export interface HNSWConfig {
@@ -148,6 +319,8 @@ export interface CreateCollectionParams {
 }
 
 export interface CopyCollectionParams {
+  // Connection the source collection lives on; omitted means the target's own
+  sourceProfileId?: string
   sourceCollectionName: string
   targetName: string
   embeddingFunction?: EmbeddingFunctionOverride
@@ -171,6 +344,118 @@ export interface CopyProgress {
   message: string
 }
 
+export interface CollectionHealthParams {
+  collectionName: string
+  // Cosine similarity at or above which two records count as near-duplicates
+  nearDuplicateThreshold?: number
+}
+
+export type HealthFindingKind =
+  | 'missing-embedding'
+  | 'dimension-mismatch'
+  | 'nan-vector'
+  | 'zero-vector'
+  | 'unnormalized-vector'
+  | 'duplicate-id'
+  | 'duplicate-text'
+  | 'near-duplicate'
+
+export interface HealthFinding {
+  kind: HealthFindingKind
+  severity: 'error' | 'warning'
+  message: string
+  // Affected records, capped at MAX_HEALTH_FINDING_IDS; `count` is the full total
+  ids: string[]
+  count: number
+}
+
+export interface NearDuplicatePair {
+  ids: [string, string]
+  similarity: number
+}
+
+export interface NormHistogramBin {
+  start: number
+  end: number
+  count: number
+}
+
+export interface CollectionHealthReport {
+  collectionName: string
+  space: 'l2' | 'cosine' | 'ip'
+  scannedRecords: number
+  // Most common vector length, and how many records have each length
+  dimension: number | null
+  dimensionCounts: Record<string, number>
+  norms: {
+    min: number
+    max: number
+    mean: number
+    stddev: number
+    histogram: NormHistogramBin[]
+  } | null
+  nearDuplicateThreshold: number
+  nearDuplicates: NearDuplicatePair[]
+  findings: HealthFinding[]
+  // True when the scan was cancelled; the report covers the records read so far
+  partial: boolean
+}
+
+export interface HealthScanProgress {
+  phase: 'scanning' | 'complete' | 'cancelled' | 'error'
+  totalRecords: number
+  scannedRecords: number
+  message: string
+}
+
+export const MAX_HEALTH_FINDING_IDS = 500
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.98
+
+export interface MetadataSchemaParams {
+  collectionName: string
+  // Records to read, spread across the collection; omit for a full scan
+  sampleSize?: number
+}
+
+export type MetadataValueType = 'string' | 'number' | 'boolean' | 'array' | 'null'
+
+export interface MetadataValueCount {
+  value: string | number | boolean
+  count: number
+}
+
+export interface MetadataKeyStats {
+  key: string
+  // Records holding the key, by the type of their value
+  types: Partial<Record<MetadataValueType, number>>
+  // Share of scanned records that have the key, 0..1
+  fillRate: number
+  // Distinct scalar values; a lower bound when `distinctCapped` is set
+  distinctCount: number
+  distinctCapped: boolean
+  topValues: MetadataValueCount[]
+  // Numeric range, when any value is a number
+  min: number | null
+  max: number | null
+}
+
+export interface MetadataSchema {
+  collectionName: string
+  totalRecords: number
+  scannedRecords: number
+  sampled: boolean
+  keys: MetadataKeyStats[]
+}
+
+export const DEFAULT_SCHEMA_SAMPLE_SIZE = 1000
+
+// A document change recorded in the window's undo history
+export interface HistoryChange {
+  label: string
+  profileId: string
+  collectionName: string
+}
+
 export interface UpdateInfo {
   version: string
   releaseDate?: string
@@ -193,17 +478,59 @@ export interface ElectronAPI {
   chromadb: {
     connect: (profileId: string, profile: ConnectionProfile) => Promise<void>
     listCollections: (profileId: string) => Promise<CollectionInfo[]>
-    getDocuments: (profileId: string, collectionName: string) => Promise<DocumentRecord[]>
+    // Server output so far for a local folder profile, then new lines as they come
+    getLocalServerLog: (profileId: string) => Promise<LocalServerLogLine[]>
+    onLocalServerLog: (callback: (line: LocalServerLogLine) => void) => () => void
     searchDocuments: (profileId: string, params: SearchDocumentsParams) => Promise<DocumentRecord[]>
+    getDocumentsPage: (profileId: string, params: DocumentsPageParams) => Promise<DocumentsPage>
+    queryByEmbedding: (profileId: string, params: QueryByEmbeddingParams) => Promise<DocumentRecord[]>
+    embedQuery: (profileId: string, params: EmbedQueryParams) => Promise<number[]>
     updateDocument: (profileId: string, params: UpdateDocumentParams) => Promise<void>
     createDocument: (profileId: string, params: CreateDocumentParams) => Promise<void>
     deleteDocuments: (profileId: string, params: DeleteDocumentsParams) => Promise<void>
-    createDocumentsBatch: (profileId: string, params: CreateDocumentsBatchParams) => Promise<{ createdIds: string[]; errors: string[] }>
+    createDocumentsBatch: (profileId: string, params: CreateDocumentsBatchParams) => Promise<CreateDocumentsBatchResult>
+    upsertDocuments: (profileId: string, params: UpsertDocumentsParams) => Promise<CreateDocumentsBatchResult>
     createCollection: (profileId: string, params: CreateCollectionParams) => Promise<CollectionInfo>
     deleteCollection: (profileId: string, collectionName: string) => Promise<void>
     copyCollection: (profileId: string, params: CopyCollectionParams) => Promise<CopyCollectionResult>
     onCopyProgress: (callback: (progress: CopyProgress) => void) => () => void
     cancelCopy: (profileId: string) => Promise<void>
+    // Reports on onCopyProgress and is cancelled by cancelCopy, like copyCollection
+    copyDocuments: (profileId: string, params: CopyDocumentsParams) => Promise<CopyDocumentsResult>
+    diffCollections: (profileId: string, params: DiffCollectionsParams) => Promise<CollectionDiff>
+    applyCollectionDiff: (profileId: string, params: ApplyDiffParams) => Promise<ApplyDiffResult>
+    // Progress of both diffing and applying
+    onDiffProgress: (callback: (progress: DiffProgress) => void) => () => void
+    cancelDiff: (profileId: string) => Promise<void>
+    bulkUpdateMetadata: (profileId: string, params: BulkMetadataParams) => Promise<BulkMetadataResult>
+    onBulkUpdateProgress: (callback: (progress: BulkMetadataProgress) => void) => () => void
+    cancelBulkUpdate: (profileId: string) => Promise<void>
+    reembedCollection: (profileId: string, params: ReembedCollectionParams) => Promise<ReembedResult>
+    onReembedProgress: (callback: (progress: ReembedProgress) => void) => () => void
+    // Stops after the current batch; running again resumes
+    cancelReembed: (profileId: string) => Promise<void>
+    finishReembed: (profileId: string, params: FinishReembedParams) => Promise<void>
+    // Document text a copy or re-embed would send, for a cost estimate
+    measureEmbeddingInput: (profileId: string, params: MeasureEmbeddingInputParams) => Promise<EmbeddingInputStats>
+    scanCollectionHealth: (profileId: string, params: CollectionHealthParams) => Promise<CollectionHealthReport>
+    onHealthScanProgress: (callback: (progress: HealthScanProgress) => void) => () => void
+    cancelHealthScan: (profileId: string) => Promise<void>
+    getMetadataSchema: (profileId: string, params: MetadataSchemaParams) => Promise<MetadataSchema>
+    openImportFile: () => Promise<ImportFilePreview | null>
+    importDocuments: (profileId: string, params: ImportDocumentsParams) => Promise<ImportDocumentsResult>
+    onImportProgress: (callback: (progress: ImportProgress) => void) => () => void
+    cancelImport: (profileId: string) => Promise<void>
+    chooseExportFile: (collectionName: string, format: ExportFormat) => Promise<ExportFileTarget | null>
+    exportDocuments: (profileId: string, params: ExportDocumentsParams) => Promise<ExportDocumentsResult>
+    onExportProgress: (callback: (progress: ExportProgress) => void) => () => void
+    cancelExport: (profileId: string) => Promise<void>
+    chooseSnapshotFile: (collectionName: string) => Promise<SnapshotFileTarget | null>
+    snapshotCollection: (profileId: string, params: SnapshotCollectionParams) => Promise<SnapshotCollectionResult>
+    openSnapshotFile: () => Promise<SnapshotSummary | null>
+    restoreSnapshot: (profileId: string, params: RestoreSnapshotParams) => Promise<CopyCollectionResult>
+    // Progress of both taking and restoring a snapshot
+    onSnapshotProgress: (callback: (progress: CopyProgress) => void) => () => void
+    cancelSnapshot: (profileId: string) => Promise<void>
   }
   contextMenu: {
     showCollectionMenu: (collectionName: string, options?: { hasCopiedCollection?: boolean }) => void
@@ -224,6 +551,13 @@ export interface ElectronAPI {
     getEmbeddingOverride: (profileId: string, collectionName: string) => Promise<EmbeddingFunctionOverride | null>
     setEmbeddingOverride: (profileId: string, collectionName: string, override: EmbeddingFunctionOverride) => Promise<void>
     clearEmbeddingOverride: (profileId: string, collectionName: string) => Promise<void>
+    getEmbeddingUsage: (profileId: string) => Promise<EmbeddingUsage[]>
+    choosePersistDirectory: () => Promise<string | null>
+    // Resolves to null when the save dialog is cancelled
+    exportProfiles: (params: ExportProfilesParams) => Promise<ExportProfilesResult | null>
+    // Resolves to null when the open dialog is cancelled
+    openProfilesFile: () => Promise<ProfileImportPreview | null>
+    importProfiles: (params: ImportProfilesParams) => Promise<ImportProfilesResult>
   }
   window: {
     createConnection: (profile: ConnectionProfile) => Promise<{ windowId: string }>
@@ -244,6 +578,16 @@ export interface ElectronAPI {
     openWindow: () => Promise<void>
     onSwitchTab: (callback: (tab: string) => void) => () => void
   }
+  clipboard: {
+    read: () => Promise<ClipboardEntry | null>
+    write: (item: ClipboardEntry | null) => Promise<void>
+    onChange: (callback: (item: ClipboardEntry | null) => void) => () => void
+  }
+  // Both resolve to the change undone or redone, or null when there is none
+  history: {
+    undo: () => Promise<HistoryChange | null>
+    redo: () => Promise<HistoryChange | null>
+  }
   shell: {
     openExternal: (url: string) => Promise<void>
   }
@@ -258,62 +602,10 @@ export interface ElectronAPI {
   onRefresh: (callback: () => void) => () => void
 }
 
-function isRecord(value: unknown): value is JsonRecord {
-  return typeof value === 'object' && value !== null && !Array.isArray(value)
-}
-
-function parseRecord(value: unknown, field: string): JsonRecord {
-  if (!isRecord(value)) throw new Error(`${field} must be an object`)
-  return value
-}
-
-function parseString(value: unknown, field: string): string {
-  if (typeof value !== 'string' || value.trim() === '') throw new Error(`${field} must be a non-empty string`)
-  return value
-}
-
-function parseOptionalString(value: unknown, field: string): string | undefined {
+function parseOptionalInclude(value: unknown, field: string): DocumentInclude[] | undefined {
   if (value === undefined) return undefined
-  if (typeof value !== 'string') throw new Error(`${field} must be a string`)
-  return value
-}
-
-function parseOptionalNumber(value: unknown, field: string): number | undefined {
-  if (value === undefined) return undefined
-  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${field} must be a finite number`)
-  return value
-}
-
-function parseOptionalBoolean(value: unknown, field: string): boolean | undefined {
-  if (value === undefined) return undefined
-  if (typeof value !== 'boolean') throw new Error(`${field} must be a boolean`)
-  return value
-}
-
-function parseStringArray(value: unknown, field: string): string[] {
-  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
-    throw new Error(`${field} must be an array of strings`)
-  }
-  return value
-}
-
-function parseNumberArray(value: unknown, field: string): number[] {
-  if (!Array.isArray(value) || !value.every((item) => typeof item === 'number' && Number.isFinite(item))) {
-    throw new Error(`${field} must be an array of finite numbers`)
-  }
-  return value
-}
-
-function parseEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T {
-  if (typeof value !== 'string' || !allowed.includes(value as T)) {
-    throw new Error(`${field} must be one of: ${allowed.join(', ')}`)
-  }
-  return value as T
-}
-
-function parseOptionalEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T | undefined {
-  if (value === undefined) return undefined
-  return parseEnum(value, field, allowed)
+  if (!Array.isArray(value)) throw new Error(`${field} must be an array`)
+  return value.map((item, index) => parseEnum(item, `${field}.${index}`, DOCUMENT_INCLUDES))
 }
 
 export function parseProfileId(value: unknown): string {
@@ -357,12 +649,74 @@ function parseOptionalHnsw(value: unknown): HNSWConfig | undefined {
   }
 }
 
+// These go to `ssh` as arguments, where a leading dash would read as an option
+// such as -oProxyCommand, which runs a local command
+function parseSshArgument(value: unknown, path: string): string {
+  const argument = parseString(value, path)
+  if (argument.startsWith('-') || /[\s\p{Cc}]/u.test(argument)) {
+    throw new Error(`${path} must not start with "-" or contain spaces or control characters`)
+  }
+  return argument
+}
+
+function parseSshTunnelConfig(value: unknown, path: string): SshTunnelConfig {
+  const record = parseRecord(value, path)
+  return {
+    host: parseSshArgument(record.host, `${path}.host`),
+    port: record.port === undefined ? undefined : parseInteger(record.port, `${path}.port`, 1, 65535),
+    user: parseSshArgument(record.user, `${path}.user`),
+    keyPath: record.keyPath === undefined ? undefined : parseSshArgument(record.keyPath, `${path}.keyPath`),
+  }
+}
+
+// RFC 9110 field-name characters
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+
+function parseCustomHeaders(value: unknown, path: string): Record<string, string> {
+  const record = parseRecord(value, path)
+  return Object.fromEntries(Object.entries(record).map(([name, headerValue]) => {
+    if (!HEADER_NAME.test(name)) throw new Error(`${path} has an invalid header name "${name}"`)
+    const parsed = parseOptionalString(headerValue, `${path}.${name}`)
+    if (parsed === undefined || /[\r\n]/.test(parsed)) throw new Error(`${path}.${name} must be a single-line string`)
+    return [name, parsed]
+  }))
+}
+
+function parseProxyUrl(value: unknown, path: string): string {
+  const url = parseString(value, path)
+  let protocol: string
+  try {
+    protocol = new URL(url).protocol
+  } catch {
+    throw new Error(`${path} must be a URL`)
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') throw new Error(`${path} must be an http: or https: URL`)
+  return url
+}
+
+function parseClientCertificate(value: unknown, path: string): ClientCertificateConfig {
+  const record = parseRecord(value, path)
+  return {
+    certFile: parseString(record.certFile, `${path}.certFile`),
+    keyFile: parseString(record.keyFile, `${path}.keyFile`),
+    passphrase: parseOptionalString(record.passphrase, `${path}.passphrase`),
+  }
+}
+
+function parseColor(value: unknown, path: string): string {
+  const color = parseString(value, path)
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) {
+    throw new Error(`${path} must be a #rrggbb color`)
+  }
+  return color
+}
+
 export function parseConnectionProfile(value: unknown): ConnectionProfile {
   const record = parseRecord(value, 'profile')
-  return {
+  const profile: ConnectionProfile = {
     id: parseString(record.id, 'profile.id'),
     name: parseString(record.name, 'profile.name'),
-    connectionType: parseOptionalEnum(record.connectionType, 'profile.connectionType', ['cloud', 'self-hosted']),
+    connectionType: parseOptionalEnum(record.connectionType, 'profile.connectionType', ['cloud', 'self-hosted', 'local-folder']),
     url: parseString(record.url, 'profile.url'),
     tenant: parseOptionalString(record.tenant, 'profile.tenant'),
     database: parseOptionalString(record.database, 'profile.database'),
@@ -371,12 +725,29 @@ export function parseConnectionProfile(value: unknown): ConnectionProfile {
     authToken: parseOptionalString(record.authToken, 'profile.authToken'),
     authTokenHeader: parseOptionalEnum(record.authTokenHeader, 'profile.authTokenHeader', ['authorization', 'x-chroma-token']),
     authCredentials: parseOptionalString(record.authCredentials, 'profile.authCredentials'),
+    sshTunnel: record.sshTunnel === undefined ? undefined : parseSshTunnelConfig(record.sshTunnel, 'profile.sshTunnel'),
+    customHeaders: record.customHeaders === undefined ? undefined : parseCustomHeaders(record.customHeaders, 'profile.customHeaders'),
+    proxyUrl: record.proxyUrl === undefined ? undefined : parseProxyUrl(record.proxyUrl, 'profile.proxyUrl'),
+    caFile: parseOptionalString(record.caFile, 'profile.caFile'),
+    clientCertificate: record.clientCertificate === undefined
+      ? undefined
+      : parseClientCertificate(record.clientCertificate, 'profile.clientCertificate'),
+    readOnly: parseOptionalBoolean(record.readOnly, 'profile.readOnly'),
+    environment: parseOptionalEnum(record.environment, 'profile.environment', PROFILE_ENVIRONMENTS),
+    environmentColor: record.environmentColor === undefined
+      ? undefined
+      : parseColor(record.environmentColor, 'profile.environmentColor'),
     createdAt: parseOptionalNumber(record.createdAt, 'profile.createdAt') ?? Date.now(),
     lastUsed: parseOptionalNumber(record.lastUsed, 'profile.lastUsed'),
     embeddingOverrides: isRecord(record.embeddingOverrides)
       ? Object.fromEntries(Object.entries(record.embeddingOverrides).map(([key, override]) => [key, parseEmbeddingOverride(override, `profile.embeddingOverrides.${key}`)]))
       : undefined,
   }
+  // The proxy would only ever see the tunnel's loopback address
+  if (profile.proxyUrl && profile.sshTunnel) {
+    throw new Error('profile.proxyUrl cannot be combined with profile.sshTunnel')
+  }
+  return profile
 }
 
 export function parseSearchDocumentsParams(value: unknown): SearchDocumentsParams {
@@ -384,11 +755,47 @@ export function parseSearchDocumentsParams(value: unknown): SearchDocumentsParam
   return {
     collectionName: parseString(record.collectionName, 'params.collectionName'),
     queryText: parseOptionalString(record.queryText, 'params.queryText'),
+    queryEmbedding: record.queryEmbedding === undefined ? undefined : parseQueryEmbedding(record.queryEmbedding, 'params.queryEmbedding'),
     nResults: parseOptionalNumber(record.nResults, 'params.nResults'),
-    metadataFilter: record.metadataFilter === undefined ? undefined : parseRecord(record.metadataFilter, 'params.metadataFilter') as WhereClause,
+    metadataFilter: record.metadataFilter === undefined ? undefined : parseWhereClause(record.metadataFilter, 'params.metadataFilter'),
+    documentFilter: record.documentFilter === undefined ? undefined : parseWhereDocumentClause(record.documentFilter, 'params.documentFilter'),
     ids: record.ids === undefined ? undefined : parseStringArray(record.ids, 'params.ids'),
     limit: parseOptionalNumber(record.limit, 'params.limit'),
     offset: parseOptionalNumber(record.offset, 'params.offset'),
+    include: parseOptionalInclude(record.include, 'params.include'),
+  }
+}
+
+export function parseQueryByEmbeddingParams(value: unknown): QueryByEmbeddingParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    documentId: parseString(record.documentId, 'params.documentId'),
+    nResults: parseOptionalNumber(record.nResults, 'params.nResults'),
+    metadataFilter: record.metadataFilter === undefined ? undefined : parseWhereClause(record.metadataFilter, 'params.metadataFilter'),
+    documentFilter: record.documentFilter === undefined ? undefined : parseWhereDocumentClause(record.documentFilter, 'params.documentFilter'),
+    include: parseOptionalInclude(record.include, 'params.include'),
+  }
+}
+
+export function parseEmbedQueryParams(value: unknown): EmbedQueryParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    queryText: parseString(record.queryText, 'params.queryText'),
+  }
+}
+
+export function parseDocumentsPageParams(value: unknown): DocumentsPageParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    metadataFilter: record.metadataFilter === undefined ? undefined : parseWhereClause(record.metadataFilter, 'params.metadataFilter'),
+    documentFilter: record.documentFilter === undefined ? undefined : parseWhereDocumentClause(record.documentFilter, 'params.documentFilter'),
+    ids: record.ids === undefined ? undefined : parseStringArray(record.ids, 'params.ids'),
+    offset: parseInteger(record.offset, 'params.offset', 0),
+    pageSize: parseInteger(record.pageSize, 'params.pageSize', 1, MAX_DOCUMENTS_PAGE_SIZE),
+    include: parseOptionalInclude(record.include, 'params.include'),
   }
 }
 
@@ -425,6 +832,16 @@ export function parseDeleteDocumentsParams(value: unknown): DeleteDocumentsParam
 }
 
 export function parseCreateDocumentsBatchParams(value: unknown): CreateDocumentsBatchParams {
+  const record = parseRecord(value, 'params')
+  return {
+    ...parseUpsertDocumentsParams(record),
+    onCollision: record.onCollision === undefined
+      ? undefined
+      : parseEnum(record.onCollision, 'params.onCollision', ['skip', 'overwrite', 'fail'] as const),
+  }
+}
+
+export function parseUpsertDocumentsParams(value: unknown): UpsertDocumentsParams {
   const record = parseRecord(value, 'params')
   const documents = record.documents
   if (!Array.isArray(documents)) throw new Error('params.documents must be an array')
@@ -465,6 +882,7 @@ export function parseCopyCollectionParams(value: unknown): CopyCollectionParams
   const record = parseRecord(value, 'params')
   const regenerateEmbeddings = parseOptionalBoolean(record.regenerateEmbeddings, 'params.regenerateEmbeddings')
   return {
+    sourceProfileId: parseOptionalString(record.sourceProfileId, 'params.sourceProfileId'),
     sourceCollectionName: parseString(record.sourceCollectionName, 'params.sourceCollectionName'),
     targetName: parseString(record.targetName, 'params.targetName'),
     embeddingFunction: parseOptionalEmbeddingOverride(record.embeddingFunction, 'params.embeddingFunction'),
@@ -474,6 +892,26 @@ export function parseCopyCollectionParams(value: unknown): CopyCollectionParams
   }
 }
 
+export function parseCollectionHealthParams(value: unknown): CollectionHealthParams {
+  const record = parseRecord(value, 'params')
+  const threshold = parseOptionalNumber(record.nearDuplicateThreshold, 'params.nearDuplicateThreshold')
+  if (threshold !== undefined && (threshold <= 0 || threshold > 1)) {
+    throw new Error('params.nearDuplicateThreshold must be greater than 0 and at most 1')
+  }
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    nearDuplicateThreshold: threshold,
+  }
+}
+
+export function parseMetadataSchemaParams(value: unknown): MetadataSchemaParams {
+  const record = parseRecord(value, 'params')
+  return {
+    collectionName: parseString(record.collectionName, 'params.collectionName'),
+    sampleSize: record.sampleSize === undefined ? undefined : parseInteger(record.sampleSize, 'params.sampleSize', 1),
+  }
+}
+
 export function parseApiKeys(value: unknown): Record<string, string> {
   const record = parseRecord(value, 'apiKeys')
   for (const [key, val] of Object.entries(record)) {
@@ -0,0 +1,209 @@
+import { BrowserWindow, ipcMain } from 'electron'
+import { chromaDBConnectionPool } from './chromadb-pool'
+import { connectionStore } from './connection-store'
+import { track } from './analytics'
+import { ClipboardEntry, CopyProgress, DiffProgress } from './types'
+import { parseCopyCollectionParams, parseProfileId } from './ipc-contract'
+import {
+  parseApplyDiffParams,
+  parseClipboardEntry,
+  parseCopyDocumentsParams,
+  parseDiffCollectionsParams,
+} from './ipc-contract-copy'
+import { cancelOperation, reportIpcError } from './ipc-helpers'
+import { documentsLabel, recordHistory } from './ipc-history'
+
+// Handlers for copying and syncing collections and records, within one
+// connection or between two. The clipboard lives here rather than in each window so a copy
+// in one connection's window can be pasted into another's.
+
+// Collection and document copies share one cancel channel
+const activeCopyOperations: Map<string, AbortController> = new Map()
+// Diffing and applying a diff share another
+const activeDiffs: Map<string, AbortController> = new Map()
+let clipboard: ClipboardEntry | null = null
+
+export function registerCopyHandlers(): void {
+  ipcMain.handle('clipboard:read', async () => ({ success: true, data: clipboard }))
+
+  ipcMain.handle('clipboard:write', async (_event, rawEntry: unknown) => {
+    try {
+      clipboard = parseClipboardEntry(rawEntry)
+      BrowserWindow.getAllWindows().forEach(win => {
+        if (!win.isDestroyed()) {
+          win.webContents.send('clipboard:changed', clipboard)
+        }
+      })
+      return { success: true }
+    } catch (error) {
+      return reportIpcError(error, 'clipboard.write', 'Failed to copy to the clipboard')
+    }
+  })
+
+  ipcMain.handle('chromadb:copyCollection', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseCopyCollectionParams(rawParams)
+      if (!chromaDBConnectionPool.isConnected(profileId)) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+
+      const abortController = new AbortController()
+      activeCopyOperations.set(profileId, abortController)
+
+      // The override belongs to the source collection, wherever it lives
+      const embeddingOverride = connectionStore.getEmbeddingOverride(
+        params.sourceProfileId ?? profileId,
+        params.sourceCollectionName
+      )
+      const onProgress = (progress: CopyProgress) => {
+        event.sender.send('chromadb:copyProgress', progress)
+      }
+
+      const result = await chromaDBConnectionPool.copyCollection(
+        profileId,
+        params,
+        embeddingOverride,
+        onProgress,
+        abortController.signal
+      )
+      activeCopyOperations.delete(profileId)
+
+      if (result.success) {
+        track('collection_duplicated', {
+          documentsCopied: result.copiedDocuments,
+          crossConnection: !!params.sourceProfileId && params.sourceProfileId !== profileId,
+        })
+      }
+
+      return { success: result.success, data: result, error: result.error }
+    } catch (error) {
+      activeCopyOperations.delete(profileId)
+      return reportIpcError(error, 'chromadb.copyCollection', 'Failed to copy collection')
+    }
+  })
+
+  ipcMain.handle('chromadb:copyDocuments', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseCopyDocumentsParams(rawParams)
+      const service = chromaDBConnectionPool.getConnection(profileId)
+      if (!service) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+
+      const abortController = new AbortController()
+      activeCopyOperations.set(profileId, abortController)
+
+      // Regenerated embeddings come from the target collection's function
+      const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.targetCollectionName)
+      const onProgress = (progress: CopyProgress) => {
+        event.sender.send('chromadb:copyProgress', progress)
+      }
+
+      // Pasted records may be renamed, so history learns their IDs from the result
+      const result = await recordHistory(
+        event.sender,
+        service,
+        { label: documentsLabel('Paste', params.ids.length), profileId, collectionName: params.targetCollectionName },
+        [],
+        () => chromaDBConnectionPool.copyDocuments(
+          profileId,
+          params,
+          embeddingOverride,
+          onProgress,
+          abortController.signal
+        ),
+        copied => copied.copiedIds
+      )
+      activeCopyOperations.delete(profileId)
+
+      if (result.success) {
+        track('documents_copied', {
+          documentsCopied: result.copiedDocuments,
+          regenerateEmbeddings: params.regenerateEmbeddings,
+        })
+      }
+
+      return { success: result.success, data: result, error: result.error }
+    } catch (error) {
+      activeCopyOperations.delete(profileId)
+      return reportIpcError(error, 'chromadb.copyDocuments', 'Failed to copy documents')
+    }
+  })
+
+  ipcMain.handle('chromadb:cancelCopy', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeCopyOperations, rawProfileId, 'No active copy operation')
+  })
+
+  // The profile ID names the calling window, for cancellation; the collections
+  // being compared may be on any connected profile
+  ipcMain.handle('chromadb:diffCollections', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseDiffCollectionsParams(rawParams)
+
+      const abortController = new AbortController()
+      activeDiffs.set(profileId, abortController)
+      const onProgress = (progress: DiffProgress) => {
+        event.sender.send('chromadb:diffProgress', progress)
+      }
+
+      const diff = await chromaDBConnectionPool.diffCollections(params, onProgress, abortController.signal)
+      activeDiffs.delete(profileId)
+      return { success: true, data: diff }
+    } catch (error) {
+      activeDiffs.delete(profileId)
+      return reportIpcError(error, 'chromadb.diffCollections', 'Failed to compare collections')
+    }
+  })
+
+  ipcMain.handle('chromadb:applyCollectionDiff', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseApplyDiffParams(rawParams)
+
+      const abortController = new AbortController()
+      activeDiffs.set(profileId, abortController)
+      const onProgress = (progress: DiffProgress) => {
+        event.sender.send('chromadb:diffProgress', progress)
+      }
+
+      const apply = () => chromaDBConnectionPool.applyCollectionDiff(params, onProgress, abortController.signal)
+      const target = chromaDBConnectionPool.getConnection(params.b.profileId)
+      const ids = [...params.upsertIds, ...params.deleteIds]
+      // Without B's connection the apply fails with the pool's message, writing nothing
+      const result = target
+        ? await recordHistory(
+          event.sender,
+          target,
+          { label: documentsLabel('Sync', ids.length), profileId: params.b.profileId, collectionName: params.b.collectionName },
+          ids,
+          apply
+        )
+        : await apply()
+      activeDiffs.delete(profileId)
+
+      if (result.success) {
+        track('collection_diff_applied', {
+          upserted: result.upserted,
+          deleted: result.deleted,
+          crossConnection: params.a.profileId !== params.b.profileId,
+        })
+      }
+
+      return { success: result.success, data: result, error: result.error }
+    } catch (error) {
+      activeDiffs.delete(profileId)
+      return reportIpcError(error, 'chromadb.applyCollectionDiff', 'Failed to apply changes')
+    }
+  })
+
+  ipcMain.handle('chromadb:cancelDiff', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeDiffs, rawProfileId, 'No active comparison')
+  })
+}
@@ -0,0 +1,325 @@
+import {
+  BrowserWindow,
+  dialog,
+  ipcMain,
+  IpcMainInvokeEvent,
+  OpenDialogOptions,
+  SaveDialogOptions,
+} from 'electron'
+import { randomUUID } from 'node:crypto'
+import path from 'node:path'
+import { chromaDBConnectionPool } from './chromadb-pool'
+import { connectionStore } from './connection-store'
+import { track } from './analytics'
+import { CopyProgress, ExportFormat, ExportProgress, ImportFileFormat, ImportProgress, WRITE_BATCH_SIZE } from './types'
+import { parseCollectionName, parseProfileId } from './ipc-contract'
+import {
+  parseExportDocumentsParams,
+  parseExportFormat,
+  parseImportDocumentsParams,
+  parseRestoreSnapshotParams,
+  parseSnapshotCollectionParams,
+} from './ipc-contract-transfer'
+import { cancelOperation, reportIpcError } from './ipc-helpers'
+import { IMPORT_FILE_EXTENSIONS, importFileFormat, previewImportFile, readImportBatches } from './import-file'
+import { EXPORT_FILE_EXTENSIONS, EXPORT_FORMAT_LABELS } from './export-file'
+import { readSnapshotHeader, readSnapshotRecords, SNAPSHOT_FILE_EXTENSION } from './collection-snapshot'
+
+// Handlers that move records between collections and files the user picks in
+// a native dialog. Picked files are held here by token, so the renderer never
+// passes a path to read or write.
+
+const activeImports: Map<string, AbortController> = new Map()
+const importFiles: Map<string, { filePath: string; format: ImportFileFormat; totalRows: number }> = new Map()
+const activeExports: Map<string, AbortController> = new Map()
+const exportFiles: Map<string, { filePath: string; format: ExportFormat }> = new Map()
+// Taking and restoring a snapshot share one cancel channel
+const activeSnapshots: Map<string, AbortController> = new Map()
+const snapshotFiles: Map<string, string> = new Map()
+
+function showOpenDialog(event: IpcMainInvokeEvent, options: OpenDialogOptions) {
+  const parentWindow = BrowserWindow.fromWebContents(event.sender)
+  return parentWindow ? dialog.showOpenDialog(parentWindow, options) : dialog.showOpenDialog(options)
+}
+
+function showSaveDialog(event: IpcMainInvokeEvent, options: SaveDialogOptions) {
+  const parentWindow = BrowserWindow.fromWebContents(event.sender)
+  return parentWindow ? dialog.showSaveDialog(parentWindow, options) : dialog.showSaveDialog(options)
+}
+
+export function registerFileTransferHandlers(): void {
+  ipcMain.handle('chromadb:openImportFile', async (event) => {
+    try {
+      const { canceled, filePaths } = await showOpenDialog(event, {
+        title: 'Import Documents',
+        properties: ['openFile'],
+        filters: [{ name: 'CSV, TSV, JSONL or JSON', extensions: IMPORT_FILE_EXTENSIONS }],
+      })
+      if (canceled || filePaths.length === 0) {
+        return { success: true, data: null }
+      }
+
+      const filePath = filePaths[0]
+      const format = importFileFormat(filePath)
+      if (!format) {
+        return { success: false, error: `Unsupported file type: ${path.basename(filePath)}` }
+      }
+      const preview = await previewImportFile(filePath, format)
+      const fileToken = randomUUID()
+      importFiles.set(fileToken, { filePath, format, totalRows: preview.totalRows })
+      return { success: true, data: { fileToken, ...preview } }
+    } catch (error) {
+      return reportIpcError(error, 'chromadb.openImportFile', 'Failed to read import file')
+    }
+  })
+
+  ipcMain.handle('chromadb:importDocuments', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseImportDocumentsParams(rawParams)
+      const service = chromaDBConnectionPool.getConnection(profileId)
+      if (!service) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+      chromaDBConnectionPool.assertWritable(profileId)
+      const file = importFiles.get(params.fileToken)
+      if (!file) {
+        return { success: false, error: 'The import file is no longer available. Choose it again.' }
+      }
+      // One import per pick, however it ends
+      importFiles.delete(params.fileToken)
+
+      const abortController = new AbortController()
+      activeImports.set(profileId, abortController)
+      const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
+      const onProgress = (progress: ImportProgress) => {
+        event.sender.send('chromadb:importProgress', progress)
+      }
+
+      const result = await service.importDocuments(
+        params,
+        () => readImportBatches(file.filePath, file.format, WRITE_BATCH_SIZE),
+        file.totalRows,
+        embeddingOverride,
+        onProgress,
+        abortController.signal
+      )
+      activeImports.delete(profileId)
+
+      if (result.success) {
+        track('documents_imported', { count: result.importedRows, format: file.format })
+      }
+
+      // A failed or cancelled import still reports what it wrote, so the
+      // result travels as data rather than as an IPC error
+      return { success: true, data: result }
+    } catch (error) {
+      activeImports.delete(profileId)
+      return reportIpcError(error, 'chromadb.importDocuments', 'Failed to import documents')
+    }
+  })
+
+  ipcMain.handle('chromadb:cancelImport', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeImports, rawProfileId, 'No active import')
+  })
+
+  ipcMain.handle('chromadb:chooseExportFile', async (event, rawCollectionName: unknown, rawFormat: unknown) => {
+    try {
+      const collectionName = parseCollectionName(rawCollectionName)
+      const format = parseExportFormat(rawFormat)
+      const extension = EXPORT_FILE_EXTENSIONS[format]
+      const { canceled, filePath } = await showSaveDialog(event, {
+        title: 'Export Documents',
+        defaultPath: `${collectionName}.${extension}`,
+        filters: [{ name: EXPORT_FORMAT_LABELS[format], extensions: [extension] }],
+      })
+      if (canceled || !filePath) {
+        return { success: true, data: null }
+      }
+
+      const fileToken = randomUUID()
+      exportFiles.set(fileToken, { filePath, format })
+      return { success: true, data: { fileToken, fileName: path.basename(filePath), format } }
+    } catch (error) {
+      return reportIpcError(error, 'chromadb.chooseExportFile', 'Failed to choose export file')
+    }
+  })
+
+  ipcMain.handle('chromadb:exportDocuments', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseExportDocumentsParams(rawParams)
+      const service = chromaDBConnectionPool.getConnection(profileId)
+      if (!service) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+      const file = exportFiles.get(params.fileToken)
+      if (!file) {
+        return { success: false, error: 'The export file is no longer available. Choose it again.' }
+      }
+      exportFiles.delete(params.fileToken)
+
+      const abortController = new AbortController()
+      activeExports.set(profileId, abortController)
+      const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
+      const onProgress = (progress: ExportProgress) => {
+        event.sender.send('chromadb:exportProgress', progress)
+      }
+
+      const result = await service.exportDocuments(
+        params,
+        { filePath: file.filePath, fileName: path.basename(file.filePath), format: file.format },
+        embeddingOverride,
+        onProgress,
+        abortController.signal
+      )
+      activeExports.delete(profileId)
+
+      if (result.success) {
+        track('documents_exported', { count: result.exportedRows, format: file.format })
+      }
+      return { success: true, data: result }
+    } catch (error) {
+      activeExports.delete(profileId)
+      return reportIpcError(error, 'chromadb.exportDocuments', 'Failed to export documents')
+    }
+  })
+
+  ipcMain.handle('chromadb:cancelExport', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeExports, rawProfileId, 'No active export')
+  })
+
+  ipcMain.handle('chromadb:chooseSnapshotFile', async (event, rawCollectionName: unknown) => {
+    try {
+      const collectionName = parseCollectionName(rawCollectionName)
+      const date = new Date().toISOString().slice(0, 10)
+      const { canceled, filePath } = await showSaveDialog(event, {
+        title: 'Snapshot Collection',
+        defaultPath: `${collectionName}-${date}.${SNAPSHOT_FILE_EXTENSION}`,
+        filters: [{ name: 'Collection Snapshot', extensions: [SNAPSHOT_FILE_EXTENSION] }],
+      })
+      if (canceled || !filePath) {
+        return { success: true, data: null }
+      }
+
+      const fileToken = randomUUID()
+      snapshotFiles.set(fileToken, filePath)
+      return { success: true, data: { fileToken, fileName: path.basename(filePath) } }
+    } catch (error) {
+      return reportIpcError(error, 'chromadb.chooseSnapshotFile', 'Failed to choose snapshot file')
+    }
+  })
+
+  ipcMain.handle('chromadb:snapshotCollection', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseSnapshotCollectionParams(rawParams)
+      const service = chromaDBConnectionPool.getConnection(profileId)
+      if (!service) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+      const filePath = snapshotFiles.get(params.fileToken)
+      if (!filePath) {
+        return { success: false, error: 'The snapshot file is no longer available. Choose it again.' }
+      }
+      snapshotFiles.delete(params.fileToken)
+
+      const abortController = new AbortController()
+      activeSnapshots.set(profileId, abortController)
+      const onProgress = (progress: CopyProgress) => {
+        event.sender.send('chromadb:snapshotProgress', progress)
+      }
+
+      const result = await service.snapshotCollection(params.collectionName, filePath, onProgress, abortController.signal)
+      activeSnapshots.delete(profileId)
+
+      if (result.success) {
+        track('collection_snapshot_saved', { count: result.documentCount })
+      }
+      return { success: true, data: result }
+    } catch (error) {
+      activeSnapshots.delete(profileId)
+      return reportIpcError(error, 'chromadb.snapshotCollection', 'Failed to snapshot collection')
+    }
+  })
+
+  ipcMain.handle('chromadb:openSnapshotFile', async (event) => {
+    try {
+      const { canceled, filePaths } = await showOpenDialog(event, {
+        title: 'Restore from Snapshot',
+        properties: ['openFile'],
+        filters: [{ name: 'Collection Snapshot', extensions: [SNAPSHOT_FILE_EXTENSION] }],
+      })
+      if (canceled || filePaths.length === 0) {
+        return { success: true, data: null }
+      }
+
+      const filePath = filePaths[0]
+      const { createdAt, collection } = await readSnapshotHeader(filePath)
+      const fileToken = randomUUID()
+      snapshotFiles.set(fileToken, filePath)
+      return {
+        success: true,
+        data: {
+          fileToken,
+          fileName: path.basename(filePath),
+          collectionName: collection.name,
+          documentCount: collection.documentCount,
+          createdAt,
+          embeddingFunction: collection.embeddingFunction,
+          hnsw: collection.hnsw,
+        },
+      }
+    } catch (error) {
+      return reportIpcError(error, 'chromadb.openSnapshotFile', 'Failed to read snapshot file')
+    }
+  })
+
+  ipcMain.handle('chromadb:restoreSnapshot', async (event, rawProfileId: unknown, rawParams: unknown) => {
+    let profileId = ''
+    try {
+      profileId = parseProfileId(rawProfileId)
+      const params = parseRestoreSnapshotParams(rawParams)
+      const service = chromaDBConnectionPool.getConnection(profileId)
+      if (!service) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+      chromaDBConnectionPool.assertWritable(profileId)
+      const filePath = snapshotFiles.get(params.fileToken)
+      if (!filePath) {
+        return { success: false, error: 'The snapshot file is no longer available. Choose it again.' }
+      }
+
+      const abortController = new AbortController()
+      activeSnapshots.set(profileId, abortController)
+      const onProgress = (progress: CopyProgress) => {
+        event.sender.send('chromadb:snapshotProgress', progress)
+      }
+
+      const { collection } = await readSnapshotHeader(filePath)
+      const result = await service.restoreSnapshot(
+        params.targetName,
+        collection,
+        readSnapshotRecords(filePath, WRITE_BATCH_SIZE),
+        onProgress,
+        abortController.signal
+      )
+      activeSnapshots.delete(profileId)
+
+      if (result.success) {
+        track('collection_snapshot_restored', { count: result.copiedDocuments })
+      }
+      return { success: true, data: result }
+    } catch (error) {
+      activeSnapshots.delete(profileId)
+      return reportIpcError(error, 'chromadb.restoreSnapshot', 'Failed to restore snapshot')
+    }
+  })
+
+  ipcMain.handle('chromadb:cancelSnapshot', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeSnapshots, rawProfileId, 'No active snapshot')
+  })
+}
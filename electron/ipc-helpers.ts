@@ -0,0 +1,61 @@
+import { ipcMain, IpcMainInvokeEvent } from 'electron'
+import { chromaDBConnectionPool, ReadOnlyProfileError } from './chromadb-pool'
+import type { ChromaDBService } from './chromadb-service'
+import { parseProfileId } from './ipc-contract'
+import { captureMainError } from './error-monitoring'
+
+export function reportIpcError(error: unknown, operation: string, fallbackMessage: string) {
+  if (!(error instanceof ReadOnlyProfileError)) {
+    captureMainError(error, { operation })
+  }
+  const message = error instanceof Error ? error.message : fallbackMessage
+  return { success: false, error: message }
+}
+
+export interface ConnectedIpcContext {
+  event: IpcMainInvokeEvent
+  profileId: string
+  service: ChromaDBService
+}
+
+/**
+ * Register a profile-scoped ChromaDB handler. The first renderer argument is the
+ * profile id; the remaining arguments are passed through raw and must still be
+ * parsed by the handler. Whatever the handler returns becomes `data`.
+ */
+export function handleConnected(
+  channel: string,
+  operation: string,
+  fallbackMessage: string,
+  handler: (context: ConnectedIpcContext, ...args: unknown[]) => Promise<unknown>
+): void {
+  ipcMain.handle(channel, async (event, rawProfileId: unknown, ...args: unknown[]) => {
+    try {
+      const profileId = parseProfileId(rawProfileId)
+      const service = chromaDBConnectionPool.getConnection(profileId)
+      if (!service) {
+        return { success: false, error: 'Not connected to ChromaDB' }
+      }
+      const connectionError = chromaDBConnectionPool.getConnectionError(profileId)
+      if (connectionError) {
+        return { success: false, error: connectionError }
+      }
+      const data = await handler({ event, profileId, service }, ...args)
+      return { success: true, data }
+    } catch (error) {
+      return reportIpcError(error, operation, fallbackMessage)
+    }
+  })
+}
+
+/** Abort the profile's running operation in `operations`, if there is one. */
+export function cancelOperation(operations: Map<string, AbortController>, rawProfileId: unknown, notFound: string) {
+  const profileId = parseProfileId(rawProfileId)
+  const controller = operations.get(profileId)
+  if (controller) {
+    controller.abort()
+    operations.delete(profileId)
+    return { success: true }
+  }
+  return { success: false, error: notFound }
+}
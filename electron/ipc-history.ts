@@ -0,0 +1,89 @@
+import { ipcMain, WebContents } from 'electron'
+import { chromaDBConnectionPool } from './chromadb-pool'
+import type { ChromaDBService } from './chromadb-service'
+import type { HistoryChange } from './types'
+import { DocumentHistory, HistoryEntry, historyEntry, readImage, restoreImage } from './document-history'
+import { reportIpcError } from './ipc-helpers'
+
+// Undo history per window, keyed by web contents so it outlives a reload and
+// goes away with the window
+const histories: Map<number, DocumentHistory> = new Map()
+
+function historyFor(sender: WebContents): DocumentHistory {
+  let history = histories.get(sender.id)
+  if (!history) {
+    const id = sender.id
+    history = new DocumentHistory()
+    histories.set(id, history)
+    sender.once('destroyed', () => histories.delete(id))
+  }
+  return history
+}
+
+export function documentsLabel(verb: string, count: number): string {
+  return `${verb} ${count} ${count === 1 ? 'Document' : 'Documents'}`
+}
+
+/**
+ * Run a document mutation and add it to the sender window's history, with
+ * the records in `ids` as they were before and after. A mutation that fails
+ * partway is still recorded for the records it did write, so they can be
+ * undone; one that wrote nothing adds no entry. `addedIds` names records the
+ * mutation added under IDs it picked as it ran, which had nothing before.
+ */
+export async function recordHistory<T>(
+  sender: WebContents,
+  service: ChromaDBService,
+  change: HistoryChange,
+  ids: string[],
+  run: () => Promise<T>,
+  addedIds?: (result: T) => string[]
+): Promise<T> {
+  const collection = await service.openCollection(change.collectionName)
+  const before = await readImage(collection, ids)
+  let result: { value: T } | null = null
+  try {
+    result = { value: await run() }
+    return result.value
+  } finally {
+    const afterIds = result && addedIds ? [...ids, ...addedIds(result.value)] : ids
+    // A failed read leaves the change out of history rather than hiding run's own error
+    const after = await readImage(collection, afterIds).catch(() => null)
+    const entry = after && historyEntry(change, before, after)
+    if (entry) historyFor(sender).push(entry)
+  }
+}
+
+function restoreTo(image: 'before' | 'after') {
+  return async (entry: HistoryEntry) => {
+    const service = chromaDBConnectionPool.getConnection(entry.profileId)
+    if (!service) throw new Error('Not connected to ChromaDB')
+    chromaDBConnectionPool.assertWritable(entry.profileId)
+    const collection = await service.openCollection(entry.collectionName)
+    await restoreImage(collection, entry[image], image === 'before' ? entry.after : entry.before)
+  }
+}
+
+function toChange(entry: HistoryEntry | null): HistoryChange | null {
+  return entry && { label: entry.label, profileId: entry.profileId, collectionName: entry.collectionName }
+}
+
+export function registerHistoryHandlers(): void {
+  ipcMain.handle('history:undo', async (event) => {
+    try {
+      const entry = await histories.get(event.sender.id)?.undo(restoreTo('before'))
+      return { success: true, data: toChange(entry ?? null) }
+    } catch (error) {
+      return reportIpcError(error, 'history.undo', 'Failed to undo')
+    }
+  })
+
+  ipcMain.handle('history:redo', async (event) => {
+    try {
+      const entry = await histories.get(event.sender.id)?.redo(restoreTo('after'))
+      return { success: true, data: toChange(entry ?? null) }
+    } catch (error) {
+      return reportIpcError(error, 'history.redo', 'Failed to redo')
+    }
+  })
+}
@@ -0,0 +1,39 @@
+import { BrowserWindow, dialog, ipcMain, OpenDialogOptions } from 'electron'
+import { chromaDBConnectionPool } from './chromadb-pool'
+import { parseProfileId } from './ipc-contract'
+import { reportIpcError } from './ipc-helpers'
+import { windowManager } from './window-manager'
+
+export function registerLocalServerHandlers(): void {
+  // Only the profile's own windows show its server log
+  chromaDBConnectionPool.setLocalServerLogListener((profileId, line) => {
+    for (const { window } of windowManager.getWindowsByProfileId(profileId)) {
+      window.webContents.send('chromadb:localServerLog', line)
+    }
+  })
+
+  ipcMain.handle('chromadb:getLocalServerLog', async (_event, rawProfileId: unknown) => {
+    try {
+      return { success: true, data: chromaDBConnectionPool.getLocalServerLog(parseProfileId(rawProfileId)) }
+    } catch (error) {
+      return reportIpcError(error, 'chromadb.getLocalServerLog', 'Failed to read the server log')
+    }
+  })
+
+  ipcMain.handle('profiles:choosePersistDirectory', async (event) => {
+    try {
+      const options: OpenDialogOptions = {
+        title: 'Choose a Chroma Folder',
+        buttonLabel: 'Choose',
+        properties: ['openDirectory', 'createDirectory'],
+      }
+      const parentWindow = BrowserWindow.fromWebContents(event.sender)
+      const { canceled, filePaths } = parentWindow
+        ? await dialog.showOpenDialog(parentWindow, options)
+        : await dialog.showOpenDialog(options)
+      return { success: true, data: canceled || filePaths.length === 0 ? null : filePaths[0] }
+    } catch (error) {
+      return reportIpcError(error, 'profiles.choosePersistDirectory', 'Failed to choose a folder')
+    }
+  })
+}
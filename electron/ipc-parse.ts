@@ -0,0 +1,140 @@
+// Validation primitives shared by the IPC contract modules. Every IPC argument
+// arrives as `unknown` and is checked here before it reaches a handler.
+import type { JsonRecord, MetadataOperator, WhereClause, WhereDocumentClause, WhereDocumentOperator } from './ipc-contract'
+
+export const METADATA_OPERATORS: readonly MetadataOperator[] = ['$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin']
+export const WHERE_DOCUMENT_OPERATORS: readonly WhereDocumentOperator[] = ['$contains', '$not_contains', '$regex', '$not_regex']
+const LOGICAL_OPERATORS = ['$and', '$or'] as const
+const NUMERIC_OPERATORS: readonly MetadataOperator[] = ['$gt', '$gte', '$lt', '$lte']
+
+export function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function parseRecord(value: unknown, field: string): JsonRecord {
+  if (!isRecord(value)) throw new Error(`${field} must be an object`)
+  return value
+}
+
+export function parseString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim() === '') throw new Error(`${field} must be a non-empty string`)
+  return value
+}
+
+export function parseOptionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') throw new Error(`${field} must be a string`)
+  return value
+}
+
+export function parseOptionalNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${field} must be a finite number`)
+  return value
+}
+
+export function parseInteger(value: unknown, field: string, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${field} must be an integer between ${min} and ${max}`)
+  }
+  return value
+}
+
+export function parseBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== 'boolean') throw new Error(`${field} must be a boolean`)
+  return value
+}
+
+export function parseOptionalBoolean(value: unknown, field: string): boolean | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'boolean') throw new Error(`${field} must be a boolean`)
+  return value
+}
+
+export function parseStringArray(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    throw new Error(`${field} must be an array of strings`)
+  }
+  return value
+}
+
+export function parseNumberArray(value: unknown, field: string): number[] {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'number' && Number.isFinite(item))) {
+    throw new Error(`${field} must be an array of finite numbers`)
+  }
+  return value
+}
+
+export function parseQueryEmbedding(value: unknown, field: string): number[] {
+  const embedding = parseNumberArray(value, field)
+  if (embedding.length === 0) throw new Error(`${field} must not be empty`)
+  return embedding
+}
+
+export function parseEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`${field} must be one of: ${allowed.join(', ')}`)
+  }
+  return value as T
+}
+
+export function parseOptionalEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined
+  return parseEnum(value, field, allowed)
+}
+
+function isWherePrimitive(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))
+}
+
+// Chroma wants exactly one key per clause object and at least two operands per $and/$or
+function parseSingleEntry(value: unknown, field: string): [string, unknown] {
+  const record = parseRecord(value, field)
+  const entries = Object.entries(record)
+  if (entries.length !== 1) throw new Error(`${field} must have exactly one key`)
+  return entries[0]
+}
+
+function parseLogicalOperands<T>(value: unknown, field: string, parseOperand: (operand: unknown, field: string) => T): T[] {
+  if (!Array.isArray(value) || value.length < 2) throw new Error(`${field} must be an array of at least two clauses`)
+  return value.map((operand, index) => parseOperand(operand, `${field}.${index}`))
+}
+
+export function parseWhereClause(value: unknown, field = 'where'): WhereClause {
+  const [key, condition] = parseSingleEntry(value, field)
+  const path = `${field}.${key}`
+
+  if ((LOGICAL_OPERATORS as readonly string[]).includes(key)) {
+    return { [key]: parseLogicalOperands(condition, path, parseWhereClause) } as WhereClause
+  }
+  if (key.startsWith('$')) throw new Error(`${path} is not a supported operator`)
+
+  // A bare value is shorthand for $eq
+  if (isWherePrimitive(condition)) return { [key]: condition } as WhereClause
+
+  const [operator, operand] = parseSingleEntry(condition, path)
+  const operatorPath = `${path}.${operator}`
+  const metadataOperator = parseEnum(operator, operatorPath, METADATA_OPERATORS)
+  if (metadataOperator === '$in' || metadataOperator === '$nin') {
+    if (!Array.isArray(operand) || operand.length === 0 || !operand.every(isWherePrimitive)) {
+      throw new Error(`${operatorPath} must be a non-empty array of strings, numbers, or booleans`)
+    }
+  } else if (NUMERIC_OPERATORS.includes(metadataOperator)) {
+    if (typeof operand !== 'number' || !Number.isFinite(operand)) throw new Error(`${operatorPath} must be a finite number`)
+  } else if (!isWherePrimitive(operand)) {
+    throw new Error(`${operatorPath} must be a string, number, or boolean`)
+  }
+  return { [key]: { [operator]: operand } } as WhereClause
+}
+
+export function parseWhereDocumentClause(value: unknown, field = 'whereDocument'): WhereDocumentClause {
+  const [key, operand] = parseSingleEntry(value, field)
+  const path = `${field}.${key}`
+
+  if ((LOGICAL_OPERATORS as readonly string[]).includes(key)) {
+    return { [key]: parseLogicalOperands(operand, path, parseWhereDocumentClause) } as WhereDocumentClause
+  }
+  parseEnum(key, path, WHERE_DOCUMENT_OPERATORS)
+  if (typeof operand !== 'string' || operand === '') throw new Error(`${path} must be a non-empty string`)
+  return { [key]: operand } as WhereDocumentClause
+}
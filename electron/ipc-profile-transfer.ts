@@ -0,0 +1,139 @@
+import { BrowserWindow, dialog, ipcMain, IpcMainInvokeEvent, OpenDialogOptions, SaveDialogOptions } from 'electron'
+import { randomUUID } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { connectionStore } from './connection-store'
+import { track } from './analytics'
+import { parseConnectionProfile } from './ipc-contract'
+import { parseExportProfilesParams, parseImportProfilesParams } from './ipc-contract-profiles'
+import { reportIpcError } from './ipc-helpers'
+import type { ProfileImportPreview } from './types'
+import {
+  buildProfilesFile,
+  decryptSecrets,
+  findProfileConflict,
+  mergeProfileSecrets,
+  parseProfilesFile,
+  planProfileImport,
+  PROFILES_FILE_EXTENSION,
+} from './profile-transfer'
+
+// Profiles files picked for import, held by token like the document import
+// files in ipc-file-transfer.ts
+const profilesFiles: Map<string, string> = new Map()
+
+function showOpenDialog(event: IpcMainInvokeEvent, options: OpenDialogOptions) {
+  const parentWindow = BrowserWindow.fromWebContents(event.sender)
+  return parentWindow ? dialog.showOpenDialog(parentWindow, options) : dialog.showOpenDialog(options)
+}
+
+function showSaveDialog(event: IpcMainInvokeEvent, options: SaveDialogOptions) {
+  const parentWindow = BrowserWindow.fromWebContents(event.sender)
+  return parentWindow ? dialog.showSaveDialog(parentWindow, options) : dialog.showSaveDialog(options)
+}
+
+export function registerProfileTransferHandlers(): void {
+  ipcMain.handle('profiles:exportProfiles', async (event, rawParams: unknown) => {
+    try {
+      const params = parseExportProfilesParams(rawParams)
+      const saved = connectionStore.getProfiles()
+      const profiles = params.profileIds.map((id) => {
+        const profile = saved.find((p) => p.id === id)
+        if (!profile) throw new Error('A profile to export is no longer saved')
+        const embeddingOverrides = connectionStore.getEmbeddingOverrides(id)
+        return Object.keys(embeddingOverrides).length > 0 ? { ...profile, embeddingOverrides } : profile
+      })
+
+      const date = new Date().toISOString().slice(0, 10)
+      const { canceled, filePath } = await showSaveDialog(event, {
+        title: 'Export Connections',
+        defaultPath: `chroma-explorer-connections-${date}.${PROFILES_FILE_EXTENSION}`,
+        filters: [{ name: 'Chroma Explorer Connections', extensions: [PROFILES_FILE_EXTENSION] }],
+      })
+      if (canceled || !filePath) {
+        return { success: true, data: null }
+      }
+
+      const file = await buildProfilesFile(profiles, params.passphrase)
+      await writeFile(filePath, `${JSON.stringify(file, null, 2)}\n`, 'utf8')
+      track('profiles_exported', { count: profiles.length, secrets: file.secrets !== undefined })
+      return {
+        success: true,
+        data: { fileName: path.basename(filePath), profileCount: profiles.length, includesSecrets: file.secrets !== undefined },
+      }
+    } catch (error) {
+      return reportIpcError(error, 'profiles.exportProfiles', 'Failed to export connections')
+    }
+  })
+
+  ipcMain.handle('profiles:openProfilesFile', async (event) => {
+    try {
+      const { canceled, filePaths } = await showOpenDialog(event, {
+        title: 'Import Connections',
+        properties: ['openFile'],
+        filters: [{ name: 'Chroma Explorer Connections', extensions: [PROFILES_FILE_EXTENSION] }],
+      })
+      if (canceled || filePaths.length === 0) {
+        return { success: true, data: null }
+      }
+
+      const filePath = filePaths[0]
+      const file = parseProfilesFile(await readFile(filePath, 'utf8'))
+      const saved = connectionStore.getProfiles()
+      const fileToken = randomUUID()
+      profilesFiles.set(fileToken, filePath)
+      const preview: ProfileImportPreview = {
+        fileToken,
+        fileName: path.basename(filePath),
+        exportedAt: file.exportedAt,
+        profiles: file.profiles.map((profile) => {
+          const conflict = findProfileConflict(profile, saved)
+          return {
+            name: profile.name,
+            connectionType: profile.connectionType ?? 'self-hosted',
+            url: profile.url,
+            conflict: conflict ? { profileId: conflict.id, name: conflict.name } : undefined,
+          }
+        }),
+        encryptedSecrets: file.secrets !== undefined,
+      }
+      return { success: true, data: preview }
+    } catch (error) {
+      return reportIpcError(error, 'profiles.openProfilesFile', 'Failed to read connections file')
+    }
+  })
+
+  ipcMain.handle('profiles:importProfiles', async (_event, rawParams: unknown) => {
+    try {
+      const params = parseImportProfilesParams(rawParams)
+      const filePath = profilesFiles.get(params.fileToken)
+      if (!filePath) {
+        return { success: false, error: 'The connections file is no longer available. Choose it again.' }
+      }
+
+      const file = parseProfilesFile(await readFile(filePath, 'utf8'))
+      const secrets = file.secrets && params.passphrase
+        ? await decryptSecrets(file.secrets, params.passphrase)
+        : null
+      // Secrets are checked like the rest of the profile once they are back on it
+      const incoming = file.profiles.map((profile) => parseConnectionProfile(mergeProfileSecrets(profile, secrets?.[profile.id])))
+
+      const plan = planProfileImport(incoming, connectionStore.getProfiles(), params.onConflict, {
+        keepSavedSecrets: secrets === null,
+      })
+      connectionStore.importProfiles(plan.profiles.map(({ embeddingOverrides: _overrides, ...profile }) => profile))
+      for (const profile of plan.profiles) {
+        for (const [collectionName, override] of Object.entries(profile.embeddingOverrides ?? {})) {
+          connectionStore.setEmbeddingOverride(profile.id, collectionName, override)
+        }
+      }
+      profilesFiles.delete(params.fileToken)
+
+      track('profiles_imported', { count: plan.imported + plan.replaced, secrets: secrets !== null })
+      const { imported, replaced, skipped } = plan
+      return { success: true, data: { imported, replaced, skipped } }
+    } catch (error) {
+      return reportIpcError(error, 'profiles.importProfiles', 'Failed to import connections')
+    }
+  })
+}
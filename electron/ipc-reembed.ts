@@ -0,0 +1,53 @@
+import { ipcMain } from 'electron'
+import { track } from './analytics'
+import { chromaDBConnectionPool } from './chromadb-pool'
+import { ReembedProgress } from './types'
+import { parseFinishReembedParams, parseReembedCollectionParams } from './ipc-contract-reembed'
+import { cancelOperation, handleConnected } from './ipc-helpers'
+
+// In-place re-embeds, one running per profile. Cancelling keeps the shadow
+// collection so the next run resumes where this one stopped.
+const activeReembeds: Map<string, AbortController> = new Map()
+
+export function registerReembedHandlers(): void {
+  handleConnected(
+    'chromadb:reembedCollection',
+    'chromadb.reembedCollection',
+    'Failed to re-embed collection',
+    async ({ event, profileId, service }, rawParams) => {
+      const params = parseReembedCollectionParams(rawParams)
+      chromaDBConnectionPool.assertWritable(profileId)
+      const abortController = new AbortController()
+      activeReembeds.set(profileId, abortController)
+      const onProgress = (progress: ReembedProgress) => {
+        event.sender.send('chromadb:reembedProgress', progress)
+      }
+      try {
+        const result = await service.reembedCollection(params, onProgress, abortController.signal)
+        if (result.success) {
+          track('collection_reembedded', {
+            documents: result.totalDocuments,
+            resumed: result.resumedDocuments > 0,
+          })
+        }
+        return result
+      } finally {
+        activeReembeds.delete(profileId)
+      }
+    }
+  )
+
+  ipcMain.handle('chromadb:cancelReembed', async (_event, rawProfileId: unknown) => {
+    return cancelOperation(activeReembeds, rawProfileId, 'No active re-embed')
+  })
+
+  handleConnected(
+    'chromadb:finishReembed',
+    'chromadb.finishReembed',
+    'Failed to resolve the re-embed backup',
+    async ({ profileId, service }, rawParams) => {
+      chromaDBConnectionPool.assertWritable(profileId)
+      await service.finishReembed(parseFinishReembedParams(rawParams))
+    }
+  )
+}
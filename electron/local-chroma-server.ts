@@ -0,0 +1,218 @@
+import { spawn, type ChildProcess } from 'child_process'
+import { stat } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { LocalServerLogLine } from './types'
+import { canConnect, findFreePort } from './net-utils'
+import { chromaRunArgs, UVX_CHROMA, type ChromaCommand } from '../scripts/chroma-run-command.mjs'
+
+// The first uvx run downloads chromadb before the server can start
+const READY_TIMEOUT_MS = 180_000
+const PROBE_INTERVAL_MS = 300
+const MAX_RETRY_DELAY_MS = 30_000
+const STOP_TIMEOUT_MS = 5000
+const LOG_LIMIT = 2000
+
+export type LocalServerCommand = ChromaCommand
+
+// A `chroma` installed with pip first, then the uvx launch the test
+// database script uses, which needs only uv on the machine
+export const LOCAL_SERVER_COMMANDS: LocalServerCommand[] = [
+  { command: 'chroma', prefix: [] },
+  UVX_CHROMA,
+]
+
+export function localServerArgs(command: LocalServerCommand, persistDirectory: string, port: number): string[] {
+  return chromaRunArgs(command, persistDirectory, port, '127.0.0.1')
+}
+
+/**
+ * PATH for the server process. Apps launched from the Dock or Finder get a
+ * minimal PATH that leaves out where pip and uv install their commands.
+ */
+export function localServerSearchPath(currentPath: string | undefined, home: string): string {
+  const extra = [path.join(home, '.local', 'bin'), path.join(home, '.cargo', 'bin'), '/opt/homebrew/bin', '/usr/local/bin']
+  const entries = (currentPath ?? '').split(path.delimiter).filter(Boolean)
+  return [...entries, ...extra.filter(entry => !entries.includes(entry))].join(path.delimiter)
+}
+
+class CommandNotFoundError extends Error {}
+
+/**
+ * A Chroma server the app runs against a persist directory on a free
+ * loopback port, until stopped. Output is kept as a log for the server log
+ * panel. If the process exits after it was up, it is restarted on the same
+ * port with backoff.
+ */
+export class LocalChromaServer {
+  private process: ChildProcess | null = null
+  private command: LocalServerCommand | null = null
+  private retryTimer: NodeJS.Timeout | null = null
+  private failures = 0
+  private stopped = false
+  private port = 0
+  private error: string | null = null
+  private log: LocalServerLogLine[] = []
+
+  constructor(
+    private readonly persistDirectory: string,
+    private readonly onLog: (line: LocalServerLogLine) => void
+  ) {}
+
+  /** Start the server; resolves to its URL once it accepts connections. */
+  async start(): Promise<string> {
+    const info = await stat(this.persistDirectory).catch(() => null)
+    if (!info?.isDirectory()) {
+      throw new Error(`The folder ${this.persistDirectory} does not exist.`)
+    }
+    this.port = await findFreePort()
+    await this.launch()
+    return `http://127.0.0.1:${this.port}`
+  }
+
+  /** Why the server is down while it restarts; null while it is up. */
+  getError(): string | null {
+    return this.error
+  }
+
+  getLog(): LocalServerLogLine[] {
+    return [...this.log]
+  }
+
+  stop(): void {
+    this.stopped = true
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    const child = this.process
+    this.process = null
+    if (child) this.terminate(child)
+  }
+
+  private append(stream: LocalServerLogLine['stream'], text: string): void {
+    for (const part of text.split(/\r?\n/)) {
+      if (!part.trim()) continue
+      const line: LocalServerLogLine = { time: Date.now(), stream, text: part }
+      this.log.push(line)
+      this.onLog(line)
+    }
+    if (this.log.length > LOG_LIMIT) this.log.splice(0, this.log.length - LOG_LIMIT)
+  }
+
+  private lastOutput(): string | null {
+    for (let i = this.log.length - 1; i >= 0; i--) {
+      if (this.log[i].stream !== 'explorer') return this.log[i].text.trim()
+    }
+    return null
+  }
+
+  private async launch(): Promise<void> {
+    if (this.command) return this.spawnServer(this.command)
+    for (const command of LOCAL_SERVER_COMMANDS) {
+      try {
+        await this.spawnServer(command)
+        this.command = command
+        return
+      } catch (error) {
+        if (!(error instanceof CommandNotFoundError)) throw error
+      }
+    }
+    throw new Error('Neither chroma nor uvx was found. Install Chroma with "pip install chromadb", or install uv, to open a local folder.')
+  }
+
+  private spawnServer(command: LocalServerCommand): Promise<void> {
+    const args = localServerArgs(command, this.persistDirectory, this.port)
+
+    return new Promise((resolve, reject) => {
+      this.append('explorer', `$ ${command.command} ${args.join(' ')}`)
+      const child = spawn(command.command, args, {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, PATH: localServerSearchPath(process.env.PATH, os.homedir()) },
+        windowsHide: true,
+      })
+      this.process = child
+      let settled = false
+
+      const settle = (error?: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timeout)
+        if (error) {
+          if (this.process === child) this.process = null
+          this.terminate(child)
+          reject(error)
+        } else {
+          this.failures = 0
+          this.error = null
+          this.append('explorer', `Server ready on port ${this.port}`)
+          resolve()
+        }
+      }
+
+      const timeout = setTimeout(
+        () => settle(new Error('Timed out waiting for the local Chroma server to start. See the server log for details.')),
+        READY_TIMEOUT_MS
+      )
+
+      child.stdout?.on('data', (chunk: Buffer) => this.append('stdout', chunk.toString()))
+      child.stderr?.on('data', (chunk: Buffer) => this.append('stderr', chunk.toString()))
+      child.once('error', (error: NodeJS.ErrnoException) => {
+        settle(error.code === 'ENOENT'
+          ? new CommandNotFoundError(`${command.command} was not found`)
+          : new Error(`Could not start ${command.command}: ${error.message}`))
+      })
+      child.once('exit', (code, signal) => {
+        const reason = signal ? `signal ${signal}` : `code ${code ?? 'unknown'}`
+        this.append('explorer', `Server exited with ${reason}`)
+        if (!settled) {
+          const output = this.lastOutput()
+          settle(new Error(`The local Chroma server exited before it was ready (${output ?? reason}).`))
+        } else if (this.process === child) {
+          this.process = null
+          this.crashed(reason)
+        }
+      })
+
+      const probe = async () => {
+        while (!settled) {
+          if (await canConnect(this.port)) {
+            settle()
+            return
+          }
+          await new Promise(done => setTimeout(done, PROBE_INTERVAL_MS))
+        }
+      }
+      void probe()
+    })
+  }
+
+  private terminate(child: ChildProcess): void {
+    if (child.exitCode !== null || child.signalCode !== null) return
+    child.kill('SIGTERM')
+    const force = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT_MS)
+    child.once('exit', () => clearTimeout(force))
+  }
+
+  private crashed(reason: string): void {
+    if (this.stopped) return
+    console.warn(`[Local Chroma] Server for ${this.persistDirectory} exited with ${reason}`)
+    this.error = `The local Chroma server stopped (${reason}). Restarting…`
+    this.scheduleRestart()
+  }
+
+  private scheduleRestart(): void {
+    const delay = Math.min(1000 * 2 ** this.failures, MAX_RETRY_DELAY_MS)
+    this.failures++
+    this.append('explorer', `Restarting in ${Math.round(delay / 1000)}s`)
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      if (this.stopped) return
+      this.launch().catch((error: Error) => {
+        if (this.stopped) return
+        this.error = `The local Chroma server is down (${error.message}). Retrying…`
+        this.scheduleRestart()
+      })
+    }, delay)
+  }
+}
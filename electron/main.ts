@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, Menu, MenuItemConstructorOptions } from 'electron'
+import { app, BrowserWindow, ipcMain, Menu, MenuItemConstructorOptions, WebContents } from 'electron'
 import path from 'node:path'
 
 // Set app name before anything else (affects menu bar, about dialog, etc.)
@@ -10,24 +10,29 @@ if (process.env.CHROMA_EXPLORER_USER_DATA_DIR) {
   app.setPath('userData', path.join(app.getPath('appData'), 'Chroma Explorer Dev'))
 }
 import { fileURLToPath } from 'node:url'
-import { chromaDBConnectionPool } from './chromadb-service'
+import { chromaDBConnectionPool } from './chromadb-pool'
 import { connectionStore } from './connection-store'
 import { settingsStore, ApiKeys, Theme } from './settings-store'
 import { windowManager } from './window-manager'
 import { createApplicationMenu, updateThemeMenu } from './menu'
-import { CopyProgress } from './types'
+import { HealthScanProgress } from './types'
 import {
   parseApiKeys,
   parseCollectionName,
   parseConnectionProfile,
-  parseCopyCollectionParams,
+  parseCollectionHealthParams,
   parseCreateCollectionParams,
   parseCreateDocumentParams,
   parseCreateDocumentsBatchParams,
+  parseUpsertDocumentsParams,
   parseDeleteDocumentsParams,
+  parseDocumentsPageParams,
   parseEmbeddingOverride,
   parseErrorReportingEnabled,
   parseProfileId,
+  parseQueryByEmbeddingParams,
+  parseEmbedQueryParams,
+  parseMetadataSchemaParams,
   parseSearchDocumentsParams,
   parseTheme,
   parseUpdateDocumentParams,
@@ -41,15 +46,24 @@ import {
   isChromaCloudApiKeyAdded,
 } from './analytics-events'
 import { configureTransformersCache } from './transformers-cache'
-import { captureMainError, initErrorMonitoring, setErrorMonitoringEnabled } from './error-monitoring'
+import { initErrorMonitoring, setErrorMonitoringEnabled } from './error-monitoring'
+import { handleConnected, reportIpcError } from './ipc-helpers'
+import { registerFileTransferHandlers } from './ipc-file-transfer'
+import { registerCopyHandlers } from './ipc-copy'
+import { documentsLabel, recordHistory, registerHistoryHandlers } from './ipc-history'
+import { registerBulkHandlers } from './ipc-bulk'
+import { registerReembedHandlers } from './ipc-reembed'
+import { registerLocalServerHandlers } from './ipc-local-server'
+import { registerProfileTransferHandlers } from './ipc-profile-transfer'
+import { parseMeasureEmbeddingInputParams } from './ipc-contract-usage'
 
 // Inject stored API keys into process.env at startup
 configureTransformersCache()
 settingsStore.injectIntoProcessEnv()
 initErrorMonitoring(settingsStore.isErrorReportingEnabled())
 
-// Track active copy operations per profile for cancellation
-const activeCopyOperations: Map<string, AbortController> = new Map()
+// Track active health scans per profile for cancellation
+const activeHealthScans: Map<string, AbortController> = new Map()
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -58,12 +72,6 @@ process.env.VITE_PUBLIC = app.isPackaged
   ? process.env.DIST
   : path.join(process.env.DIST, '../public')
 
-function reportIpcError(error: unknown, operation: string, fallbackMessage: string) {
-  captureMainError(error, { operation })
-  const message = error instanceof Error ? error.message : fallbackMessage
-  return { success: false, error: message }
-}
-
 // Set up IPC handlers
 ipcMain.handle('chromadb:connect', async (_event, rawProfileId: unknown, rawProfile: unknown) => {
   try {
@@ -84,6 +92,10 @@ ipcMain.handle('chromadb:listCollections', async (_event, rawProfileId: unknown)
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
+    const connectionError = chromaDBConnectionPool.getConnectionError(profileId)
+    if (connectionError) {
+      return { success: false, error: connectionError }
+    }
     const collections = await service.listCollections()
     return { success: true, data: collections }
   } catch (error) {
@@ -91,39 +103,28 @@ ipcMain.handle('chromadb:listCollections', async (_event, rawProfileId: unknown)
   }
 })
 
-ipcMain.handle('chromadb:getDocuments', async (_event, rawProfileId: unknown, rawCollectionName: unknown) => {
-  try {
-    const profileId = parseProfileId(rawProfileId)
-    const collectionName = parseCollectionName(rawCollectionName)
-    const service = chromaDBConnectionPool.getConnection(profileId)
-    if (!service) {
-      return { success: false, error: 'Not connected to ChromaDB' }
-    }
-    const documents = await service.getCollectionDocuments(collectionName)
-    return { success: true, data: documents }
-  } catch (error) {
-    return reportIpcError(error, 'chromadb.getDocuments', 'Failed to fetch documents')
-  }
+handleConnected('chromadb:searchDocuments', 'chromadb.searchDocuments', 'Failed to search documents', async ({ service, profileId }, rawParams) => {
+  const params = parseSearchDocumentsParams(rawParams)
+  // Check for user embedding override
+  const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
+  return service.searchDocuments(params, embeddingOverride)
 })
 
-ipcMain.handle('chromadb:searchDocuments', async (_event, rawProfileId: unknown, rawParams: unknown) => {
-  try {
-    const profileId = parseProfileId(rawProfileId)
-    const params = parseSearchDocumentsParams(rawParams)
-    const service = chromaDBConnectionPool.getConnection(profileId)
-    if (!service) {
-      return { success: false, error: 'Not connected to ChromaDB' }
-    }
-    // Check for user embedding override
-    const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
-    const documents = await service.searchDocuments(params, embeddingOverride)
-    return { success: true, data: documents }
-  } catch (error) {
-    return reportIpcError(error, 'chromadb.searchDocuments', 'Failed to search documents')
-  }
+handleConnected('chromadb:queryByEmbedding', 'chromadb.queryByEmbedding', 'Failed to find similar documents', async ({ service }, rawParams) => {
+  return service.queryByEmbedding(parseQueryByEmbeddingParams(rawParams))
+})
+
+handleConnected('chromadb:embedQuery', 'chromadb.embedQuery', 'Failed to embed query', async ({ service, profileId }, rawParams) => {
+  const params = parseEmbedQueryParams(rawParams)
+  const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
+  return service.embedQuery(params, embeddingOverride)
 })
 
-ipcMain.handle('chromadb:updateDocument', async (_event, rawProfileId: unknown, rawParams: unknown) => {
+handleConnected('chromadb:getDocumentsPage', 'chromadb.getDocumentsPage', 'Failed to fetch documents', async ({ service }, rawParams) => {
+  return service.getDocumentsPage(parseDocumentsPageParams(rawParams))
+})
+
+ipcMain.handle('chromadb:updateDocument', async (event, rawProfileId: unknown, rawParams: unknown) => {
   try {
     const profileId = parseProfileId(rawProfileId)
     const params = parseUpdateDocumentParams(rawParams)
@@ -131,9 +132,16 @@ ipcMain.handle('chromadb:updateDocument', async (_event, rawProfileId: unknown,
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
+    chromaDBConnectionPool.assertWritable(profileId)
     // Check for user embedding override (needed for regeneration)
     const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
-    await service.updateDocument(params, embeddingOverride)
+    await recordHistory(
+      event.sender,
+      service,
+      { label: 'Edit Document', profileId, collectionName: params.collectionName },
+      [params.documentId],
+      () => service.updateDocument(params, embeddingOverride)
+    )
     track('document_updated')
     return { success: true }
   } catch (error) {
@@ -141,7 +149,7 @@ ipcMain.handle('chromadb:updateDocument', async (_event, rawProfileId: unknown,
   }
 })
 
-ipcMain.handle('chromadb:createDocument', async (_event, rawProfileId: unknown, rawParams: unknown) => {
+ipcMain.handle('chromadb:createDocument', async (event, rawProfileId: unknown, rawParams: unknown) => {
   try {
     const profileId = parseProfileId(rawProfileId)
     const params = parseCreateDocumentParams(rawParams)
@@ -149,9 +157,16 @@ ipcMain.handle('chromadb:createDocument', async (_event, rawProfileId: unknown,
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
+    chromaDBConnectionPool.assertWritable(profileId)
     // Check for user embedding override (needed for embedding generation)
     const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
-    await service.createDocument(params, embeddingOverride)
+    await recordHistory(
+      event.sender,
+      service,
+      { label: 'Add Document', profileId, collectionName: params.collectionName },
+      [params.id],
+      () => service.createDocument(params, embeddingOverride)
+    )
     track('document_created')
     return { success: true }
   } catch (error) {
@@ -159,7 +174,7 @@ ipcMain.handle('chromadb:createDocument', async (_event, rawProfileId: unknown,
   }
 })
 
-ipcMain.handle('chromadb:deleteDocuments', async (_event, rawProfileId: unknown, rawParams: unknown) => {
+ipcMain.handle('chromadb:deleteDocuments', async (event, rawProfileId: unknown, rawParams: unknown) => {
   try {
     const profileId = parseProfileId(rawProfileId)
     const params = parseDeleteDocumentsParams(rawParams)
@@ -167,7 +182,14 @@ ipcMain.handle('chromadb:deleteDocuments', async (_event, rawProfileId: unknown,
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
-    await service.deleteDocuments(params)
+    chromaDBConnectionPool.assertWritable(profileId)
+    await recordHistory(
+      event.sender,
+      service,
+      { label: documentsLabel('Delete', params.ids.length), profileId, collectionName: params.collectionName },
+      params.ids,
+      () => service.deleteDocuments(params)
+    )
     track('documents_deleted', {
       count: params.ids.length
     })
@@ -177,7 +199,7 @@ ipcMain.handle('chromadb:deleteDocuments', async (_event, rawProfileId: unknown,
   }
 })
 
-ipcMain.handle('chromadb:createDocumentsBatch', async (_event, rawProfileId: unknown, rawParams: unknown) => {
+ipcMain.handle('chromadb:createDocumentsBatch', async (event, rawProfileId: unknown, rawParams: unknown) => {
   try {
     const profileId = parseProfileId(rawProfileId)
     const params = parseCreateDocumentsBatchParams(rawParams)
@@ -185,9 +207,16 @@ ipcMain.handle('chromadb:createDocumentsBatch', async (_event, rawProfileId: unk
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
+    chromaDBConnectionPool.assertWritable(profileId)
     // Check for user embedding override
     const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
-    const result = await service.createDocumentsBatch(params, embeddingOverride)
+    const result = await recordHistory(
+      event.sender,
+      service,
+      { label: documentsLabel('Add', params.documents.length), profileId, collectionName: params.collectionName },
+      params.documents.map(d => d.id),
+      () => service.createDocumentsBatch(params, embeddingOverride)
+    )
     track('documents_imported', {
       count: params.documents.length
     })
@@ -197,6 +226,32 @@ ipcMain.handle('chromadb:createDocumentsBatch', async (_event, rawProfileId: unk
   }
 })
 
+ipcMain.handle('chromadb:upsertDocuments', async (event, rawProfileId: unknown, rawParams: unknown) => {
+  try {
+    const profileId = parseProfileId(rawProfileId)
+    const params = parseUpsertDocumentsParams(rawParams)
+    const service = chromaDBConnectionPool.getConnection(profileId)
+    if (!service) {
+      return { success: false, error: 'Not connected to ChromaDB' }
+    }
+    chromaDBConnectionPool.assertWritable(profileId)
+    const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.collectionName)
+    const result = await recordHistory(
+      event.sender,
+      service,
+      { label: documentsLabel('Upsert', params.documents.length), profileId, collectionName: params.collectionName },
+      params.documents.map(d => d.id),
+      () => service.upsertDocuments(params, embeddingOverride)
+    )
+    track('documents_upserted', {
+      count: params.documents.length
+    })
+    return { success: true, data: result }
+  } catch (error) {
+    return reportIpcError(error, 'chromadb.upsertDocuments', 'Failed to upsert documents')
+  }
+})
+
 ipcMain.handle('chromadb:createCollection', async (_event, rawProfileId: unknown, rawParams: unknown) => {
   try {
     const profileId = parseProfileId(rawProfileId)
@@ -205,6 +260,7 @@ ipcMain.handle('chromadb:createCollection', async (_event, rawProfileId: unknown
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
+    chromaDBConnectionPool.assertWritable(profileId)
     const collection = await service.createCollection(params)
     const metadataDistance = params.metadata?.['hnsw:space']
     track('collection_created', {
@@ -224,6 +280,7 @@ ipcMain.handle('chromadb:deleteCollection', async (_event, rawProfileId: unknown
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
+    chromaDBConnectionPool.assertWritable(profileId)
     await service.deleteCollection(collectionName)
     track('collection_deleted')
     return { success: true }
@@ -232,59 +289,67 @@ ipcMain.handle('chromadb:deleteCollection', async (_event, rawProfileId: unknown
   }
 })
 
-ipcMain.handle('chromadb:copyCollection', async (event, rawProfileId: unknown, rawParams: unknown) => {
+ipcMain.handle('chromadb:scanCollectionHealth', async (event, rawProfileId: unknown, rawParams: unknown) => {
   let profileId = ''
   try {
     profileId = parseProfileId(rawProfileId)
-    const params = parseCopyCollectionParams(rawParams)
+    const params = parseCollectionHealthParams(rawParams)
     const service = chromaDBConnectionPool.getConnection(profileId)
     if (!service) {
       return { success: false, error: 'Not connected to ChromaDB' }
     }
 
-    // Create abort controller for this copy operation
     const abortController = new AbortController()
-    activeCopyOperations.set(profileId, abortController)
-
-    // Check for user embedding override
-    const embeddingOverride = connectionStore.getEmbeddingOverride(profileId, params.sourceCollectionName)
-
-    // Progress callback sends updates to renderer
-    const onProgress = (progress: CopyProgress) => {
-      event.sender.send('chromadb:copyProgress', progress)
-    }
-
-    const result = await service.copyCollection(params, embeddingOverride, onProgress, abortController.signal)
-
-    // Clean up abort controller
-    activeCopyOperations.delete(profileId)
-
-    if (result.success) {
-      track('collection_duplicated', {
-        documentsCopied: result.copiedDocuments
-      })
+    activeHealthScans.set(profileId, abortController)
+    const onProgress = (progress: HealthScanProgress) => {
+      event.sender.send('chromadb:healthScanProgress', progress)
     }
 
-    return { success: result.success, data: result, error: result.error }
+    const report = await service.scanCollectionHealth(params, onProgress, abortController.signal)
+    activeHealthScans.delete(profileId)
+    return { success: true, data: report }
   } catch (error) {
-    activeCopyOperations.delete(profileId)
-    return reportIpcError(error, 'chromadb.copyCollection', 'Failed to copy collection')
+    activeHealthScans.delete(profileId)
+    return reportIpcError(error, 'chromadb.scanCollectionHealth', 'Failed to scan collection')
   }
 })
 
-ipcMain.handle('chromadb:cancelCopy', async (_event, rawProfileId: unknown) => {
+ipcMain.handle('chromadb:cancelHealthScan', async (_event, rawProfileId: unknown) => {
   const profileId = parseProfileId(rawProfileId)
-  const controller = activeCopyOperations.get(profileId)
+  const controller = activeHealthScans.get(profileId)
   if (controller) {
     controller.abort()
-    activeCopyOperations.delete(profileId)
+    activeHealthScans.delete(profileId)
     return { success: true }
   }
-  return { success: false, error: 'No active copy operation' }
+  return { success: false, error: 'No active health scan' }
+})
+
+handleConnected('chromadb:getMetadataSchema', 'chromadb.getMetadataSchema', 'Failed to read metadata schema', async ({ service }, rawParams) => {
+  return service.getMetadataSchema(parseMetadataSchemaParams(rawParams))
+})
+
+handleConnected('chromadb:measureEmbeddingInput', 'chromadb.measureEmbeddingInput', 'Failed to measure documents', async ({ service }, rawParams) => {
+  return service.measureEmbeddingInput(parseMeasureEmbeddingInputParams(rawParams))
 })
 
+registerCopyHandlers()
+registerFileTransferHandlers()
+registerHistoryHandlers()
+registerBulkHandlers()
+registerReembedHandlers()
+registerLocalServerHandlers()
+registerProfileTransferHandlers()
+
+// Menu items that change data are disabled in windows on read-only profiles
+function senderIsReadOnly(sender: WebContents): boolean {
+  const connection = windowManager.getAllConnectionWindows().find(({ window }) => window.webContents === sender)
+  return connection ? chromaDBConnectionPool.isReadOnly(connection.profileId) : false
+}
+
 // Context menu IPC handlers
 ipcMain.on('context-menu:show-collection', (event, collectionName: string, options?: { hasCopiedCollection?: boolean }) => {
+  const readOnly = senderIsReadOnly(event.sender)
   const template: MenuItemConstructorOptions[] = [
     {
       label: 'Copy Collection',
@@ -292,12 +357,26 @@ ipcMain.on('context-menu:show-collection', (event, collectionName: string, optio
     },
     {
       label: 'Paste Collection',
-      enabled: options?.hasCopiedCollection ?? false,
+      enabled: !readOnly && (options?.hasCopiedCollection ?? false),
       click: () => event.sender.send('context-menu:action', { action: 'paste', collectionName })
     },
     { type: 'separator' },
+    {
+      label: 'Export Collection...',
+      click: () => event.sender.send('context-menu:action', { action: 'export', collectionName })
+    },
+    {
+      label: 'Snapshot Collection...',
+      click: () => event.sender.send('context-menu:action', { action: 'snapshot', collectionName })
+    },
+    {
+      label: 'Compare With...',
+      click: () => event.sender.send('context-menu:action', { action: 'compare', collectionName })
+    },
+    { type: 'separator' },
     {
       label: 'Delete Collection',
+      enabled: !readOnly,
       click: () => event.sender.send('context-menu:action', { action: 'delete', collectionName })
     }
   ]
@@ -309,11 +388,18 @@ ipcMain.on('context-menu:show-collection', (event, collectionName: string, optio
 })
 
 ipcMain.on('context-menu:show-collection-panel', (event, options?: { hasCopiedCollection?: boolean }) => {
+  const readOnly = senderIsReadOnly(event.sender)
   const template: MenuItemConstructorOptions[] = [
     {
       label: 'Paste Collection',
-      enabled: options?.hasCopiedCollection ?? false,
+      enabled: !readOnly && (options?.hasCopiedCollection ?? false),
       click: () => event.sender.send('context-menu:action', { action: 'paste', collectionName: '' })
+    },
+    { type: 'separator' },
+    {
+      label: 'Restore from Snapshot...',
+      enabled: !readOnly,
+      click: () => event.sender.send('context-menu:action', { action: 'restore', collectionName: '' })
     }
   ]
   const menu = Menu.buildFromTemplate(template)
@@ -325,6 +411,7 @@ ipcMain.on('context-menu:show-collection-panel', (event, options?: { hasCopiedCo
 
 // Document context menu handlers
 ipcMain.on('context-menu:show-document', (event, documentId: string, options?: { hasCopiedDocuments?: boolean }) => {
+  const readOnly = senderIsReadOnly(event.sender)
   const template: MenuItemConstructorOptions[] = [
     {
       label: 'Copy',
@@ -332,12 +419,18 @@ ipcMain.on('context-menu:show-document', (event, documentId: string, options?: {
     },
     {
       label: 'Paste',
-      enabled: options?.hasCopiedDocuments ?? false,
+      enabled: !readOnly && (options?.hasCopiedDocuments ?? false),
       click: () => event.sender.send('context-menu:document-action', { action: 'paste', documentId })
     },
     { type: 'separator' },
+    {
+      label: 'Find Similar',
+      click: () => event.sender.send('context-menu:document-action', { action: 'find-similar', documentId })
+    },
+    { type: 'separator' },
     {
       label: 'Delete',
+      enabled: !readOnly,
       click: () => event.sender.send('context-menu:document-action', { action: 'delete', documentId })
     }
   ]
@@ -352,7 +445,7 @@ ipcMain.on('context-menu:show-documents-panel', (event, options?: { hasCopiedDoc
   const template: MenuItemConstructorOptions[] = [
     {
       label: 'Paste',
-      enabled: options?.hasCopiedDocuments ?? false,
+      enabled: !senderIsReadOnly(event.sender) && (options?.hasCopiedDocuments ?? false),
       click: () => event.sender.send('context-menu:document-action', { action: 'paste' })
     }
   ]
@@ -463,6 +556,15 @@ ipcMain.handle('profiles:setEmbeddingOverride', async (_event, rawProfileId: unk
   }
 })
 
+ipcMain.handle('profiles:getEmbeddingUsage', async (_event, rawProfileId: unknown) => {
+  try {
+    const profileId = parseProfileId(rawProfileId)
+    return { success: true, data: connectionStore.getEmbeddingUsage(profileId) }
+  } catch (error) {
+    return reportIpcError(error, 'profiles.getEmbeddingUsage', 'Failed to read embedding usage')
+  }
+})
+
 ipcMain.handle('profiles:clearEmbeddingOverride', async (_event, rawProfileId: unknown, rawCollectionName: unknown) => {
   try {
     const profileId = parseProfileId(rawProfileId)
@@ -704,6 +806,8 @@ app.on('window-all-closed', () => {
 
 app.on('before-quit', () => {
   track('app_closed')
+  connectionStore.flushEmbeddingUsage()
+  chromaDBConnectionPool.disconnectAll()
 })
 
 app.on('activate', () => {
@@ -13,6 +13,19 @@ function sendToFocusedWindow(channel: string, ...args: unknown[]) {
   }
 }
 
+// Connection windows choose between undoing text in a focused field and
+// undoing the last document change; other windows only have text to undo
+function undoInFocusedWindow(action: 'undo' | 'redo') {
+  const focusedWindow = BrowserWindow.getFocusedWindow()
+  if (!focusedWindow) return
+  const isConnectionWindow = windowManager.getAllConnectionWindows().some(({ window }) => window === focusedWindow)
+  if (isConnectionWindow) {
+    focusedWindow.webContents.send(`menu:${action}`)
+  } else {
+    focusedWindow.webContents[action]()
+  }
+}
+
 // Helper to set theme and broadcast to all windows
 function setThemeAndBroadcast(theme: Theme) {
   settingsStore.setTheme(theme)
@@ -134,6 +147,19 @@ function buildMenuTemplate(): Electron.MenuItemConstructorOptions[] {
           submenu: buildRecentConnectionsSubmenu(),
         },
         { type: 'separator' },
+        {
+          label: 'Import Documents...',
+          click: () => {
+            sendToFocusedWindow('menu:import-documents')
+          },
+        },
+        {
+          label: 'Restore from Snapshot...',
+          click: () => {
+            sendToFocusedWindow('menu:restore-snapshot')
+          },
+        },
+        { type: 'separator' },
         {
           label: 'Close Window',
           accelerator: 'CmdOrCtrl+W',
@@ -146,8 +172,20 @@ function buildMenuTemplate(): Electron.MenuItemConstructorOptions[] {
     {
       label: 'Edit',
       submenu: [
-        { role: 'undo' },
-        { role: 'redo' },
+        {
+          label: 'Undo',
+          accelerator: 'CmdOrCtrl+Z',
+          click: () => {
+            undoInFocusedWindow('undo')
+          },
+        },
+        {
+          label: 'Redo',
+          accelerator: 'Shift+CmdOrCtrl+Z',
+          click: () => {
+            undoInFocusedWindow('redo')
+          },
+        },
         { type: 'separator' },
         { role: 'cut' },
         { role: 'copy' },
@@ -296,6 +334,13 @@ function buildMenuTemplate(): Electron.MenuItemConstructorOptions[] {
             sendToFocusedWindow('menu:paste-collection')
           },
         },
+        { type: 'separator' },
+        {
+          label: 'Compare Collections...',
+          click: () => {
+            sendToFocusedWindow('menu:compare-collections')
+          },
+        },
       ],
     },
 
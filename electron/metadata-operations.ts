@@ -0,0 +1,77 @@
+import type { Metadata } from 'chromadb'
+import type { JsonRecord, MetadataOperation, MetadataScalar, MetadataScalarType } from './types'
+
+function convertValue(value: unknown, type: MetadataScalarType): MetadataScalar {
+  if (Array.isArray(value) || value === null || typeof value === 'object') {
+    throw new Error(`cannot convert ${Array.isArray(value) ? 'an array' : 'this value'} to ${type}`)
+  }
+  switch (type) {
+    case 'string':
+      return String(value)
+    case 'number': {
+      if (typeof value === 'boolean') return value ? 1 : 0
+      const number = typeof value === 'number' ? value : Number(String(value).trim())
+      if (String(value).trim() === '' || !Number.isFinite(number)) throw new Error(`"${value}" is not a number`)
+      return number
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value
+      const text = String(value).trim().toLowerCase()
+      if (text === 'true' || text === '1') return true
+      if (text === 'false' || text === '0') return false
+      throw new Error(`"${value}" is not a boolean`)
+    }
+  }
+}
+
+/**
+ * The metadata after applying `operation`, or null when it leaves the record
+ * as it was. Throws when the operation cannot apply to this record.
+ */
+export function applyMetadataOperation(metadata: JsonRecord | null, operation: MetadataOperation): JsonRecord | null {
+  const current = metadata ?? {}
+  const has = (key: string) => Object.prototype.hasOwnProperty.call(current, key)
+
+  switch (operation.kind) {
+    case 'set':
+      return current[operation.key] === operation.value ? null : { ...current, [operation.key]: operation.value }
+    case 'rename': {
+      if (!has(operation.key)) return null
+      if (has(operation.newKey)) throw new Error(`already has "${operation.newKey}"`)
+      const { [operation.key]: value, ...rest } = current
+      return { ...rest, [operation.newKey]: value }
+    }
+    case 'delete': {
+      if (!has(operation.key)) return null
+      const { [operation.key]: _removed, ...rest } = current
+      return rest
+    }
+    case 'convert': {
+      if (!has(operation.key)) return null
+      const value = convertValue(current[operation.key], operation.type)
+      return value === current[operation.key] ? null : { ...current, [operation.key]: value }
+    }
+    case 'replace': {
+      const keys = operation.key === null ? Object.keys(current) : [operation.key]
+      let next: JsonRecord | null = null
+      for (const key of keys) {
+        const value = current[key]
+        if (typeof value !== 'string' || !value.includes(operation.find)) continue
+        next = { ...(next ?? current), [key]: value.split(operation.find).join(operation.replace) }
+      }
+      return next
+    }
+  }
+}
+
+/**
+ * An `update` payload turning `before` into `after`. Chroma merges updated
+ * metadata into what is stored, so removed keys are sent as null.
+ */
+export function metadataUpdate(before: JsonRecord | null, after: JsonRecord): Metadata {
+  const update: Record<string, unknown> = { ...after }
+  for (const key of Object.keys(before ?? {})) {
+    if (!(key in after)) update[key] = null
+  }
+  return update as Metadata
+}
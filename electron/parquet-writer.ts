@@ -0,0 +1,354 @@
+import { open, type FileHandle } from 'node:fs/promises'
+
+// Minimal Apache Parquet writer for exports: uncompressed PLAIN pages, one page
+// per column chunk, row groups flushed as rows arrive. Metadata is encoded with
+// the Thrift compact protocol, which is all the format needs from Thrift.
+
+export type ParquetColumnType = 'utf8' | 'json' | 'double' | 'float-list'
+
+export interface ParquetColumn {
+  name: string
+  type: ParquetColumnType
+  // Required columns must not hold nulls
+  required?: boolean
+}
+
+export type ParquetValue = string | number | number[] | null
+
+const MAGIC = Buffer.from('PAR1', 'ascii')
+const ROW_GROUP_SIZE = 5000
+
+// Enum values from parquet.thrift
+const PhysicalType = { FLOAT: 4, DOUBLE: 5, BYTE_ARRAY: 6 } as const
+const ConvertedType = { UTF8: 0, LIST: 3, JSON: 19 } as const
+const Repetition = { REQUIRED: 0, OPTIONAL: 1, REPEATED: 2 } as const
+const Encoding = { PLAIN: 0, RLE: 3 } as const
+const UNCOMPRESSED = 0
+const DATA_PAGE = 0
+
+class ByteWriter {
+  private chunks: Buffer[] = []
+  length = 0
+
+  bytes(bytes: Buffer) {
+    this.chunks.push(bytes)
+    this.length += bytes.length
+  }
+
+  byte(value: number) {
+    this.bytes(Buffer.from([value]))
+  }
+
+  // Arithmetic rather than bit ops so values past 2^31 survive
+  varint(value: number) {
+    const bytes: number[] = []
+    while (value >= 0x80) {
+      bytes.push((value % 0x80) + 0x80)
+      value = Math.floor(value / 0x80)
+    }
+    bytes.push(value)
+    this.bytes(Buffer.from(bytes))
+  }
+
+  int32(value: number) {
+    const bytes = Buffer.alloc(4)
+    bytes.writeInt32LE(value)
+    this.bytes(bytes)
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks, this.length)
+  }
+}
+
+// ---- Thrift compact protocol ----
+
+type ThriftValue =
+  | { type: 'i32' | 'i64'; value: number }
+  | { type: 'binary'; value: string }
+  | { type: 'struct'; fields: ThriftFields }
+  | { type: 'list'; elementType: 'i32' | 'binary' | 'struct'; items: ThriftValue[] }
+
+type ThriftFields = [id: number, value: ThriftValue | undefined][]
+
+const COMPACT_TYPES = { i32: 5, i64: 6, binary: 8, list: 9, struct: 12 } as const
+
+const i32 = (value: number): ThriftValue => ({ type: 'i32', value })
+const i64 = (value: number): ThriftValue => ({ type: 'i64', value })
+const binary = (value: string): ThriftValue => ({ type: 'binary', value })
+const struct = (fields: ThriftFields): ThriftValue => ({ type: 'struct', fields })
+const list = (elementType: 'i32' | 'binary' | 'struct', items: ThriftValue[]): ThriftValue => ({ type: 'list', elementType, items })
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+function writeThriftValue(out: ByteWriter, value: ThriftValue) {
+  switch (value.type) {
+    case 'i32':
+    case 'i64':
+      out.varint(zigzag(value.value))
+      break
+    case 'binary': {
+      const bytes = Buffer.from(value.value, 'utf8')
+      out.varint(bytes.length)
+      out.bytes(bytes)
+      break
+    }
+    case 'struct':
+      writeThriftStruct(out, value.fields)
+      break
+    case 'list': {
+      const elementType = COMPACT_TYPES[value.elementType]
+      if (value.items.length < 15) {
+        out.byte((value.items.length << 4) | elementType)
+      } else {
+        out.byte(0xf0 | elementType)
+        out.varint(value.items.length)
+      }
+      value.items.forEach(item => writeThriftValue(out, item))
+      break
+    }
+  }
+}
+
+function writeThriftStruct(out: ByteWriter, fields: ThriftFields) {
+  let lastId = 0
+  for (const [id, value] of fields) {
+    if (!value) continue
+    const delta = id - lastId
+    if (delta > 0 && delta <= 15) {
+      out.byte((delta << 4) | COMPACT_TYPES[value.type])
+    } else {
+      out.byte(COMPACT_TYPES[value.type])
+      out.varint(zigzag(id))
+    }
+    lastId = id
+    writeThriftValue(out, value)
+  }
+  out.byte(0)
+}
+
+export function encodeThriftStruct(fields: ThriftFields): Buffer {
+  const out = new ByteWriter()
+  writeThriftStruct(out, fields)
+  return out.toBuffer()
+}
+
+// ---- Column encoding ----
+
+/**
+ * Repetition or definition levels in the RLE/bit-packed hybrid encoding,
+ * written as RLE runs only, with the 4-byte length prefix data pages use.
+ */
+export function encodeLevels(levels: number[], bitWidth: number): Buffer {
+  const out = new ByteWriter()
+  const valueBytes = Math.ceil(bitWidth / 8)
+  let i = 0
+  while (i < levels.length) {
+    let run = 1
+    while (i + run < levels.length && levels[i + run] === levels[i]) run++
+    out.varint(run * 2)
+    const value = Buffer.alloc(valueBytes)
+    value.writeUIntLE(levels[i], 0, valueBytes)
+    out.bytes(value)
+    i += run
+  }
+  const body = out.toBuffer()
+  const prefixed = new ByteWriter()
+  prefixed.int32(body.length)
+  prefixed.bytes(body)
+  return prefixed.toBuffer()
+}
+
+interface EncodedColumn {
+  valueCount: number
+  body: Buffer
+}
+
+function encodeValues(type: ParquetColumnType, values: (string | number)[]): Buffer {
+  if (type === 'utf8' || type === 'json') {
+    const out = new ByteWriter()
+    for (const value of values) {
+      const bytes = Buffer.from(value as string, 'utf8')
+      out.int32(bytes.length)
+      out.bytes(bytes)
+    }
+    return out.toBuffer()
+  }
+  const width = type === 'double' ? 8 : 4
+  const bytes = Buffer.alloc(values.length * width)
+  values.forEach((value, index) => {
+    if (type === 'double') bytes.writeDoubleLE(value as number, index * width)
+    else bytes.writeFloatLE(value as number, index * width)
+  })
+  return bytes
+}
+
+function encodeColumn(column: ParquetColumn, cells: ParquetValue[]): EncodedColumn {
+  if (column.type === 'float-list') {
+    // optional group (LIST) > repeated group list > required float element
+    const repetition: number[] = []
+    const definition: number[] = []
+    const values: number[] = []
+    for (const cell of cells) {
+      const items = cell as number[] | null
+      if (items === null) {
+        repetition.push(0)
+        definition.push(0)
+      } else if (items.length === 0) {
+        repetition.push(0)
+        definition.push(1)
+      } else {
+        items.forEach((item, index) => {
+          repetition.push(index === 0 ? 0 : 1)
+          definition.push(2)
+          values.push(item)
+        })
+      }
+    }
+    return {
+      valueCount: definition.length,
+      body: Buffer.concat([encodeLevels(repetition, 1), encodeLevels(definition, 2), encodeValues('float-list', values)]),
+    }
+  }
+
+  const present = cells.filter((cell): cell is string | number => cell !== null)
+  if (column.required) {
+    if (present.length !== cells.length) throw new Error(`Parquet column ${column.name} is required but has nulls`)
+    return { valueCount: cells.length, body: encodeValues(column.type, present) }
+  }
+  const definition = cells.map(cell => (cell === null ? 0 : 1))
+  return {
+    valueCount: cells.length,
+    body: Buffer.concat([encodeLevels(definition, 1), encodeValues(column.type, present)]),
+  }
+}
+
+function schemaElements(columns: ParquetColumn[]): ThriftValue[] {
+  const elements: ThriftValue[] = [struct([[4, binary('schema')], [5, i32(columns.length)]])]
+  for (const column of columns) {
+    const repetition = i32(column.required ? Repetition.REQUIRED : Repetition.OPTIONAL)
+    if (column.type === 'float-list') {
+      elements.push(
+        struct([[3, repetition], [4, binary(column.name)], [5, i32(1)], [6, i32(ConvertedType.LIST)]]),
+        struct([[3, i32(Repetition.REPEATED)], [4, binary('list')], [5, i32(1)]]),
+        struct([[1, i32(PhysicalType.FLOAT)], [3, i32(Repetition.REQUIRED)], [4, binary('element')]])
+      )
+      continue
+    }
+    const physicalType = column.type === 'double' ? PhysicalType.DOUBLE : PhysicalType.BYTE_ARRAY
+    const convertedType = column.type === 'utf8' ? ConvertedType.UTF8 : column.type === 'json' ? ConvertedType.JSON : undefined
+    elements.push(struct([
+      [1, i32(physicalType)],
+      [3, repetition],
+      [4, binary(column.name)],
+      [6, convertedType === undefined ? undefined : i32(convertedType)],
+    ]))
+  }
+  return elements
+}
+
+function physicalType(column: ParquetColumn): number {
+  if (column.type === 'float-list') return PhysicalType.FLOAT
+  return column.type === 'double' ? PhysicalType.DOUBLE : PhysicalType.BYTE_ARRAY
+}
+
+function columnPath(column: ParquetColumn): string[] {
+  return column.type === 'float-list' ? [column.name, 'list', 'element'] : [column.name]
+}
+
+/** Streams rows to a Parquet file; rows are buffered until a row group fills. */
+export class ParquetFileWriter {
+  private offset = MAGIC.length
+  private rows: ParquetValue[][] = []
+  private rowGroups: ThriftValue[] = []
+  private totalRows = 0
+
+  private constructor(
+    private readonly file: FileHandle,
+    private readonly columns: ParquetColumn[]
+  ) {}
+
+  static async open(filePath: string, columns: ParquetColumn[]): Promise<ParquetFileWriter> {
+    const file = await open(filePath, 'w')
+    await file.write(MAGIC)
+    return new ParquetFileWriter(file, columns)
+  }
+
+  /** Rows hold one value per column, in column order. */
+  async appendRows(rows: ParquetValue[][]) {
+    this.rows.push(...rows)
+    while (this.rows.length >= ROW_GROUP_SIZE) {
+      await this.writeRowGroup(this.rows.splice(0, ROW_GROUP_SIZE))
+    }
+  }
+
+  async close() {
+    try {
+      if (this.rows.length > 0) await this.writeRowGroup(this.rows.splice(0))
+      const footer = encodeThriftStruct([
+        [1, i32(1)],
+        [2, list('struct', schemaElements(this.columns))],
+        [3, i64(this.totalRows)],
+        [4, list('struct', this.rowGroups)],
+        [6, binary('Chroma Explorer')],
+      ])
+      const length = Buffer.alloc(4)
+      length.writeInt32LE(footer.length)
+      await this.file.write(Buffer.concat([footer, length, MAGIC]))
+    } finally {
+      await this.file.close()
+    }
+  }
+
+  /** Close the file without a footer, e.g. before deleting a cancelled export. */
+  async abort() {
+    await this.file.close()
+  }
+
+  private async writeRowGroup(rows: ParquetValue[][]) {
+    const chunks: ThriftValue[] = []
+    let groupBytes = 0
+    for (let index = 0; index < this.columns.length; index++) {
+      const column = this.columns[index]
+      const { valueCount, body } = encodeColumn(column, rows.map(row => row[index]))
+      const header = encodeThriftStruct([
+        [1, i32(DATA_PAGE)],
+        [2, i32(body.length)],
+        [3, i32(body.length)],
+        [5, struct([
+          [1, i32(valueCount)],
+          [2, i32(Encoding.PLAIN)],
+          [3, i32(Encoding.RLE)],
+          [4, i32(Encoding.RLE)],
+        ])],
+      ])
+      const pageOffset = this.offset
+      const chunkSize = header.length + body.length
+      await this.file.write(Buffer.concat([header, body]))
+      this.offset += chunkSize
+      groupBytes += chunkSize
+
+      chunks.push(struct([
+        [2, i64(pageOffset)],
+        [3, struct([
+          [1, i32(physicalType(column))],
+          [2, list('i32', [i32(Encoding.PLAIN), i32(Encoding.RLE)])],
+          [3, list('binary', columnPath(column).map(binary))],
+          [4, i32(UNCOMPRESSED)],
+          [5, i64(valueCount)],
+          [6, i64(chunkSize)],
+          [7, i64(chunkSize)],
+          [9, i64(pageOffset)],
+        ])],
+      ]))
+    }
+    this.rowGroups.push(struct([
+      [1, list('struct', chunks)],
+      [2, i64(groupBytes)],
+      [3, i64(rows.length)],
+    ]))
+    this.totalRows += rows.length
+  }
+}
@@ -3,17 +3,67 @@ import { contextBridge, ipcRenderer } from 'electron'
 import type {
   ConnectionProfile,
   CollectionInfo,
+  LocalServerLogLine,
   DocumentRecord,
+  DocumentsPage,
+  DocumentsPageParams,
+  QueryByEmbeddingParams,
+  EmbedQueryParams,
   SearchDocumentsParams,
   UpdateDocumentParams,
   CreateDocumentParams,
   DeleteDocumentsParams,
   CreateDocumentsBatchParams,
+  CreateDocumentsBatchResult,
+  HistoryChange,
+  UpsertDocumentsParams,
   CreateCollectionParams,
   CopyCollectionParams,
   CopyCollectionResult,
   CopyProgress,
+  CopyDocumentsParams,
+  CopyDocumentsResult,
+  ClipboardEntry,
+  ApplyDiffParams,
+  ApplyDiffResult,
+  BulkMetadataParams,
+  BulkMetadataProgress,
+  BulkMetadataResult,
+  FinishReembedParams,
+  EmbeddingInputStats,
+  EmbeddingUsage,
+  MeasureEmbeddingInputParams,
+  ReembedCollectionParams,
+  ReembedProgress,
+  ReembedResult,
+  CollectionDiff,
+  DiffCollectionsParams,
+  DiffProgress,
+  CollectionHealthParams,
+  CollectionHealthReport,
+  ExportDocumentsParams,
+  ExportDocumentsResult,
+  ExportFileTarget,
+  ExportFormat,
+  ExportProgress,
+  HealthScanProgress,
+  ImportDocumentsParams,
+  ImportDocumentsResult,
+  ImportFilePreview,
+  ImportProgress,
+  MetadataSchema,
+  MetadataSchemaParams,
   EmbeddingFunctionOverride,
+  RestoreSnapshotParams,
+  SnapshotCollectionParams,
+  SnapshotCollectionResult,
+  SnapshotFileTarget,
+  SnapshotSummary,
+  ExportProfilesParams,
+  ExportProfilesResult,
+  ImportProfilesParams,
+  ImportProfilesResult,
+  ProfileImportPreview,
 } from './types'
 
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -31,13 +81,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
       }
       return result.data
     },
-    getDocuments: async (profileId: string, collectionName: string): Promise<DocumentRecord[]> => {
-      const result = await ipcRenderer.invoke('chromadb:getDocuments', profileId, collectionName)
+    getLocalServerLog: async (profileId: string): Promise<LocalServerLogLine[]> => {
+      const result = await ipcRenderer.invoke('chromadb:getLocalServerLog', profileId)
       if (!result.success) {
         throw new Error(result.error)
       }
       return result.data
     },
+    onLocalServerLog: (callback: (line: LocalServerLogLine) => void): (() => void) => {
+      const handler = (_event: any, line: LocalServerLogLine) => callback(line)
+      ipcRenderer.on('chromadb:localServerLog', handler)
+      return () => ipcRenderer.removeListener('chromadb:localServerLog', handler)
+    },
     searchDocuments: async (profileId: string, params: SearchDocumentsParams): Promise<DocumentRecord[]> => {
       const result = await ipcRenderer.invoke('chromadb:searchDocuments', profileId, params)
       if (!result.success) {
@@ -45,6 +100,27 @@ contextBridge.exposeInMainWorld('electronAPI', {
       }
       return result.data
     },
+    getDocumentsPage: async (profileId: string, params: DocumentsPageParams): Promise<DocumentsPage> => {
+      const result = await ipcRenderer.invoke('chromadb:getDocumentsPage', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    queryByEmbedding: async (profileId: string, params: QueryByEmbeddingParams): Promise<DocumentRecord[]> => {
+      const result = await ipcRenderer.invoke('chromadb:queryByEmbedding', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    embedQuery: async (profileId: string, params: EmbedQueryParams): Promise<number[]> => {
+      const result = await ipcRenderer.invoke('chromadb:embedQuery', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
     updateDocument: async (profileId: string, params: UpdateDocumentParams): Promise<void> => {
       const result = await ipcRenderer.invoke('chromadb:updateDocument', profileId, params)
       if (!result.success) {
@@ -63,13 +139,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
         throw new Error(result.error)
       }
     },
-    createDocumentsBatch: async (profileId: string, params: CreateDocumentsBatchParams): Promise<{ createdIds: string[]; errors: string[] }> => {
+    createDocumentsBatch: async (profileId: string, params: CreateDocumentsBatchParams): Promise<CreateDocumentsBatchResult> => {
       const result = await ipcRenderer.invoke('chromadb:createDocumentsBatch', profileId, params)
       if (!result.success) {
         throw new Error(result.error)
       }
       return result.data
     },
+    upsertDocuments: async (profileId: string, params: UpsertDocumentsParams): Promise<CreateDocumentsBatchResult> => {
+      const result = await ipcRenderer.invoke('chromadb:upsertDocuments', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
     createCollection: async (profileId: string, params: CreateCollectionParams): Promise<CollectionInfo> => {
       const result = await ipcRenderer.invoke('chromadb:createCollection', profileId, params)
       if (!result.success) {
@@ -101,6 +184,201 @@ contextBridge.exposeInMainWorld('electronAPI', {
         throw new Error(result.error)
       }
     },
+    copyDocuments: async (profileId: string, params: CopyDocumentsParams): Promise<CopyDocumentsResult> => {
+      const result = await ipcRenderer.invoke('chromadb:copyDocuments', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    diffCollections: async (profileId: string, params: DiffCollectionsParams): Promise<CollectionDiff> => {
+      const result = await ipcRenderer.invoke('chromadb:diffCollections', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    applyCollectionDiff: async (profileId: string, params: ApplyDiffParams): Promise<ApplyDiffResult> => {
+      const result = await ipcRenderer.invoke('chromadb:applyCollectionDiff', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onDiffProgress: (callback: (progress: DiffProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: DiffProgress) => callback(progress)
+      ipcRenderer.on('chromadb:diffProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:diffProgress', handler)
+    },
+    cancelDiff: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelDiff', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    bulkUpdateMetadata: async (profileId: string, params: BulkMetadataParams): Promise<BulkMetadataResult> => {
+      const result = await ipcRenderer.invoke('chromadb:bulkUpdateMetadata', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onBulkUpdateProgress: (callback: (progress: BulkMetadataProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: BulkMetadataProgress) => callback(progress)
+      ipcRenderer.on('chromadb:bulkUpdateProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:bulkUpdateProgress', handler)
+    },
+    cancelBulkUpdate: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelBulkUpdate', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    reembedCollection: async (profileId: string, params: ReembedCollectionParams): Promise<ReembedResult> => {
+      const result = await ipcRenderer.invoke('chromadb:reembedCollection', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onReembedProgress: (callback: (progress: ReembedProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: ReembedProgress) => callback(progress)
+      ipcRenderer.on('chromadb:reembedProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:reembedProgress', handler)
+    },
+    cancelReembed: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelReembed', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    finishReembed: async (profileId: string, params: FinishReembedParams): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:finishReembed', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    measureEmbeddingInput: async (profileId: string, params: MeasureEmbeddingInputParams): Promise<EmbeddingInputStats> => {
+      const result = await ipcRenderer.invoke('chromadb:measureEmbeddingInput', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    scanCollectionHealth: async (profileId: string, params: CollectionHealthParams): Promise<CollectionHealthReport> => {
+      const result = await ipcRenderer.invoke('chromadb:scanCollectionHealth', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onHealthScanProgress: (callback: (progress: HealthScanProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: HealthScanProgress) => callback(progress)
+      ipcRenderer.on('chromadb:healthScanProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:healthScanProgress', handler)
+    },
+    cancelHealthScan: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelHealthScan', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    getMetadataSchema: async (profileId: string, params: MetadataSchemaParams): Promise<MetadataSchema> => {
+      const result = await ipcRenderer.invoke('chromadb:getMetadataSchema', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    openImportFile: async (): Promise<ImportFilePreview | null> => {
+      const result = await ipcRenderer.invoke('chromadb:openImportFile')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    importDocuments: async (profileId: string, params: ImportDocumentsParams): Promise<ImportDocumentsResult> => {
+      const result = await ipcRenderer.invoke('chromadb:importDocuments', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onImportProgress: (callback: (progress: ImportProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: ImportProgress) => callback(progress)
+      ipcRenderer.on('chromadb:importProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:importProgress', handler)
+    },
+    cancelImport: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelImport', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    chooseExportFile: async (collectionName: string, format: ExportFormat): Promise<ExportFileTarget | null> => {
+      const result = await ipcRenderer.invoke('chromadb:chooseExportFile', collectionName, format)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    exportDocuments: async (profileId: string, params: ExportDocumentsParams): Promise<ExportDocumentsResult> => {
+      const result = await ipcRenderer.invoke('chromadb:exportDocuments', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onExportProgress: (callback: (progress: ExportProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: ExportProgress) => callback(progress)
+      ipcRenderer.on('chromadb:exportProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:exportProgress', handler)
+    },
+    cancelExport: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelExport', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    chooseSnapshotFile: async (collectionName: string): Promise<SnapshotFileTarget | null> => {
+      const result = await ipcRenderer.invoke('chromadb:chooseSnapshotFile', collectionName)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    snapshotCollection: async (profileId: string, params: SnapshotCollectionParams): Promise<SnapshotCollectionResult> => {
+      const result = await ipcRenderer.invoke('chromadb:snapshotCollection', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    openSnapshotFile: async (): Promise<SnapshotSummary | null> => {
+      const result = await ipcRenderer.invoke('chromadb:openSnapshotFile')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    restoreSnapshot: async (profileId: string, params: RestoreSnapshotParams): Promise<CopyCollectionResult> => {
+      const result = await ipcRenderer.invoke('chromadb:restoreSnapshot', profileId, params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    onSnapshotProgress: (callback: (progress: CopyProgress) => void): (() => void) => {
+      const handler = (_event: any, progress: CopyProgress) => callback(progress)
+      ipcRenderer.on('chromadb:snapshotProgress', handler)
+      return () => ipcRenderer.removeListener('chromadb:snapshotProgress', handler)
+    },
+    cancelSnapshot: async (profileId: string): Promise<void> => {
+      const result = await ipcRenderer.invoke('chromadb:cancelSnapshot', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
   },
   contextMenu: {
     showCollectionMenu: (collectionName: string, options?: { hasCopiedCollection?: boolean }): void => {
@@ -186,6 +464,41 @@ contextBridge.exposeInMainWorld('electronAPI', {
         throw new Error(result.error)
       }
     },
+    getEmbeddingUsage: async (profileId: string): Promise<EmbeddingUsage[]> => {
+      const result = await ipcRenderer.invoke('profiles:getEmbeddingUsage', profileId)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    choosePersistDirectory: async (): Promise<string | null> => {
+      const result = await ipcRenderer.invoke('profiles:choosePersistDirectory')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    exportProfiles: async (params: ExportProfilesParams): Promise<ExportProfilesResult | null> => {
+      const result = await ipcRenderer.invoke('profiles:exportProfiles', params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    openProfilesFile: async (): Promise<ProfileImportPreview | null> => {
+      const result = await ipcRenderer.invoke('profiles:openProfilesFile')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    importProfiles: async (params: ImportProfilesParams): Promise<ImportProfilesResult> => {
+      const result = await ipcRenderer.invoke('profiles:importProfiles', params)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
   },
   window: {
     createConnection: async (profile: ConnectionProfile): Promise<{ windowId: string }> => {
@@ -284,6 +597,42 @@ contextBridge.exposeInMainWorld('electronAPI', {
       return () => ipcRenderer.removeListener('settings:switch-tab', handler)
     },
   },
+  clipboard: {
+    read: async (): Promise<ClipboardEntry | null> => {
+      const result = await ipcRenderer.invoke('clipboard:read')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    write: async (item: ClipboardEntry | null): Promise<void> => {
+      const result = await ipcRenderer.invoke('clipboard:write', item)
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    },
+    onChange: (callback: (item: ClipboardEntry | null) => void): (() => void) => {
+      const handler = (_event: any, item: ClipboardEntry | null) => callback(item)
+      ipcRenderer.on('clipboard:changed', handler)
+      return () => ipcRenderer.removeListener('clipboard:changed', handler)
+    },
+  },
+  history: {
+    undo: async (): Promise<HistoryChange | null> => {
+      const result = await ipcRenderer.invoke('history:undo')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+    redo: async (): Promise<HistoryChange | null> => {
+      const result = await ipcRenderer.invoke('history:redo')
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      return result.data
+    },
+  },
   shell: {
     openExternal: async (url: string): Promise<void> => {
       const result = await ipcRenderer.invoke('shell:openExternal', url)
@@ -325,6 +674,17 @@ contextBridge.exposeInMainWorld('electronAPI', {
     },
   },
   menu: {
+    // File menu events
+    onImportDocuments: (callback: () => void): (() => void) => {
+      const handler = () => callback()
+      ipcRenderer.on('menu:import-documents', handler)
+      return () => ipcRenderer.removeListener('menu:import-documents', handler)
+    },
+    onRestoreSnapshot: (callback: () => void): (() => void) => {
+      const handler = () => callback()
+      ipcRenderer.on('menu:restore-snapshot', handler)
+      return () => ipcRenderer.removeListener('menu:restore-snapshot', handler)
+    },
     // Collection menu events
     onNewCollection: (callback: () => void): (() => void) => {
       const handler = () => callback()
@@ -356,6 +716,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.on('menu:paste-collection', handler)
       return () => ipcRenderer.removeListener('menu:paste-collection', handler)
     },
+    onCompareCollections: (callback: () => void): (() => void) => {
+      const handler = () => callback()
+      ipcRenderer.on('menu:compare-collections', handler)
+      return () => ipcRenderer.removeListener('menu:compare-collections', handler)
+    },
     // Document menu events
     onNewDocument: (callback: () => void): (() => void) => {
       const handler = () => callback()
@@ -377,6 +742,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.on('menu:copy-documents', handler)
       return () => ipcRenderer.removeListener('menu:copy-documents', handler)
     },
+    onUndo: (callback: () => void): (() => void) => {
+      const handler = () => callback()
+      ipcRenderer.on('menu:undo', handler)
+      return () => ipcRenderer.removeListener('menu:undo', handler)
+    },
+    onRedo: (callback: () => void): (() => void) => {
+      const handler = () => callback()
+      ipcRenderer.on('menu:redo', handler)
+      return () => ipcRenderer.removeListener('menu:redo', handler)
+    },
     onPasteDocuments: (callback: () => void): (() => void) => {
       const handler = () => callback()
       ipcRenderer.on('menu:paste-documents', handler)
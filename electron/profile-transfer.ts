@@ -0,0 +1,278 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scrypt } from 'node:crypto'
+import { promisify } from 'node:util'
+import type { ConnectionProfile, ProfileConflictPolicy } from './types'
+import { parseConnectionProfile } from './ipc-contract'
+import { isRecord } from './ipc-parse'
+
+// A profiles file is JSON listing profiles without their secrets. Exported
+// secrets sit beside them as one blob encrypted with the user's passphrase,
+// which the file doesn't carry.
+export const PROFILES_FILE_EXTENSION = 'json'
+const PROFILES_FORMAT = 'chroma-explorer-profiles'
+const PROFILES_VERSION = 1
+const KEY_LENGTH = 32
+
+const deriveKey = promisify(scrypt) as (passphrase: string, salt: Buffer, keyLength: number) => Promise<Buffer>
+
+// The parts of a profile that authenticate to a server or proxy
+export interface ProfileSecrets {
+  apiKey?: string
+  authToken?: string
+  authCredentials?: string
+  customHeaders?: Record<string, string>
+  // The whole proxy URL, when it carries credentials
+  proxyUrl?: string
+  clientCertificatePassphrase?: string
+}
+
+interface EncryptedSecrets {
+  cipher: 'aes-256-gcm'
+  kdf: 'scrypt'
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+export interface ProfilesFile {
+  format: typeof PROFILES_FORMAT
+  version: number
+  exportedAt: string
+  // Embedding overrides ride along in `embeddingOverrides`, by collection name
+  profiles: ConnectionProfile[]
+  // Secrets by profile ID
+  secrets?: EncryptedSecrets
+}
+
+export interface ProfileImportPlan {
+  // New and replacing profiles, ready to save
+  profiles: ConnectionProfile[]
+  imported: number
+  replaced: number
+  skipped: number
+}
+
+function withoutProxyCredentials(proxyUrl: string): string {
+  const url = new URL(proxyUrl)
+  if (!url.username && !url.password) return proxyUrl
+  url.username = ''
+  url.password = ''
+  return url.toString()
+}
+
+/** Separate a profile's secrets from the rest; `secrets` is null when it has none. */
+export function splitProfileSecrets(profile: ConnectionProfile): { profile: ConnectionProfile; secrets: ProfileSecrets | null } {
+  const { apiKey, authToken, authCredentials, customHeaders, proxyUrl, clientCertificate, ...rest } = profile
+  const stripped: ConnectionProfile = { ...rest }
+  const secrets: ProfileSecrets = {}
+
+  if (apiKey) secrets.apiKey = apiKey
+  if (authToken) secrets.authToken = authToken
+  if (authCredentials) secrets.authCredentials = authCredentials
+  // Header values are often tokens, so the headers travel with the secrets
+  if (customHeaders && Object.keys(customHeaders).length > 0) secrets.customHeaders = customHeaders
+  if (proxyUrl) {
+    stripped.proxyUrl = withoutProxyCredentials(proxyUrl)
+    if (stripped.proxyUrl !== proxyUrl) secrets.proxyUrl = proxyUrl
+  }
+  if (clientCertificate) {
+    const { passphrase, ...certificate } = clientCertificate
+    stripped.clientCertificate = certificate
+    if (passphrase) secrets.clientCertificatePassphrase = passphrase
+  }
+
+  return { profile: stripped, secrets: Object.keys(secrets).length > 0 ? secrets : null }
+}
+
+/** Put secrets back on a profile stripped by `splitProfileSecrets`. */
+export function mergeProfileSecrets(profile: ConnectionProfile, secrets: ProfileSecrets | null | undefined): ConnectionProfile {
+  if (!secrets) return profile
+  const merged: ConnectionProfile = { ...profile }
+  if (secrets.apiKey) merged.apiKey = secrets.apiKey
+  if (secrets.authToken) merged.authToken = secrets.authToken
+  if (secrets.authCredentials) merged.authCredentials = secrets.authCredentials
+  if (secrets.customHeaders) merged.customHeaders = secrets.customHeaders
+  // Only while the profile still points at the proxy the credentials are for
+  if (secrets.proxyUrl && profile.proxyUrl === withoutProxyCredentials(secrets.proxyUrl)) {
+    merged.proxyUrl = secrets.proxyUrl
+  }
+  if (secrets.clientCertificatePassphrase && merged.clientCertificate) {
+    merged.clientCertificate = { ...merged.clientCertificate, passphrase: secrets.clientCertificatePassphrase }
+  }
+  return merged
+}
+
+async function encryptSecrets(secrets: Record<string, ProfileSecrets>, passphrase: string): Promise<EncryptedSecrets> {
+  const salt = randomBytes(16)
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', await deriveKey(passphrase, salt, KEY_LENGTH), iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()])
+  return {
+    cipher: 'aes-256-gcm',
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+}
+
+/** Decrypt a file's secrets; a wrong passphrase fails the GCM tag check. */
+export async function decryptSecrets(encrypted: EncryptedSecrets, passphrase: string): Promise<Record<string, ProfileSecrets>> {
+  let text: string
+  try {
+    const key = await deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64'), KEY_LENGTH)
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'))
+    text = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]).toString('utf8')
+  } catch {
+    throw new Error('Wrong passphrase for this profiles file')
+  }
+  const secrets: unknown = JSON.parse(text)
+  if (!isRecord(secrets)) throw new Error('The secrets in this profiles file are malformed')
+  return secrets as Record<string, ProfileSecrets>
+}
+
+/**
+ * Build the file for `profiles`. Secrets are encrypted with `passphrase`, or
+ * left out without one.
+ */
+export async function buildProfilesFile(
+  profiles: ConnectionProfile[],
+  passphrase?: string,
+  exportedAt = new Date()
+): Promise<ProfilesFile> {
+  const secrets: Record<string, ProfileSecrets> = {}
+  const stripped = profiles.map((profile) => {
+    const { lastUsed: _lastUsed, ...shared } = profile
+    const split = splitProfileSecrets(shared)
+    if (split.secrets) secrets[profile.id] = split.secrets
+    return split.profile
+  })
+
+  const file: ProfilesFile = {
+    format: PROFILES_FORMAT,
+    version: PROFILES_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    profiles: stripped,
+  }
+  if (passphrase && Object.keys(secrets).length > 0) {
+    file.secrets = await encryptSecrets(secrets, passphrase)
+  }
+  return file
+}
+
+function parseEncryptedSecrets(value: unknown): EncryptedSecrets {
+  if (
+    !isRecord(value) ||
+    value.cipher !== 'aes-256-gcm' ||
+    value.kdf !== 'scrypt' ||
+    !['salt', 'iv', 'tag', 'data'].every((field) => typeof value[field] === 'string')
+  ) {
+    throw new Error('The secrets in this profiles file are malformed')
+  }
+  return value as unknown as EncryptedSecrets
+}
+
+/** Parse a profiles file, checking every profile as the profile IPC handlers do. */
+export function parseProfilesFile(text: string): ProfilesFile {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    value = null
+  }
+  if (!isRecord(value) || value.format !== PROFILES_FORMAT || !Array.isArray(value.profiles)) {
+    throw new Error('Not a Chroma Explorer profiles file')
+  }
+  if (typeof value.version !== 'number' || value.version > PROFILES_VERSION) {
+    throw new Error('This profiles file was made by a newer version of Chroma Explorer')
+  }
+
+  const profiles = value.profiles.map((profile, index) => {
+    try {
+      return parseConnectionProfile(profile)
+    } catch (error) {
+      const name = isRecord(profile) && typeof profile.name === 'string' ? ` "${profile.name}"` : ''
+      throw new Error(`Profile ${index + 1}${name} is invalid: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  })
+
+  return {
+    format: PROFILES_FORMAT,
+    version: value.version,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+    profiles,
+    secrets: value.secrets === undefined ? undefined : parseEncryptedSecrets(value.secrets),
+  }
+}
+
+function serverKey(profile: ConnectionProfile): string {
+  return [profile.url.trim().replace(/\/+$/, '').toLowerCase(), profile.tenant ?? '', profile.database ?? ''].join('\n')
+}
+
+/**
+ * The saved profile an imported one collides with: the same name, or the same
+ * server (URL, tenant and database).
+ */
+export function findProfileConflict(profile: ConnectionProfile, saved: ConnectionProfile[]): ConnectionProfile | undefined {
+  const name = profile.name.trim().toLowerCase()
+  return saved.find((candidate) => candidate.name.trim().toLowerCase() === name)
+    ?? saved.find((candidate) => serverKey(candidate) === serverKey(profile))
+}
+
+function uniqueProfileName(name: string, taken: ConnectionProfile[]): string {
+  const names = new Set(taken.map((profile) => profile.name.trim().toLowerCase()))
+  if (!names.has(name.trim().toLowerCase())) return name
+  let suffix = 2
+  while (names.has(`${name} (${suffix})`.toLowerCase())) suffix++
+  return `${name} (${suffix})`
+}
+
+/**
+ * Decide what importing `incoming` saves. New profiles get fresh IDs; a
+ * replacing one takes over the saved profile's ID, so its windows and
+ * overrides stay attached. Entries are also checked against earlier ones
+ * from the same file. With `keepSavedSecrets`, a replaced profile keeps the
+ * secrets it had, for files imported without their passphrase.
+ */
+export function planProfileImport(
+  incoming: ConnectionProfile[],
+  saved: ConnectionProfile[],
+  onConflict: ProfileConflictPolicy,
+  options: { keepSavedSecrets?: boolean; createId?: () => string } = {}
+): ProfileImportPlan {
+  const createId = options.createId ?? randomUUID
+  const known = [...saved]
+  const planned = new Map<string, ConnectionProfile>()
+  const savedIds = new Set(saved.map((profile) => profile.id))
+  const replacedIds = new Set<string>()
+  let skipped = 0
+
+  for (const profile of incoming) {
+    const match = findProfileConflict(profile, known)
+    if (match && onConflict === 'skip') {
+      skipped++
+      continue
+    }
+
+    let next: ConnectionProfile
+    if (match && onConflict === 'replace') {
+      next = { ...profile, id: match.id, createdAt: match.createdAt, lastUsed: match.lastUsed }
+      if (options.keepSavedSecrets) next = mergeProfileSecrets(next, splitProfileSecrets(match).secrets)
+      if (savedIds.has(match.id)) replacedIds.add(match.id)
+      known.splice(known.indexOf(match), 1, next)
+    } else {
+      next = { ...profile, id: createId(), name: uniqueProfileName(profile.name, known) }
+      known.push(next)
+    }
+    planned.set(next.id, next)
+  }
+
+  return {
+    profiles: [...planned.values()],
+    imported: planned.size - replacedIds.size,
+    replaced: replacedIds.size,
+    skipped,
+  }
+}
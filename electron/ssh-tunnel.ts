@@ -0,0 +1,216 @@
+import { spawn, type ChildProcess } from 'child_process'
+import type { SshTunnelConfig } from './types'
+import { canConnect, findFreePort } from './net-utils'
+
+const READY_TIMEOUT_MS = 20_000
+const PROBE_INTERVAL_MS = 200
+const MAX_RETRY_DELAY_MS = 30_000
+const STDERR_LIMIT = 4000
+
+export function sshTunnelLabel(config: SshTunnelConfig): string {
+  return `${config.user}@${config.host}:${config.port ?? 22}`
+}
+
+/**
+ * Arguments for an `ssh` that only forwards `localPort` to the target. Batch
+ * mode keeps it from ever prompting; a key with a passphrase has to be in
+ * the agent. Keepalives make a dead jump host end the process so the tunnel
+ * notices and reconnects.
+ */
+export function sshTunnelArgs(
+  config: SshTunnelConfig,
+  localPort: number,
+  target: { host: string; port: number }
+): string[] {
+  const args = [
+    '-N',
+    '-L', `127.0.0.1:${localPort}:${target.host}:${target.port}`,
+    '-p', String(config.port ?? 22),
+    '-o', 'BatchMode=yes',
+    '-o', 'ExitOnForwardFailure=yes',
+    '-o', 'ConnectTimeout=15',
+    '-o', 'ServerAliveInterval=15',
+    '-o', 'ServerAliveCountMax=3',
+  ]
+  if (config.keyPath) {
+    args.push('-i', config.keyPath, '-o', 'IdentitiesOnly=yes')
+  }
+  // Nothing after `--` is read as an option
+  args.push('--', `${config.user}@${config.host}`)
+  return args
+}
+
+/** Turn what `ssh` printed before exiting into a message the user can act on. */
+export function describeSshFailure(stderr: string, exitCode: number | null, config: SshTunnelConfig): string {
+  const jumpHost = `${config.host}:${config.port ?? 22}`
+  if (/Permission denied/i.test(stderr)) {
+    return config.keyPath
+      ? `SSH authentication failed for ${config.user}@${config.host}. Check that the server accepts the key ${config.keyPath}; a key with a passphrase must be added to your SSH agent.`
+      : `SSH authentication failed for ${config.user}@${config.host}. Check that your SSH agent holds a key the server accepts.`
+  }
+  if (/Could not resolve hostname/i.test(stderr)) {
+    return `Could not resolve the SSH host "${config.host}".`
+  }
+  if (/Connection refused/i.test(stderr)) {
+    return `The SSH host ${jumpHost} refused the connection.`
+  }
+  if (/timed out/i.test(stderr)) {
+    return `Timed out connecting to the SSH host ${jumpHost}.`
+  }
+  if (/Host key verification failed|REMOTE HOST IDENTIFICATION HAS CHANGED/i.test(stderr)) {
+    return `The host key of ${config.host} is not trusted. Connect once with ssh from a terminal to check and accept it.`
+  }
+  if (config.keyPath && /no such identity|No such file/i.test(stderr)) {
+    return `The SSH key file ${config.keyPath} could not be read.`
+  }
+  if (/forwarding failed|cannot listen|Address already in use/i.test(stderr)) {
+    return 'Could not open the local end of the SSH tunnel.'
+  }
+  const lastLine = stderr.trim().split('\n').pop()?.trim()
+  return lastLine || `ssh exited with code ${exitCode ?? 'unknown'}`
+}
+
+function parseTarget(url: string): { protocol: string; host: string; port: number } {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error(`Invalid URL: "${url}"`)
+  }
+  return {
+    protocol: parsed.protocol,
+    // URL keeps IPv6 hosts bracketed, which ssh -L expects too
+    host: parsed.hostname,
+    port: parsed.port ? parseInt(parsed.port, 10) : (parsed.protocol === 'https:' ? 443 : 8000),
+  }
+}
+
+/**
+ * A local port forwarded through a jump host to a Chroma server, kept open
+ * by the system `ssh` until closed. If the process exits after the tunnel
+ * was up, it is restarted on the same port with backoff, so clients built
+ * for the local URL keep working once it is back.
+ */
+export class SshTunnel {
+  private process: ChildProcess | null = null
+  private retryTimer: NodeJS.Timeout | null = null
+  private failures = 0
+  private closed = false
+  private localPort = 0
+  private error: string | null = null
+
+  constructor(
+    private readonly config: SshTunnelConfig,
+    private readonly targetUrl: string
+  ) {}
+
+  /** Start the tunnel; resolves to the URL that reaches the target through it. */
+  async open(): Promise<string> {
+    const target = parseTarget(this.targetUrl)
+    this.localPort = await findFreePort()
+    await this.start()
+    return `${target.protocol}//127.0.0.1:${this.localPort}`
+  }
+
+  /** Why the tunnel is down while it reconnects; null while it is up. */
+  getError(): string | null {
+    return this.error
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+    const child = this.process
+    this.process = null
+    child?.kill()
+  }
+
+  private start(): Promise<void> {
+    const target = parseTarget(this.targetUrl)
+    const label = sshTunnelLabel(this.config)
+
+    return new Promise((resolve, reject) => {
+      const child = spawn('ssh', sshTunnelArgs(this.config, this.localPort, target), {
+        stdio: ['ignore', 'ignore', 'pipe'],
+        windowsHide: true,
+      })
+      this.process = child
+      let stderr = ''
+      let settled = false
+
+      const settle = (error?: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timeout)
+        if (error) {
+          if (this.process === child) this.process = null
+          child.kill()
+          reject(error)
+        } else {
+          this.failures = 0
+          this.error = null
+          resolve()
+        }
+      }
+
+      const timeout = setTimeout(
+        () => settle(new Error(`Timed out opening the SSH tunnel through ${label}.`)),
+        READY_TIMEOUT_MS
+      )
+
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-STDERR_LIMIT)
+      })
+      child.once('error', (error: NodeJS.ErrnoException) => {
+        settle(new Error(error.code === 'ENOENT'
+          ? 'The ssh command was not found. Install OpenSSH to connect through an SSH tunnel.'
+          : `Could not start ssh: ${error.message}`))
+      })
+      child.once('exit', (code) => {
+        const reason = describeSshFailure(stderr, code, this.config)
+        if (!settled) {
+          settle(new Error(reason))
+        } else if (this.process === child) {
+          this.process = null
+          this.dropped(reason)
+        }
+      })
+
+      // ssh binds the local port only once it has authenticated
+      const probe = async () => {
+        while (!settled) {
+          if (await canConnect(this.localPort)) {
+            settle()
+            return
+          }
+          await new Promise(done => setTimeout(done, PROBE_INTERVAL_MS))
+        }
+      }
+      void probe()
+    })
+  }
+
+  private dropped(reason: string): void {
+    if (this.closed) return
+    console.warn(`[SSH Tunnel] ${sshTunnelLabel(this.config)} dropped: ${reason}`)
+    this.error = `The SSH tunnel through ${sshTunnelLabel(this.config)} is down (${reason}). Reconnecting…`
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(1000 * 2 ** this.failures, MAX_RETRY_DELAY_MS)
+    this.failures++
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      if (this.closed) return
+      this.start().catch((error: Error) => {
+        if (this.closed) return
+        this.error = `The SSH tunnel through ${sshTunnelLabel(this.config)} is down (${error.message}). Retrying…`
+        this.scheduleReconnect()
+      })
+    }, delay)
+  }
+}
@@ -1,2 +1,7 @@
 export * from './ipc-contract'
-
+export * from './ipc-contract-transfer'
+export * from './ipc-contract-copy'
+export * from './ipc-contract-bulk'
+export * from './ipc-contract-reembed'
+export * from './ipc-contract-usage'
+export * from './ipc-contract-profiles'
@@ -3,7 +3,7 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 import { ConnectionProfile } from './types'
 import { ConnectionWindowData } from './window-types'
-import { chromaDBConnectionPool } from './chromadb-service'
+import { chromaDBConnectionPool } from './chromadb-pool'
 import { randomUUID } from 'crypto'
 import { settingsStore } from './settings-store'
 
@@ -20,6 +20,15 @@ function getThemeBackgroundColor(): string {
   return isDark ? '#404040' : '#f5f5f5'
 }
 
+/**
+ * Window title naming the profile's environment and read-only mode, so they
+ * show in the Window menu and task switchers too
+ */
+function connectionWindowTitle(profile: ConnectionProfile): string {
+  const tags = [profile.environment?.toUpperCase(), profile.readOnly ? 'read-only' : undefined].filter(Boolean)
+  return `Chroma Explorer - ${profile.name}${tags.length > 0 ? ` [${tags.join(', ')}]` : ''}`
+}
+
 /**
  * Set up Content Security Policy for a window session
  */
@@ -275,7 +284,7 @@ class WindowManager {
       x: 100 + offset,
       y: 100 + offset,
       titleBarStyle: 'hiddenInset',
-      title: `Chroma Explorer - ${profile.name}`,
+      title: connectionWindowTitle(profile),
       transparent: true,
       vibrancy: 'under-window',
       visualEffectState: 'active',
@@ -326,6 +335,9 @@ class WindowManager {
         .some(conn => conn.profileId === profileId)
       if (!stillInUse) {
         this.profileCache.delete(profileId)
+        // Also releases connects made outside a window, like the setup
+        // window's connection test, so a local server stops with its last window
+        chromaDBConnectionPool.closeConnection(profileId)
       }
 
       // If no connection windows remain, show setup window
@@ -0,0 +1,9 @@
+export interface ChromaCommand {
+  command: string
+  // Arguments that come before `run`
+  prefix: string[]
+}
+
+export declare const UVX_CHROMA: ChromaCommand
+
+export declare function chromaRunArgs(command: ChromaCommand, dataPath: string, port: number, host?: string): string[]
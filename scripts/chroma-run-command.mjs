@@ -0,0 +1,12 @@
+// How a Chroma server is started with nothing but uv installed. Shared by
+// run-test-db.mjs and the app's local folder server
+// (electron/local-chroma-server.ts), so the two launch it the same way.
+export const UVX_CHROMA = { command: 'uvx', prefix: ['--from', 'chromadb', 'chroma'] }
+
+/** Arguments for `chroma run` serving `dataPath` on `port`, starting with the command's prefix. */
+export function chromaRunArgs(command, dataPath, port, host) {
+  const args = [...command.prefix, 'run', '--path', dataPath]
+  if (host) args.push('--host', host)
+  args.push('--port', String(port))
+  return args
+}
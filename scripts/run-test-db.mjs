@@ -2,6 +2,7 @@
 import { spawn } from 'node:child_process'
 import http from 'node:http'
 import { parseArgs } from 'node:util'
+import { chromaRunArgs, UVX_CHROMA } from './chroma-run-command.mjs'
 
 const { values } = parseArgs({
   options: {
@@ -26,8 +27,8 @@ const BASIC = process.env.CHROMA_TEST_BASIC || 'admin:secret'
 const upstreamPort = authMode === 'none' ? externalPort : externalPort + 1000
 
 const chromaProc = spawn(
-  'uvx',
-  ['--from', 'chromadb', 'chroma', 'run', '--path', dataPath, '--port', String(upstreamPort)],
+  UVX_CHROMA.command,
+  chromaRunArgs(UVX_CHROMA, dataPath, upstreamPort),
   { stdio: 'inherit' },
 )
 
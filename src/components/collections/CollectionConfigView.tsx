@@ -14,7 +14,7 @@ import {
   validateEmbeddingFunctionUrl,
 } from '../../constants/embedding-functions'
 import { MetadataValueType, validateMetadataValue } from '../../types/metadata'
-import { CopyProgressDialog } from './CopyProgressDialog'
+import { CopyProgressDialog, type CopyPreflight } from './CopyProgressDialog'
 
 const inputClassName = "w-full h-6 text-[11px] px-1.5 rounded-md border border-input bg-background placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring"
 const inputStyle = { boxShadow: 'inset 0 1px 2px 0 rgb(0 0 0 / 0.05)' }
@@ -26,6 +26,9 @@ export function CollectionConfigView() {
 
   const [showFirstDocument, setShowFirstDocument] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
+  // Re-embed even when the embedding function is unchanged, e.g. when the
+  // source vectors came from a model the target server can't reproduce
+  const [regenerateRequested, setRegenerateRequested] = useState(false)
 
   // Copy operation state
   const [isCopying, setIsCopying] = useState(false)
@@ -36,6 +39,7 @@ export function CollectionConfigView() {
     processedDocuments: 0,
     message: 'Preparing...',
   })
+  const [copyPreflight, setCopyPreflight] = useState<CopyPreflight | null>(null)
 
   const selectedEf = draftCollection ? getEmbeddingFunctionById(draftCollection.embeddingFunctionId) : EMBEDDING_FUNCTIONS[0]
   const embeddingFunctionUrlError = draftCollection && selectedEf
@@ -94,7 +98,7 @@ export function CollectionConfigView() {
   }, [draftCollection])
 
   // Handle copy collection
-  const handleCopyCollection = useCallback(async () => {
+  const handleCopyCollection = useCallback(async (confirmed: boolean = false) => {
     if (!draftCollection?.sourceCollection || !currentProfile) return
 
     const errors: Record<string, string> = {}
@@ -111,6 +115,20 @@ export function CollectionConfigView() {
       return
     }
 
+    // Re-embedding sends every document to the embedding provider, so the
+    // estimate comes first and the copy waits for confirmation
+    const regenerateEmbeddings = regenerateRequested || needsEmbeddingRegeneration()
+    if (regenerateEmbeddings && !confirmed) {
+      setCopyPreflight({
+        sourceProfileId: draftCollection.sourceProfile?.id ?? currentProfile.id,
+        targetProfileId: currentProfile.id,
+        embeddingFunction: { type: draftEf?.type ?? 'default', modelName: draftEf?.modelName },
+      })
+      setShowCopyProgress(true)
+      return
+    }
+
+    setCopyPreflight(null)
     setIsCopying(true)
     setShowCopyProgress(true)
     setCopyProgress({
@@ -147,13 +165,14 @@ export function CollectionConfigView() {
       }
 
       const result = await window.electronAPI.chromadb.copyCollection(currentProfile.id, {
+        sourceProfileId: draftCollection.sourceProfile?.id,
         sourceCollectionName: draftCollection.sourceCollection.name,
         targetName: draftCollection.name.trim(),
         embeddingFunction: draftEf
           ? buildEmbeddingFunctionOverride(draftEf, { url: draftCollection.embeddingFunctionUrl })
           : undefined,
         hnsw: Object.keys(hnswConfig).length > 0 ? hnswConfig : undefined,
-        regenerateEmbeddings: needsEmbeddingRegeneration(),
+        regenerateEmbeddings,
       })
 
       if (result.success) {
@@ -190,7 +209,7 @@ export function CollectionConfigView() {
       unsubscribe()
       setIsCopying(false)
     }
-  }, [draftCollection, currentProfile, needsEmbeddingRegeneration, refreshCollections, setActiveCollection, cancelCreation])
+  }, [draftCollection, currentProfile, regenerateRequested, needsEmbeddingRegeneration, refreshCollections, setActiveCollection, cancelCreation])
 
   // Handle cancel copy
   const handleCancelCopy = useCallback(async () => {
@@ -237,12 +256,31 @@ export function CollectionConfigView() {
           <div className="p-2 bg-primary/10 border border-primary/20 rounded-md">
             <p className="text-[11px] text-primary">
               Copying from <span className="font-medium">{draftCollection.sourceCollection.name}</span>
+              {draftCollection.sourceProfile && (
+                <> on <span className="font-medium">{draftCollection.sourceProfile.name}</span></>
+              )}
               {' · '}
               <span className="text-muted-foreground">{draftCollection.sourceCollection.count} documents</span>
               {needsEmbeddingRegeneration() && (
                 <span className="text-amber-600 dark:text-amber-400"> · embeddings will be regenerated</span>
               )}
             </p>
+            <label className="mt-1.5 flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={regenerateRequested || needsEmbeddingRegeneration()}
+                disabled={needsEmbeddingRegeneration()}
+                onChange={(e) => setRegenerateRequested(e.target.checked)}
+                className="rounded border-input size-3.5"
+                data-testid="copy-regenerate-embeddings"
+              />
+              <span className="text-[11px] text-foreground">Regenerate embeddings</span>
+            </label>
+            <p className="text-[10px] text-muted-foreground">
+              {needsEmbeddingRegeneration()
+                ? 'Required because the embedding function differs from the source.'
+                : 'Off copies the source embeddings as they are.'}
+            </p>
           </div>
         )}
 
@@ -619,7 +657,7 @@ export function CollectionConfigView() {
           {isCopyMode ? (
             <button
               type="button"
-              onClick={handleCopyCollection}
+              onClick={() => handleCopyCollection()}
               disabled={isCopying || !draftCollection.name.trim() || Boolean(embeddingFunctionUrlError)}
               className="h-6 px-2 text-[11px] rounded-md bg-[#007AFF] hover:bg-[#0071E3] active:bg-[#006DD9] text-white disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -643,7 +681,10 @@ export function CollectionConfigView() {
         <CopyProgressDialog
           open={showCopyProgress}
           onOpenChange={(open) => {
-            if (!open && copyProgress.phase !== 'copying' && copyProgress.phase !== 'creating') {
+            if (!open && copyPreflight) {
+              setShowCopyProgress(false)
+              setCopyPreflight(null)
+            } else if (!open && copyProgress.phase !== 'copying' && copyProgress.phase !== 'creating') {
               setShowCopyProgress(false)
               if (copyProgress.phase === 'complete') {
                 cancelCreation()
@@ -654,6 +695,8 @@ export function CollectionConfigView() {
           targetCollectionName={draftCollection.name}
           progress={copyProgress}
           onCancel={handleCancelCopy}
+          preflight={copyPreflight}
+          onConfirm={() => handleCopyCollection(true)}
         />
       )}
     </div>
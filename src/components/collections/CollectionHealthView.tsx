@@ -0,0 +1,232 @@
+import { useState } from 'react'
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import type { CollectionHealthReport, HealthFinding } from '@/types/electron'
+import { DEFAULT_NEAR_DUPLICATE_THRESHOLD } from '../../../electron/ipc-contract'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useCollectionHealth } from '../../hooks/useCollectionHealth'
+import type { RecordFilter } from '../../types/filters'
+import { formStyles } from '../../styles/form-controls'
+
+interface CollectionHealthViewProps {
+  collectionName: string
+  // Open the documents view limited to the given records
+  onShowRecords: (filter: RecordFilter) => void
+}
+
+const SPACE_LABELS: Record<CollectionHealthReport['space'], string> = {
+  l2: 'L2 (Euclidean)',
+  cosine: 'Cosine',
+  ip: 'Inner Product',
+}
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 100 ? value.toFixed(0) : value.toPrecision(4)
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="flex-1 min-w-32 space-y-0.5 rounded-md bg-black/[0.03] dark:bg-white/[0.05] px-2.5 py-2">
+      <div className="text-[11px] text-muted-foreground">{label}</div>
+      <div className="text-sm font-medium text-foreground">{value}</div>
+      {detail && <div className="text-[10px] text-muted-foreground truncate">{detail}</div>}
+    </div>
+  )
+}
+
+function NormHistogram({ norms }: { norms: NonNullable<CollectionHealthReport['norms']> }) {
+  const peak = Math.max(...norms.histogram.map(bin => bin.count))
+  return (
+    <div className="space-y-1">
+      <div className="flex items-end gap-px h-20" data-testid="norm-histogram">
+        {norms.histogram.map((bin, index) => (
+          <div
+            key={index}
+            className="flex-1 bg-primary/60 rounded-t-sm min-h-px"
+            style={{ height: `${peak > 0 ? (bin.count / peak) * 100 : 0}%` }}
+            title={`${formatNumber(bin.start)} – ${formatNumber(bin.end)}: ${bin.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground font-mono">
+        <span>{formatNumber(norms.min)}</span>
+        <span>{formatNumber(norms.max)}</span>
+      </div>
+    </div>
+  )
+}
+
+function FindingRow({ finding, onShow }: { finding: HealthFinding; onShow: () => void }) {
+  const Icon = finding.severity === 'error' ? AlertCircle : AlertTriangle
+  return (
+    <li className="flex items-center gap-2 py-1.5" data-testid={`health-finding-${finding.kind}`}>
+      <Icon className={`size-3.5 shrink-0 ${finding.severity === 'error' ? 'text-destructive' : 'text-amber-500'}`} />
+      <span className="text-[11px] text-foreground">{finding.message}</span>
+      <button type="button" onClick={onShow} className={`${formStyles.button} ml-auto shrink-0`}>
+        Show {finding.ids.length < finding.count ? `first ${finding.ids.length}` : 'records'}
+      </button>
+    </li>
+  )
+}
+
+/**
+ * Collection health report: vector statistics and data-quality findings from a
+ * full batched scan. Findings link back to the affected records.
+ */
+export function CollectionHealthView({ collectionName, onShowRecords }: CollectionHealthViewProps) {
+  const { currentProfile } = useChromaDB()
+  const [thresholdText, setThresholdText] = useState(String(DEFAULT_NEAR_DUPLICATE_THRESHOLD))
+  const parsedThreshold = parseFloat(thresholdText)
+  const threshold = parsedThreshold > 0 && parsedThreshold <= 1 ? parsedThreshold : DEFAULT_NEAR_DUPLICATE_THRESHOLD
+  const { report, scannedAt, error, isScanning, progress, scan, cancel } = useCollectionHealth(
+    currentProfile?.id || null,
+    collectionName,
+    threshold
+  )
+
+  const progressPercent = progress && progress.totalRecords > 0
+    ? Math.round((progress.scannedRecords / progress.totalRecords) * 100)
+    : 0
+  const dimensionEntries = report ? Object.entries(report.dimensionCounts) : []
+
+  return (
+    <div className="flex flex-col h-full overflow-auto" style={{ background: 'var(--canvas-background)' }}>
+      <div className="px-4 py-2 flex items-center gap-3 flex-shrink-0">
+        <h1 className="text-lg font-semibold text-foreground truncate">{collectionName}</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <label htmlFor="near-duplicate-threshold" className="text-[11px] text-muted-foreground">
+            Near-duplicate similarity ≥
+          </label>
+          <input
+            id="near-duplicate-threshold"
+            type="number"
+            min={0.5}
+            max={1}
+            step={0.01}
+            value={thresholdText}
+            onChange={(e) => setThresholdText(e.target.value)}
+            disabled={isScanning}
+            className={`w-16 ${formStyles.input}`}
+            style={formStyles.inputShadow}
+          />
+          {isScanning ? (
+            <button type="button" onClick={cancel} className={formStyles.button}>
+              Cancel
+            </button>
+          ) : (
+            <button type="button" onClick={scan} className={formStyles.button} data-testid="run-health-scan">
+              {report ? 'Rescan' : 'Run scan'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="px-4 pb-4 space-y-4">
+        {isScanning && (
+          <div className="space-y-1">
+            <div className="h-1.5 rounded-full bg-black/[0.06] dark:bg-white/[0.08] overflow-hidden">
+              <div className="h-full bg-primary transition-[width]" style={{ width: `${progressPercent}%` }} />
+            </div>
+            <div className="text-[11px] text-muted-foreground">{progress?.message ?? 'Starting scan…'}</div>
+          </div>
+        )}
+
+        {error && !isScanning && (
+          <div className="px-2 py-1.5 text-[11px] text-destructive bg-destructive/10 rounded-md">
+            {(error as Error).message}
+          </div>
+        )}
+
+        {!report && !isScanning && !error && (
+          <p className="text-[11px] text-muted-foreground">
+            Reads every record in batches and checks vector norms and dimensions, NaN and zero vectors,
+            duplicate IDs and texts, and near-duplicate pairs. Large collections can take a while.
+          </p>
+        )}
+
+        {report && (
+          <>
+            {report.partial && (
+              <div className="px-2 py-1.5 text-[11px] bg-amber-500/10 rounded-md">
+                Scan was cancelled; this report covers the first {report.scannedRecords.toLocaleString()} records.
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Stat
+                label="Records scanned"
+                value={report.scannedRecords.toLocaleString()}
+                detail={scannedAt ? `at ${scannedAt.toLocaleTimeString()}` : undefined}
+              />
+              <Stat
+                label="Dimension"
+                value={report.dimension !== null ? String(report.dimension) : '—'}
+                detail={dimensionEntries.length > 1
+                  ? dimensionEntries.map(([length, count]) => `${length}d × ${count}`).join(', ')
+                  : undefined}
+              />
+              <Stat label="Distance" value={SPACE_LABELS[report.space]} />
+              <Stat
+                label="Vector norm"
+                value={report.norms ? formatNumber(report.norms.mean) : '—'}
+                detail={report.norms ? `σ ${formatNumber(report.norms.stddev)}` : undefined}
+              />
+            </div>
+
+            {report.norms && (
+              <section className="space-y-1.5">
+                <h2 className="text-[11px] font-medium text-muted-foreground">Norm distribution</h2>
+                <NormHistogram norms={report.norms} />
+              </section>
+            )}
+
+            <section className="space-y-1.5">
+              <h2 className="text-[11px] font-medium text-muted-foreground">Findings</h2>
+              {report.findings.length === 0 ? (
+                <div className="flex items-center gap-2 text-[11px] text-foreground">
+                  <CheckCircle2 className="size-3.5 text-emerald-500" />
+                  No problems found
+                </div>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {report.findings.map(finding => (
+                    <FindingRow
+                      key={finding.kind}
+                      finding={finding}
+                      onShow={() => onShowRecords({ label: finding.message, ids: finding.ids })}
+                    />
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {report.nearDuplicates.length > 0 && (
+              <section className="space-y-1.5">
+                <h2 className="text-[11px] font-medium text-muted-foreground">
+                  Near-duplicate pairs (similarity ≥ {report.nearDuplicateThreshold})
+                </h2>
+                <table className="w-full text-[11px]">
+                  <tbody>
+                    {report.nearDuplicates.map(pair => (
+                      <tr
+                        key={pair.ids.join('\u0000')}
+                        className="cursor-pointer hover:bg-[var(--table-row-hover)]"
+                        onClick={() => onShowRecords({
+                          label: `near-duplicate pair (${pair.similarity.toFixed(4)})`,
+                          ids: pair.ids,
+                        })}
+                      >
+                        <td className="py-1 pr-3 font-mono text-muted-foreground w-16">{pair.similarity.toFixed(4)}</td>
+                        <td className="py-1 pr-3 font-mono truncate max-w-0 w-1/2">{pair.ids[0]}</td>
+                        <td className="py-1 font-mono truncate max-w-0 w-1/2">{pair.ids[1]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,10 @@ import { useDeleteCollectionMutation } from '../../hooks/useChromaQueries'
 import { SHORTCUTS, matchesShortcut } from '../../constants/keyboard-shortcuts'
 import { Button } from '../ui/button'
 import { DeleteCollectionDialog } from './DeleteCollectionDialog'
+import { ExportDocumentsDialog } from '../documents/ExportDocumentsDialog'
+import { SnapshotCollectionDialog } from './SnapshotCollectionDialog'
+import { RestoreSnapshotDialog } from './RestoreSnapshotDialog'
+import { CompareCollectionsDialog } from './CompareCollectionsDialog'
 
 const inputClassName = "w-full h-6 text-[11px] py-0 px-1.5 pr-5 rounded-md bg-black/[0.04] dark:bg-white/[0.06] placeholder:text-sidebar-foreground/50 text-sidebar-foreground focus:outline-none focus:ring-1 focus:ring-sidebar-ring/50 transition-colors"
 const inputStyle = { boxShadow: 'inset 0 0.5px 1px 0 rgb(0 0 0 / 0.04)' }
@@ -22,6 +26,12 @@ export function CollectionPanel() {
   // Deletion state
   const [markedForDeletion, setMarkedForDeletion] = useState<string | null>(null)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  // Collection picked for "Export Collection..." in the context menu
+  const [exportingCollection, setExportingCollection] = useState<string | null>(null)
+  const exportingCount = collections.find(c => c.name === exportingCollection)?.count
+  const [snapshottingCollection, setSnapshottingCollection] = useState<string | null>(null)
+  // Open compare dialog, with the collection that starts out as A
+  const [comparing, setComparing] = useState<{ initialCollection: string | null } | null>(null)
   const deleteMutation = useDeleteCollectionMutation(currentProfile?.id || '')
 
   // Get the collection info for the one marked for deletion
@@ -104,14 +114,14 @@ export function CollectionPanel() {
     if (!currentProfile) return
     const collection = collections.find(c => c.name === collectionName)
     if (collection) {
-      copyCollection(collection, currentProfile.id)
+      copyCollection(collection, currentProfile)
     }
   }, [collections, currentProfile, copyCollection])
 
   // Paste collection (start copy mode)
   const handlePasteCollection = useCallback(() => {
     if (!clipboard || clipboard.type !== 'collection' || draftCollection) return
-    startCopyFromCollection(clipboard.collection)
+    startCopyFromCollection(clipboard.collection, { id: clipboard.sourceProfileId, name: clipboard.sourceProfileName })
   }, [clipboard, draftCollection, startCopyFromCollection])
 
   // Context menu handler for collection item
@@ -134,6 +144,15 @@ export function CollectionPanel() {
         handleCopyCollection(data.collectionName)
       } else if (data.action === 'paste') {
         handlePasteCollection()
+      } else if (data.action === 'export') {
+        setExportingCollection(data.collectionName)
+      } else if (data.action === 'snapshot') {
+        setSnapshottingCollection(data.collectionName)
+      } else if (data.action === 'compare') {
+        setComparing({ initialCollection: data.collectionName })
+      } else if (data.action === 'restore') {
+        // RestoreSnapshotDialog listens for the same event as File > Restore from Snapshot...
+        window.dispatchEvent(new CustomEvent('menu:restore-snapshot'))
       } else if (data.action === 'delete') {
         // Select and mark for deletion
         setActiveCollection(data.collectionName)
@@ -150,7 +169,7 @@ export function CollectionPanel() {
       if (activeCollection && currentProfile) {
         const collection = collections.find(c => c.name === activeCollection)
         if (collection) {
-          copyCollection(collection, currentProfile.id)
+          copyCollection(collection, currentProfile)
           // Small delay to ensure clipboard is set
           setTimeout(() => {
             startCopyFromCollection(collection)
@@ -178,17 +197,23 @@ export function CollectionPanel() {
       }
     }
 
+    const handleMenuCompare = () => {
+      setComparing({ initialCollection: activeCollection })
+    }
+
     // Listen for menu events dispatched from useMenuHandlers
     window.addEventListener('menu:duplicate-collection', handleMenuDuplicate)
     window.addEventListener('menu:copy-collection', handleMenuCopy)
     window.addEventListener('menu:paste-collection', handleMenuPaste)
     window.addEventListener('menu:delete-collection', handleMenuDelete)
+    window.addEventListener('menu:compare-collections', handleMenuCompare)
 
     return () => {
       window.removeEventListener('menu:duplicate-collection', handleMenuDuplicate)
       window.removeEventListener('menu:copy-collection', handleMenuCopy)
       window.removeEventListener('menu:paste-collection', handleMenuPaste)
       window.removeEventListener('menu:delete-collection', handleMenuDelete)
+      window.removeEventListener('menu:compare-collections', handleMenuCompare)
     }
   }, [activeCollection, collections, currentProfile, copyCollection, startCopyFromCollection, handleCopyCollection, handlePasteCollection, handleToggleDeletion])
 
@@ -406,6 +431,33 @@ export function CollectionPanel() {
           isDeleting={deleteMutation.isPending}
         />
       )}
+
+      {exportingCollection && (
+        <ExportDocumentsDialog
+          open
+          onOpenChange={(open) => { if (!open) setExportingCollection(null) }}
+          collectionName={exportingCollection}
+          source={{ kind: 'filter' }}
+          scopeLabel={exportingCount === undefined ? 'All records' : `All ${exportingCount.toLocaleString()} records`}
+        />
+      )}
+
+      {snapshottingCollection && (
+        <SnapshotCollectionDialog
+          collectionName={snapshottingCollection}
+          documentCount={collections.find(c => c.name === snapshottingCollection)?.count}
+          onClose={() => setSnapshottingCollection(null)}
+        />
+      )}
+
+      {comparing && (
+        <CompareCollectionsDialog
+          initialCollection={comparing.initialCollection}
+          onClose={() => setComparing(null)}
+        />
+      )}
+
+      <RestoreSnapshotDialog />
     </aside>
   )
 }
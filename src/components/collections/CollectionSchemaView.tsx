@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import type { MetadataKeyStats } from '@/types/electron'
+import { DEFAULT_SCHEMA_SAMPLE_SIZE } from '../../../electron/ipc-contract'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useMetadataSchemaQuery } from '../../hooks/useChromaQueries'
+import { formStyles } from '../../styles/form-controls'
+
+interface CollectionSchemaViewProps {
+  collectionName: string
+}
+
+type ScanMode = 'sample' | 'full'
+
+const SCAN_MODES: { value: ScanMode; label: string }[] = [
+  { value: 'sample', label: `Sample ${DEFAULT_SCHEMA_SAMPLE_SIZE.toLocaleString()}` },
+  { value: 'full', label: 'Full scan' },
+]
+
+// Top values shown inline; the rest are in the cell's tooltip
+const INLINE_VALUE_COUNT = 5
+
+function formatValue(value: string | number | boolean): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value)
+}
+
+function TypesCell({ stats }: { stats: MetadataKeyStats }) {
+  const entries = Object.entries(stats.types).sort(([, a], [, b]) => b - a)
+  return (
+    <div className="flex flex-wrap gap-1">
+      {entries.map(([type, count]) => (
+        <span
+          key={type}
+          className="rounded px-1 bg-black/[0.05] dark:bg-white/[0.08] font-mono"
+          title={`${count.toLocaleString()} records`}
+        >
+          {type}{entries.length > 1 && <span className="text-muted-foreground"> {count.toLocaleString()}</span>}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function FillRateCell({ fillRate }: { fillRate: number }) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <div className="w-12 h-1.5 rounded-full bg-black/[0.06] dark:bg-white/[0.08] overflow-hidden">
+        <div className="h-full bg-primary/70" style={{ width: `${fillRate * 100}%` }} />
+      </div>
+      <span className="font-mono text-muted-foreground">{(fillRate * 100).toFixed(fillRate < 1 && fillRate > 0.99 ? 1 : 0)}%</span>
+    </div>
+  )
+}
+
+function TopValuesCell({ stats }: { stats: MetadataKeyStats }) {
+  if (stats.topValues.length === 0) return <span className="text-muted-foreground">—</span>
+  const title = stats.topValues.map(entry => `${formatValue(entry.value)} × ${entry.count}`).join('\n')
+  return (
+    <div className="flex flex-wrap gap-1" title={title}>
+      {stats.topValues.slice(0, INLINE_VALUE_COUNT).map(entry => (
+        <span key={`${typeof entry.value}:${entry.value}`} className="max-w-40 truncate rounded px-1 bg-black/[0.03] dark:bg-white/[0.05]">
+          <span className="font-mono">{formatValue(entry.value)}</span>
+          <span className="text-muted-foreground"> ×{entry.count.toLocaleString()}</span>
+        </span>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Inferred metadata schema: each key's types, how often it is set, and its
+ * most common values, from a spread-out sample or a full scan.
+ */
+export function CollectionSchemaView({ collectionName }: CollectionSchemaViewProps) {
+  const { currentProfile } = useChromaDB()
+  const [mode, setMode] = useState<ScanMode>('sample')
+  const { data: schema, error, isFetching, refetch } = useMetadataSchemaQuery(
+    currentProfile?.id || null,
+    collectionName,
+    mode === 'sample' ? DEFAULT_SCHEMA_SAMPLE_SIZE : null
+  )
+
+  return (
+    <div className="flex flex-col h-full overflow-auto" style={{ background: 'var(--canvas-background)' }}>
+      <div className="px-4 py-2 flex items-center gap-3 flex-shrink-0">
+        <h1 className="text-lg font-semibold text-foreground truncate">{collectionName}</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Schema scan">
+            {SCAN_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={mode === value}
+                onClick={() => setMode(value)}
+                className={`${formStyles.button} rounded-none ${
+                  mode === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={() => refetch()} disabled={isFetching} className={formStyles.button}>
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 pb-4 space-y-2">
+        {error && !isFetching && (
+          <div className="px-2 py-1.5 text-[11px] text-destructive bg-destructive/10 rounded-md">
+            {(error as Error).message}
+          </div>
+        )}
+
+        <div className="text-[11px] text-muted-foreground">
+          {isFetching
+            ? mode === 'full' ? 'Reading every record…' : 'Sampling records…'
+            : schema && (
+              <>
+                {schema.sampled
+                  ? `Sampled ${schema.scannedRecords.toLocaleString()} of ${schema.totalRecords.toLocaleString()} records`
+                  : `Scanned all ${schema.scannedRecords.toLocaleString()} records`}
+                {` · ${schema.keys.length} metadata ${schema.keys.length === 1 ? 'key' : 'keys'}`}
+              </>
+            )}
+        </div>
+
+        {schema && schema.keys.length > 0 && (
+          <table className="w-full text-[11px]" data-testid="metadata-schema-table">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="py-1 pr-3 font-medium">Key</th>
+                <th className="py-1 pr-3 font-medium">Types</th>
+                <th className="py-1 pr-3 font-medium">Fill rate</th>
+                <th className="py-1 pr-3 font-medium">Distinct</th>
+                <th className="py-1 pr-3 font-medium">Top values</th>
+                <th className="py-1 font-medium">Range</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {schema.keys.map(stats => (
+                <tr key={stats.key} className="align-top">
+                  <td className="py-1.5 pr-3 font-mono text-foreground break-all">{stats.key}</td>
+                  <td className="py-1.5 pr-3"><TypesCell stats={stats} /></td>
+                  <td className="py-1.5 pr-3"><FillRateCell fillRate={stats.fillRate} /></td>
+                  <td className="py-1.5 pr-3 font-mono">
+                    {stats.distinctCount.toLocaleString()}{stats.distinctCapped && '+'}
+                  </td>
+                  <td className="py-1.5 pr-3"><TopValuesCell stats={stats} /></td>
+                  <td className="py-1.5 font-mono text-muted-foreground whitespace-nowrap">
+                    {stats.min !== null && stats.max !== null ? `${stats.min} – ${stats.max}` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {schema && schema.keys.length === 0 && !isFetching && (
+          <p className="text-[11px] text-muted-foreground">No metadata found in the scanned records.</p>
+        )}
+      </div>
+    </div>
+  )
+}
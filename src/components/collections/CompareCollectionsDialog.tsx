@@ -0,0 +1,509 @@
+import { useEffect, useMemo, useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import { ArrowUpDown } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+import type { ApplyDiffResult, CollectionDiff, CollectionRef, DiffEntry, DiffProgress } from '@/types/electron'
+import { DEFAULT_EMBEDDING_TOLERANCE } from '../../../electron/ipc-contract-copy'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useConfirmProtectedAction } from '../../context/ProtectedActionContext'
+import { invalidateCollectionDocuments } from '../../hooks/useChromaQueries'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+import { DiffRecordDetail } from './DiffRecordDetail'
+
+interface CompareCollectionsDialogProps {
+  initialCollection: string | null
+  onClose: () => void
+}
+
+type Step =
+  | { name: 'setup' }
+  | { name: 'comparing'; progress: DiffProgress }
+  | { name: 'results' }
+  | { name: 'confirm-apply' }
+  | { name: 'applying'; progress: DiffProgress }
+  | { name: 'applied'; result: ApplyDiffResult }
+
+type EntryFilter = 'all' | DiffEntry['kind']
+
+const FILTERS: { value: EntryFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'onlyInA', label: 'Only in A' },
+  { value: 'onlyInB', label: 'Only in B' },
+  { value: 'changed', label: 'Changed' },
+]
+
+const KIND_LABELS: Record<DiffEntry['kind'], string> = {
+  onlyInA: 'only in A',
+  onlyInB: 'only in B',
+  changed: 'changed',
+}
+
+// Collection names on one profile. Other profiles only answer while a window
+// for them is open.
+function useProfileCollectionNames(profileId: string) {
+  const [state, setState] = useState<{ names: string[]; error: string | null }>({ names: [], error: null })
+  useEffect(() => {
+    let cancelled = false
+    setState({ names: [], error: null })
+    window.electronAPI.chromadb.listCollections(profileId)
+      .then(collections => {
+        if (!cancelled) setState({ names: collections.map(c => c.name).sort(), error: null })
+      })
+      .catch(() => {
+        if (!cancelled) setState({ names: [], error: 'Open a window for this connection to compare against it.' })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [profileId])
+  return state
+}
+
+interface CollectionRefPickerProps {
+  label: string
+  value: CollectionRef
+  profiles: ConnectionProfile[]
+  onChange: (value: CollectionRef) => void
+}
+
+function CollectionRefPicker({ label, value, profiles, onChange }: CollectionRefPickerProps) {
+  const { names, error } = useProfileCollectionNames(value.profileId)
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="w-4 font-medium text-muted-foreground">{label}</span>
+        <select
+          aria-label={`Connection ${label}`}
+          value={value.profileId}
+          onChange={(e) => onChange({ profileId: e.target.value, collectionName: '' })}
+          className={cn(formStyles.select, 'w-40')}
+          style={formStyles.inputShadow}
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <select
+          aria-label={`Collection ${label}`}
+          value={value.collectionName}
+          onChange={(e) => onChange({ ...value, collectionName: e.target.value })}
+          disabled={!!error}
+          className={cn(formStyles.select, 'flex-1 min-w-0')}
+          style={formStyles.inputShadow}
+        >
+          <option value="">Choose a collection</option>
+          {names.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+      {error && <div className="pl-6 text-destructive">{error}</div>}
+    </div>
+  )
+}
+
+function progressPercentage(progress: DiffProgress): number {
+  return progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0
+}
+
+/**
+ * Compare two collections, possibly on different connections, and apply
+ * chosen differences one way: B is made to match A for the selected IDs.
+ */
+export function CompareCollectionsDialog({ initialCollection, onClose }: CompareCollectionsDialogProps) {
+  const { currentProfile } = useChromaDB()
+  const confirmProtectedAction = useConfirmProtectedAction()
+  const queryClient = useQueryClient()
+  const profileId = currentProfile?.id ?? ''
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(currentProfile ? [currentProfile] : [])
+  const [a, setA] = useState<CollectionRef>({ profileId, collectionName: initialCollection ?? '' })
+  const [b, setB] = useState<CollectionRef>({ profileId, collectionName: '' })
+  const [compareEmbeddings, setCompareEmbeddings] = useState(true)
+  const [tolerance, setTolerance] = useState(String(DEFAULT_EMBEDDING_TOLERANCE))
+  const [step, setStep] = useState<Step>({ name: 'setup' })
+  const [error, setError] = useState<string | null>(null)
+  // The refs a diff was computed for; the pickers may change afterwards
+  const [compared, setCompared] = useState<{ a: CollectionRef; b: CollectionRef; diff: CollectionDiff } | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [filter, setFilter] = useState<EntryFilter>('all')
+  const [focusedId, setFocusedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.profiles.getAll()
+      .then(saved => {
+        const others = saved.filter(profile => profile.id !== currentProfile?.id)
+        setProfiles(currentProfile ? [currentProfile, ...others] : others)
+      })
+      .catch(err => console.error('Failed to load connections:', err))
+  }, [currentProfile])
+
+  const toleranceValue = Number(tolerance)
+  const setupError = !a.collectionName || !b.collectionName
+    ? 'Choose two collections'
+    : a.profileId === b.profileId && a.collectionName === b.collectionName
+      ? 'Choose two different collections'
+      : compareEmbeddings && !(tolerance.trim() && Number.isFinite(toleranceValue) && toleranceValue >= 0)
+        ? 'Tolerance must be a number of at least 0'
+        : null
+
+  const runDiff = async (refs: { a: CollectionRef; b: CollectionRef }) => {
+    setError(null)
+    setStep({ name: 'comparing', progress: { phase: 'comparing', total: 0, processed: 0, message: 'Comparing records...' } })
+    const unsubscribe = window.electronAPI.chromadb.onDiffProgress(progress => {
+      setStep(current => (current.name === 'comparing' ? { name: 'comparing', progress } : current))
+    })
+    try {
+      const diff = await window.electronAPI.chromadb.diffCollections(profileId, {
+        ...refs,
+        compareEmbeddings,
+        embeddingTolerance: toleranceValue,
+      })
+      setCompared({ ...refs, diff })
+      setSelected(new Set())
+      setFocusedId(diff.entries[0]?.id ?? null)
+      setStep({ name: 'results' })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed')
+      setStep({ name: 'setup' })
+    } finally {
+      unsubscribe()
+    }
+  }
+
+  const handleApply = async () => {
+    if (!compared) return
+    const chosen = compared.diff.entries.filter(entry => selected.has(entry.id))
+    const confirmed = await confirmProtectedAction({
+      title: 'Apply Changes',
+      collectionName: compared.b.collectionName,
+      confirmLabel: 'Apply',
+      profile: profiles.find(profile => profile.id === compared.b.profileId),
+    })
+    if (!confirmed) return
+    setStep({ name: 'applying', progress: { phase: 'applying', total: chosen.length, processed: 0, message: 'Applying changes...' } })
+    const unsubscribe = window.electronAPI.chromadb.onDiffProgress(progress => {
+      setStep(current => (current.name === 'applying' ? { name: 'applying', progress } : current))
+    })
+    try {
+      const result = await window.electronAPI.chromadb.applyCollectionDiff(profileId, {
+        a: compared.a,
+        b: compared.b,
+        upsertIds: chosen.filter(entry => entry.kind !== 'onlyInB').map(entry => entry.id),
+        deleteIds: chosen.filter(entry => entry.kind === 'onlyInB').map(entry => entry.id),
+      })
+      setStep({ name: 'applied', result })
+    } catch (err) {
+      setStep({
+        name: 'applied',
+        result: { success: false, upserted: 0, deleted: 0, error: err instanceof Error ? err.message : 'Apply failed' },
+      })
+    } finally {
+      unsubscribe()
+      invalidateCollectionDocuments(queryClient, compared.b.profileId, compared.b.collectionName)
+    }
+  }
+
+  const handleCancel = async () => {
+    try {
+      await window.electronAPI.chromadb.cancelDiff(profileId)
+    } catch (err) {
+      console.error('Failed to cancel:', err)
+    }
+  }
+
+  const entries = useMemo(
+    () => (compared?.diff.entries ?? []).filter(entry => filter === 'all' || entry.kind === filter),
+    [compared, filter]
+  )
+  const focusedEntry = entries.find(entry => entry.id === focusedId) ?? null
+  const allShownSelected = entries.length > 0 && entries.every(entry => selected.has(entry.id))
+  const chosen = compared?.diff.entries.filter(entry => selected.has(entry.id)) ?? []
+  const deleteCount = chosen.filter(entry => entry.kind === 'onlyInB').length
+
+  const toggleEntry = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+  const toggleAllShown = () => {
+    setSelected(current => {
+      const next = new Set(current)
+      entries.forEach(entry => (allShownSelected ? next.delete(entry.id) : next.add(entry.id)))
+      return next
+    })
+  }
+
+  const busy = step.name === 'comparing' || step.name === 'applying'
+  const progress = step.name === 'comparing' || step.name === 'applying' ? step.progress : null
+  const showResults = compared && (step.name === 'results' || step.name === 'confirm-apply')
+  const diff = compared?.diff
+
+  return (
+    <DialogPrimitive.Root open onOpenChange={(next) => { if (!next && !busy) onClose() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[720px] max-w-[calc(100vw-2rem)] max-h-[85vh] flex flex-col rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="compare-collections-dialog"
+        >
+          <div className="px-5 pt-5 pb-3">
+            <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+              Compare Collections
+            </DialogPrimitive.Title>
+            <DialogPrimitive.Description className="mt-1 text-[11px] text-muted-foreground">
+              {compared && step.name !== 'setup'
+                ? `A: ${compared.a.collectionName} · B: ${compared.b.collectionName}. Applying makes B match A for the selected records.`
+                : 'Find records that were added, removed or changed between two collections.'}
+            </DialogPrimitive.Description>
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-auto px-5 pb-3 space-y-3 text-[11px]">
+            {error && <div className="px-2 py-1.5 text-destructive bg-destructive/10 rounded-md">{error}</div>}
+
+            {step.name === 'setup' && (
+              <>
+                <CollectionRefPicker label="A" value={a} profiles={profiles} onChange={setA} />
+                <button
+                  type="button"
+                  onClick={() => { setA(b); setB(a) }}
+                  className={cn(formStyles.button, 'ml-6 flex items-center gap-1')}
+                  aria-label="Swap A and B"
+                >
+                  <ArrowUpDown className="size-3" /> Swap
+                </button>
+                <CollectionRefPicker label="B" value={b} profiles={profiles} onChange={setB} />
+                <div className="flex items-center gap-3 pl-6">
+                  <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={compareEmbeddings}
+                      onChange={(e) => setCompareEmbeddings(e.target.checked)}
+                      className="rounded border-input size-3.5"
+                    />
+                    <span className="text-foreground">Compare embeddings</span>
+                  </label>
+                  {compareEmbeddings && (
+                    <label className="flex items-center gap-1.5">
+                      <span className="text-muted-foreground">Tolerance</span>
+                      <input
+                        value={tolerance}
+                        onChange={(e) => setTolerance(e.target.value)}
+                        className={cn(formStyles.input, 'w-24')}
+                        style={formStyles.inputShadow}
+                        aria-label="Embedding tolerance"
+                      />
+                    </label>
+                  )}
+                </div>
+                {setupError && (a.collectionName || b.collectionName) && (
+                  <div className="pl-6 text-muted-foreground">{setupError}</div>
+                )}
+              </>
+            )}
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  <span>{progressPercentage(progress)}%</span>
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${progressPercentage(progress)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {showResults && diff && (
+              <>
+                <div className="flex items-center justify-between gap-3">
+                  <div className="text-muted-foreground" data-testid="diff-summary">
+                    {diff.onlyInA.toLocaleString()} only in A · {diff.onlyInB.toLocaleString()} only in B ·{' '}
+                    {diff.changed.toLocaleString()} changed · {diff.unchanged.toLocaleString()} unchanged
+                    {diff.cancelled && ' · stopped early'}
+                  </div>
+                  <div className="flex rounded-md overflow-hidden shrink-0" role="radiogroup" aria-label="Show differences">
+                    {FILTERS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        role="radio"
+                        aria-checked={filter === value}
+                        onClick={() => setFilter(value)}
+                        className={`${formStyles.button} rounded-none ${
+                          filter === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {diff.truncated && (
+                  <div className="text-muted-foreground">
+                    Showing the first {diff.entries.length.toLocaleString()} differences. Apply these and compare again for the rest.
+                  </div>
+                )}
+
+                {entries.length === 0 ? (
+                  <div className="py-6 text-center text-muted-foreground">No differences</div>
+                ) : (
+                  <div className="flex gap-3 min-h-0">
+                    <div className="w-56 shrink-0 rounded-md bg-black/[0.02] dark:bg-white/[0.03]">
+                      <label className="flex items-center gap-1.5 px-2 py-1 border-b border-border cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={allShownSelected}
+                          onChange={toggleAllShown}
+                          className="rounded border-input size-3.5"
+                        />
+                        <span className="text-muted-foreground">Select all shown</span>
+                      </label>
+                      <ul className="max-h-72 overflow-auto" data-testid="diff-entries">
+                        {entries.map(entry => (
+                          <li
+                            key={entry.id}
+                            className={cn(
+                              'flex items-center gap-1.5 px-2 py-0.5 cursor-default',
+                              entry.id === focusedId && 'bg-primary/10'
+                            )}
+                            onClick={() => setFocusedId(entry.id)}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selected.has(entry.id)}
+                              onChange={() => toggleEntry(entry.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label={`Select ${entry.id}`}
+                              className="rounded border-input size-3.5"
+                            />
+                            <span className="flex-1 min-w-0 truncate font-mono" title={entry.id}>{entry.id}</span>
+                            <span className="shrink-0 text-[10px] text-muted-foreground">
+                              {entry.kind === 'changed' ? entry.fields.join(', ') : KIND_LABELS[entry.kind]}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      {focusedEntry && <DiffRecordDetail entry={focusedEntry} a={compared.a} b={compared.b} />}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {step.name === 'applied' && (
+              <div className="py-4 text-center" data-testid="apply-summary">
+                {step.result.success ? (
+                  <>
+                    Upserted <span className="font-medium text-foreground">{step.result.upserted.toLocaleString()}</span> and deleted{' '}
+                    <span className="font-medium text-foreground">{step.result.deleted.toLocaleString()}</span> records in{' '}
+                    <span className="font-medium text-foreground">{compared?.b.collectionName}</span>
+                  </>
+                ) : (
+                  <span className="text-destructive">{step.result.error}</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex items-center gap-2">
+            {step.name === 'setup' && (
+              <>
+                <div className="flex-1" />
+                <button type="button" onClick={onClose} className={formStyles.dialogButton}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => runDiff({ a, b })}
+                  disabled={!!setupError}
+                  className={formStyles.dialogPrimaryButton}
+                  data-testid="start-compare"
+                >
+                  Compare
+                </button>
+              </>
+            )}
+            {busy && (
+              <>
+                <div className="flex-1" />
+                <button type="button" onClick={handleCancel} className={formStyles.dialogButton}>
+                  Cancel
+                </button>
+              </>
+            )}
+            {step.name === 'results' && (
+              <>
+                <button type="button" onClick={() => setStep({ name: 'setup' })} className={formStyles.dialogButton}>
+                  Back
+                </button>
+                <div className="flex-1" />
+                <button type="button" onClick={onClose} className={formStyles.dialogButton}>
+                  Close
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setStep({ name: 'confirm-apply' })}
+                  disabled={chosen.length === 0}
+                  className={formStyles.dialogPrimaryButton}
+                  data-testid="apply-diff"
+                >
+                  Apply {chosen.length.toLocaleString()} to B…
+                </button>
+              </>
+            )}
+            {step.name === 'confirm-apply' && (
+              <>
+                <span className="flex-1 text-[11px] text-muted-foreground">
+                  Upsert {(chosen.length - deleteCount).toLocaleString()} and delete {deleteCount.toLocaleString()} records
+                  in {compared?.b.collectionName}?
+                </span>
+                <button type="button" onClick={() => setStep({ name: 'results' })} className={formStyles.dialogButton}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleApply}
+                  className={formStyles.dialogPrimaryButton}
+                  data-testid="confirm-apply-diff"
+                >
+                  Apply
+                </button>
+              </>
+            )}
+            {step.name === 'applied' && compared && (
+              <>
+                <div className="flex-1" />
+                <button type="button" onClick={() => runDiff(compared)} className={formStyles.dialogButton}>
+                  Compare Again
+                </button>
+                <button type="button" onClick={onClose} className={formStyles.dialogPrimaryButton}>
+                  Close
+                </button>
+              </>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
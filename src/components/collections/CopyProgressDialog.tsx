@@ -1,5 +1,16 @@
 import * as DialogPrimitive from '@radix-ui/react-dialog'
 import { cn } from '@/lib/utils'
+import type { EmbeddingFunctionRef } from '../../constants/embedding-pricing'
+import { useEmbeddingInputQuery } from '../../hooks/useChromaQueries'
+import { EmbeddingEstimateDetails } from '../documents/EmbeddingEstimate'
+import { formStyles } from '../../styles/form-controls'
+
+// A copy that re-embeds waits on this estimate until the user confirms it
+export interface CopyPreflight {
+  sourceProfileId: string
+  targetProfileId: string
+  embeddingFunction: EmbeddingFunctionRef
+}
 
 interface CopyProgressDialogProps {
   open: boolean
@@ -13,6 +24,8 @@ interface CopyProgressDialogProps {
     message: string
   }
   onCancel: () => void
+  preflight?: CopyPreflight | null
+  onConfirm?: () => void
 }
 
 export function CopyProgressDialog({
@@ -22,7 +35,15 @@ export function CopyProgressDialog({
   targetCollectionName,
   progress,
   onCancel,
+  preflight,
+  onConfirm,
 }: CopyProgressDialogProps) {
+  const inputQuery = useEmbeddingInputQuery(
+    preflight?.sourceProfileId ?? null,
+    { collectionName: sourceCollectionName, purpose: 'copy' },
+    Boolean(preflight)
+  )
+
   const percentage = progress.totalDocuments > 0
     ? Math.round((progress.processedDocuments / progress.totalDocuments) * 100)
     : 0
@@ -30,7 +51,7 @@ export function CopyProgressDialog({
   const isComplete = progress.phase === 'complete'
   const isError = progress.phase === 'error'
   const isCancelled = progress.phase === 'cancelled'
-  const isWorking = progress.phase === 'creating' || progress.phase === 'copying'
+  const isWorking = !preflight && (progress.phase === 'creating' || progress.phase === 'copying')
 
   return (
     <DialogPrimitive.Root open={open} onOpenChange={onOpenChange}>
@@ -52,10 +73,12 @@ export function CopyProgressDialog({
         >
           <div className="px-5 pt-5 pb-4 text-center">
             <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
-              {isComplete ? 'Copy Complete' : isError ? 'Copy Failed' : isCancelled ? 'Copy Cancelled' : 'Copying Collection'}
+              {preflight ? 'Copy and Re-embed' : isComplete ? 'Copy Complete' : isError ? 'Copy Failed' : isCancelled ? 'Copy Cancelled' : 'Copying Collection'}
             </DialogPrimitive.Title>
             <DialogPrimitive.Description className="mt-2 text-[11px] text-muted-foreground leading-[1.4]">
-              {isComplete ? (
+              {preflight ? (
+                <>Documents from <span className="font-medium text-foreground">{sourceCollectionName}</span> are embedded again for <span className="font-medium text-foreground">{targetCollectionName}</span></>
+              ) : isComplete ? (
                 <>Copied <span className="font-medium text-foreground">{progress.processedDocuments}</span> documents to <span className="font-medium text-foreground">{targetCollectionName}</span></>
               ) : isError ? (
                 <span className="text-destructive">{progress.message}</span>
@@ -66,6 +89,18 @@ export function CopyProgressDialog({
               )}
             </DialogPrimitive.Description>
 
+            {preflight && (
+              <div className="mt-3">
+                <EmbeddingEstimateDetails
+                  input={inputQuery.data}
+                  isLoading={inputQuery.isLoading}
+                  error={inputQuery.error}
+                  embeddingFunction={preflight.embeddingFunction}
+                  profileId={preflight.targetProfileId}
+                />
+              </div>
+            )}
+
             {/* Progress bar */}
             {isWorking && (
               <div className="mt-4">
@@ -84,6 +119,22 @@ export function CopyProgressDialog({
           </div>
 
           <div className="px-4 pb-4 flex gap-2">
+            {preflight && (
+              <>
+                <button type="button" onClick={() => onOpenChange(false)} className={cn(formStyles.dialogButton, 'flex-1')}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={onConfirm}
+                  disabled={!inputQuery.data}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="confirm-copy"
+                >
+                  Copy
+                </button>
+              </>
+            )}
             {isWorking && (
               <button
                 type="button"
@@ -104,7 +155,7 @@ export function CopyProgressDialog({
                 Cancel
               </button>
             )}
-            {(isComplete || isError || isCancelled) && (
+            {!preflight && (isComplete || isError || isCancelled) && (
               <button
                 type="button"
                 onClick={() => onOpenChange(false)}
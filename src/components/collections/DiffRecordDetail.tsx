@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react'
+import type { CollectionRef, DiffEntry, DiffField } from '@/types/electron'
+import { cn } from '@/lib/utils'
+
+interface DiffRecordDetailProps {
+  entry: DiffEntry
+  a: CollectionRef
+  b: CollectionRef
+}
+
+type Side = { status: 'loading' } | { status: 'loaded'; record: DocumentRecord | null } | { status: 'error'; message: string }
+
+// Both sides are read on demand; the diff itself only carries IDs
+async function readRecord(ref: CollectionRef, id: string): Promise<DocumentRecord | null> {
+  const page = await window.electronAPI.chromadb.getDocumentsPage(ref.profileId, {
+    collectionName: ref.collectionName,
+    ids: [id],
+    offset: 0,
+    pageSize: 1,
+    include: ['documents', 'metadatas'],
+  })
+  return page.documents[0] ?? null
+}
+
+function SideColumn({ label, side, changed }: { label: string; side: Side; changed: DiffField[] }) {
+  if (side.status === 'loading') {
+    return <div className="flex-1 min-w-0 text-muted-foreground">Loading {label}...</div>
+  }
+  if (side.status === 'error') {
+    return <div className="flex-1 min-w-0 text-destructive">{side.message}</div>
+  }
+  const { record } = side
+  return (
+    <div className="flex-1 min-w-0 space-y-1.5">
+      <div className="font-medium text-muted-foreground">{label}</div>
+      {record ? (
+        <>
+          <pre
+            className={cn(
+              'whitespace-pre-wrap break-words rounded-md px-2 py-1 font-mono max-h-32 overflow-auto',
+              changed.includes('document') ? 'bg-amber-500/10' : 'bg-black/[0.02] dark:bg-white/[0.03]'
+            )}
+          >
+            {record.document ?? '(no document)'}
+          </pre>
+          <pre
+            className={cn(
+              'whitespace-pre-wrap break-words rounded-md px-2 py-1 font-mono max-h-32 overflow-auto',
+              changed.includes('metadata') ? 'bg-amber-500/10' : 'bg-black/[0.02] dark:bg-white/[0.03]'
+            )}
+          >
+            {record.metadata ? JSON.stringify(record.metadata, null, 2) : '(no metadata)'}
+          </pre>
+        </>
+      ) : (
+        <div className="text-muted-foreground italic">Not in this collection</div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * One differing record from both collections side by side, with the fields
+ * that differ highlighted.
+ */
+export function DiffRecordDetail({ entry, a, b }: DiffRecordDetailProps) {
+  const [sideA, setSideA] = useState<Side>({ status: 'loading' })
+  const [sideB, setSideB] = useState<Side>({ status: 'loading' })
+
+  useEffect(() => {
+    let cancelled = false
+    const load = (ref: CollectionRef, setSide: (side: Side) => void) => {
+      setSide({ status: 'loading' })
+      readRecord(ref, entry.id)
+        .then(record => {
+          if (!cancelled) setSide({ status: 'loaded', record })
+        })
+        .catch(error => {
+          if (!cancelled) setSide({ status: 'error', message: error instanceof Error ? error.message : 'Failed to read record' })
+        })
+    }
+    load(a, setSideA)
+    load(b, setSideB)
+    return () => {
+      cancelled = true
+    }
+  }, [entry.id, a, b])
+
+  const changed = entry.kind === 'changed' ? entry.fields : []
+
+  return (
+    <div className="space-y-1.5" data-testid="diff-record-detail">
+      <div className="font-mono truncate" title={entry.id}>{entry.id}</div>
+      {changed.includes('embedding') && (
+        <div className="text-amber-600 dark:text-amber-400">Embeddings differ beyond the tolerance</div>
+      )}
+      <div className="flex gap-3">
+        <SideColumn label={`A · ${a.collectionName}`} side={sideA} changed={changed} />
+        <SideColumn label={`B · ${b.collectionName}`} side={sideB} changed={changed} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import { useQueryClient } from '@tanstack/react-query'
+import type { EmbeddingFunctionOverride, ReembedProgress, ReembedResult } from '@/types/electron'
+import { reembedCollectionNames } from '../../../electron/ipc-contract-reembed'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useConfirmProtectedAction } from '../../context/ProtectedActionContext'
+import { invalidateCollectionDocuments, useEmbeddingInputQuery } from '../../hooks/useChromaQueries'
+import { embeddingFunctionRefFromConfig } from '../../constants/embedding-pricing'
+import { EmbeddingEstimateDetails } from '../documents/EmbeddingEstimate'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+interface ReembedCollectionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  collectionName: string
+  // The function picked in the embedding selector; null to resume or review
+  embeddingFunction: EmbeddingFunctionOverride | null
+  // Called once the re-embedded collection has taken the name
+  onReembedded: () => void
+}
+
+function Name({ children }: { children: string }) {
+  return <span className="font-medium text-foreground">{children}</span>
+}
+
+/** Shown beside the collection name while a re-embed is paused or awaiting confirmation. */
+export function ReembedPendingButton({ collectionName, onClick }: { collectionName: string; onClick: () => void }) {
+  const { collections } = useChromaDB()
+  const names = reembedCollectionNames(collectionName)
+  if (!collections.some(c => c.name === names.shadow || c.name === names.backup)) return null
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`flex-shrink-0 ${formStyles.button}`}
+      title="A re-embed of this collection is paused or awaiting confirmation"
+      data-testid="reembed-pending"
+    >
+      Re-embed Pending
+    </button>
+  )
+}
+
+/**
+ * Re-embed a collection in place: fill a shadow collection with the new
+ * function, swap names, then keep or restore the original. What to offer is
+ * read from which of the working collections exist, so an interrupted run
+ * shows up as resumable whenever the dialog is opened.
+ */
+export function ReembedCollectionDialog({
+  open,
+  onOpenChange,
+  collectionName,
+  embeddingFunction,
+  onReembedded,
+}: ReembedCollectionDialogProps) {
+  const { currentProfile, collections, refreshCollections } = useChromaDB()
+  const confirmProtectedAction = useConfirmProtectedAction()
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = useState<ReembedProgress | null>(null)
+  const [result, setResult] = useState<ReembedResult | null>(null)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setProgress(null)
+      setResult(null)
+      setError(null)
+    }
+  }, [open])
+
+  const names = reembedCollectionNames(collectionName)
+  const source = collections.find(c => c.name === collectionName)
+  const shadow = collections.find(c => c.name === names.shadow)
+  const backup = collections.find(c => c.name === names.backup)
+  const running = progress !== null
+  const functionLabel = embeddingFunction
+    ? `${embeddingFunction.type}${embeddingFunction.modelName ? `: ${embeddingFunction.modelName}` : ''}`
+    : shadow?.embeddingFunction?.name ?? null
+  const functionRef = embeddingFunction ?? (shadow ? embeddingFunctionRefFromConfig(shadow.embeddingFunction) : null)
+  const inputQuery = useEmbeddingInputQuery(
+    currentProfile?.id ?? null,
+    { collectionName, purpose: 'reembed', embeddingFunction: embeddingFunction ?? undefined },
+    open && !running && !backup && Boolean(source) && Boolean(functionRef)
+  )
+
+  const refresh = async (profileId: string) => {
+    await refreshCollections()
+    invalidateCollectionDocuments(queryClient, profileId, collectionName)
+  }
+
+  const handleRun = async () => {
+    if (!currentProfile) return
+    if (!(await confirmProtectedAction({ title: 'Re-embed Collection', collectionName, confirmLabel: 'Re-embed' }))) return
+    const profileId = currentProfile.id
+    setError(null)
+    setResult(null)
+    setProgress({ phase: 'preparing', totalDocuments: source?.count ?? 0, processedDocuments: 0, message: 'Preparing...' })
+    const unsubscribe = window.electronAPI.chromadb.onReembedProgress(setProgress)
+    try {
+      const outcome = await window.electronAPI.chromadb.reembedCollection(profileId, {
+        collectionName,
+        embeddingFunction: embeddingFunction ?? undefined,
+      })
+      setResult(outcome)
+      // A paused run needs no error; the dialog offers to resume it
+      if (outcome.success) onReembedded()
+      else if (outcome.error !== 'Operation cancelled') setError(outcome.error ?? 'Re-embed failed')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-embed failed')
+    } finally {
+      unsubscribe()
+      setProgress(null)
+      await refresh(profileId)
+    }
+  }
+
+  const handlePause = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelReembed(currentProfile.id)
+    } catch (err) {
+      console.error('Failed to pause re-embed:', err)
+    }
+  }
+
+  // Keep or restore the original, or throw away an interrupted run
+  const resolve = async (action: () => Promise<void>) => {
+    if (!currentProfile) return
+    if (!(await confirmProtectedAction({ title: 'Finish Re-embed', collectionName, confirmLabel: 'Continue' }))) return
+    setWorking(true)
+    setError(null)
+    try {
+      await action()
+      await refresh(currentProfile.id)
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Operation failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const finish = (keep: 'reembedded' | 'original') =>
+    resolve(() => window.electronAPI.chromadb.finishReembed(currentProfile!.id, { collectionName, keep }))
+
+  const discardShadow = () =>
+    resolve(() => window.electronAPI.chromadb.deleteCollection(currentProfile!.id, names.shadow))
+
+  const percentage = progress && progress.totalDocuments > 0
+    ? Math.round((progress.processedDocuments / progress.totalDocuments) * 100)
+    : 0
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(next) => { if (!running && !working) onOpenChange(next) }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[360px] rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="reembed-collection-dialog"
+        >
+          <div className="px-5 pt-5 pb-4 space-y-3 text-[11px] leading-[1.4]">
+            <div className="text-center">
+              <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+                Re-embed Collection
+              </DialogPrimitive.Title>
+              <DialogPrimitive.Description className="mt-1 text-muted-foreground">
+                <Name>{collectionName}</Name>
+                {source && `, ${source.count.toLocaleString()} documents`}
+              </DialogPrimitive.Description>
+            </div>
+
+            {error && <div className="px-2 py-1.5 text-destructive bg-destructive/10 rounded-md">{error}</div>}
+
+            {progress ? (
+              <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  <span>{percentage}%</span>
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+            ) : backup ? (
+              <div className="space-y-1.5 text-muted-foreground" data-testid="reembed-backup">
+                {result?.success && (
+                  <div className="text-foreground">
+                    Re-embedded {result.totalDocuments.toLocaleString()} documents
+                    {result.resumedDocuments > 0 && `, ${result.resumedDocuments.toLocaleString()} of them in an earlier run`}.
+                  </div>
+                )}
+                <div>
+                  <Name>{collectionName}</Name> now holds the re-embedded records. The original is kept
+                  as <Name>{names.backup}</Name> until you keep the new embeddings or restore it.
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-1.5 text-muted-foreground">
+                {shadow && (
+                  <div data-testid="reembed-resumable">
+                    An earlier run stopped with {shadow.count.toLocaleString()} of{' '}
+                    {(source?.count ?? 0).toLocaleString()} documents in <Name>{names.shadow}</Name>.
+                    Resuming skips those unchanged since.
+                  </div>
+                )}
+                {functionLabel ? (
+                  <div>
+                    Documents are embedded with <Name>{functionLabel}</Name> into a new collection, which then
+                    takes the name <Name>{collectionName}</Name>. The original is kept as a backup until you confirm.
+                  </div>
+                ) : (
+                  <div>Choose an embedding function in the collection's embedding selector first.</div>
+                )}
+                {functionRef && source && currentProfile && (
+                  <div className="pt-1">
+                    <EmbeddingEstimateDetails
+                      input={inputQuery.data}
+                      isLoading={inputQuery.isLoading}
+                      error={inputQuery.error}
+                      embeddingFunction={functionRef}
+                      profileId={currentProfile.id}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            {running ? (
+              <button type="button" onClick={handlePause} className={cn(formStyles.dialogButton, 'flex-1')}>
+                Pause
+              </button>
+            ) : backup ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => finish('original')}
+                  disabled={working}
+                  className={cn(formStyles.dialogButton, 'flex-1')}
+                >
+                  Restore Original
+                </button>
+                <button
+                  type="button"
+                  onClick={() => finish('reembedded')}
+                  disabled={working}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="keep-reembedded"
+                >
+                  Delete Backup
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onOpenChange(false)}
+                  disabled={working}
+                  className={cn(formStyles.dialogButton, 'flex-1')}
+                >
+                  Cancel
+                </button>
+                {shadow && (
+                  <button
+                    type="button"
+                    onClick={discardShadow}
+                    disabled={working}
+                    className={cn(formStyles.dialogButton, 'flex-1')}
+                  >
+                    Discard
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleRun}
+                  disabled={working || !functionLabel || !source}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="start-reembed"
+                >
+                  {shadow ? 'Resume' : 'Re-embed'}
+                </button>
+              </>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import type { SnapshotSummary } from '@/types/electron'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useCollection } from '../../context/CollectionContext'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+type Step =
+  | { name: 'confirm' }
+  | { name: 'restoring'; progress: CopyProgress }
+  | { name: 'done'; result: CopyCollectionResult }
+
+function formatCreatedAt(createdAt: string): string {
+  const date = new Date(createdAt)
+  return Number.isNaN(date.getTime()) ? 'an unknown date' : date.toLocaleString()
+}
+
+/**
+ * Restore a snapshot file into the connected database, as a new collection
+ * under its original name or another one. Opened from File > Restore from
+ * Snapshot... or the collection list's context menu.
+ */
+export function RestoreSnapshotDialog() {
+  const { currentProfile, collections, refreshCollections } = useChromaDB()
+  const { setActiveCollection } = useCollection()
+  const [snapshot, setSnapshot] = useState<SnapshotSummary | null>(null)
+  const [targetName, setTargetName] = useState('')
+  const [step, setStep] = useState<Step>({ name: 'confirm' })
+  const [error, setError] = useState<string | null>(null)
+
+  const collectionExists = (name: string) => collections.some(c => c.name === name)
+
+  const chooseFile = useCallback(async () => {
+    try {
+      const file = await window.electronAPI.chromadb.openSnapshotFile()
+      if (!file) return
+      setSnapshot(file)
+      setTargetName(collections.some(c => c.name === file.collectionName) ? `${file.collectionName}-restored` : file.collectionName)
+      setStep({ name: 'confirm' })
+      setError(null)
+    } catch (err) {
+      setSnapshot(null)
+      setError(err instanceof Error ? err.message : 'Failed to read snapshot')
+    }
+  }, [collections])
+
+  useEffect(() => {
+    window.addEventListener('menu:restore-snapshot', chooseFile)
+    return () => window.removeEventListener('menu:restore-snapshot', chooseFile)
+  }, [chooseFile])
+
+  const name = targetName.trim()
+  const nameError = !name ? 'Enter a collection name' : collectionExists(name) ? `A collection named "${name}" already exists` : null
+
+  const handleRestore = async () => {
+    if (!currentProfile || !snapshot || nameError) return
+    const profileId = currentProfile.id
+    setStep({
+      name: 'restoring',
+      progress: { phase: 'creating', totalDocuments: snapshot.documentCount, processedDocuments: 0, message: 'Creating collection...' },
+    })
+    const unsubscribe = window.electronAPI.chromadb.onSnapshotProgress(progress => {
+      setStep(current => (current.name === 'restoring' ? { name: 'restoring', progress } : current))
+    })
+    try {
+      const result = await window.electronAPI.chromadb.restoreSnapshot(profileId, { fileToken: snapshot.fileToken, targetName: name })
+      setStep({ name: 'done', result })
+      if (result.success) {
+        await refreshCollections()
+      }
+    } catch (err) {
+      setStep({
+        name: 'done',
+        result: {
+          success: false,
+          totalDocuments: snapshot.documentCount,
+          copiedDocuments: 0,
+          error: err instanceof Error ? err.message : 'Restore failed',
+        },
+      })
+    } finally {
+      unsubscribe()
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelSnapshot(currentProfile.id)
+    } catch (err) {
+      console.error('Failed to cancel restore:', err)
+    }
+  }
+
+  const close = () => {
+    if (step.name === 'done' && step.result.success && step.result.collectionInfo) {
+      setActiveCollection(step.result.collectionInfo.name)
+    }
+    setSnapshot(null)
+    setError(null)
+    setStep({ name: 'confirm' })
+  }
+
+  const open = !!snapshot || !!error
+  const restoring = step.name === 'restoring'
+  const progress = step.name === 'restoring' ? step.progress : null
+  const percentage = progress && progress.totalDocuments > 0
+    ? Math.round((progress.processedDocuments / progress.totalDocuments) * 100)
+    : 0
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(next) => { if (!next && !restoring) close() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[340px] rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="restore-snapshot-dialog"
+        >
+          <div className="px-5 pt-5 pb-4 space-y-3 text-[11px]">
+            <div className="text-center">
+              <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+                Restore from Snapshot
+              </DialogPrimitive.Title>
+              <DialogPrimitive.Description className="mt-1 text-muted-foreground leading-[1.4]">
+                {snapshot ? (
+                  <>
+                    <span className="font-medium text-foreground">{snapshot.collectionName}</span>,{' '}
+                    {snapshot.documentCount.toLocaleString()} documents, saved {formatCreatedAt(snapshot.createdAt)}
+                  </>
+                ) : (
+                  'The snapshot could not be opened'
+                )}
+              </DialogPrimitive.Description>
+            </div>
+
+            {!snapshot && error && <div className="text-center text-destructive">{error}</div>}
+
+            {snapshot && step.name === 'confirm' && (
+              <div className="space-y-1.5">
+                <label className="block text-muted-foreground" htmlFor="restore-target-name">
+                  Restore into {currentProfile ? <span className="text-foreground">{currentProfile.name}</span> : 'this connection'} as
+                </label>
+                <input
+                  id="restore-target-name"
+                  type="text"
+                  value={targetName}
+                  onChange={(e) => setTargetName(e.target.value)}
+                  className={cn(formStyles.input, 'w-full')}
+                  style={formStyles.inputShadow}
+                  autoFocus
+                  data-testid="restore-target-name"
+                />
+                {nameError && <div className="text-destructive">{nameError}</div>}
+                <div className="text-muted-foreground">
+                  Embedding function: {snapshot.embeddingFunction?.name ?? 'none'}
+                  {snapshot.hnsw.space ? ` · Distance: ${snapshot.hnsw.space}` : ''}
+                </div>
+              </div>
+            )}
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  <span>{percentage}%</span>
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {step.name === 'done' && (
+              <div className="text-center" data-testid="restore-summary">
+                {step.result.success ? (
+                  <>
+                    Restored <span className="font-medium text-foreground">{step.result.copiedDocuments.toLocaleString()}</span> documents to{' '}
+                    <span className="font-medium text-foreground">{step.result.collectionInfo?.name ?? name}</span>
+                  </>
+                ) : (
+                  <span className="text-destructive">{step.result.error}</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            {snapshot && step.name === 'confirm' && (
+              <>
+                <button type="button" onClick={close} className={cn(formStyles.dialogButton, 'flex-1')}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRestore}
+                  disabled={!!nameError}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="start-restore"
+                >
+                  Restore
+                </button>
+              </>
+            )}
+            {restoring && (
+              <button type="button" onClick={handleCancel} className={cn(formStyles.dialogButton, 'flex-1')}>
+                Cancel
+              </button>
+            )}
+            {(step.name === 'done' || !snapshot) && (
+              <button type="button" onClick={close} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+                Close
+              </button>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
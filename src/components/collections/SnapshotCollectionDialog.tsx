@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import type { SnapshotCollectionResult } from '@/types/electron'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+interface SnapshotCollectionDialogProps {
+  collectionName: string
+  documentCount?: number
+  onClose: () => void
+}
+
+type Step =
+  | { name: 'confirm' }
+  | { name: 'saving'; progress: CopyProgress }
+  | { name: 'done'; result: SnapshotCollectionResult }
+
+/**
+ * Save a collection to a snapshot file: every record with its embedding, plus
+ * the collection's metadata, HNSW settings and embedding function.
+ */
+export function SnapshotCollectionDialog({ collectionName, documentCount, onClose }: SnapshotCollectionDialogProps) {
+  const { currentProfile } = useChromaDB()
+  const [step, setStep] = useState<Step>({ name: 'confirm' })
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    if (!currentProfile) return
+    const profileId = currentProfile.id
+    setError(null)
+    let unsubscribe = () => {}
+    try {
+      const target = await window.electronAPI.chromadb.chooseSnapshotFile(collectionName)
+      if (!target) return
+
+      setStep({
+        name: 'saving',
+        progress: { phase: 'copying', totalDocuments: documentCount ?? 0, processedDocuments: 0, message: 'Writing snapshot...' },
+      })
+      unsubscribe = window.electronAPI.chromadb.onSnapshotProgress(progress => {
+        setStep(current => (current.name === 'saving' ? { name: 'saving', progress } : current))
+      })
+      const result = await window.electronAPI.chromadb.snapshotCollection(profileId, {
+        collectionName,
+        fileToken: target.fileToken,
+      })
+      setStep({ name: 'done', result })
+    } catch (err) {
+      setStep({ name: 'confirm' })
+      setError(err instanceof Error ? err.message : 'Snapshot failed')
+    } finally {
+      unsubscribe()
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelSnapshot(currentProfile.id)
+    } catch (err) {
+      console.error('Failed to cancel snapshot:', err)
+    }
+  }
+
+  const saving = step.name === 'saving'
+  const progress = step.name === 'saving' ? step.progress : null
+  const percentage = progress && progress.totalDocuments > 0
+    ? Math.round((progress.processedDocuments / progress.totalDocuments) * 100)
+    : 0
+
+  return (
+    <DialogPrimitive.Root open onOpenChange={(next) => { if (!next && !saving) onClose() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[320px] rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="snapshot-collection-dialog"
+        >
+          <div className="px-5 pt-5 pb-4 text-center text-[11px]">
+            <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+              Snapshot {collectionName}
+            </DialogPrimitive.Title>
+            <DialogPrimitive.Description className="mt-2 text-muted-foreground leading-[1.4]">
+              {step.name === 'done' ? (
+                step.result.success ? (
+                  <>
+                    Saved <span className="font-medium text-foreground">{step.result.documentCount.toLocaleString()}</span> documents to{' '}
+                    <span className="font-medium text-foreground">{step.result.fileName}</span>
+                  </>
+                ) : (
+                  <span className="text-destructive">{step.result.error}</span>
+                )
+              ) : (
+                <>
+                  Saves {documentCount === undefined ? 'every record' : `all ${documentCount.toLocaleString()} records`} with
+                  their embeddings, plus the collection's metadata, index settings and embedding function, to a file
+                  you can restore from later.
+                </>
+              )}
+            </DialogPrimitive.Description>
+
+            {error && <div className="mt-2 text-destructive">{error}</div>}
+
+            {progress && (
+              <div className="mt-4 text-left">
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  <span>{percentage}%</span>
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            {step.name === 'confirm' && (
+              <>
+                <button type="button" onClick={onClose} className={cn(formStyles.dialogButton, 'flex-1')}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="save-snapshot"
+                >
+                  Save Snapshot…
+                </button>
+              </>
+            )}
+            {saving && (
+              <button type="button" onClick={handleCancel} className={cn(formStyles.dialogButton, 'flex-1')}>
+                Cancel
+              </button>
+            )}
+            {step.name === 'done' && (
+              <button type="button" onClick={onClose} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+                Close
+              </button>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
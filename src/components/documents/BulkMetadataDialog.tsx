@@ -0,0 +1,427 @@
+import { useId, useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import { useQueryClient } from '@tanstack/react-query'
+import type {
+  BulkMetadataProgress,
+  BulkMetadataResult,
+  BulkMetadataTarget,
+  MetadataOperation,
+  MetadataScalarType,
+} from '@/types/electron'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useConfirmProtectedAction } from '../../context/ProtectedActionContext'
+import { invalidateCollectionDocuments } from '../../hooks/useChromaQueries'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+interface BulkMetadataDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  collectionName: string
+  selectedIds: string[]
+  filterTarget: Extract<BulkMetadataTarget, { kind: 'filter' }>
+  // What the filter target covers, e.g. "All records" or "Filtered records"
+  filterLabel: string
+  metadataKeys: string[]
+}
+
+type OperationKind = MetadataOperation['kind']
+
+type Step =
+  | { name: 'edit' }
+  | { name: 'running'; dryRun: boolean; progress: BulkMetadataProgress }
+  | { name: 'preview' | 'done'; result: BulkMetadataResult }
+
+const OPERATIONS: { value: OperationKind; label: string }[] = [
+  { value: 'set', label: 'Set value' },
+  { value: 'rename', label: 'Rename key' },
+  { value: 'delete', label: 'Delete key' },
+  { value: 'convert', label: 'Change type' },
+  { value: 'replace', label: 'Find and replace' },
+]
+
+const SCALAR_TYPES: MetadataScalarType[] = ['string', 'number', 'boolean']
+
+interface OperationForm {
+  kind: OperationKind
+  key: string
+  value: string
+  valueType: MetadataScalarType
+  newKey: string
+  type: MetadataScalarType
+  find: string
+  replace: string
+}
+
+const EMPTY_FORM: OperationForm = {
+  kind: 'set',
+  key: '',
+  value: '',
+  valueType: 'string',
+  newKey: '',
+  type: 'number',
+  find: '',
+  replace: '',
+}
+
+// The operation the form describes, or why it does not describe one yet
+function buildOperation(form: OperationForm): MetadataOperation | string {
+  const key = form.key.trim()
+  if (form.kind === 'replace') {
+    if (!form.find) return 'Enter the text to find'
+    return { kind: 'replace', key: key || null, find: form.find, replace: form.replace }
+  }
+  if (!key) return 'Enter a metadata key'
+  switch (form.kind) {
+    case 'set': {
+      if (form.valueType === 'number') {
+        const number = Number(form.value)
+        if (!form.value.trim() || !Number.isFinite(number)) return 'Value must be a number'
+        return { kind: 'set', key, value: number }
+      }
+      if (form.valueType === 'boolean') return { kind: 'set', key, value: form.value === 'true' }
+      return { kind: 'set', key, value: form.value }
+    }
+    case 'rename': {
+      const newKey = form.newKey.trim()
+      if (!newKey) return 'Enter the new key'
+      if (newKey === key) return 'The new key must differ from the old one'
+      return { kind: 'rename', key, newKey }
+    }
+    case 'delete':
+      return { kind: 'delete', key }
+    case 'convert':
+      return { kind: 'convert', key, type: form.type }
+  }
+}
+
+function formatMetadata(metadata: Record<string, unknown> | null): string {
+  return metadata ? JSON.stringify(metadata) : '{}'
+}
+
+/**
+ * Edit one metadata key across the selected rows or everything the filters
+ * match. A dry run previews the counts and a few changes before anything is
+ * written.
+ */
+export function BulkMetadataDialog({
+  open,
+  onOpenChange,
+  collectionName,
+  selectedIds,
+  filterTarget,
+  filterLabel,
+  metadataKeys,
+}: BulkMetadataDialogProps) {
+  const { currentProfile } = useChromaDB()
+  const confirmProtectedAction = useConfirmProtectedAction()
+  const queryClient = useQueryClient()
+  const keyListId = useId()
+  // Null until the user picks one: the scope follows whether rows are selected
+  const [chosenScope, setChosenScope] = useState<'selection' | 'filter' | null>(null)
+  const [form, setForm] = useState<OperationForm>(EMPTY_FORM)
+  const [step, setStep] = useState<Step>({ name: 'edit' })
+  const [error, setError] = useState<string | null>(null)
+  const scope = chosenScope ?? (selectedIds.length > 0 ? 'selection' : 'filter')
+
+  // The form is kept for next time; the scope and any result are not
+  const close = () => {
+    setChosenScope(null)
+    setStep({ name: 'edit' })
+    setError(null)
+    onOpenChange(false)
+  }
+
+  const operation = buildOperation(form)
+  const target: BulkMetadataTarget = scope === 'selection' ? { kind: 'ids', ids: selectedIds } : filterTarget
+
+  // Any change to the form discards a preview that no longer matches it
+  const updateForm = (patch: Partial<OperationForm>) => {
+    setForm(current => ({ ...current, ...patch }))
+    setStep({ name: 'edit' })
+  }
+
+  const run = async (dryRun: boolean) => {
+    if (!currentProfile || typeof operation === 'string') return
+    if (!dryRun && !(await confirmProtectedAction({ title: 'Update Metadata', collectionName, confirmLabel: 'Apply' }))) return
+    const profileId = currentProfile.id
+    setError(null)
+    setStep({ name: 'running', dryRun, progress: { phase: 'scanning', total: 0, processed: 0, message: 'Finding records...' } })
+    const unsubscribe = window.electronAPI.chromadb.onBulkUpdateProgress(progress => {
+      setStep(current => (current.name === 'running' ? { ...current, progress } : current))
+    })
+    try {
+      const result = await window.electronAPI.chromadb.bulkUpdateMetadata(profileId, { collectionName, target, operation, dryRun })
+      setStep({ name: dryRun ? 'preview' : 'done', result })
+    } catch (err) {
+      setStep({ name: 'edit' })
+      setError(err instanceof Error ? err.message : 'Bulk update failed')
+    } finally {
+      unsubscribe()
+      if (!dryRun) invalidateCollectionDocuments(queryClient, profileId, collectionName)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelBulkUpdate(currentProfile.id)
+    } catch (err) {
+      console.error('Failed to cancel bulk update:', err)
+    }
+  }
+
+  const running = step.name === 'running'
+  const progress = step.name === 'running' ? step.progress : null
+  const percentage = progress?.total ? Math.round((progress.processed / progress.total) * 100) : null
+  const result = step.name === 'preview' || step.name === 'done' ? step.result : null
+  const inputClassName = cn(formStyles.input, 'flex-1 min-w-0')
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(next) => { if (!running && !next) close() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[440px] max-w-[calc(100vw-2rem)] max-h-[85vh] flex flex-col rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="bulk-metadata-dialog"
+        >
+          <div className="flex-1 min-h-0 overflow-auto px-5 pt-5 pb-4 space-y-3 text-[11px]">
+            <div className="text-center">
+              <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+                Edit Metadata
+              </DialogPrimitive.Title>
+              <DialogPrimitive.Description className="mt-1 text-muted-foreground">
+                Changes apply to every record in scope and cannot be undone.
+              </DialogPrimitive.Description>
+            </div>
+
+            {error && <div className="px-2 py-1.5 text-destructive bg-destructive/10 rounded-md">{error}</div>}
+
+            <fieldset disabled={running || step.name === 'done'} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Records</span>
+                <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Records">
+                  {([
+                    { value: 'selection', label: `${selectedIds.length.toLocaleString()} selected`, disabled: selectedIds.length === 0 },
+                    { value: 'filter', label: filterLabel, disabled: false },
+                  ] as const).map(({ value, label, disabled }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      role="radio"
+                      aria-checked={scope === value}
+                      disabled={disabled}
+                      onClick={() => { setChosenScope(value); setStep({ name: 'edit' }) }}
+                      className={`${formStyles.button} rounded-none ${
+                        scope === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label="Operation"
+                  value={form.kind}
+                  onChange={(e) => updateForm({ kind: e.target.value as OperationKind })}
+                  className={cn(formStyles.select, 'w-32')}
+                  style={formStyles.inputShadow}
+                >
+                  {OPERATIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  aria-label="Key"
+                  list={keyListId}
+                  value={form.key}
+                  onChange={(e) => updateForm({ key: e.target.value })}
+                  placeholder={form.kind === 'replace' ? 'Any key' : 'Key'}
+                  className={inputClassName}
+                  style={formStyles.inputShadow}
+                />
+                <datalist id={keyListId}>
+                  {metadataKeys.map(key => <option key={key} value={key} />)}
+                </datalist>
+              </div>
+
+              {form.kind === 'set' && (
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="Value type"
+                    value={form.valueType}
+                    onChange={(e) => updateForm({ valueType: e.target.value as MetadataScalarType, value: '' })}
+                    className={cn(formStyles.select, 'w-32')}
+                    style={formStyles.inputShadow}
+                  >
+                    {SCALAR_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  {form.valueType === 'boolean' ? (
+                    <select
+                      aria-label="Value"
+                      value={form.value || 'false'}
+                      onChange={(e) => updateForm({ value: e.target.value })}
+                      className={cn(formStyles.select, 'flex-1')}
+                      style={formStyles.inputShadow}
+                    >
+                      <option value="true">true</option>
+                      <option value="false">false</option>
+                    </select>
+                  ) : (
+                    <input
+                      aria-label="Value"
+                      value={form.value}
+                      onChange={(e) => updateForm({ value: e.target.value })}
+                      placeholder="Value"
+                      className={inputClassName}
+                      style={formStyles.inputShadow}
+                    />
+                  )}
+                </div>
+              )}
+              {form.kind === 'rename' && (
+                <input
+                  aria-label="New key"
+                  value={form.newKey}
+                  onChange={(e) => updateForm({ newKey: e.target.value })}
+                  placeholder="New key"
+                  className={cn(formStyles.input, 'w-full')}
+                  style={formStyles.inputShadow}
+                />
+              )}
+              {form.kind === 'convert' && (
+                <div className="flex items-center gap-2">
+                  <span className="w-32 text-muted-foreground">Convert values to</span>
+                  <select
+                    aria-label="Target type"
+                    value={form.type}
+                    onChange={(e) => updateForm({ type: e.target.value as MetadataScalarType })}
+                    className={cn(formStyles.select, 'flex-1')}
+                    style={formStyles.inputShadow}
+                  >
+                    {SCALAR_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                </div>
+              )}
+              {form.kind === 'replace' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    aria-label="Find"
+                    value={form.find}
+                    onChange={(e) => updateForm({ find: e.target.value })}
+                    placeholder="Find"
+                    className={inputClassName}
+                    style={formStyles.inputShadow}
+                  />
+                  <input
+                    aria-label="Replace with"
+                    value={form.replace}
+                    onChange={(e) => updateForm({ replace: e.target.value })}
+                    placeholder="Replace with"
+                    className={inputClassName}
+                    style={formStyles.inputShadow}
+                  />
+                </div>
+              )}
+            </fieldset>
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  {percentage !== null && <span>{percentage}%</span>}
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${percentage ?? 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div className="space-y-1.5" data-testid="bulk-metadata-summary">
+                {result.error && <div className="text-destructive">{result.error}</div>}
+                <div>
+                  {step.name === 'preview' ? 'Would change' : 'Changed'}{' '}
+                  <span className="font-medium text-foreground">{result.changed.toLocaleString()}</span> of{' '}
+                  {result.matched.toLocaleString()} records
+                  {result.failed > 0 && <span className="text-destructive">, {result.failed.toLocaleString()} could not be changed</span>}
+                </div>
+                {step.name === 'preview' && result.samples.map(sample => (
+                  <div key={sample.id} className="rounded-md bg-black/[0.02] dark:bg-white/[0.03] px-2 py-1 font-mono break-all">
+                    <div className="text-muted-foreground">{sample.id}</div>
+                    <div className="line-through text-muted-foreground">{formatMetadata(sample.before)}</div>
+                    <div>{formatMetadata(sample.after)}</div>
+                  </div>
+                ))}
+                {result.errors.length > 0 && (
+                  <ul className="max-h-24 overflow-auto text-destructive">
+                    {result.errors.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {step.name === 'edit' && typeof operation === 'string' && (form.key || form.find) && (
+              <div className="text-muted-foreground">{operation}</div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            {running ? (
+              <button type="button" onClick={handleCancel} className={cn(formStyles.dialogButton, 'flex-1')}>
+                Cancel
+              </button>
+            ) : step.name === 'done' ? (
+              <button type="button" onClick={close} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+                Close
+              </button>
+            ) : (
+              <>
+                <button type="button" onClick={close} className={cn(formStyles.dialogButton, 'flex-1')}>
+                  Cancel
+                </button>
+                {step.name === 'preview' && step.result.success && step.result.changed > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => run(false)}
+                    className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                    data-testid="apply-bulk-metadata"
+                  >
+                    Apply to {step.result.changed.toLocaleString()}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => run(true)}
+                    disabled={typeof operation === 'string'}
+                    className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                    data-testid="preview-bulk-metadata"
+                  >
+                    Preview
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
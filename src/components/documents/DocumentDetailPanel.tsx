@@ -1,8 +1,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Plus, X, ChevronDown } from 'lucide-react'
+import { Plus, X, ChevronDown, Search } from 'lucide-react'
 import EmbeddingCell from './EmbeddingCell'
 import { RegenerateEmbeddingDialog } from './RegenerateEmbeddingDialog'
-import { useUpdateDocumentMutation } from '../../hooks/useChromaQueries'
+import { useDocumentEmbeddingQuery, useUpdateDocumentMutation } from '../../hooks/useChromaQueries'
 import { SHORTCUTS, matchesShortcut } from '../../constants/keyboard-shortcuts'
 import { Metadata } from 'chromadb'
 import { TypedMetadataRecord, TypedMetadataField, MetadataValueType, validateMetadataValue } from '../../types/metadata'
@@ -43,12 +43,18 @@ export default function DocumentDetailPanel({
   const documentId = document.id
   const documentText = document.document
   const documentMetadata = document.metadata
-  const documentEmbedding = document.embedding
+
+  // Table reads omit embeddings; EmbeddingCell fetches the vector on demand and
+  // this observes the same cache entry without triggering the fetch itself.
+  const { data: fetchedEmbedding } = useDocumentEmbeddingQuery(profileId, collectionName, documentId, false)
+  const documentEmbedding = document.embedding ?? fetchedEmbedding ?? null
+  const isEmbeddingLoaded = document.embedding !== null || fetchedEmbedding !== undefined
 
   // Draft state
   const [draftDocument, setDraftDocument] = useState(documentText)
   const [draftMetadata, setDraftMetadata] = useState(documentMetadata)
-  const [draftEmbedding, setDraftEmbedding] = useState<string>('')
+  // null until the user edits the vector
+  const [draftEmbedding, setDraftEmbedding] = useState<string | null>(null)
   const [embeddingError, setEmbeddingError] = useState<string | null>(null)
   const [isEditingEmbedding, setIsEditingEmbedding] = useState(false)
   const documentDraftKeyRef = useRef<string | null>(null)
@@ -93,6 +99,7 @@ export default function DocumentDetailPanel({
   const hasDocumentChanges = draftDocument !== documentText
   const hasMetadataChanges = JSON.stringify(draftMetadata) !== JSON.stringify(documentMetadata)
   const hasEmbeddingChanges = (() => {
+    if (draftEmbedding === null) return false
     if (!draftEmbedding && !documentEmbedding) return false
     if (!draftEmbedding || !documentEmbedding) return true
     try {
@@ -109,7 +116,7 @@ export default function DocumentDetailPanel({
     documentDraftKeyRef.current = currentDocumentDraftKey
     setDraftDocument(documentText)
     setDraftMetadata(documentMetadata)
-    setDraftEmbedding(documentEmbedding ? JSON.stringify(documentEmbedding) : '')
+    setDraftEmbedding(null)
     setEmbeddingError(null)
     setIsEditingEmbedding(false)
   }
@@ -118,10 +125,10 @@ export default function DocumentDetailPanel({
   const handleCancel = useCallback(() => {
     setDraftDocument(documentText)
     setDraftMetadata(documentMetadata)
-    setDraftEmbedding(documentEmbedding ? JSON.stringify(documentEmbedding) : '')
+    setDraftEmbedding(null)
     setEmbeddingError(null)
     setIsEditingEmbedding(false)
-  }, [documentText, documentMetadata, documentEmbedding])
+  }, [documentText, documentMetadata])
 
   // Handle save all changes
   const handleSave = useCallback(async () => {
@@ -376,7 +383,23 @@ export default function DocumentDetailPanel({
       <div className="h-full overflow-auto space-y-3 p-3">
       {/* ID Section - Editable for drafts */}
       <section>
-        <h3 className="text-xs font-semibold text-muted-foreground mb-1">id</h3>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-xs font-semibold text-muted-foreground">id</h3>
+          {!isDraft && (
+            <button
+              type="button"
+              onClick={() => {
+                // DocumentsView owns the query state; see its find-similar listener
+                window.dispatchEvent(new CustomEvent('document:find-similar', { detail: { documentId } }))
+              }}
+              className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              title="Show the nearest neighbours of this document's embedding"
+            >
+              <Search className="size-3" />
+              Find similar
+            </button>
+          )}
+        </div>
         {isDraft ? (
           <input
             type="text"
@@ -528,7 +551,7 @@ export default function DocumentDetailPanel({
               <textarea
                 ref={embeddingTextareaRef}
                 aria-label="Embedding vector"
-                value={draftEmbedding}
+                value={draftEmbedding ?? (documentEmbedding ? JSON.stringify(documentEmbedding) : '')}
                 onChange={(e) => {
                   setDraftEmbedding(e.target.value)
                   setEmbeddingError(null)
@@ -544,10 +567,14 @@ export default function DocumentDetailPanel({
           ) : (
               <button
                 type="button"
-                onClick={() => setIsEditingEmbedding(true)}
+                onClick={() => isEmbeddingLoaded && setIsEditingEmbedding(true)}
                 className={`cursor-pointer ${getFieldStyle(hasEmbeddingChanges)}`}
               >
-                <EmbeddingCell embedding={documentEmbedding} />
+                <EmbeddingCell
+                  key={documentId}
+                  embedding={documentEmbedding}
+                  source={{ profileId, collectionName, documentId }}
+                />
               </button>
             )}
         </section>
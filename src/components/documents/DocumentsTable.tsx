@@ -8,6 +8,13 @@ import {
 } from '@tanstack/react-table'
 import EmbeddingCell from './EmbeddingCell'
 import { TypedMetadataRecord } from '../../types/metadata'
+import { useVirtualRows } from '../../hooks/useVirtualRows'
+
+// Rows are a fixed h-8; virtualization relies on this height.
+const ROW_HEIGHT = 32
+const HEADER_HEIGHT = 28
+// Ask for the next page when the rendered window is this close to the last loaded row
+const LOAD_MORE_THRESHOLD = 50
 
 interface DocumentRecord {
   id: string
@@ -51,6 +58,16 @@ interface DocumentsTableProps {
   // Context menu props
   onDocumentContextMenu?: (e: React.MouseEvent, documentId: string) => void
   onTableContextMenu?: (e: React.MouseEvent) => void
+  // Paging props - more rows can be loaded past either end of `documents`
+  hasMore?: boolean
+  isFetchingMore?: boolean
+  onLoadMore?: () => void
+  hasPrevious?: boolean
+  isFetchingPrevious?: boolean
+  onLoadPrevious?: () => void
+  // Linked hover with the embedding map; the highlighted row is scrolled into view
+  highlightedDocumentId?: string | null
+  onRowHover?: (documentId: string | null) => void
 }
 
 export default function DocumentsTable({
@@ -71,6 +88,14 @@ export default function DocumentsTable({
   onDocumentUpdate,
   onDocumentContextMenu,
   onTableContextMenu,
+  hasMore = false,
+  isFetchingMore = false,
+  onLoadMore,
+  hasPrevious = false,
+  isFetchingPrevious = false,
+  onLoadPrevious,
+  highlightedDocumentId = null,
+  onRowHover,
 }: DocumentsTableProps) {
   // Ref for auto-focusing the id input when draft starts
   const draftIdInputRef = useRef<HTMLInputElement>(null)
@@ -384,6 +409,41 @@ export default function DocumentsTable({
     getCoreRowModel: getCoreRowModel(),
   })
 
+  const rows = table.getRowModel().rows
+  const rowKeys = useMemo(() => rows.map(row => row.original.id), [rows])
+  const { scrollRef, scrollToIndex, start, end, paddingTop, paddingBottom } = useVirtualRows({
+    count: rows.length,
+    rowHeight: ROW_HEIGHT,
+    offsetTop: HEADER_HEIGHT + draftDocuments.length * ROW_HEIGHT,
+    rowKeys,
+  })
+
+  // Also fires when loaded rows don't fill the viewport, so short pages
+  // (e.g. after client-side ID filtering) keep loading until it is full.
+  useEffect(() => {
+    if (hasMore && !isFetchingMore && end >= rows.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore?.()
+    }
+  }, [hasMore, isFetchingMore, end, rows.length, onLoadMore])
+
+  // Rows above the loaded window were dropped while scrolling down
+  useEffect(() => {
+    if (hasPrevious && !isFetchingPrevious && start <= LOAD_MORE_THRESHOLD) {
+      onLoadPrevious?.()
+    }
+  }, [hasPrevious, isFetchingPrevious, start, onLoadPrevious])
+
+  // Only follow hovers that came from the map, not from the table itself
+  const hoveredRowIdRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (!highlightedDocumentId || highlightedDocumentId === hoveredRowIdRef.current) return
+    const index = rows.findIndex(row => row.original.id === highlightedDocumentId)
+    if (index !== -1) scrollToIndex(index)
+  }, [highlightedDocumentId, rows, scrollToIndex])
+
+  // Distance, id, document, metadata and filler columns
+  const columnCount = columns.length + 1
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-12">
@@ -438,7 +498,7 @@ export default function DocumentsTable({
   }
 
   return (
-    <div className="overflow-auto h-full" onContextMenu={onTableContextMenu}>
+    <div ref={scrollRef} className="overflow-auto h-full" onContextMenu={onTableContextMenu}>
       <table style={{ minWidth: '100%', width: table.getCenterTotalSize() }}>
         <thead className="sticky top-0 z-10" style={{ background: 'var(--canvas-background)', boxShadow: '0 1px 0 var(--border)' }}>
           {table.getHeaderGroups().map(headerGroup => (
@@ -552,7 +612,13 @@ export default function DocumentsTable({
               <td aria-label="Filler cell" className=""></td>
             </tr>
           )})}
-          {table.getRowModel().rows.map((row, index) => {
+          {paddingTop > 0 && (
+            <tr aria-hidden="true" style={{ height: paddingTop }}>
+              <td colSpan={columnCount} />
+            </tr>
+          )}
+          {rows.slice(start, end).map((row, visibleIndex) => {
+            const index = start + visibleIndex
             const isSelected = selectedDocumentIds.has(row.original.id)
             const isMarkedForDeletion = markedForDeletion.has(row.original.id)
             const isEditing = editingState?.documentId === row.original.id
@@ -576,6 +642,8 @@ export default function DocumentsTable({
             } else if (isSelected) {
               rowBgClass = 'bg-primary/15 dark:bg-primary/25'
               rowHoverClass = ''
+            } else if (row.original.id === highlightedDocumentId) {
+              rowBgClass = 'bg-[var(--table-row-hover)]'
             } else {
               rowBgClass = adjustedIndex % 2 === 1 ? 'bg-[var(--table-row-alt)]' : ''
             }
@@ -666,7 +734,15 @@ export default function DocumentsTable({
                 onClick={(e) => handleRowClick(e, row.original.id, rowIndex)}
                 onDoubleClick={(e) => handleRowDoubleClick(e, row.original.id)}
                 onMouseDown={(e) => handleMouseDown(e, rowIndex)}
-                onMouseEnter={() => handleMouseEnter(rowIndex)}
+                onMouseEnter={() => {
+                  handleMouseEnter(rowIndex)
+                  hoveredRowIdRef.current = row.original.id
+                  onRowHover?.(row.original.id)
+                }}
+                onMouseLeave={() => {
+                  hoveredRowIdRef.current = null
+                  onRowHover?.(null)
+                }}
                 onContextMenu={(e) => onDocumentContextMenu?.(e, row.original.id)}
               >
                 {row.getVisibleCells().map(cell => (
@@ -683,6 +759,18 @@ export default function DocumentsTable({
               </tr>
             )
           })}
+          {paddingBottom > 0 && (
+            <tr aria-hidden="true" style={{ height: paddingBottom }}>
+              <td colSpan={columnCount} />
+            </tr>
+          )}
+          {isFetchingMore && (
+            <tr className="h-8">
+              <td colSpan={columnCount} className="px-3 text-[11px] text-muted-foreground">
+                Loading more documents…
+              </td>
+            </tr>
+          )}
         </tbody>
       </table>
     </div>
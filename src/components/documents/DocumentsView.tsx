@@ -1,17 +1,30 @@
 import { useMemo, useState, useEffect, useCallback, useRef } from 'react'
 import { useChromaDB } from '../../providers/ChromaDBProvider'
-import { useDocumentsQuery, useCollectionsQuery, useCreateDocumentMutation, useDeleteDocumentsMutation, useCreateDocumentsBatchMutation, useUpdateDocumentMutation } from '../../hooks/useChromaQueries'
+import { useCollectionsQuery, useDocumentEmbeddingQuery, useMetadataSchemaQuery, useDeleteDocumentsMutation, useCreateDocumentsBatchMutation, useUpdateDocumentMutation } from '../../hooks/useChromaQueries'
+import { resultSetExportSource, useDocumentResults } from '../../hooks/useDocumentResults'
+import { useDocumentQueryState } from '../../hooks/useDocumentQueryState'
+import { useDocumentsMenuEvents } from '../../hooks/useDocumentsMenuEvents'
 import { useClipboard } from '../../context/ClipboardContext'
+import { useConfirmProtectedAction } from '../../context/ProtectedActionContext'
+import { useUndoHistoryError } from '../../context/UndoHistoryContext'
 import { SHORTCUTS, matchesShortcut } from '../../constants/keyboard-shortcuts'
 import DocumentsTable from './DocumentsTable'
-import {
-  QueryMetadataFilter,
-  QueryScope,
-  buildChromaWhereClause,
-} from '../../types/filters'
+import { getSchemaFieldType, getSchemaValueSuggestions, type RecordFilter } from '../../types/filters'
+import { DEFAULT_SCHEMA_SAMPLE_SIZE } from '../../../electron/ipc-contract'
 import { TypedMetadataRecord, TypedMetadataField, typedMetadataToChromaFormat, validateMetadataValue } from '../../types/metadata'
 import { EmbeddingFunctionSelector } from './EmbeddingFunctionSelector'
 import { QueryToolbar } from '../filters/QueryToolbar'
+import { EmbeddingMapView } from './EmbeddingMapView'
+import { ExportDocumentsDialog } from './ExportDocumentsDialog'
+import { BulkMetadataDialog } from './BulkMetadataDialog'
+import { ReembedCollectionDialog, ReembedPendingButton } from '../collections/ReembedCollectionDialog'
+import { PasteDocumentsDialog } from './PasteDocumentsDialog'
+import { DraftConflictNotice } from './DraftConflictNotice'
+import { DraftEmbeddingEstimate } from './EmbeddingEstimate'
+import { embeddingFunctionRefFromConfig } from '../../constants/embedding-pricing'
+import { resolveCopyIds } from '../../../electron/document-ids'
+import { formStyles } from '../../styles/form-controls'
+import type { IdCollisionPolicy } from '@/types/electron'
 
 interface DraftDocument {
   id: string
@@ -26,6 +39,13 @@ interface DocumentRecord {
   embedding: number[] | null
 }
 
+type ViewMode = 'table' | 'map'
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'table', label: 'Table' },
+  { value: 'map', label: 'Map' },
+]
+
 interface DocumentsViewProps {
   collectionName: string
   // Multi-select props
@@ -43,6 +63,9 @@ interface DocumentsViewProps {
   onExposeDraftHandler?: (handler: ((updates: { id?: string; document?: string; metadata?: Record<string, unknown> }) => void) | null) => void
   // Callback to notify parent if current draft is for the first document (empty collection)
   onIsFirstDocumentChange?: (isFirst: boolean) => void
+  // Limits the view to specific records, e.g. those behind a health report finding
+  recordFilter?: RecordFilter | null
+  onClearRecordFilter?: () => void
 }
 
 export default function DocumentsView({
@@ -59,48 +82,57 @@ export default function DocumentsView({
   onSelectedDocumentChange,
   onExposeDraftHandler,
   onIsFirstDocumentChange,
+  recordFilter = null,
+  onClearRecordFilter,
 }: DocumentsViewProps) {
   const { currentProfile } = useChromaDB()
-  const [scope, setScope] = useState<QueryScope>('query')
-  const [searchText, setSearchText] = useState('')
-  const [idSearch, setIdSearch] = useState('')
-  const [nResults, setNResults] = useState(100)
-  const [metadataFilters, setMetadataFilters] = useState<QueryMetadataFilter[]>([])
-  const collectionNameRef = useRef(collectionName)
+  const confirmProtectedAction = useConfirmProtectedAction()
+  const undoError = useUndoHistoryError()
+  // Fetch collections to get the current collection's info
+  const { data: collections = [] } = useCollectionsQuery(currentProfile?.id || null)
+  const currentCollection = collections.find(c => c.name === collectionName)
 
-  // "Committed" search text and ID. Only updated when the toolbar fires onSearch
-  // (300ms debounce after typing, or immediately on Enter). Keeps queries from
-  // refetching on every keystroke.
-  const [committedSearchText, setCommittedSearchText] = useState('')
-  const [committedIdSearch, setCommittedIdSearch] = useState('')
+  const query = useDocumentQueryState(collectionName, currentCollection?.dimension ?? null, recordFilter?.ids ?? null)
+  const { searchParams, similarParams, idFilterValue, hasActiveFilters, handleSearch, findSimilar } = query
+  const { handleClearAllFilters: clearQueryFilters } = query
+  const handleClearAllFilters = useCallback(() => {
+    clearQueryFilters()
+    onClearRecordFilter?.()
+  }, [clearQueryFilters, onClearRecordFilter])
+  const collectionNameRef = useRef(collectionName)
 
   // Draft documents state - supports single new document or multiple pasted documents
   const [draftDocuments, setDraftDocuments] = useState<DraftDocument[]>([])
 
   // Validation error for draft documents
   const [draftError, setDraftError] = useState<string | null>(null)
+  // Draft IDs the collection already has; shown while draftError is set
+  const [draftConflicts, setDraftConflicts] = useState<string[]>([])
 
   // Helper to check if we have drafts
   const hasDrafts = draftDocuments.length > 0
   // For backwards compatibility with single draft operations
   const draftDocument = draftDocuments.length === 1 ? draftDocuments[0] : null
 
+  // Map view shows above the table; hovering either highlights the same record
+  const [viewMode, setViewMode] = useState<ViewMode>('table')
+  const [hoveredDocumentId, setHoveredDocumentId] = useState<string | null>(null)
+  const [showExportDialog, setShowExportDialog] = useState(false)
+  const [showBulkDialog, setShowBulkDialog] = useState(false)
+  // The function to re-embed with, or null to resume or review an earlier run
+  const [reembedRequest, setReembedRequest] = useState<{ embeddingFunction: EmbeddingFunctionOverride | null } | null>(null)
+  const [crossConnectionPaste, setCrossConnectionPaste] = useState<Extract<ClipboardEntry, { type: 'documents' }> | null>(null)
+
   // Marked for deletion state (set of document IDs)
   const [markedForDeletion, setMarkedForDeletion] = useState<Set<string>>(new Set())
 
-  // Create document mutation
-  const createMutation = useCreateDocumentMutation(
-    currentProfile?.id || '',
-    collectionName
-  )
-
   // Delete documents mutation
   const deleteMutation = useDeleteDocumentsMutation(
     currentProfile?.id || '',
     collectionName
   )
 
-  // Create documents batch mutation (for pasting)
+  // Create documents batch mutation (for saving drafts)
   const createBatchMutation = useCreateDocumentsBatchMutation(
     currentProfile?.id || '',
     collectionName
@@ -115,10 +147,6 @@ export default function DocumentsView({
   // Clipboard context
   const { clipboard, copyDocuments, hasCopiedDocuments } = useClipboard()
 
-  // Fetch collections to get the current collection's info
-  const { data: collections = [] } = useCollectionsQuery(currentProfile?.id || null)
-  const currentCollection = collections.find(c => c.name === collectionName)
-
   // Embedding function override state
   const [embeddingOverride, setEmbeddingOverride] = useState<EmbeddingFunctionOverride | null>(null)
 
@@ -160,59 +188,34 @@ export default function DocumentsView({
 
   if (collectionNameRef.current !== collectionName) {
     collectionNameRef.current = collectionName
-    setScope('query')
-    setSearchText('')
-    setIdSearch('')
-    setCommittedSearchText('')
-    setCommittedIdSearch('')
-    setMetadataFilters([])
     setMarkedForDeletion(new Set())
     setDraftDocuments([])
     setDraftError(null)
   }
 
-  // Build search params from the toolbar state. `metadataFilter` updates immediately
-  // as filters change; `queryText` uses the committed (debounced) value.
-  const searchParams = useMemo(() => {
-    const queryText = scope === 'query'
-      ? committedSearchText.trim() || undefined
-      : undefined
-
-    const metadataFilter = buildChromaWhereClause(metadataFilters)
-
-    return {
-      collectionName,
-      queryText,
-      nResults,
-      metadataFilter,
-    }
-  }, [collectionName, scope, committedSearchText, nResults, metadataFilters])
-
   // Use React Query for documents with debouncing via staleTime
   const {
-    data: queryData,
-    isLoading: loading,
+    documents,
+    loading,
     error,
     isFetching,
-  } = useDocumentsQuery(currentProfile?.id || null, searchParams)
-
-  const rawDocuments = queryData?.documents ?? []
-  const fetchTimeMs = queryData?.fetchTimeMs ?? null
-
-  // Extract ID filter value for client-side filtering (case-insensitive contains match)
-  const idFilterValue = useMemo(() => {
-    return scope === 'id' ? committedIdSearch.trim().toLowerCase() : ''
-  }, [scope, committedIdSearch])
-
-  // Apply client-side ID filter (case-insensitive "includes" match)
-  const documents = useMemo(() => {
-    if (!idFilterValue) {
-      return rawDocuments
-    }
-    return rawDocuments.filter(doc =>
-      doc.id.toLowerCase().includes(idFilterValue)
-    )
-  }, [rawDocuments, idFilterValue])
+    fetchTimeMs,
+    total,
+    loadedThrough,
+    hasMore,
+    isFetchingMore,
+    loadMore,
+    hasPrevious,
+    isFetchingPrevious,
+    loadPrevious,
+  } = useDocumentResults(currentProfile?.id || null, searchParams, similarParams, idFilterValue)
+
+  // Rows are read without vectors; sample one to show the collection's dimension
+  const { data: sampleEmbedding } = useDocumentEmbeddingQuery(
+    currentProfile?.id || null,
+    collectionName,
+    documents[0]?.id ?? ''
+  )
 
   // Extract unique metadata fields from documents (needed for draft creation)
   const metadataFields = useMemo(() => {
@@ -225,14 +228,23 @@ export default function DocumentsView({
     return Array.from(fields).sort()
   }, [documents])
 
-  // Commit the current search text/ID so the query refetches (called debounced or on Enter)
-  const handleSearch = useCallback(() => {
-    setCommittedSearchText(searchText)
-    setCommittedIdSearch(idSearch)
-  }, [searchText, idSearch])
+  // Sampled from the whole collection, so filters know about keys, types and
+  // values beyond the rows loaded so far
+  const { data: metadataSchema } = useMetadataSchemaQuery(
+    currentProfile?.id || null,
+    collectionName,
+    DEFAULT_SCHEMA_SAMPLE_SIZE
+  )
+
+  const filterFields = useMemo(() => {
+    const fields = new Set(metadataFields)
+    metadataSchema?.keys.forEach(stats => fields.add(stats.key))
+    return Array.from(fields).sort()
+  }, [metadataFields, metadataSchema])
 
-  // Field types inferred from the currently loaded documents — used by the
-  // metadata filter row to pick operators and placeholders.
+  // Field types inferred from the currently loaded documents, overridden by
+  // the schema where it has the key — used by the metadata filter row to pick
+  // operators and placeholders.
   const metadataFieldTypes = useMemo(() => {
     const types: Record<string, 'string' | 'number' | 'boolean'> = {}
     documents.forEach(doc => {
@@ -245,13 +257,18 @@ export default function DocumentsView({
         })
       }
     })
+    metadataSchema?.keys.forEach(stats => {
+      const type = getSchemaFieldType(stats)
+      if (type === 'unknown') delete types[stats.key]
+      else types[stats.key] = type
+    })
     return types
-  }, [documents])
+  }, [documents, metadataSchema])
 
-  const hasActiveFilters =
-    (scope === 'query' && committedSearchText.trim().length > 0) ||
-    (scope === 'id' && committedIdSearch.trim().length > 0) ||
-    metadataFilters.some(f => f.field.trim() && f.value.trim())
+  const metadataValueSuggestions = useMemo(
+    () => Object.fromEntries((metadataSchema?.keys ?? []).map(stats => [stats.key, getSchemaValueSuggestions(stats)])),
+    [metadataSchema]
+  )
 
   // Draft document handlers
   const handleStartCreate = useCallback(() => {
@@ -326,9 +343,10 @@ export default function DocumentsView({
     onIsFirstDocumentChange?.(false) // Reset first document flag
   }, [onClearSelection, onIsFirstDocumentChange])
 
-  const handleSaveDraft = useCallback(async () => {
+  const handleSaveDraft = useCallback(async (onCollision: IdCollisionPolicy = 'fail') => {
     if (draftDocuments.length === 0) return
     setDraftError(null)
+    setDraftConflicts([])
 
     // Validate all drafts
     for (let i = 0; i < draftDocuments.length; i++) {
@@ -359,27 +377,27 @@ export default function DocumentsView({
     }
 
     try {
-      if (draftDocuments.length === 1) {
-        // Single document - use single create mutation
-        const draft = draftDocuments[0]
-        const metadata = typedMetadataToChromaFormat(draft.metadata)
-        await createMutation.mutateAsync({
-          id: draft.id,
-          document: draft.document.trim(),
-          metadata,
-          generateEmbedding: true,
-        })
-      } else {
-        // Multiple documents - use batch create mutation
-        const docsToCreate = draftDocuments.map(draft => ({
+      const result = await createBatchMutation.mutateAsync({
+        documents: draftDocuments.map(draft => ({
           id: draft.id,
           document: draft.document.trim(),
           metadata: typedMetadataToChromaFormat(draft.metadata),
-        }))
-        await createBatchMutation.mutateAsync({
-          documents: docsToCreate,
-          generateEmbeddings: true,
-        })
+        })),
+        generateEmbeddings: true,
+        onCollision,
+      })
+      if (onCollision === 'fail' && result.conflictingIds.length > 0) {
+        setDraftConflicts(result.conflictingIds)
+        setDraftError(result.errors[0])
+        return
+      }
+      // Keep drafts from batches that failed so they can be saved again
+      const handled = new Set([...result.createdIds, ...result.conflictingIds])
+      const unsaved = draftDocuments.filter(draft => !handled.has(draft.id))
+      if (unsaved.length > 0) {
+        setDraftDocuments(unsaved)
+        setDraftError(result.errors[0] ?? 'Some documents were not saved')
+        return
       }
       setDraftDocuments([])
       setDraftError(null)
@@ -389,7 +407,7 @@ export default function DocumentsView({
       const message = error instanceof Error ? error.message : 'Failed to create document(s)'
       setDraftError(message)
     }
-  }, [draftDocuments, createMutation, createBatchMutation, onClearSelection, onIsFirstDocumentChange])
+  }, [draftDocuments, createBatchMutation, onClearSelection, onIsFirstDocumentChange])
 
   // Toggle deletion mark for all selected documents
   const handleToggleDeletion = useCallback(() => {
@@ -419,6 +437,9 @@ export default function DocumentsView({
   // Commit deletions
   const handleCommitDeletions = useCallback(async () => {
     if (markedForDeletion.size === 0) return
+    const count = markedForDeletion.size
+    const title = `Delete ${count} ${count === 1 ? 'Document' : 'Documents'}`
+    if (!(await confirmProtectedAction({ title, collectionName, confirmLabel: 'Delete' }))) return
 
     try {
       await deleteMutation.mutateAsync(Array.from(markedForDeletion))
@@ -431,7 +452,7 @@ export default function DocumentsView({
     } catch (error) {
       console.error('Failed to delete documents:', error)
     }
-  }, [markedForDeletion, deleteMutation, selectedDocumentIds, onClearSelection])
+  }, [markedForDeletion, deleteMutation, selectedDocumentIds, onClearSelection, confirmProtectedAction, collectionName])
 
   // Copy selected documents to clipboard
   const handleCopyDocuments = useCallback(() => {
@@ -442,30 +463,8 @@ export default function DocumentsView({
       doc => selectedDocumentIds.has(doc.id) && !draftIds.has(doc.id)
     )
     if (docsToCopy.length === 0) return
-    copyDocuments(docsToCopy, collectionName, currentProfile.id)
-  }, [selectedDocumentIds, documents, draftDocuments, collectionName, currentProfile?.id, copyDocuments])
-
-  // Resolve ID conflicts for pasting
-  const resolveConflictingIds = useCallback((
-    documentsToPaste: Array<{ id: string; document: string | null; metadata: Record<string, unknown> | null }>,
-    existingIds: Set<string>
-  ) => {
-    const usedIds = new Set(existingIds)
-    return documentsToPaste.map(doc => {
-      let newId = doc.id
-      let copyNum = 0
-
-      while (usedIds.has(newId)) {
-        copyNum++
-        newId = copyNum === 1
-          ? `${doc.id}-copy`
-          : `${doc.id}-copy-${copyNum}`
-      }
-
-      usedIds.add(newId)
-      return { ...doc, id: newId }
-    })
-  }, [])
+    copyDocuments(docsToCopy, collectionName, currentProfile)
+  }, [selectedDocumentIds, documents, draftDocuments, collectionName, currentProfile, copyDocuments])
 
   // Infer metadata field types from existing documents
   const inferMetadataTypes = useCallback((): Record<string, 'string' | 'number' | 'boolean'> => {
@@ -487,13 +486,19 @@ export default function DocumentsView({
   // Paste documents from clipboard - creates draft documents for review
   const handlePasteDocuments = useCallback(() => {
     if (!clipboard || clipboard.type !== 'documents' || !currentProfile?.id) return
+    // Records from another connection are copied server to server, not drafted
+    if (clipboard.sourceProfileId !== currentProfile.id) {
+      setCrossConnectionPaste(clipboard)
+      return
+    }
     if (hasDrafts) return // Don't paste if there are already drafts
 
     // Get existing document IDs (including any current drafts)
     const existingIds = new Set(documents.map(d => d.id))
 
     // Resolve any ID conflicts
-    const resolvedDocs = resolveConflictingIds(clipboard.documents, existingIds)
+    const resolvedIds = resolveCopyIds(clipboard.documents.map(doc => doc.id), existingIds)
+    const resolvedDocs = clipboard.documents.map((doc, i) => ({ ...doc, id: resolvedIds[i] }))
 
     // Infer metadata types from existing documents
     const existingTypes = inferMetadataTypes()
@@ -550,7 +555,7 @@ export default function DocumentsView({
     if (drafts.length > 0) {
       onSingleSelect(drafts[0].id)
     }
-  }, [clipboard, currentProfile?.id, documents, hasDrafts, resolveConflictingIds, inferMetadataTypes, onSingleSelect])
+  }, [clipboard, currentProfile?.id, documents, hasDrafts, inferMetadataTypes, onSingleSelect])
 
   // Context menu handler for document row
   const handleDocumentContextMenu = useCallback((e: React.MouseEvent, documentId: string) => {
@@ -588,10 +593,22 @@ export default function DocumentsView({
         // Select and mark for deletion
         onSingleSelect(data.documentId)
         setMarkedForDeletion(new Set([data.documentId]))
+      } else if (data.action === 'find-similar' && data.documentId) {
+        findSimilar(data.documentId)
       }
     })
     return unsubscribe
-  }, [handleCopyDocuments, handlePasteDocuments, onSingleSelect])
+  }, [handleCopyDocuments, handlePasteDocuments, onSingleSelect, findSimilar])
+
+  // "Find similar" from the detail panel, which sits outside this view
+  useEffect(() => {
+    const handleFindSimilar = (e: Event) => {
+      const { documentId } = (e as CustomEvent<{ documentId: string }>).detail
+      findSimilar(documentId)
+    }
+    window.addEventListener('document:find-similar', handleFindSimilar)
+    return () => window.removeEventListener('document:find-similar', handleFindSimilar)
+  }, [findSimilar])
 
   // Select all documents handler
   const handleSelectAllDocuments = useCallback(() => {
@@ -601,112 +618,25 @@ export default function DocumentsView({
     }
   }, [documents, onRangeSelect])
 
-  // Clear all filters handler. nResults is treated as a view preference, not
-  // a filter — leave it alone.
-  const handleClearAllFilters = useCallback(() => {
-    setScope('query')
-    setSearchText('')
-    setIdSearch('')
-    setCommittedSearchText('')
-    setCommittedIdSearch('')
-    setMetadataFilters([])
-  }, [])
-
   // Menu event listeners (from native app menu)
-  useEffect(() => {
-    // New document
-    const handleMenuNewDocument = () => {
-      handleStartCreate()
-    }
-
-    // Delete selected
-    const handleMenuDeleteSelected = () => {
+  useDocumentsMenuEvents({
+    onNewDocument: handleStartCreate,
+    onDeleteSelected: () => {
       if (selectedDocumentIds.size > 0 && !hasDrafts) {
         handleToggleDeletion()
       }
-    }
-
-    // Copy documents
-    const handleMenuCopyDocuments = () => {
-      handleCopyDocuments()
-    }
-
-    // Paste documents
-    const handleMenuPasteDocuments = () => {
-      handlePasteDocuments()
-    }
-
-    // Select all documents
-    const handleMenuSelectAll = () => {
-      handleSelectAllDocuments()
-    }
-
-    // Focus search
-    const handleMenuFocusSearch = () => {
-      // Focus the first search input in the filter rows
-      const searchInput = document.querySelector('input[placeholder*="Search"]') as HTMLInputElement
-      if (searchInput) {
-        searchInput.focus()
-        searchInput.select()
-      }
-    }
-
-    // Clear filters
-    const handleMenuClearFilters = () => {
-      handleClearAllFilters()
-    }
-
-    // Configure embedding
-    const handleMenuConfigureEmbedding = () => {
-      // Click the embedding function selector button
-      const embeddingButton = document.querySelector('[data-embedding-selector]') as HTMLButtonElement
-      if (embeddingButton) {
-        embeddingButton.click()
-      }
-    }
-
-    // Edit document
-    const handleMenuEditDocument = () => {
-      // This triggers inline editing - implementation depends on your table structure
-      // For now, we'll dispatch a custom event that DocumentsTable can listen to
+    },
+    onCopyDocuments: handleCopyDocuments,
+    onPasteDocuments: handlePasteDocuments,
+    onSelectAll: handleSelectAllDocuments,
+    onClearFilters: handleClearAllFilters,
+    // DocumentsTable listens for this and starts inline editing
+    onEditDocument: () => {
       if (primarySelectedDocumentId) {
         window.dispatchEvent(new CustomEvent('menu:trigger-edit', { detail: { documentId: primarySelectedDocumentId } }))
       }
-    }
-
-    // Listen for menu events dispatched from useMenuHandlers
-    window.addEventListener('menu:new-document', handleMenuNewDocument)
-    window.addEventListener('menu:delete-selected', handleMenuDeleteSelected)
-    window.addEventListener('menu:copy-documents', handleMenuCopyDocuments)
-    window.addEventListener('menu:paste-documents', handleMenuPasteDocuments)
-    window.addEventListener('menu:select-all-documents', handleMenuSelectAll)
-    window.addEventListener('menu:focus-search', handleMenuFocusSearch)
-    window.addEventListener('menu:clear-filters', handleMenuClearFilters)
-    window.addEventListener('menu:configure-embedding', handleMenuConfigureEmbedding)
-    window.addEventListener('menu:edit-document', handleMenuEditDocument)
-
-    return () => {
-      window.removeEventListener('menu:new-document', handleMenuNewDocument)
-      window.removeEventListener('menu:delete-selected', handleMenuDeleteSelected)
-      window.removeEventListener('menu:copy-documents', handleMenuCopyDocuments)
-      window.removeEventListener('menu:paste-documents', handleMenuPasteDocuments)
-      window.removeEventListener('menu:select-all-documents', handleMenuSelectAll)
-      window.removeEventListener('menu:focus-search', handleMenuFocusSearch)
-      window.removeEventListener('menu:clear-filters', handleMenuClearFilters)
-      window.removeEventListener('menu:configure-embedding', handleMenuConfigureEmbedding)
-      window.removeEventListener('menu:edit-document', handleMenuEditDocument)
-    }
-  }, [
-    handleStartCreate,
-    selectedDocumentIds,
-    hasDrafts,
-    handleToggleDeletion,
-    handleCopyDocuments,
-    handlePasteDocuments,
-    handleSelectAllDocuments,
-    handleClearAllFilters,
-    primarySelectedDocumentId,
-  ])
+    },
+  })
 
   // Keyboard shortcuts - using centralized SHORTCUTS definitions
   useEffect(() => {
@@ -801,35 +731,107 @@ export default function DocumentsView({
                 serverConfig={currentCollection?.embeddingFunction || null}
                 onSave={handleSaveOverride}
                 onClear={handleClearOverride}
-                embeddingDimension={documents[0]?.embedding?.length ?? null}
+                embeddingDimension={sampleEmbedding?.length ?? null}
+                onReembed={embeddingFunction => setReembedRequest({ embeddingFunction })}
               />
             </div>
+            <ReembedPendingButton collectionName={collectionName} onClick={() => setReembedRequest({ embeddingFunction: null })} />
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowExportDialog(true)}
+            className={`ml-auto flex-shrink-0 ${formStyles.button}`}
+            title="Export the current results"
+            data-testid="export-results"
+          >
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowBulkDialog(true)}
+            className={`flex-shrink-0 ${formStyles.button}`}
+            title="Edit metadata on the selected or filtered records"
+            data-testid="bulk-edit-metadata"
+          >
+            Bulk Edit
+          </button>
+          <div className="flex flex-shrink-0 rounded-md overflow-hidden" role="radiogroup" aria-label="View">
+            {VIEW_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={viewMode === value}
+                onClick={() => setViewMode(value)}
+                className={`${formStyles.button} rounded-none ${
+                  viewMode === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                }`}
+                data-testid={`view-mode-${value}`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
         </div>
 
         {/* Row 2: Query Toolbar */}
         <div className="px-4 py-2 pb-3">
           <QueryToolbar
-            scope={scope}
-            searchText={searchText}
-            idSearch={idSearch}
-            nResults={nResults}
-            filters={metadataFilters}
-            availableFields={metadataFields}
+            scope={query.scope}
+            searchText={query.searchText}
+            idSearch={query.idSearch}
+            vectorText={query.vectorText}
+            vectorError={query.vectorError}
+            dimension={currentCollection?.dimension ?? null}
+            nResults={query.nResults}
+            filterGroup={query.filterGroup}
+            documentFilters={query.documentFilters}
+            availableFields={filterFields}
             fieldTypes={metadataFieldTypes}
-            onScopeChange={setScope}
-            onSearchTextChange={setSearchText}
-            onIdSearchChange={setIdSearch}
-            onNResultsChange={setNResults}
-            onFiltersChange={setMetadataFilters}
+            valueSuggestions={metadataValueSuggestions}
+            onScopeChange={query.setScope}
+            onSearchTextChange={query.setSearchText}
+            onIdSearchChange={query.setIdSearch}
+            onVectorTextChange={query.setVectorText}
+            onNResultsChange={query.setNResults}
+            onFilterGroupChange={query.setFilterGroup}
+            onDocumentFiltersChange={query.setDocumentFilters}
+            advancedClauses={query.advancedClauses}
+            onAdvancedClausesChange={query.setAdvancedClauses}
+            onEnterAdvancedMode={query.enterAdvancedMode}
+            onExitAdvancedMode={query.exitAdvancedMode}
+            similarToId={query.similarToId}
+            onClearSimilar={query.clearSimilar}
+            recordFilter={recordFilter && { label: recordFilter.label, count: recordFilter.ids.length }}
+            onClearRecordFilter={onClearRecordFilter}
             onSearch={handleSearch}
           />
         </div>
       </div>
 
+      {viewMode === 'map' && (
+        <div className="flex-[3] min-h-0 border-b border-border" style={{ background: 'var(--canvas-background)' }}>
+          <EmbeddingMapView
+            profileId={currentProfile?.id || null}
+            collectionName={collectionName}
+            documents={documents}
+            metadataFields={metadataFields}
+            query={{
+              queryText: searchParams.queryText,
+              queryEmbedding: searchParams.queryEmbedding,
+              similarToId: query.similarToId,
+            }}
+            selectedDocumentIds={selectedDocumentIds}
+            hoveredDocumentId={hoveredDocumentId}
+            onHover={setHoveredDocumentId}
+            onSelect={onSingleSelect}
+          />
+        </div>
+      )}
+
       {/* Table - primary content canvas */}
       <div
-        className="flex-1 overflow-auto"
+        className={`${viewMode === 'map' ? 'flex-[2]' : 'flex-1'} min-h-0 overflow-auto`}
         style={{
           background: 'var(--canvas-background)',
         }}
@@ -852,6 +854,14 @@ export default function DocumentsView({
           onDocumentUpdate={handleInlineDocumentUpdate}
           onDocumentContextMenu={handleDocumentContextMenu}
           onTableContextMenu={handleTableContextMenu}
+          hasMore={hasMore}
+          isFetchingMore={isFetchingMore}
+          onLoadMore={loadMore}
+          hasPrevious={hasPrevious}
+          isFetchingPrevious={isFetchingPrevious}
+          onLoadPrevious={loadPrevious}
+          highlightedDocumentId={hoveredDocumentId}
+          onRowHover={setHoveredDocumentId}
         />
       </div>
 
@@ -868,28 +878,38 @@ export default function DocumentsView({
         </button>
         {hasDrafts && (
           <div className="flex items-center gap-3">
-            {draftError && (
+            {draftError && draftConflicts.length > 0 ? (
+              <DraftConflictNotice
+                ids={draftConflicts}
+                disabled={createBatchMutation.isPending}
+                onResolve={handleSaveDraft}
+              />
+            ) : draftError && (
               <span className="text-[11px] text-destructive">{draftError}</span>
             )}
             <span className="text-[11px] text-muted-foreground">
               {draftDocuments.length} document{draftDocuments.length !== 1 ? 's' : ''} to add
             </span>
+            <DraftEmbeddingEstimate
+              texts={draftDocuments.map(draft => draft.document)}
+              embeddingFunction={embeddingOverride ?? embeddingFunctionRefFromConfig(currentCollection?.embeddingFunction)}
+            />
             <div className="flex gap-2">
               <button
                 type="button"
                 onClick={handleCancelDraft}
-                disabled={createMutation.isPending || createBatchMutation.isPending}
+                disabled={createBatchMutation.isPending}
                 className="h-6 px-2 text-[11px] rounded-md bg-black/[0.04] dark:bg-white/[0.06] hover:bg-black/[0.08] dark:hover:bg-white/[0.10] disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Cancel
               </button>
               <button
                 type="button"
-                onClick={handleSaveDraft}
-                disabled={createMutation.isPending || createBatchMutation.isPending || draftDocuments.some(d => !d.id.trim())}
+                onClick={() => handleSaveDraft()}
+                disabled={createBatchMutation.isPending || draftDocuments.some(d => !d.id.trim())}
                 className="h-6 px-2 text-[11px] rounded-md bg-[#007AFF] hover:bg-[#0071E3] active:bg-[#006DD9] text-white disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {(createMutation.isPending || createBatchMutation.isPending) ? 'Saving…' : (draftDocuments.length === 1 ? 'Save' : 'Save All')}
+                {(createBatchMutation.isPending) ? 'Saving…' : (draftDocuments.length === 1 ? 'Save' : 'Save All')}
               </button>
             </div>
           </div>
@@ -917,12 +937,59 @@ export default function DocumentsView({
             </button>
           </div>
         )}
-        {!hasDrafts && markedForDeletion.size === 0 && fetchTimeMs !== null && !loading && (
+        {!hasDrafts && markedForDeletion.size === 0 && undoError && (
+          <span className="text-[11px] text-destructive">{undoError}</span>
+        )}
+        {!hasDrafts && markedForDeletion.size === 0 && !undoError && fetchTimeMs !== null && !loading && (
           <span className="text-[10px] text-muted-foreground">
+            {total !== null && loadedThrough !== null && `${loadedThrough.toLocaleString()} of ${total.toLocaleString()} · `}
             {isFetching ? 'fetching...' : `${fetchTimeMs}ms`}
           </span>
         )}
       </div>
+
+      <ExportDocumentsDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        collectionName={collectionName}
+        source={resultSetExportSource(searchParams, similarParams)}
+        idContains={idFilterValue || undefined}
+        scopeLabel={similarParams || searchParams.queryText || searchParams.queryEmbedding
+          ? 'Current query results'
+          : `${hasActiveFilters ? 'Filtered records' : 'Records'}${searchParams.nResults ? `, up to ${searchParams.nResults.toLocaleString()}` : ''}`}
+      />
+
+      <BulkMetadataDialog
+        open={showBulkDialog}
+        onOpenChange={setShowBulkDialog}
+        collectionName={collectionName}
+        selectedIds={Array.from(selectedDocumentIds).filter(id => !draftDocuments.some(draft => draft.id === id))}
+        filterTarget={{
+          kind: 'filter',
+          metadataFilter: searchParams.metadataFilter,
+          documentFilter: searchParams.documentFilter,
+          ids: searchParams.ids,
+          idContains: idFilterValue || undefined,
+        }}
+        filterLabel={hasActiveFilters ? 'All filtered' : 'All records'}
+        metadataKeys={filterFields}
+      />
+
+      <ReembedCollectionDialog
+        open={reembedRequest !== null}
+        onOpenChange={open => { if (!open) setReembedRequest(null) }}
+        collectionName={collectionName}
+        embeddingFunction={reembedRequest?.embeddingFunction ?? null}
+        onReembedded={handleClearOverride}
+      />
+
+      {crossConnectionPaste && (
+        <PasteDocumentsDialog
+          entry={crossConnectionPaste}
+          collectionName={collectionName}
+          onClose={() => setCrossConnectionPaste(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,34 @@
+import type { IdCollisionPolicy } from '@/types/electron'
+
+interface DraftConflictNoticeProps {
+  ids: string[]
+  disabled: boolean
+  onResolve: (onCollision: IdCollisionPolicy) => void
+}
+
+const MAX_LISTED_IDS = 3
+
+const buttonClassName = "h-6 px-2 text-[11px] rounded-md bg-black/[0.04] dark:bg-white/[0.06] hover:bg-black/[0.08] dark:hover:bg-white/[0.10] disabled:opacity-50 disabled:cursor-not-allowed"
+
+/**
+ * Draft IDs that already exist in the collection, with the choice of saving
+ * only the new ones or replacing the stored records.
+ */
+export function DraftConflictNotice({ ids, disabled, onResolve }: DraftConflictNoticeProps) {
+  const listed = ids.slice(0, MAX_LISTED_IDS).join(', ')
+  const more = ids.length - MAX_LISTED_IDS
+
+  return (
+    <div className="flex items-center gap-2" data-testid="draft-conflicts">
+      <span className="text-[11px] text-destructive truncate max-w-80" title={ids.join(', ')}>
+        Already exist{ids.length === 1 ? 's' : ''}: {listed}{more > 0 && ` and ${more} more`}
+      </span>
+      <button type="button" onClick={() => onResolve('skip')} disabled={disabled} className={buttonClassName}>
+        Skip Existing
+      </button>
+      <button type="button" onClick={() => onResolve('overwrite')} disabled={disabled} className={buttonClassName}>
+        Overwrite
+      </button>
+    </div>
+  )
+}
@@ -1,12 +1,45 @@
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
+import { useDocumentEmbeddingQuery } from '../../hooks/useChromaQueries'
 
 interface EmbeddingCellProps {
   embedding: number[] | null
+  // Where to fetch the vector from when it wasn't included in the row read
+  source?: { profileId: string; collectionName: string; documentId: string }
 }
 
-export default function EmbeddingCell({ embedding }: EmbeddingCellProps) {
+export default function EmbeddingCell({ embedding: rowEmbedding, source }: EmbeddingCellProps) {
   const [expanded, setExpanded] = useState(false)
+  const [requested, setRequested] = useState(false)
+  const embeddingQuery = useDocumentEmbeddingQuery(
+    source?.profileId ?? null,
+    source?.collectionName ?? '',
+    source?.documentId ?? '',
+    !rowEmbedding && requested
+  )
+  const embedding = rowEmbedding ?? embeddingQuery.data ?? null
+
+  if (!embedding && source && embeddingQuery.data === undefined) {
+    if (embeddingQuery.isError) {
+      return <span className="text-destructive text-xs">Failed to load embedding</span>
+    }
+    if (requested) {
+      return <span className="text-muted-foreground italic text-xs">Loading embedding…</span>
+    }
+    return (
+      <Button
+        onClick={(e) => {
+          e.stopPropagation()
+          setRequested(true)
+        }}
+        variant="link"
+        size="sm"
+        className="h-auto p-0 text-xs"
+      >
+        Show embedding
+      </Button>
+    )
+  }
 
   if (!embedding) {
     return <span className="text-muted-foreground italic text-xs">No embedding</span>
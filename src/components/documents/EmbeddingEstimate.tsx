@@ -0,0 +1,100 @@
+import type { EmbeddingInputStats } from '@/types/electron'
+import { WRITE_BATCH_SIZE } from '../../../electron/ipc-contract'
+import {
+  estimateEmbedding,
+  estimateUsage,
+  formatCost,
+  type EmbeddingFunctionRef,
+} from '../../constants/embedding-pricing'
+import { useEmbeddingUsageQuery } from '../../hooks/useChromaQueries'
+
+interface EmbeddingEstimateDetailsProps {
+  input: EmbeddingInputStats | undefined
+  isLoading: boolean
+  error: Error | null
+  embeddingFunction: EmbeddingFunctionRef
+  // The connection that will run the embedding function, for its usage so far
+  profileId: string
+}
+
+function functionLabel(ef: EmbeddingFunctionRef): string {
+  return ef.modelName ? `${ef.type}: ${ef.modelName}` : ef.type
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between">
+      <span>{label}</span>
+      <span className="font-medium text-foreground tabular-nums">{value}</span>
+    </div>
+  )
+}
+
+/**
+ * What an embedding job is expected to send and cost, shown before it starts,
+ * next to what this connection has already sent to the same function.
+ */
+export function EmbeddingEstimateDetails({
+  input,
+  isLoading,
+  error,
+  embeddingFunction,
+  profileId,
+}: EmbeddingEstimateDetailsProps) {
+  const { data: usage } = useEmbeddingUsageQuery(profileId)
+
+  if (isLoading) {
+    return <div className="text-muted-foreground">Measuring documents…</div>
+  }
+  if (error || !input) {
+    return <div className="text-destructive">{error?.message ?? 'Could not measure documents'}</div>
+  }
+
+  const estimate = estimateEmbedding(input, embeddingFunction)
+  const recorded = usage?.find(entry =>
+    entry.type === embeddingFunction.type && (entry.modelName ?? '') === (embeddingFunction.modelName ?? '')
+  )
+  const recordedEstimate = recorded ? estimateUsage(recorded) : null
+
+  return (
+    <div className="space-y-0.5 text-[11px] text-muted-foreground text-left" data-testid="embedding-estimate">
+      <Row label="Documents to embed" value={estimate.documents.toLocaleString()} />
+      <Row label="Estimated tokens" value={`≈${estimate.tokens.toLocaleString()}`} />
+      <Row label="Requests" value={estimate.requests.toLocaleString()} />
+      <Row label="Estimated cost" value={formatCost(estimate.costUsd)} />
+      {recorded && recordedEstimate && (
+        <div className="pt-1">
+          This connection has sent {recorded.characters.toLocaleString()} characters to{' '}
+          {functionLabel(embeddingFunction)} so far, an estimated ≈{recordedEstimate.tokens.toLocaleString()} tokens
+          ({formatCost(recordedEstimate.costUsd)}).
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** One-line estimate for documents drafted in the table, measured without a round trip. */
+export function DraftEmbeddingEstimate({
+  texts,
+  embeddingFunction,
+}: {
+  texts: string[]
+  embeddingFunction: EmbeddingFunctionRef
+}) {
+  const documents = texts.filter(text => text.trim()).length
+  const characters = texts.reduce((sum, text) => sum + text.trim().length, 0)
+  const estimate = estimateEmbedding(
+    { documents, characters, requests: Math.ceil(documents / WRITE_BATCH_SIZE) },
+    embeddingFunction
+  )
+
+  return (
+    <span
+      className="text-[11px] text-muted-foreground tabular-nums"
+      title={`Estimated for ${functionLabel(embeddingFunction)}`}
+      data-testid="draft-embedding-estimate"
+    >
+      ≈{estimate.tokens.toLocaleString()} tokens · {estimate.requests} request{estimate.requests !== 1 ? 's' : ''} · {formatCost(estimate.costUsd)}
+    </span>
+  )
+}
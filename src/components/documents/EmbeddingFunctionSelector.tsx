@@ -21,6 +21,8 @@ interface EmbeddingFunctionSelectorProps {
   onSave: (override: EmbeddingFunctionOverride) => Promise<void>
   onClear: () => Promise<void>
   embeddingDimension?: number | null
+  // Re-embed the whole collection with the selected function
+  onReembed?: (override: EmbeddingFunctionOverride) => void
 }
 
 // Tailwind class set for the toolbar chip, picked to match each provider's
@@ -89,6 +91,7 @@ export function EmbeddingFunctionSelector({
   onSave,
   onClear,
   embeddingDimension,
+  onReembed,
 }: EmbeddingFunctionSelectorProps) {
   const [open, setOpen] = useState(false)
   const [selectedId, setSelectedId] = useState(() => getSelectedEmbeddingId(currentOverride))
@@ -128,6 +131,12 @@ export function EmbeddingFunctionSelector({
     }
   }
 
+  const handleReembed = () => {
+    if (!selectedEF || urlError || !onReembed) return
+    setOpen(false)
+    onReembed(buildEmbeddingFunctionOverride(selectedEF, { url: customUrl }))
+  }
+
   const handleClear = async () => {
     setSaving(true)
     try {
@@ -269,6 +278,18 @@ export function EmbeddingFunctionSelector({
 
         {/* Footer */}
         <div className="flex justify-end gap-2 mt-3 pt-3">
+          {onReembed && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-[12px] px-2.5 mr-auto"
+              onClick={handleReembed}
+              disabled={!selectedEF || saving || Boolean(urlError)}
+              title="Re-embed every document in the collection with the selected function"
+            >
+              Re-embed…
+            </Button>
+          )}
           {currentOverride && (
             <Button
               variant="ghost"
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { rotatePoint } from '../../lib/embedding-map'
+
+export interface MapPoint {
+  id: string
+  color: string
+}
+
+interface EmbeddingMapCanvasProps {
+  points: MapPoint[]
+  // Normalized to [-1, 1]; one row per point, plus a trailing row for the query point
+  coordinates: number[][]
+  hasQueryPoint: boolean
+  neighborIds: Set<string>
+  selectedIds: Set<string>
+  hoveredId: string | null
+  onHover: (id: string | null) => void
+  onSelect: (id: string) => void
+}
+
+const PADDING = 16
+const HIT_RADIUS = 8
+// Pointer travel below this is a click, above it a rotation
+const DRAG_THRESHOLD = 4
+const QUERY_COLOR = '#FF3B30'
+
+interface ScreenPoint {
+  index: number
+  x: number
+  y: number
+  depth: number
+}
+
+/**
+ * Scatter plot of projected embeddings. 3D layouts use an orthographic view
+ * that rotates by dragging; points are drawn back to front.
+ */
+export function EmbeddingMapCanvas({
+  points,
+  coordinates,
+  hasQueryPoint,
+  neighborIds,
+  selectedIds,
+  hoveredId,
+  onHover,
+  onSelect,
+}: EmbeddingMapCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [rotation, setRotation] = useState({ yaw: 0.6, pitch: 0.4 })
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null)
+  const is3d = coordinates[0]?.length === 3
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const screenPoints = useMemo<ScreenPoint[]>(() => {
+    const scale = Math.max(0, Math.min(size.width, size.height) / 2 - PADDING)
+    const projected = coordinates.map((coordinate, index) => {
+      const [x, y, depth] = is3d ? rotatePoint(coordinate, rotation.yaw, rotation.pitch) : [coordinate[0], coordinate[1], 0]
+      return { index, x: size.width / 2 + x * scale, y: size.height / 2 - y * scale, depth }
+    })
+    return is3d ? projected.sort((a, b) => a.depth - b.depth) : projected
+  }, [coordinates, size, is3d, rotation])
+
+  const queryIndex = hasQueryPoint ? coordinates.length - 1 : -1
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || size.width === 0) return
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * ratio)
+    canvas.height = Math.round(size.height * ratio)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+    ctx.clearRect(0, 0, size.width, size.height)
+    // Follows the theme through the canvas' text colour
+    const foreground = getComputedStyle(canvas).color
+
+    const byIndex = new Map(screenPoints.map(point => [point.index, point]))
+    const query = byIndex.get(queryIndex)
+    const dimOthers = query !== undefined && neighborIds.size > 0
+
+    if (query) {
+      ctx.strokeStyle = QUERY_COLOR
+      ctx.globalAlpha = 0.5
+      ctx.lineWidth = 1
+      points.forEach((point, index) => {
+        const target = byIndex.get(index)
+        if (!target || !neighborIds.has(point.id)) return
+        ctx.beginPath()
+        ctx.moveTo(query.x, query.y)
+        ctx.lineTo(target.x, target.y)
+        ctx.stroke()
+      })
+    }
+
+    const emphasized: ScreenPoint[] = []
+    for (const screenPoint of screenPoints) {
+      const point = points[screenPoint.index]
+      if (!point) continue
+      if (point.id === hoveredId || selectedIds.has(point.id)) {
+        emphasized.push(screenPoint)
+        continue
+      }
+      const radius = is3d ? 2.5 + screenPoint.depth : 3
+      ctx.globalAlpha = dimOthers && !neighborIds.has(point.id) ? 0.25 : 0.85
+      ctx.fillStyle = point.color
+      ctx.beginPath()
+      ctx.arc(screenPoint.x, screenPoint.y, Math.max(1, radius), 0, Math.PI * 2)
+      ctx.fill()
+      if (neighborIds.has(point.id)) {
+        ctx.globalAlpha = 1
+        ctx.strokeStyle = QUERY_COLOR
+        ctx.lineWidth = 1.5
+        ctx.stroke()
+      }
+    }
+
+    // Selected and hovered points go on top so they are never hidden
+    ctx.globalAlpha = 1
+    for (const screenPoint of emphasized) {
+      const point = points[screenPoint.index]
+      const isHovered = point.id === hoveredId
+      ctx.fillStyle = point.color
+      ctx.beginPath()
+      ctx.arc(screenPoint.x, screenPoint.y, isHovered ? 6 : 5, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.strokeStyle = foreground
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+
+    if (query) {
+      const r = 7
+      ctx.fillStyle = QUERY_COLOR
+      ctx.beginPath()
+      ctx.moveTo(query.x, query.y - r)
+      ctx.lineTo(query.x + r, query.y)
+      ctx.lineTo(query.x, query.y + r)
+      ctx.lineTo(query.x - r, query.y)
+      ctx.closePath()
+      ctx.fill()
+      ctx.strokeStyle = foreground
+      ctx.lineWidth = 1.5
+      ctx.stroke()
+    }
+  }, [screenPoints, points, size, queryIndex, neighborIds, selectedIds, hoveredId, is3d])
+
+  // Nearest document point under the pointer; the query point isn't selectable
+  const hitTest = (x: number, y: number): string | null => {
+    let nearest: string | null = null
+    let best = HIT_RADIUS * HIT_RADIUS
+    for (const screenPoint of screenPoints) {
+      const point = points[screenPoint.index]
+      if (!point) continue
+      const distance = (screenPoint.x - x) ** 2 + (screenPoint.y - y) ** 2
+      if (distance <= best) {
+        best = distance
+        nearest = point.id
+      }
+    }
+    return nearest
+  }
+
+  const localPosition = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (drag && is3d) {
+      const dx = e.clientX - drag.x
+      const dy = e.clientY - drag.y
+      if (drag.moved || Math.abs(dx) + Math.abs(dy) > DRAG_THRESHOLD) {
+        drag.moved = true
+        drag.x = e.clientX
+        drag.y = e.clientY
+        setRotation(previous => ({
+          yaw: previous.yaw + dx * 0.01,
+          pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, previous.pitch + dy * 0.01)),
+        }))
+        return
+      }
+    }
+    const { x, y } = localPosition(e)
+    const id = hitTest(x, y)
+    if (id !== hoveredId) onHover(id)
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (drag?.moved) return
+    const { x, y } = localPosition(e)
+    const id = hitTest(x, y)
+    if (id) onSelect(id)
+  }
+
+  return (
+    <div ref={containerRef} className="relative h-full w-full overflow-hidden">
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 h-full w-full text-foreground ${
+          hoveredId ? 'cursor-pointer' : is3d ? 'cursor-grab' : 'cursor-default'
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => {
+          if (!dragRef.current && hoveredId) onHover(null)
+        }}
+        data-testid="embedding-map-canvas"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react'
+import type { DocumentRecord } from '@/types/electron'
+import { useDocumentEmbeddingQuery, useDocumentEmbeddingsQuery, useQueryEmbeddingQuery } from '../../hooks/useChromaQueries'
+import { useProjection } from '../../hooks/useProjection'
+import type { ProjectionMethod } from '../../lib/projection'
+import { buildColorScale, normalizeCoordinates } from '../../lib/embedding-map'
+import { EmbeddingMapCanvas, MapPoint } from './EmbeddingMapCanvas'
+import { formStyles } from '../../styles/form-controls'
+
+// Projection runs client-side, so the map covers the first rows only
+export const MAX_MAP_POINTS = 2000
+// Ranked results are sorted by distance; the closest few are highlighted
+const NEIGHBOR_COUNT = 10
+
+export interface MapQuery {
+  queryText?: string
+  queryEmbedding?: number[]
+  similarToId?: string | null
+}
+
+interface EmbeddingMapViewProps {
+  profileId: string | null
+  collectionName: string
+  documents: DocumentRecord[]
+  metadataFields: string[]
+  query: MapQuery
+  selectedDocumentIds: Set<string>
+  hoveredDocumentId: string | null
+  onHover: (id: string | null) => void
+  onSelect: (id: string) => void
+}
+
+const METHODS: { value: ProjectionMethod; label: string }[] = [
+  { value: 'pca', label: 'PCA' },
+  { value: 'umap', label: 'UMAP' },
+]
+
+export function EmbeddingMapView({
+  profileId,
+  collectionName,
+  documents,
+  metadataFields,
+  query,
+  selectedDocumentIds,
+  hoveredDocumentId,
+  onHover,
+  onSelect,
+}: EmbeddingMapViewProps) {
+  const [method, setMethod] = useState<ProjectionMethod>('pca')
+  const [components, setComponents] = useState<2 | 3>(2)
+  const [colorKey, setColorKey] = useState('')
+
+  const mapDocuments = useMemo(() => documents.slice(0, MAX_MAP_POINTS), [documents])
+  const ids = useMemo(() => mapDocuments.map(doc => doc.id), [mapDocuments])
+  const embeddingsQuery = useDocumentEmbeddingsQuery(profileId, collectionName, ids)
+
+  // The vector the results were ranked against, when there is one
+  const textEmbeddingQuery = useQueryEmbeddingQuery(
+    profileId,
+    collectionName,
+    query.queryText,
+    !query.queryEmbedding && !query.similarToId
+  )
+  const { data: similarSourceEmbedding } = useDocumentEmbeddingQuery(
+    profileId,
+    collectionName,
+    query.similarToId ?? '',
+    !!query.similarToId
+  )
+  const queryVector = query.similarToId
+    ? similarSourceEmbedding ?? null
+    : query.queryEmbedding ?? textEmbeddingQuery.data ?? null
+
+  const embeddings = embeddingsQuery.data
+  const mapped = useMemo(() => {
+    if (!embeddings) return null
+    const withEmbeddings = mapDocuments.filter(doc => embeddings.has(doc.id))
+    const vectors = withEmbeddings.map(doc => embeddings.get(doc.id)!)
+    const hasQueryPoint = !!queryVector && vectors.length > 0 && queryVector.length === vectors[0].length
+    if (hasQueryPoint) vectors.push(queryVector)
+    return { documents: withEmbeddings, vectors, hasQueryPoint }
+  }, [embeddings, mapDocuments, queryVector])
+
+  const projection = useProjection(mapped?.vectors ?? null, method, components)
+  const coordinates = useMemo(
+    () => (projection.coordinates ? normalizeCoordinates(projection.coordinates) : null),
+    [projection.coordinates]
+  )
+
+  const colorScale = useMemo(
+    () => buildColorScale((mapped?.documents ?? []).map(doc => (colorKey ? doc.metadata?.[colorKey] : undefined))),
+    [mapped, colorKey]
+  )
+  const points = useMemo<MapPoint[]>(
+    () => (mapped?.documents ?? []).map((doc, index) => ({ id: doc.id, color: colorScale.colors[index] })),
+    [mapped, colorScale]
+  )
+
+  const neighborIds = useMemo(() => {
+    if (!mapped?.hasQueryPoint) return new Set<string>()
+    return new Set(mapped.documents.slice(0, NEIGHBOR_COUNT).map(doc => doc.id))
+  }, [mapped])
+
+  // Coordinates lag a render behind the inputs while the worker runs
+  const coordinatesMatch = coordinates !== null && mapped !== null && coordinates.length === mapped.vectors.length
+
+  let status: string | null = null
+  if (embeddingsQuery.isLoading) status = 'Loading embeddings…'
+  else if (embeddingsQuery.error) status = `Failed to load embeddings: ${(embeddingsQuery.error as Error).message}`
+  else if (projection.error) status = `Projection failed: ${projection.error}`
+  else if (mapped && mapped.documents.length === 0) status = 'No embeddings to plot'
+  else if (!coordinatesMatch) status = 'Projecting…'
+
+  return (
+    <div className="flex flex-col h-full" data-testid="embedding-map">
+      <div className="flex-shrink-0 px-4 py-1.5 flex items-center gap-2">
+        <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Projection method">
+          {METHODS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={method === value}
+              onClick={() => setMethod(value)}
+              className={`${formStyles.button} rounded-none ${
+                method === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Dimensions">
+          {([2, 3] as const).map(value => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={components === value}
+              onClick={() => setComponents(value)}
+              className={`${formStyles.button} rounded-none ${
+                components === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+              }`}
+            >
+              {value}D
+            </button>
+          ))}
+        </div>
+        <select
+          aria-label="Color by"
+          value={colorKey}
+          onChange={(e) => setColorKey(e.target.value)}
+          className={formStyles.select}
+          style={formStyles.inputShadow}
+        >
+          <option value="">No coloring</option>
+          {metadataFields.map(field => (
+            <option key={field} value={field}>Color by {field}</option>
+          ))}
+        </select>
+        <span className="ml-auto text-[11px] text-muted-foreground">
+          {projection.computing && coordinatesMatch && 'Updating… · '}
+          {mapped && `${mapped.documents.length.toLocaleString()} points`}
+          {documents.length > MAX_MAP_POINTS && ` (first ${MAX_MAP_POINTS.toLocaleString()})`}
+        </span>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        {coordinatesMatch && mapped && (
+          <EmbeddingMapCanvas
+            points={points}
+            coordinates={coordinates}
+            hasQueryPoint={mapped.hasQueryPoint}
+            neighborIds={neighborIds}
+            selectedIds={selectedDocumentIds}
+            hoveredId={hoveredDocumentId}
+            onHover={onHover}
+            onSelect={onSelect}
+          />
+        )}
+        {status && (
+          <div className="absolute inset-0 flex items-center justify-center text-[11px] text-muted-foreground pointer-events-none">
+            {status}
+          </div>
+        )}
+        {colorScale.legend.length > 0 && (
+          <div className="absolute top-2 right-4 max-w-48 space-y-0.5 rounded-md bg-background/80 px-2 py-1.5 text-[11px]">
+            {colorScale.legend.map(entry => (
+              <div key={entry.label} className="flex items-center gap-1.5 min-w-0">
+                <span className="size-2 flex-shrink-0 rounded-full" style={{ background: entry.color }} />
+                <span className="truncate">{entry.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {hoveredDocumentId && (
+          <div className="absolute bottom-2 left-4 max-w-[60%] truncate text-[11px] font-mono text-muted-foreground pointer-events-none">
+            {hoveredDocumentId}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import type { ExportDocumentsResult, ExportFormat, ExportProgress, ExportSource } from '@/types/electron'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+interface ExportDocumentsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  collectionName: string
+  source: ExportSource
+  idContains?: string
+  // What is being exported, e.g. "All records" or "Current results"
+  scopeLabel: string
+}
+
+type Step =
+  | { name: 'options' }
+  | { name: 'exporting'; progress: ExportProgress }
+  | { name: 'done'; result: ExportDocumentsResult }
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'jsonl', label: 'JSONL' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'parquet', label: 'Parquet' },
+]
+
+/**
+ * Export a collection or the current result set. The main process asks where
+ * to save, then streams pages to disk and reports progress here.
+ */
+export function ExportDocumentsDialog({ open, onOpenChange, collectionName, source, idContains, scopeLabel }: ExportDocumentsDialogProps) {
+  const { currentProfile } = useChromaDB()
+  const [format, setFormat] = useState<ExportFormat>('jsonl')
+  const [includeEmbeddings, setIncludeEmbeddings] = useState(false)
+  const [includeDistances, setIncludeDistances] = useState(true)
+  const [step, setStep] = useState<Step>({ name: 'options' })
+  const [error, setError] = useState<string | null>(null)
+  const isRanked = source.kind !== 'filter'
+
+  useEffect(() => {
+    if (open) {
+      setStep({ name: 'options' })
+      setError(null)
+    }
+  }, [open])
+
+  const handleExport = async () => {
+    if (!currentProfile) return
+    const profileId = currentProfile.id
+    setError(null)
+    let unsubscribe = () => {}
+    try {
+      const target = await window.electronAPI.chromadb.chooseExportFile(collectionName, format)
+      if (!target) return
+
+      setStep({
+        name: 'exporting',
+        progress: { phase: 'exporting', processedRows: 0, totalRows: null, message: 'Starting export...' },
+      })
+      unsubscribe = window.electronAPI.chromadb.onExportProgress(progress => {
+        setStep(current => (current.name === 'exporting' ? { name: 'exporting', progress } : current))
+      })
+      const result = await window.electronAPI.chromadb.exportDocuments(profileId, {
+        collectionName,
+        fileToken: target.fileToken,
+        source,
+        idContains,
+        includeEmbeddings,
+        includeDistances: isRanked && includeDistances,
+      })
+      setStep({ name: 'done', result })
+    } catch (err) {
+      setStep({ name: 'options' })
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      unsubscribe()
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelExport(currentProfile.id)
+    } catch (err) {
+      console.error('Failed to cancel export:', err)
+    }
+  }
+
+  const exporting = step.name === 'exporting'
+  const progress = step.name === 'exporting' ? step.progress : null
+  const percentage = progress?.totalRows ? Math.round((progress.processedRows / progress.totalRows) * 100) : null
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(next) => { if (!exporting) onOpenChange(next) }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[340px] rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="export-documents-dialog"
+        >
+          <div className="px-5 pt-5 pb-4 space-y-3 text-[11px]">
+            <div className="text-center">
+              <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+                Export {collectionName}
+              </DialogPrimitive.Title>
+              <DialogPrimitive.Description className="mt-1 text-muted-foreground">
+                {scopeLabel}
+              </DialogPrimitive.Description>
+            </div>
+
+            {step.name === 'options' && (
+              <>
+                <div className="flex justify-center">
+                  <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Export format">
+                    {FORMATS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        role="radio"
+                        aria-checked={format === value}
+                        onClick={() => setFormat(value)}
+                        className={`${formStyles.button} rounded-none ${
+                          format === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1.5">
+                  <label className="flex items-center gap-1.5 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeEmbeddings}
+                      onChange={(e) => setIncludeEmbeddings(e.target.checked)}
+                      className="rounded border-input size-3.5"
+                    />
+                    <span className="text-foreground">Include embeddings</span>
+                  </label>
+                  {isRanked && (
+                    <label className="flex items-center gap-1.5 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={includeDistances}
+                        onChange={(e) => setIncludeDistances(e.target.checked)}
+                        className="rounded border-input size-3.5"
+                      />
+                      <span className="text-foreground">Include distances</span>
+                    </label>
+                  )}
+                </div>
+                {error && <div className="text-destructive">{error}</div>}
+              </>
+            )}
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  {percentage !== null && <span>{percentage}%</span>}
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className={cn('h-full bg-primary rounded-full transition-all duration-300', percentage === null && 'animate-pulse')}
+                    style={{ width: `${percentage ?? 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {step.name === 'done' && (
+              <div className="text-center" data-testid="export-summary">
+                {step.result.success ? (
+                  <>
+                    Exported <span className="font-medium text-foreground">{step.result.exportedRows.toLocaleString()}</span> rows to{' '}
+                    <span className="font-medium text-foreground">{step.result.fileName}</span>
+                  </>
+                ) : (
+                  <span className="text-destructive">{step.result.error}</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            {step.name === 'options' && (
+              <>
+                <button type="button" onClick={() => onOpenChange(false)} className={cn(formStyles.dialogButton, 'flex-1')}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="start-export"
+                >
+                  Export…
+                </button>
+              </>
+            )}
+            {exporting && (
+              <button type="button" onClick={handleCancel} className={cn(formStyles.dialogButton, 'flex-1')}>
+                Cancel
+              </button>
+            )}
+            {step.name === 'done' && (
+              <button type="button" onClick={() => onOpenChange(false)} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+                Close
+              </button>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
@@ -0,0 +1,448 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import { useQueryClient } from '@tanstack/react-query'
+import type {
+  IdCollisionPolicy,
+  ImportColumnMapping,
+  ImportColumnType,
+  ImportDocumentsResult,
+  ImportFilePreview,
+  ImportProgress,
+} from '@/types/electron'
+import { mapImportRow, suggestImportMapping } from '../../../electron/import-mapping'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { useConfirmProtectedAction } from '../../context/ProtectedActionContext'
+import { invalidateCollectionDocuments } from '../../hooks/useChromaQueries'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+interface ImportDocumentsDialogProps {
+  collectionName: string
+}
+
+type ColumnRole = 'id' | 'document' | 'embedding' | 'metadata' | 'skip'
+
+interface ColumnSetting {
+  role: ColumnRole
+  key: string
+  type: ImportColumnType
+}
+
+type Step =
+  | { name: 'mapping' }
+  | { name: 'importing'; progress: ImportProgress }
+  | { name: 'done'; result: ImportDocumentsResult }
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  id: 'ID',
+  document: 'Document',
+  embedding: 'Embedding',
+  metadata: 'Metadata',
+  skip: 'Skip',
+}
+// Roles at most one column can have
+const SINGLE_ROLES: ColumnRole[] = ['id', 'document', 'embedding']
+const COLUMN_TYPES: ImportColumnType[] = ['string', 'number', 'boolean', 'array']
+const COLLISION_POLICIES: { value: IdCollisionPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep stored records; rows with an existing ID are skipped' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Rows replace stored records with the same ID' },
+  { value: 'fail', label: 'Fail', description: 'Check every ID first and import nothing if any exists' },
+]
+const PREVIEW_RECORD_COUNT = 5
+
+function settingsFromMapping(columns: string[], mapping: ImportColumnMapping): Record<string, ColumnSetting> {
+  const settings: Record<string, ColumnSetting> = {}
+  for (const column of columns) {
+    const metadata = mapping.metadataColumns.find(entry => entry.column === column)
+    let role: ColumnRole = metadata ? 'metadata' : 'skip'
+    if (column === mapping.idColumn) role = 'id'
+    else if (column === mapping.documentColumn) role = 'document'
+    else if (column === mapping.embeddingColumn) role = 'embedding'
+    settings[column] = { role, key: metadata?.key ?? column, type: metadata?.type ?? 'string' }
+  }
+  return settings
+}
+
+function mappingFromSettings(columns: string[], settings: Record<string, ColumnSetting>): ImportColumnMapping {
+  const withRole = (role: ColumnRole) => columns.find(column => settings[column].role === role) ?? null
+  return {
+    idColumn: withRole('id'),
+    documentColumn: withRole('document'),
+    embeddingColumn: withRole('embedding'),
+    metadataColumns: columns
+      .filter(column => settings[column].role === 'metadata')
+      .map(column => ({ column, key: settings[column].key.trim(), type: settings[column].type })),
+  }
+}
+
+function validateMapping(mapping: ImportColumnMapping): string | null {
+  if (!mapping.documentColumn && !mapping.embeddingColumn) {
+    return 'Map a document column, an embedding column, or both'
+  }
+  const keys = mapping.metadataColumns.map(entry => entry.key)
+  if (keys.some(key => key === '')) return 'Every metadata column needs a key'
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index)
+  return duplicate ? `Metadata key "${duplicate}" is used twice` : null
+}
+
+function sampleValue(preview: ImportFilePreview, column: string): string {
+  const value = preview.rows.map(row => row[column]).find(cell => cell !== null && cell !== undefined && cell !== '')
+  if (value === undefined) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * File > Import: pick a CSV, TSV, JSONL or JSON file, map its columns onto
+ * IDs, documents, metadata and embeddings, preview the records, then write
+ * them in batches with progress.
+ */
+export function ImportDocumentsDialog({ collectionName }: ImportDocumentsDialogProps) {
+  const { currentProfile } = useChromaDB()
+  const confirmProtectedAction = useConfirmProtectedAction()
+  const queryClient = useQueryClient()
+  const [preview, setPreview] = useState<ImportFilePreview | null>(null)
+  const [settings, setSettings] = useState<Record<string, ColumnSetting>>({})
+  const [onCollision, setOnCollision] = useState<IdCollisionPolicy>('skip')
+  const [step, setStep] = useState<Step>({ name: 'mapping' })
+  const [openError, setOpenError] = useState<string | null>(null)
+
+  const chooseFile = useCallback(async () => {
+    try {
+      const file = await window.electronAPI.chromadb.openImportFile()
+      if (!file) return
+      setPreview(file)
+      setSettings(settingsFromMapping(file.columns, suggestImportMapping(file.columns, file.rows)))
+      setOnCollision('skip')
+      setStep({ name: 'mapping' })
+      setOpenError(null)
+    } catch (error) {
+      setOpenError(error instanceof Error ? error.message : 'Failed to read file')
+    }
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('menu:import-documents', chooseFile)
+    return () => window.removeEventListener('menu:import-documents', chooseFile)
+  }, [chooseFile])
+
+  const mapping = useMemo(
+    () => (preview ? mappingFromSettings(preview.columns, settings) : null),
+    [preview, settings]
+  )
+  const mappingError = mapping ? validateMapping(mapping) : null
+  const previewRecords = useMemo(() => {
+    if (!preview || !mapping || mappingError) return []
+    return preview.rows.slice(0, PREVIEW_RECORD_COUNT).map(row => {
+      try {
+        return { record: mapImportRow(row, mapping), error: null }
+      } catch (error) {
+        return { record: null, error: error instanceof Error ? error.message : String(error) }
+      }
+    })
+  }, [preview, mapping, mappingError])
+
+  const updateSetting = (column: string, update: Partial<ColumnSetting>) => {
+    setSettings(prev => {
+      const next = { ...prev, [column]: { ...prev[column], ...update } }
+      // Taking a single role from another column turns that one into metadata
+      if (update.role && SINGLE_ROLES.includes(update.role)) {
+        for (const other of Object.keys(next)) {
+          if (other !== column && next[other].role === update.role) next[other] = { ...next[other], role: 'metadata' }
+        }
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (!currentProfile || !preview || !mapping || mappingError) return
+    if (onCollision === 'overwrite' &&
+      !(await confirmProtectedAction({ title: 'Import and Overwrite', collectionName, confirmLabel: 'Import' }))) return
+    const profileId = currentProfile.id
+    setStep({
+      name: 'importing',
+      progress: { phase: 'importing', totalRows: preview.totalRows, processedRows: 0, message: 'Starting import...' },
+    })
+    const unsubscribe = window.electronAPI.chromadb.onImportProgress(progress => {
+      setStep(current => (current.name === 'importing' ? { name: 'importing', progress } : current))
+    })
+    try {
+      const result = await window.electronAPI.chromadb.importDocuments(profileId, {
+        collectionName,
+        fileToken: preview.fileToken,
+        mapping,
+        onCollision,
+      })
+      setStep({ name: 'done', result })
+    } catch (error) {
+      setStep({
+        name: 'done',
+        result: {
+          success: false,
+          totalRows: preview.totalRows,
+          importedRows: 0,
+          skippedRows: 0,
+          failedRows: 0,
+          errors: [],
+          error: error instanceof Error ? error.message : 'Import failed',
+        },
+      })
+    } finally {
+      unsubscribe()
+      invalidateCollectionDocuments(queryClient, profileId, collectionName)
+    }
+  }
+
+  const handleCancelImport = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelImport(currentProfile.id)
+    } catch (error) {
+      console.error('Failed to cancel import:', error)
+    }
+  }
+
+  const close = () => {
+    setPreview(null)
+    setOpenError(null)
+    setStep({ name: 'mapping' })
+  }
+
+  const open = !!preview || !!openError
+  const importing = step.name === 'importing'
+
+  return (
+    <DialogPrimitive.Root open={open} onOpenChange={(next) => { if (!next && !importing) close() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[720px] max-w-[calc(100vw-2rem)] max-h-[85vh] flex flex-col rounded-xl",
+            "bg-background/95 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+          )}
+          data-testid="import-documents-dialog"
+        >
+          <div className="px-5 pt-4 pb-2 flex-shrink-0">
+            <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+              Import into {collectionName}
+            </DialogPrimitive.Title>
+            <DialogPrimitive.Description className="mt-1 text-[11px] text-muted-foreground">
+              {preview
+                ? `${preview.fileName} · ${preview.format.toUpperCase()} · ${preview.totalRows.toLocaleString()} rows`
+                : 'The file could not be read'}
+            </DialogPrimitive.Description>
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-auto px-5 pb-3 space-y-3 text-[11px]">
+            {openError && (
+              <div className="px-2 py-1.5 text-destructive bg-destructive/10 rounded-md">{openError}</div>
+            )}
+
+            {preview && step.name === 'mapping' && (
+              <>
+                <table className="w-full" data-testid="import-mapping-table">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1 pr-2 font-medium">Column</th>
+                      <th className="py-1 pr-2 font-medium">Sample</th>
+                      <th className="py-1 pr-2 font-medium">Import as</th>
+                      <th className="py-1 pr-2 font-medium">Metadata key</th>
+                      <th className="py-1 font-medium">Type</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.columns.map(column => {
+                      const setting = settings[column]
+                      return (
+                        <tr key={column}>
+                          <td className="py-0.5 pr-2 font-mono max-w-32 truncate" title={column}>{column}</td>
+                          <td className="py-0.5 pr-2 max-w-40 truncate text-muted-foreground" title={sampleValue(preview, column)}>
+                            {sampleValue(preview, column)}
+                          </td>
+                          <td className="py-0.5 pr-2">
+                            <select
+                              aria-label={`Import ${column} as`}
+                              value={setting.role}
+                              onChange={(e) => updateSetting(column, { role: e.target.value as ColumnRole })}
+                              className={`w-28 ${formStyles.select}`}
+                              style={formStyles.inputShadow}
+                            >
+                              {(Object.keys(ROLE_LABELS) as ColumnRole[]).map(role => (
+                                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="py-0.5 pr-2">
+                            {setting.role === 'metadata' && (
+                              <input
+                                aria-label={`Metadata key for ${column}`}
+                                value={setting.key}
+                                onChange={(e) => updateSetting(column, { key: e.target.value })}
+                                className={`w-36 ${formStyles.input}`}
+                                style={formStyles.inputShadow}
+                              />
+                            )}
+                          </td>
+                          <td className="py-0.5">
+                            {setting.role === 'metadata' && (
+                              <select
+                                aria-label={`Type for ${column}`}
+                                value={setting.type}
+                                onChange={(e) => updateSetting(column, { type: e.target.value as ImportColumnType })}
+                                className={`w-24 ${formStyles.select}`}
+                                style={formStyles.inputShadow}
+                              >
+                                {COLUMN_TYPES.map(type => (
+                                  <option key={type} value={type}>{type}</option>
+                                ))}
+                              </select>
+                            )}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+
+                <div className="text-muted-foreground">
+                  {!mapping?.idColumn && 'No ID column: every row gets a generated UUID. '}
+                  {!mapping?.embeddingColumn && mapping?.documentColumn && 'Documents are embedded with the collection\'s embedding function.'}
+                </div>
+
+                <section className="space-y-1">
+                  <h3 className="font-medium text-muted-foreground">Preview</h3>
+                  {mappingError ? (
+                    <div className="text-destructive">{mappingError}</div>
+                  ) : (
+                    <ul className="divide-y divide-border rounded-md bg-black/[0.02] dark:bg-white/[0.03]" data-testid="import-preview">
+                      {previewRecords.map(({ record, error }, index) => (
+                        <li key={index} className="px-2 py-1 font-mono truncate">
+                          {record ? (
+                            <>
+                              <span className="text-foreground">{mapping?.idColumn ? record.id : '(generated id)'}</span>
+                              {record.document !== undefined && <span className="text-muted-foreground"> · {record.document.slice(0, 80)}</span>}
+                              {record.metadata && <span className="text-muted-foreground"> · {JSON.stringify(record.metadata)}</span>}
+                              {record.embedding && <span className="text-muted-foreground"> · {record.embedding.length}d vector</span>}
+                            </>
+                          ) : (
+                            <span className="text-destructive">Row {index + 1}: {error}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                <section className="space-y-1">
+                  <h3 className="font-medium text-muted-foreground">When an ID already exists</h3>
+                  <div className="flex rounded-md overflow-hidden w-fit" role="radiogroup" aria-label="ID collision policy">
+                    {COLLISION_POLICIES.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        role="radio"
+                        aria-checked={onCollision === value}
+                        onClick={() => setOnCollision(value)}
+                        className={`${formStyles.button} rounded-none ${
+                          onCollision === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {COLLISION_POLICIES.find(policy => policy.value === onCollision)?.description}
+                  </div>
+                </section>
+              </>
+            )}
+
+            {step.name === 'importing' && (
+              <ImportProgressBar progress={step.progress} />
+            )}
+
+            {step.name === 'done' && <ImportSummary result={step.result} />}
+          </div>
+
+          <div className="px-5 pb-4 pt-1 flex justify-end gap-2 flex-shrink-0">
+            {step.name === 'mapping' && preview && (
+              <>
+                <button type="button" onClick={close} className={formStyles.dialogButton}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={!!mappingError || preview.totalRows === 0}
+                  className={formStyles.dialogPrimaryButton}
+                  data-testid="start-import"
+                >
+                  Import {preview.totalRows.toLocaleString()} rows
+                </button>
+              </>
+            )}
+            {importing && (
+              <button type="button" onClick={handleCancelImport} className={formStyles.dialogButton}>
+                Cancel
+              </button>
+            )}
+            {(step.name === 'done' || (openError && !preview)) && (
+              <button type="button" onClick={close} className={formStyles.dialogPrimaryButton}>
+                Close
+              </button>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
+
+function ImportProgressBar({ progress }: { progress: ImportProgress }) {
+  const percentage = progress.totalRows > 0 ? Math.round((progress.processedRows / progress.totalRows) * 100) : 0
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{progress.message}</span>
+        <span>{percentage}%</span>
+      </div>
+      <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+        <div className="h-full bg-primary rounded-full transition-all duration-300" style={{ width: `${percentage}%` }} />
+      </div>
+    </div>
+  )
+}
+
+function ImportSummary({ result }: { result: ImportDocumentsResult }) {
+  return (
+    <div className="space-y-2" data-testid="import-summary">
+      {result.error && (
+        <div className="px-2 py-1.5 text-destructive bg-destructive/10 rounded-md">{result.error}</div>
+      )}
+      <div className="text-foreground">
+        Imported <span className="font-medium">{result.importedRows.toLocaleString()}</span> of{' '}
+        {result.totalRows.toLocaleString()} rows
+        {result.skippedRows > 0 && `, skipped ${result.skippedRows.toLocaleString()} with existing IDs`}
+        {result.failedRows > 0 && `, ${result.failedRows.toLocaleString()} failed`}
+      </div>
+      {result.errors.length > 0 && (
+        <ul className="max-h-40 overflow-auto rounded-md bg-black/[0.02] dark:bg-white/[0.03] px-2 py-1 font-mono text-destructive">
+          {result.errors.map((message, index) => (
+            <li key={index} className="truncate" title={message}>{message}</li>
+          ))}
+          {result.failedRows > result.errors.length && (
+            <li className="text-muted-foreground">…and {result.failedRows - result.errors.length} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
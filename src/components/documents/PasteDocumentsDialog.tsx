@@ -0,0 +1,216 @@
+import { useState } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import { useQueryClient } from '@tanstack/react-query'
+import type { ClipboardEntry, CopyDocumentsResult } from '@/types/electron'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { invalidateCollectionDocuments } from '../../hooks/useChromaQueries'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+interface PasteDocumentsDialogProps {
+  entry: Extract<ClipboardEntry, { type: 'documents' }>
+  collectionName: string
+  onClose: () => void
+}
+
+type Step =
+  | { name: 'confirm' }
+  | { name: 'copying'; progress: CopyProgress }
+  | { name: 'done'; result: CopyDocumentsResult }
+
+const EMBEDDING_MODES = [
+  { value: false, label: 'Preserve' },
+  { value: true, label: 'Regenerate' },
+] as const
+
+/**
+ * Paste records copied in another connection's window. Unlike a paste within
+ * one connection, which opens the records as drafts, this copies them
+ * straight from the source collection, embeddings included unless the user
+ * asks to regenerate them.
+ */
+export function PasteDocumentsDialog({ entry, collectionName, onClose }: PasteDocumentsDialogProps) {
+  const { currentProfile } = useChromaDB()
+  const queryClient = useQueryClient()
+  const [regenerateEmbeddings, setRegenerateEmbeddings] = useState(false)
+  const [step, setStep] = useState<Step>({ name: 'confirm' })
+  const totalDocuments = entry.documents.length
+
+  const handlePaste = async () => {
+    if (!currentProfile) return
+    const profileId = currentProfile.id
+    setStep({
+      name: 'copying',
+      progress: { phase: 'copying', totalDocuments, processedDocuments: 0, message: 'Reading documents...' },
+    })
+    const unsubscribe = window.electronAPI.chromadb.onCopyProgress(progress => {
+      setStep(current => (current.name === 'copying' ? { name: 'copying', progress } : current))
+    })
+    try {
+      const result = await window.electronAPI.chromadb.copyDocuments(profileId, {
+        sourceProfileId: entry.sourceProfileId,
+        sourceCollectionName: entry.sourceCollectionName,
+        ids: entry.documents.map(doc => doc.id),
+        targetCollectionName: collectionName,
+        regenerateEmbeddings,
+      })
+      setStep({ name: 'done', result })
+    } catch (error) {
+      setStep({
+        name: 'done',
+        result: {
+          success: false,
+          totalDocuments,
+          copiedDocuments: 0,
+          renamedDocuments: 0,
+          copiedIds: [],
+          error: error instanceof Error ? error.message : 'Paste failed',
+        },
+      })
+    } finally {
+      unsubscribe()
+      // A cancelled or failed paste may still have added some records
+      invalidateCollectionDocuments(queryClient, profileId, collectionName)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!currentProfile) return
+    try {
+      await window.electronAPI.chromadb.cancelCopy(currentProfile.id)
+    } catch (error) {
+      console.error('Failed to cancel paste:', error)
+    }
+  }
+
+  const copying = step.name === 'copying'
+  const progress = step.name === 'copying' ? step.progress : null
+  const percentage = progress && progress.totalDocuments > 0
+    ? Math.round((progress.processedDocuments / progress.totalDocuments) * 100)
+    : 0
+
+  return (
+    <DialogPrimitive.Root open onOpenChange={(next) => { if (!next && !copying) onClose() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[340px] rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+          data-testid="paste-documents-dialog"
+        >
+          <div className="px-5 pt-5 pb-4 space-y-3 text-[11px]">
+            <div className="text-center">
+              <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">
+                Paste {totalDocuments.toLocaleString()} {totalDocuments === 1 ? 'Document' : 'Documents'}
+              </DialogPrimitive.Title>
+              <DialogPrimitive.Description className="mt-1 text-muted-foreground leading-[1.4]">
+                From <span className="font-medium text-foreground">{entry.sourceCollectionName}</span> on{' '}
+                <span className="font-medium text-foreground">{entry.sourceProfileName}</span> into{' '}
+                <span className="font-medium text-foreground">{collectionName}</span>
+              </DialogPrimitive.Description>
+            </div>
+
+            {step.name === 'confirm' && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Embeddings</span>
+                  <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Embeddings">
+                    {EMBEDDING_MODES.map(({ value, label }) => (
+                      <button
+                        key={label}
+                        type="button"
+                        role="radio"
+                        aria-checked={regenerateEmbeddings === value}
+                        onClick={() => setRegenerateEmbeddings(value)}
+                        className={`${formStyles.button} rounded-none ${
+                          regenerateEmbeddings === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="text-muted-foreground">
+                  {regenerateEmbeddings
+                    ? `Documents are embedded again with ${collectionName}'s embedding function.`
+                    : 'The source vectors are copied as they are, so both collections must use the same model.'}
+                  {' '}IDs already in {collectionName} get a "-copy" suffix.
+                </div>
+              </div>
+            )}
+
+            {progress && (
+              <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground mb-1">
+                  <span>{progress.message}</span>
+                  <span>{percentage}%</span>
+                </div>
+                <div className="w-full h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary rounded-full transition-all duration-300"
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {step.name === 'done' && (
+              <div className="text-center" data-testid="paste-summary">
+                {step.result.success ? (
+                  <>
+                    Pasted <span className="font-medium text-foreground">{step.result.copiedDocuments.toLocaleString()}</span> documents
+                    {step.result.renamedDocuments > 0 && `, ${step.result.renamedDocuments.toLocaleString()} under a new ID`}
+                  </>
+                ) : (
+                  <span className="text-destructive">
+                    {step.result.error}
+                    {step.result.copiedDocuments > 0 && ` (${step.result.copiedDocuments.toLocaleString()} pasted before it stopped)`}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="px-4 pb-4 flex gap-2">
+            {step.name === 'confirm' && (
+              <>
+                <button type="button" onClick={onClose} className={cn(formStyles.dialogButton, 'flex-1')}>
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handlePaste}
+                  className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+                  data-testid="start-paste"
+                >
+                  Paste
+                </button>
+              </>
+            )}
+            {copying && (
+              <button type="button" onClick={handleCancel} className={cn(formStyles.dialogButton, 'flex-1')}>
+                Cancel
+              </button>
+            )}
+            {step.name === 'done' && (
+              <button type="button" onClick={onClose} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+                Close
+              </button>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
@@ -1,11 +1,12 @@
 import { FilterChip } from './FilterChip'
-import { DocumentFilters } from '../../types/filters'
+import { DocumentFilters, getDocumentOperatorLabel } from '../../types/filters'
 import { Button } from '@/components/ui/button'
 
 interface ActiveFiltersDisplayProps {
   filters: DocumentFilters
   onRemoveQueryText: () => void
   onRemoveMetadataFilter: (id: string) => void
+  onRemoveDocumentFilter: (id: string) => void
   onClearAll: () => void
 }
 
@@ -13,17 +14,19 @@ export function ActiveFiltersDisplay({
   filters,
   onRemoveQueryText,
   onRemoveMetadataFilter,
+  onRemoveDocumentFilter,
   onClearAll,
 }: ActiveFiltersDisplayProps) {
   const hasQueryText = filters.queryText.trim() !== ''
   const hasMetadataFilters = filters.metadataFilters.length > 0
-  const hasAnyFilters = hasQueryText || hasMetadataFilters
+  const hasDocumentFilters = filters.documentFilters.length > 0
+  const hasAnyFilters = hasQueryText || hasMetadataFilters || hasDocumentFilters
 
   if (!hasAnyFilters) {
     return null
   }
 
-  const totalFilters = (hasQueryText ? 1 : 0) + filters.metadataFilters.length
+  const totalFilters = (hasQueryText ? 1 : 0) + filters.metadataFilters.length + filters.documentFilters.length
 
   return (
     <div className="mt-4">
@@ -56,6 +59,14 @@ export function ActiveFiltersDisplay({
             onRemove={() => onRemoveMetadataFilter(filter.id)}
           />
         ))}
+        {filters.documentFilters.map((filter) => (
+          <FilterChip
+            key={filter.id}
+            type="document"
+            label={`text ${getDocumentOperatorLabel(filter.operator)} "${filter.value}"`}
+            onRemove={() => onRemoveDocumentFilter(filter.id)}
+          />
+        ))}
       </div>
     </div>
   )
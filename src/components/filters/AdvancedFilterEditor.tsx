@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { AdvancedClauses, parseWhereDocumentJson, parseWhereJson } from '../../types/filters'
+import { JsonClauseEditor } from './JsonClauseEditor'
+import { formStyles } from '../../styles/form-controls'
+
+interface AdvancedFilterEditorProps {
+  clauses: AdvancedClauses
+  onApply: (clauses: AdvancedClauses) => void
+  // Shown when switching back to the visual builder failed
+  conversionError?: string | null
+}
+
+function toEditorText(clause: object | undefined): string {
+  return clause ? JSON.stringify(clause, null, 2) : ''
+}
+
+export function AdvancedFilterEditor({ clauses, onApply, conversionError }: AdvancedFilterEditorProps) {
+  const [whereText, setWhereText] = useState(() => toEditorText(clauses.where))
+  const [whereDocumentText, setWhereDocumentText] = useState(() => toEditorText(clauses.whereDocument))
+
+  const where = parseWhereJson(whereText)
+  const whereDocument = parseWhereDocumentJson(whereDocumentText)
+  const isValid = where.error === null && whereDocument.error === null
+  const isDirty =
+    whereText !== toEditorText(clauses.where) ||
+    whereDocumentText !== toEditorText(clauses.whereDocument)
+
+  const handleApply = () => {
+    if (!isValid) return
+    onApply({ where: where.value, whereDocument: whereDocument.value })
+    // Normalise the text so the editor reflects exactly what was applied
+    setWhereText(toEditorText(where.value))
+    setWhereDocumentText(toEditorText(whereDocument.value))
+  }
+
+  return (
+    <div className="space-y-2" data-testid="advanced-filter-editor">
+      <div className="flex gap-2">
+        <JsonClauseEditor
+          label="where"
+          value={whereText}
+          onChange={setWhereText}
+          onSubmit={handleApply}
+          placeholder={'{ "year": { "$gte": 2020 } }'}
+          error={where.error}
+          testId="advanced-where-input"
+        />
+        <JsonClauseEditor
+          label="where_document"
+          value={whereDocumentText}
+          onChange={setWhereDocumentText}
+          onSubmit={handleApply}
+          placeholder={'{ "$contains": "chroma" }'}
+          error={whereDocument.error}
+          testId="advanced-where-document-input"
+        />
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={!isValid || !isDirty}
+          className={`${formStyles.button} disabled:opacity-50`}
+          data-testid="advanced-apply-button"
+        >
+          Apply
+        </button>
+        <span className="text-[11px] text-muted-foreground">⌘↵ to apply · leave empty for no filter</span>
+      </div>
+
+      {conversionError && (
+        <div className="px-2 py-1.5 text-[11px] text-destructive bg-destructive/10 rounded-md">
+          {conversionError}
+        </div>
+      )}
+    </div>
+  )
+}
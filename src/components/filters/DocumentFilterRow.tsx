@@ -0,0 +1,95 @@
+import {
+  QueryDocumentFilter,
+  DocumentFilterOperator,
+  getDocumentOperatorLabel,
+} from '../../types/filters'
+import { formStyles } from '../../styles/form-controls'
+
+const DOCUMENT_OPERATORS: DocumentFilterOperator[] = ['$contains', '$not_contains', '$regex']
+
+interface DocumentFilterRowProps {
+  filter: QueryDocumentFilter
+  onChange: (id: string, updates: Partial<QueryDocumentFilter>) => void
+  onRemove: (id: string) => void
+  onAdd?: () => void
+  onSearch?: () => void
+  isLast?: boolean
+}
+
+const inputClassName = formStyles.input
+const selectClassName = formStyles.select
+const buttonClassName = formStyles.iconButton
+const inputStyle = formStyles.inputShadow
+
+export function DocumentFilterRow({
+  filter,
+  onChange,
+  onRemove,
+  onAdd,
+  onSearch,
+  isLast = false,
+}: DocumentFilterRowProps) {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && onSearch) {
+      e.preventDefault()
+      onSearch()
+    }
+  }
+
+  return (
+    <div className="flex gap-2 items-center" data-testid="document-filter-row">
+      <span className="w-28 px-2 text-[11px] text-muted-foreground">Document text</span>
+
+      <select
+        aria-label="Document filter operator"
+        value={filter.operator}
+        onChange={(e) => onChange(filter.id, { operator: e.target.value as DocumentFilterOperator })}
+        className={`w-28 ${selectClassName}`}
+        style={inputStyle}
+        data-testid="document-filter-operator-select"
+      >
+        {DOCUMENT_OPERATORS.map((op) => (
+          <option key={op} value={op}>
+            {getDocumentOperatorLabel(op)}
+          </option>
+        ))}
+      </select>
+
+      <input
+        type="text"
+        aria-label="Document filter value"
+        value={filter.value}
+        onChange={(e) => onChange(filter.id, { value: e.target.value })}
+        onKeyDown={handleKeyDown}
+        placeholder={filter.operator === '$regex' ? 'regular expression' : 'text'}
+        className={`flex-1 min-w-[100px] ${inputClassName}`}
+        style={inputStyle}
+        data-testid="document-filter-value-input"
+      />
+
+      <button
+        type="button"
+        aria-label="Remove document filter"
+        onClick={() => onRemove(filter.id)}
+        className={`${buttonClassName} text-muted-foreground hover:text-destructive`}
+        title="Remove filter"
+        data-testid="remove-document-filter-button"
+      >
+        -
+      </button>
+
+      {isLast && onAdd && (
+        <button
+          type="button"
+          aria-label="Add document filter"
+          onClick={onAdd}
+          className={`${buttonClassName} text-muted-foreground`}
+          title="Add text filter"
+          data-testid="add-document-filter-row-button"
+        >
+          +
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import { Button } from '@/components/ui/button'
 
 interface FilterChipProps {
-  type: 'query' | 'metadata'
+  type: 'query' | 'metadata' | 'document'
   label: string
   onRemove: () => void
 }
@@ -10,11 +10,13 @@ export function FilterChip({ type, label, onRemove }: FilterChipProps) {
   const colorClasses = {
     query: 'bg-blue-100 text-blue-800 hover:bg-blue-200',
     metadata: 'bg-purple-100 text-purple-800 hover:bg-purple-200',
+    document: 'bg-amber-100 text-amber-800 hover:bg-amber-200',
   }
 
   const icons = {
     query: '🔍',
     metadata: '📊',
+    document: '📝',
   }
 
   return (
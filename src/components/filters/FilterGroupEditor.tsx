@@ -0,0 +1,150 @@
+import {
+  FilterCombinator,
+  QueryFilterGroup,
+  QueryMetadataFilter,
+  isFilterGroup,
+} from '../../types/filters'
+import { MetadataFilterRow } from './MetadataFilterRow'
+import { formStyles } from '../../styles/form-controls'
+
+interface FilterGroupEditorProps {
+  group: QueryFilterGroup
+  isRoot?: boolean
+  availableFields: string[]
+  fieldTypes: Record<string, 'string' | 'number' | 'boolean'>
+  valueSuggestions?: Record<string, string[]>
+  onFilterChange: (id: string, updates: Partial<QueryMetadataFilter>) => void
+  onCombinatorChange: (groupId: string, combinator: FilterCombinator) => void
+  onRemove: (id: string) => void
+  onAddCondition: (groupId: string) => void
+  onAddGroup: (groupId: string) => void
+  onSearch?: () => void
+}
+
+const buttonClassName = formStyles.button
+const iconButtonClassName = formStyles.iconButton
+
+const COMBINATORS: { value: FilterCombinator; label: string }[] = [
+  { value: '$and', label: 'AND' },
+  { value: '$or', label: 'OR' },
+]
+
+export function FilterGroupEditor({
+  group,
+  isRoot = false,
+  availableFields,
+  fieldTypes,
+  valueSuggestions,
+  onFilterChange,
+  onCombinatorChange,
+  onRemove,
+  onAddCondition,
+  onAddGroup,
+  onSearch,
+}: FilterGroupEditorProps) {
+  // The root only needs a combinator once there is something to combine
+  const showHeader = !isRoot || group.children.length > 1
+  const lastIndex = group.children.length - 1
+  // Condition rows carry the add buttons; a group that is empty or ends in a
+  // nested group needs its own. An empty root is handled by the toolbar.
+  const showAddButtons = group.children.length === 0
+    ? !isRoot
+    : isFilterGroup(group.children[lastIndex])
+
+  return (
+    <div
+      className={isRoot ? 'space-y-2' : 'space-y-2 pl-2 border-l-2 border-border'}
+      data-testid="filter-group"
+    >
+      {showHeader && (
+        <div className="flex gap-2 items-center">
+          <div className="flex rounded-md overflow-hidden" role="radiogroup" aria-label="Group combinator">
+            {COMBINATORS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={group.combinator === value}
+                onClick={() => onCombinatorChange(group.id, value)}
+                className={`${buttonClassName} rounded-none ${
+                  group.combinator === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                }`}
+                data-testid={`combinator-${label.toLowerCase()}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <span className="text-[11px] text-muted-foreground">
+            {group.combinator === '$and' ? 'Match all of:' : 'Match any of:'}
+          </span>
+          {!isRoot && (
+            <button
+              type="button"
+              aria-label="Remove filter group"
+              onClick={() => onRemove(group.id)}
+              className={`${iconButtonClassName} ml-auto text-muted-foreground hover:text-destructive`}
+              title="Remove group"
+              data-testid="remove-group-button"
+            >
+              -
+            </button>
+          )}
+        </div>
+      )}
+
+      {group.children.map((child, index) => (
+        isFilterGroup(child) ? (
+          <FilterGroupEditor
+            key={child.id}
+            group={child}
+            availableFields={availableFields}
+            fieldTypes={fieldTypes}
+            valueSuggestions={valueSuggestions}
+            onFilterChange={onFilterChange}
+            onCombinatorChange={onCombinatorChange}
+            onRemove={onRemove}
+            onAddCondition={onAddCondition}
+            onAddGroup={onAddGroup}
+            onSearch={onSearch}
+          />
+        ) : (
+          <MetadataFilterRow
+            key={child.id}
+            filter={child}
+            availableFields={availableFields}
+            fieldTypes={fieldTypes}
+            valueSuggestions={valueSuggestions}
+            onChange={onFilterChange}
+            onRemove={onRemove}
+            onAdd={() => onAddCondition(group.id)}
+            onAddGroup={() => onAddGroup(group.id)}
+            onSearch={onSearch}
+            isLast={index === lastIndex}
+          />
+        )
+      ))}
+
+      {showAddButtons && (
+        <div className="flex gap-2 items-center">
+          <button
+            type="button"
+            onClick={() => onAddCondition(group.id)}
+            className={`${buttonClassName} text-muted-foreground`}
+            data-testid="add-condition-button"
+          >
+            + Condition
+          </button>
+          <button
+            type="button"
+            onClick={() => onAddGroup(group.id)}
+            className={`${buttonClassName} text-muted-foreground`}
+            data-testid="add-nested-group-button"
+          >
+            + Group
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
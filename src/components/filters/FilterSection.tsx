@@ -25,6 +25,7 @@ export function FilterSection({ filterHook }: FilterSectionProps) {
         filters={filterHook.filters}
         onRemoveQueryText={() => filterHook.setQueryText('')}
         onRemoveMetadataFilter={filterHook.removeMetadataFilter}
+        onRemoveDocumentFilter={filterHook.removeDocumentFilter}
         onClearAll={filterHook.clearAllFilters}
       />
     </div>
@@ -0,0 +1,127 @@
+import { useRef } from 'react'
+import { formStyles } from '../../styles/form-controls'
+
+type TokenKind = 'key' | 'operator' | 'string' | 'number' | 'literal' | 'plain'
+
+interface Token {
+  kind: TokenKind
+  text: string
+}
+
+const TOKEN_PATTERN = /("(?:[^"\\]|\\.)*"?)(\s*:)?|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|\b(true|false|null)\b/g
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  key: 'text-sky-700 dark:text-sky-300',
+  operator: 'text-purple-700 dark:text-purple-300',
+  string: 'text-emerald-700 dark:text-emerald-300',
+  number: 'text-amber-700 dark:text-amber-300',
+  literal: 'text-rose-700 dark:text-rose-300',
+  plain: 'text-foreground',
+}
+
+// Split JSON text into highlightable tokens. Works on partial input, since it
+// runs on every keystroke; anything unrecognised is left plain.
+function tokenizeJson(text: string): Token[] {
+  const tokens: Token[] = []
+  let last = 0
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > last) tokens.push({ kind: 'plain', text: text.slice(last, index) })
+    const [whole, str, colon, num, literal] = match
+    if (str !== undefined) {
+      if (colon !== undefined) {
+        tokens.push({ kind: str.startsWith('"$') ? 'operator' : 'key', text: str })
+        tokens.push({ kind: 'plain', text: colon })
+      } else {
+        tokens.push({ kind: 'string', text: str })
+      }
+    } else if (num !== undefined) {
+      tokens.push({ kind: 'number', text: num })
+    } else if (literal !== undefined) {
+      tokens.push({ kind: 'literal', text: literal })
+    }
+    last = index + whole.length
+  }
+  if (last < text.length) tokens.push({ kind: 'plain', text: text.slice(last) })
+  return tokens
+}
+
+interface JsonClauseEditorProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  onSubmit?: () => void
+  placeholder?: string
+  error?: string | null
+  testId?: string
+}
+
+// Shared by the textarea and the highlight layer so the two line up exactly
+const editorTextClassName = 'font-mono text-[11px] leading-4 p-1.5 whitespace-pre-wrap break-words'
+
+/**
+ * Plain textarea laid over a highlighted copy of its own text. The textarea
+ * keeps native editing, selection and undo; only its text colour is hidden.
+ */
+export function JsonClauseEditor({
+  label,
+  value,
+  onChange,
+  onSubmit,
+  placeholder,
+  error,
+  testId,
+}: JsonClauseEditorProps) {
+  const highlightRef = useRef<HTMLPreElement>(null)
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && onSubmit) {
+      e.preventDefault()
+      onSubmit()
+    }
+  }
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop
+    }
+  }
+
+  return (
+    <div className="flex-1 min-w-0 space-y-1">
+      <span className="text-[11px] text-muted-foreground">{label}</span>
+      <div
+        className={`relative h-28 rounded-md bg-black/[0.03] dark:bg-white/[0.05] ${
+          error ? 'ring-1 ring-destructive/60' : ''
+        }`}
+        style={formStyles.inputShadow}
+      >
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className={`absolute inset-0 m-0 overflow-hidden pointer-events-none ${editorTextClassName}`}
+        >
+          {tokenizeJson(value).map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+          ))}
+          {/* Keep a trailing newline visible so the layers stay the same height */}
+          {'\n'}
+        </pre>
+        <textarea
+          aria-label={label}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={handleScroll}
+          placeholder={placeholder}
+          spellCheck={false}
+          className={`absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-ring/50 rounded-md ${editorTextClassName}`}
+          data-testid={testId}
+        />
+      </div>
+      {error && (
+        <div className="text-[11px] text-destructive break-words">{error}</div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,16 @@
-import { useState } from 'react'
-import { MetadataOperator } from '../../types/filters'
+import { useId, useState } from 'react'
+import type { MetadataSchema } from '@/types/electron'
+import {
+  MetadataOperator,
+  getOperatorsForType,
+  getSchemaFieldType,
+  getSchemaValueSuggestions,
+} from '../../types/filters'
 
 interface MetadataFilterInputProps {
   onAdd: (key: string, operator: MetadataOperator, value: string) => void
+  // Inferred collection schema; suggests keys and values and narrows operators
+  schema?: MetadataSchema
 }
 
 const operatorLabels: Record<MetadataOperator, string> = {
@@ -20,10 +28,26 @@ const inputClassName = "flex-1 h-6 text-[11px] py-0 px-1.5 rounded-md border bor
 const selectClassName = "h-6 text-[11px] px-1.5 rounded-md border border-input bg-background focus:outline-none focus:ring-1 focus:ring-ring"
 const inputStyle = { boxShadow: 'inset 0 1px 2px 0 rgb(0 0 0 / 0.05)' }
 
-export function MetadataFilterInput({ onAdd }: MetadataFilterInputProps) {
+export function MetadataFilterInput({ onAdd, schema }: MetadataFilterInputProps) {
   const [key, setKey] = useState('')
   const [operator, setOperator] = useState<MetadataOperator>('$eq')
   const [value, setValue] = useState('')
+  const keysId = useId()
+  const valuesId = useId()
+
+  const keyStats = schema?.keys.find(stats => stats.key === key.trim())
+  const operators = keyStats
+    ? getOperatorsForType(getSchemaFieldType(keyStats))
+    : (Object.keys(operatorLabels) as MetadataOperator[])
+  const valueSuggestions = getSchemaValueSuggestions(keyStats)
+
+  const handleKeyChange = (newKey: string) => {
+    setKey(newKey)
+    const newStats = schema?.keys.find(stats => stats.key === newKey.trim())
+    if (newStats && !getOperatorsForType(getSchemaFieldType(newStats)).includes(operator)) {
+      setOperator('$eq')
+    }
+  }
 
   const handleAdd = () => {
     if (key.trim() && value.trim()) {
@@ -47,9 +71,10 @@ export function MetadataFilterInput({ onAdd }: MetadataFilterInputProps) {
           aria-label="Metadata key"
           type="text"
           value={key}
-          onChange={(e) => setKey(e.target.value)}
+          onChange={(e) => handleKeyChange(e.target.value)}
           onKeyDown={handleKeyDown}
           placeholder="Key (e.g., type)"
+          list={schema ? keysId : undefined}
           className={inputClassName}
           style={inputStyle}
         />
@@ -60,9 +85,9 @@ export function MetadataFilterInput({ onAdd }: MetadataFilterInputProps) {
           className={selectClassName}
           style={inputStyle}
         >
-          {Object.entries(operatorLabels).map(([op, label]) => (
+          {operators.map(op => (
             <option key={op} value={op}>
-              {label}
+              {operatorLabels[op]}
             </option>
           ))}
         </select>
@@ -73,6 +98,7 @@ export function MetadataFilterInput({ onAdd }: MetadataFilterInputProps) {
           onChange={(e) => setValue(e.target.value)}
           onKeyDown={handleKeyDown}
           placeholder="Value"
+          list={valueSuggestions.length > 0 ? valuesId : undefined}
           className={inputClassName}
           style={inputStyle}
         />
@@ -85,6 +111,20 @@ export function MetadataFilterInput({ onAdd }: MetadataFilterInputProps) {
           + Add
         </button>
       </div>
+      {schema && (
+        <datalist id={keysId}>
+          {schema.keys.map(stats => (
+            <option key={stats.key} value={stats.key} />
+          ))}
+        </datalist>
+      )}
+      {valueSuggestions.length > 0 && (
+        <datalist id={valuesId}>
+          {valueSuggestions.map(suggestion => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      )}
     </div>
   )
 }
@@ -1,3 +1,4 @@
+import { useId } from 'react'
 import {
   QueryMetadataFilter,
   MetadataOperator,
@@ -10,9 +11,12 @@ interface MetadataFilterRowProps {
   filter: QueryMetadataFilter
   availableFields: string[]
   fieldTypes: Record<string, 'string' | 'number' | 'boolean'>
+  // Common values per field, offered as completions for the value input
+  valueSuggestions?: Record<string, string[]>
   onChange: (id: string, updates: Partial<QueryMetadataFilter>) => void
   onRemove: (id: string) => void
   onAdd?: () => void
+  onAddGroup?: () => void
   onSearch?: () => void
   isLast?: boolean
 }
@@ -26,9 +30,11 @@ export function MetadataFilterRow({
   filter,
   availableFields,
   fieldTypes,
+  valueSuggestions,
   onChange,
   onRemove,
   onAdd,
+  onAddGroup,
   onSearch,
   isLast = false,
 }: MetadataFilterRowProps) {
@@ -39,6 +45,10 @@ export function MetadataFilterRow({
     }
   }
 
+  const suggestionsId = useId()
+  const isListOperator = filter.operator === '$in' || filter.operator === '$nin'
+  const suggestions = isListOperator ? [] : valueSuggestions?.[filter.field] ?? []
+
   const fieldType = fieldTypes[filter.field] || 'string'
   const availableOperators = getOperatorsForType(fieldType)
 
@@ -54,7 +64,7 @@ export function MetadataFilterRow({
   }
 
   const getPlaceholder = (): string => {
-    if (filter.operator === '$in' || filter.operator === '$nin') return 'value1, value2, ...'
+    if (isListOperator) return 'value1, value2, ...'
     if (fieldType === 'number') return 'number'
     if (fieldType === 'boolean') return 'true or false'
     return 'value'
@@ -114,10 +124,18 @@ export function MetadataFilterRow({
         onChange={(e) => onChange(filter.id, { value: e.target.value })}
         onKeyDown={handleKeyDown}
         placeholder={getPlaceholder()}
+        list={suggestions.length > 0 ? suggestionsId : undefined}
         className={`flex-1 min-w-[100px] ${inputClassName}`}
         style={inputStyle}
         data-testid="filter-value-input"
       />
+      {suggestions.length > 0 && (
+        <datalist id={suggestionsId}>
+          {suggestions.map(value => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+      )}
 
       <button
         type="button"
@@ -142,6 +160,19 @@ export function MetadataFilterRow({
           +
         </button>
       )}
+
+      {isLast && onAddGroup && (
+        <button
+          type="button"
+          aria-label="Add filter group"
+          onClick={onAddGroup}
+          className={`${buttonClassName} w-auto px-1.5 text-muted-foreground`}
+          title="Add nested AND/OR group"
+          data-testid="add-group-button"
+        >
+          ( )
+        </button>
+      )}
     </div>
   )
 }
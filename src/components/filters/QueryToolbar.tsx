@@ -1,6 +1,19 @@
-import { useCallback, useEffect, useRef } from 'react'
-import { QueryScope, QueryMetadataFilter } from '../../types/filters'
-import { MetadataFilterRow } from './MetadataFilterRow'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  AdvancedClauses,
+  FilterCombinator,
+  QueryScope,
+  QueryFilterGroup,
+  QueryMetadataFilter,
+  QueryDocumentFilter,
+  createFilterGroup,
+  isFilterGroup,
+  removeFilterNode,
+  updateFilterNode,
+} from '../../types/filters'
+import { FilterGroupEditor } from './FilterGroupEditor'
+import { AdvancedFilterEditor } from './AdvancedFilterEditor'
+import { DocumentFilterRow } from './DocumentFilterRow'
 import { formStyles } from '../../styles/form-controls'
 
 const DEBOUNCE_SEARCH_MS = 300
@@ -27,15 +40,35 @@ interface QueryToolbarProps {
   scope: QueryScope
   searchText: string
   idSearch: string
+  vectorText: string
+  vectorError: string | null
+  // Collection dimension, when known, for the vector placeholder
+  dimension: number | null
   nResults: number
-  filters: QueryMetadataFilter[]
+  filterGroup: QueryFilterGroup
+  documentFilters: QueryDocumentFilter[]
+  // Non-null in Advanced mode, where raw JSON clauses replace the filter rows
+  advancedClauses: AdvancedClauses | null
   availableFields: string[]
   fieldTypes: Record<string, 'string' | 'number' | 'boolean'>
+  valueSuggestions?: Record<string, string[]>
   onScopeChange: (scope: QueryScope) => void
   onSearchTextChange: (text: string) => void
   onIdSearchChange: (id: string) => void
+  onVectorTextChange: (text: string) => void
   onNResultsChange: (n: number) => void
-  onFiltersChange: (filters: QueryMetadataFilter[]) => void
+  onFilterGroupChange: (group: QueryFilterGroup) => void
+  onDocumentFiltersChange: (filters: QueryDocumentFilter[]) => void
+  onAdvancedClausesChange: (clauses: AdvancedClauses) => void
+  onEnterAdvancedMode: () => void
+  // Returns false when the clauses can't be shown as rows
+  onExitAdvancedMode: () => boolean
+  // Source record of an active "find similar" search
+  similarToId: string | null
+  onClearSimilar: () => void
+  // Records picked elsewhere (e.g. a health report finding) that every query is limited to
+  recordFilter?: { label: string; count: number } | null
+  onClearRecordFilter?: () => void
   onSearch: () => void
   error?: string | null
 }
@@ -49,48 +82,119 @@ export function QueryToolbar({
   scope,
   searchText,
   idSearch,
+  vectorText,
+  vectorError,
+  dimension,
   nResults,
-  filters,
+  filterGroup,
+  documentFilters,
+  advancedClauses,
   availableFields,
   fieldTypes,
+  valueSuggestions,
   onScopeChange,
   onSearchTextChange,
   onIdSearchChange,
+  onVectorTextChange,
   onNResultsChange,
-  onFiltersChange,
+  onFilterGroupChange,
+  onDocumentFiltersChange,
+  onAdvancedClausesChange,
+  onEnterAdvancedMode,
+  onExitAdvancedMode,
+  similarToId,
+  onClearSimilar,
+  recordFilter = null,
+  onClearRecordFilter,
   onSearch,
   error,
 }: QueryToolbarProps) {
   const debouncedSearchRef = useRef<ReturnType<typeof debounce> | null>(null)
+  // onSearch changes with every keystroke it commits; read the latest one when the
+  // timer fires instead of recreating (and cancelling) the debounce each render.
+  const onSearchRef = useRef(onSearch)
 
   useEffect(() => {
-    debouncedSearchRef.current = debounce(() => onSearch(), DEBOUNCE_SEARCH_MS)
+    onSearchRef.current = onSearch
+  }, [onSearch])
+
+  useEffect(() => {
+    debouncedSearchRef.current = debounce(() => onSearchRef.current(), DEBOUNCE_SEARCH_MS)
     return () => {
       debouncedSearchRef.current?.cancel()
     }
-  }, [onSearch])
+  }, [])
 
   const triggerDebouncedSearch = useCallback(() => {
     debouncedSearchRef.current?.()
   }, [])
 
+  const createCondition = useCallback((): QueryMetadataFilter => ({
+    id: crypto.randomUUID(),
+    field: availableFields[0] || '',
+    operator: '$eq',
+    value: '',
+  }), [availableFields])
+
   const handleFilterChange = useCallback((id: string, updates: Partial<QueryMetadataFilter>) => {
-    onFiltersChange(filters.map(f => f.id === id ? { ...f, ...updates } : f))
-  }, [filters, onFiltersChange])
+    onFilterGroupChange(updateFilterNode(filterGroup, id, node => ({ ...node, ...updates }) as QueryMetadataFilter))
+  }, [filterGroup, onFilterGroupChange])
+
+  const handleCombinatorChange = useCallback((groupId: string, combinator: FilterCombinator) => {
+    onFilterGroupChange(updateFilterNode(filterGroup, groupId, node => ({ ...node, combinator })))
+  }, [filterGroup, onFilterGroupChange])
+
+  const appendToGroup = useCallback((groupId: string, child: QueryFilterGroup | QueryMetadataFilter) => {
+    onFilterGroupChange(updateFilterNode(filterGroup, groupId, node =>
+      isFilterGroup(node) ? { ...node, children: [...node.children, child] } : node
+    ))
+  }, [filterGroup, onFilterGroupChange])
+
+  const handleAddCondition = useCallback((groupId: string) => {
+    appendToGroup(groupId, createCondition())
+  }, [appendToGroup, createCondition])
+
+  // Nested groups are usually alternatives, so they start as OR
+  const handleAddGroup = useCallback((groupId: string) => {
+    appendToGroup(groupId, createFilterGroup('$or', [createCondition()]))
+  }, [appendToGroup, createCondition])
+
+  const handleRemoveFilter = useCallback((id: string) => {
+    onFilterGroupChange(removeFilterNode(filterGroup, id))
+  }, [filterGroup, onFilterGroupChange])
+
+  const handleDocumentFilterChange = useCallback((id: string, updates: Partial<QueryDocumentFilter>) => {
+    onDocumentFiltersChange(documentFilters.map(f => f.id === id ? { ...f, ...updates } : f))
+    triggerDebouncedSearch()
+  }, [documentFilters, onDocumentFiltersChange, triggerDebouncedSearch])
 
-  const handleAddFilter = useCallback(() => {
-    const newFilter: QueryMetadataFilter = {
+  const handleAddDocumentFilter = useCallback(() => {
+    const newFilter: QueryDocumentFilter = {
       id: crypto.randomUUID(),
-      field: availableFields[0] || '',
-      operator: '$eq',
+      operator: '$contains',
       value: '',
     }
-    onFiltersChange([...filters, newFilter])
-  }, [filters, availableFields, onFiltersChange])
+    onDocumentFiltersChange([...documentFilters, newFilter])
+  }, [documentFilters, onDocumentFiltersChange])
 
-  const handleRemoveFilter = useCallback((id: string) => {
-    onFiltersChange(filters.filter(f => f.id !== id))
-  }, [filters, onFiltersChange])
+  const handleRemoveDocumentFilter = useCallback((id: string) => {
+    onDocumentFiltersChange(documentFilters.filter(f => f.id !== id))
+    triggerDebouncedSearch()
+  }, [documentFilters, onDocumentFiltersChange, triggerDebouncedSearch])
+
+  const [conversionError, setConversionError] = useState<string | null>(null)
+  const isAdvanced = advancedClauses !== null
+
+  const handleToggleAdvanced = () => {
+    if (!isAdvanced) {
+      setConversionError(null)
+      onEnterAdvancedMode()
+    } else if (onExitAdvancedMode()) {
+      setConversionError(null)
+    } else {
+      setConversionError('These clauses can\'t be shown as filter rows. Simplify or clear them to switch back.')
+    }
+  }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
@@ -110,10 +214,16 @@ export function QueryToolbar({
     triggerDebouncedSearch()
   }, [onIdSearchChange, triggerDebouncedSearch])
 
+  const handleVectorTextChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    onVectorTextChange(e.target.value)
+    triggerDebouncedSearch()
+  }, [onVectorTextChange, triggerDebouncedSearch])
+
   const getScopeLabel = (s: QueryScope): string => {
     switch (s) {
       case 'query': return 'Query'
       case 'id': return 'ID'
+      case 'vector': return 'Vector'
     }
   }
 
@@ -131,9 +241,41 @@ export function QueryToolbar({
         >
           <option value="query">{getScopeLabel('query')}</option>
           <option value="id">{getScopeLabel('id')}</option>
+          <option value="vector">{getScopeLabel('vector')}</option>
         </select>
 
-        {scope === 'id' ? (
+        {similarToId !== null ? (
+          <div
+            className={`flex-1 flex items-center gap-1 min-w-0 ${inputClassName}`}
+            style={inputStyle}
+            data-testid="similar-to-chip"
+          >
+            <span className="text-muted-foreground shrink-0">Similar to</span>
+            <code className="font-mono truncate">{similarToId}</code>
+            <button
+              type="button"
+              aria-label="Clear find similar"
+              onClick={onClearSimilar}
+              className="ml-auto shrink-0 text-muted-foreground hover:text-foreground"
+              title="Back to the regular query"
+            >
+              ✕
+            </button>
+          </div>
+        ) : scope === 'vector' ? (
+          <input
+            type="text"
+            aria-label="Query vector"
+            aria-invalid={vectorError !== null}
+            value={vectorText}
+            onChange={handleVectorTextChange}
+            onKeyDown={handleKeyDown}
+            placeholder={dimension ? `[0.12, -0.03, …] (${dimension} numbers)` : '[0.12, -0.03, …]'}
+            className={`flex-1 font-mono ${inputClassName} ${vectorError ? 'ring-1 ring-destructive/60' : ''}`}
+            style={inputStyle}
+            data-testid="vector-search-input"
+          />
+        ) : scope === 'id' ? (
           <input
             type="text"
             aria-label="Document ID search"
@@ -179,37 +321,109 @@ export function QueryToolbar({
           </select>
         </div>
 
-        {filters.length === 0 && availableFields.length > 0 && (
+        {!isAdvanced && filterGroup.children.length === 0 && availableFields.length > 0 && (
           <button
             type="button"
-            onClick={handleAddFilter}
+            onClick={() => handleAddCondition(filterGroup.id)}
             className={`${buttonClassName} text-muted-foreground`}
             data-testid="add-filter-button"
           >
             + Filter
           </button>
         )}
+
+        {!isAdvanced && documentFilters.length === 0 && (
+          <button
+            type="button"
+            onClick={handleAddDocumentFilter}
+            className={`${buttonClassName} text-muted-foreground`}
+            data-testid="add-document-filter-button"
+          >
+            + Text filter
+          </button>
+        )}
+
+        <button
+          type="button"
+          onClick={handleToggleAdvanced}
+          aria-pressed={isAdvanced}
+          className={`${buttonClassName} ${isAdvanced ? 'text-foreground font-medium' : 'text-muted-foreground'}`}
+          title={isAdvanced ? 'Back to the filter builder' : 'Edit where / where_document as JSON'}
+          data-testid="advanced-mode-button"
+        >
+          {'{ }'} Advanced
+        </button>
       </div>
 
+      {recordFilter && (
+        <div
+          className="flex items-center gap-1 px-2 py-1.5 text-[11px] bg-primary/10 rounded-md"
+          data-testid="record-filter-chip"
+        >
+          <span className="truncate">
+            Limited to {recordFilter.count.toLocaleString()} record{recordFilter.count !== 1 ? 's' : ''}: {recordFilter.label}
+          </span>
+          <button
+            type="button"
+            aria-label="Clear record filter"
+            onClick={onClearRecordFilter}
+            className="ml-auto shrink-0 text-muted-foreground hover:text-foreground"
+            title="Show all records"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {scope === 'vector' && vectorError && similarToId === null && (
+        <div className="px-2 py-1.5 text-[11px] text-destructive bg-destructive/10 rounded-md" data-testid="vector-error">
+          {vectorError}
+        </div>
+      )}
+
       {error && (
         <div className="px-2 py-1.5 text-[11px] text-destructive bg-destructive/10 rounded-md">
           {error}
         </div>
       )}
 
-      {filters.length > 0 && (
-        <div className="space-y-2" data-testid="metadata-filters-container">
-          {filters.map((filter, index) => (
-            <MetadataFilterRow
+      {isAdvanced && (
+        <AdvancedFilterEditor
+          clauses={advancedClauses}
+          onApply={onAdvancedClausesChange}
+          conversionError={conversionError}
+        />
+      )}
+
+      {!isAdvanced && filterGroup.children.length > 0 && (
+        <div data-testid="metadata-filters-container">
+          <FilterGroupEditor
+            group={filterGroup}
+            isRoot
+            availableFields={availableFields}
+            fieldTypes={fieldTypes}
+            valueSuggestions={valueSuggestions}
+            onFilterChange={handleFilterChange}
+            onCombinatorChange={handleCombinatorChange}
+            onRemove={handleRemoveFilter}
+            onAddCondition={handleAddCondition}
+            onAddGroup={handleAddGroup}
+            onSearch={onSearch}
+          />
+        </div>
+      )}
+
+      {!isAdvanced && documentFilters.length > 0 && (
+        <div className="space-y-2" data-testid="document-filters-container">
+          {documentFilters.map((filter, index) => (
+            <DocumentFilterRow
               key={filter.id}
               filter={filter}
-              availableFields={availableFields}
-              fieldTypes={fieldTypes}
-              onChange={handleFilterChange}
-              onRemove={handleRemoveFilter}
-              onAdd={handleAddFilter}
+              onChange={handleDocumentFilterChange}
+              onRemove={handleRemoveDocumentFilter}
+              onAdd={handleAddDocumentFilter}
               onSearch={onSearch}
-              isLast={index === filters.length - 1}
+              isLast={index === documentFilters.length - 1}
             />
           ))}
         </div>
@@ -1,4 +1,8 @@
 import { PanelProvider } from '../../context/PanelContext'
+import { ProtectedActionProvider } from '../../context/ProtectedActionContext'
+import { UndoHistoryProvider } from '../../context/UndoHistoryContext'
+import { useChromaDB } from '../../providers/ChromaDBProvider'
+import { environmentColor } from '../../constants/profile-environments'
 import { TopBar } from './TopBar'
 import { MainContent } from './MainContent'
 import { useMenuHandlers } from '../../hooks/useMenuHandlers'
@@ -6,11 +10,21 @@ import { useMenuHandlers } from '../../hooks/useMenuHandlers'
 function AppLayoutContent() {
   // Subscribe to native menu events
   useMenuHandlers()
+  const { currentProfile } = useChromaDB()
+  const color = environmentColor(currentProfile)
 
   return (
     <div className="flex flex-col h-screen" style={{ background: 'var(--content-background)' }}>
       <TopBar />
       <MainContent />
+      {/* Environment frame around the whole window, above content but never in the way */}
+      {color && (
+        <div
+          className="pointer-events-none fixed inset-0 z-40"
+          style={{ boxShadow: `inset 0 0 0 2px ${color}` }}
+          aria-hidden
+        />
+      )}
     </div>
   )
 }
@@ -18,7 +32,11 @@ function AppLayoutContent() {
 export function AppLayout() {
   return (
     <PanelProvider>
-      <AppLayoutContent />
+      <ProtectedActionProvider>
+        <UndoHistoryProvider>
+          <AppLayoutContent />
+        </UndoHistoryProvider>
+      </ProtectedActionProvider>
     </PanelProvider>
   )
 }
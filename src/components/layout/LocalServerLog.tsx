@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react'
+import { SquareTerminal } from 'lucide-react'
+import type { LocalServerLogLine } from '@/types/electron'
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover'
+
+// Matches what the main process keeps per server
+const MAX_LINES = 2000
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+function LogLines({ profileId }: { profileId: string }) {
+  const [lines, setLines] = useState<LocalServerLogLine[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    // Subscribe before fetching so no line falls between the two
+    const pending: LocalServerLogLine[] = []
+    let loaded = false
+    const unsubscribe = window.electronAPI.chromadb.onLocalServerLog((line) => {
+      if (!loaded) {
+        pending.push(line)
+        return
+      }
+      setLines(prev => [...prev, line].slice(-MAX_LINES))
+    })
+    window.electronAPI.chromadb.getLocalServerLog(profileId)
+      .then((log) => {
+        const last = log.length > 0 ? log[log.length - 1].time : 0
+        loaded = true
+        setLines([...log, ...pending.filter(line => line.time > last)].slice(-MAX_LINES))
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to read the server log'))
+    return unsubscribe
+  }, [profileId])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' })
+  }, [lines])
+
+  if (error) {
+    return <div className="px-3 py-4 text-[11px] text-destructive">{error}</div>
+  }
+
+  return (
+    <div className="h-72 overflow-auto px-3 py-2 font-mono text-[11px] leading-relaxed select-text">
+      {lines.length === 0 ? (
+        <div className="text-foreground/40">No output yet</div>
+      ) : (
+        lines.map((line, index) => (
+          <div
+            key={index}
+            className={`whitespace-pre-wrap break-all ${line.stream === 'explorer' ? 'text-foreground/45 italic' : 'text-foreground/80'}`}
+          >
+            <span className="text-foreground/30 mr-2">{formatTime(line.time)}</span>
+            {line.text}
+          </div>
+        ))
+      )}
+      <div ref={bottomRef} />
+    </div>
+  )
+}
+
+interface LocalServerLogButtonProps {
+  profileId: string
+  className: string
+}
+
+/** Top bar button showing the output of the server behind a local folder profile. */
+export function LocalServerLogButton({ profileId, className }: LocalServerLogButtonProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className={className} title="Server log">
+          <SquareTerminal className="size-3.5 text-foreground/60" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[560px] p-0" align="end">
+        <div className="px-3 py-2 border-b border-foreground/10">
+          <h4 className="font-medium text-[13px] text-foreground">Local Server Log</h4>
+        </div>
+        <LogLines profileId={profileId} />
+      </PopoverContent>
+    </Popover>
+  )
+}
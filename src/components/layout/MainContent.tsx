@@ -5,8 +5,13 @@ import { usePanel } from '../../context/PanelContext'
 import { useChromaDB } from '../../providers/ChromaDBProvider'
 import { CollectionPanel } from '../collections/CollectionPanel'
 import { CollectionConfigView } from '../collections/CollectionConfigView'
+import { CollectionHealthView } from '../collections/CollectionHealthView'
+import { CollectionSchemaView } from '../collections/CollectionSchemaView'
 import DocumentsView from '../documents/DocumentsView'
 import DocumentDetailPanel from '../documents/DocumentDetailPanel'
+import { ImportDocumentsDialog } from '../documents/ImportDocumentsDialog'
+import type { RecordFilter } from '../../types/filters'
+import { formStyles } from '../../styles/form-controls'
 
 interface DocumentRecord {
   id: string
@@ -15,6 +20,14 @@ interface DocumentRecord {
   embedding: number[] | null
 }
 
+type CollectionTab = 'documents' | 'schema' | 'health'
+
+const COLLECTION_TABS: { value: CollectionTab; label: string }[] = [
+  { value: 'documents', label: 'Documents' },
+  { value: 'schema', label: 'Schema' },
+  { value: 'health', label: 'Health' },
+]
+
 export function MainContent() {
   const { activeCollection } = useCollection()
   const { draftCollection } = useDraftCollection()
@@ -40,6 +53,22 @@ export function MainContent() {
   const [isSelectedDraft, setIsSelectedDraft] = useState(false)
   const [isFirstDocument, setIsFirstDocument] = useState(false)
   const [draftUpdateHandler, setDraftUpdateHandler] = useState<((updates: { id?: string; document?: string; metadata?: Record<string, unknown> }) => void) | null>(null)
+  const [collectionTab, setCollectionTab] = useState<CollectionTab>('documents')
+  // Set when a health finding is opened; limits the documents view to its records
+  const [recordFilter, setRecordFilter] = useState<RecordFilter | null>(null)
+
+  // Both belong to the collection they were opened on
+  useEffect(() => {
+    setCollectionTab('documents')
+    setRecordFilter(null)
+  }, [activeCollection])
+
+  const handleShowRecords = useCallback((filter: RecordFilter) => {
+    setRecordFilter(filter)
+    setCollectionTab('documents')
+  }, [])
+
+  const handleClearRecordFilter = useCallback(() => setRecordFilter(null), [])
 
   // Resize state
   const [isResizingLeft, setIsResizingLeft] = useState(false)
@@ -105,21 +134,57 @@ export function MainContent() {
         {draftCollection ? (
           <CollectionConfigView />
         ) : activeCollection ? (
-          <DocumentsView
-            collectionName={activeCollection}
-            selectedDocumentIds={selectedDocumentIds}
-            primarySelectedDocumentId={primarySelectedDocumentId}
-            selectionAnchor={selectionAnchor}
-            onSingleSelect={selectDocument}
-            onToggleSelect={toggleDocumentSelection}
-            onRangeSelect={selectDocumentRange}
-            onAddToSelection={addToSelection}
-            onClearSelection={clearSelection}
-            onSetSelectionAnchor={setSelectionAnchor}
-            onSelectedDocumentChange={handleSelectedDocumentChange}
-            onExposeDraftHandler={handleExposeDraftHandler}
-            onIsFirstDocumentChange={handleIsFirstDocumentChange}
-          />
+          <div className="flex flex-col h-full">
+            <div
+              className="flex-shrink-0 px-4 pt-2 flex bg-white/60 dark:bg-white/[0.03]"
+              role="tablist"
+              aria-label="Collection view"
+            >
+              <div className="flex rounded-md overflow-hidden">
+                {COLLECTION_TABS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    role="tab"
+                    aria-selected={collectionTab === value}
+                    onClick={() => setCollectionTab(value)}
+                    className={`${formStyles.button} rounded-none ${
+                      collectionTab === value ? 'text-foreground font-medium' : 'text-muted-foreground'
+                    }`}
+                    data-testid={`collection-tab-${value}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex-1 min-h-0">
+              {collectionTab === 'health' ? (
+                <CollectionHealthView collectionName={activeCollection} onShowRecords={handleShowRecords} />
+              ) : collectionTab === 'schema' ? (
+                <CollectionSchemaView collectionName={activeCollection} />
+              ) : (
+                <DocumentsView
+                  collectionName={activeCollection}
+                  selectedDocumentIds={selectedDocumentIds}
+                  primarySelectedDocumentId={primarySelectedDocumentId}
+                  selectionAnchor={selectionAnchor}
+                  onSingleSelect={selectDocument}
+                  onToggleSelect={toggleDocumentSelection}
+                  onRangeSelect={selectDocumentRange}
+                  onAddToSelection={addToSelection}
+                  onClearSelection={clearSelection}
+                  onSetSelectionAnchor={setSelectionAnchor}
+                  onSelectedDocumentChange={handleSelectedDocumentChange}
+                  onExposeDraftHandler={handleExposeDraftHandler}
+                  onIsFirstDocumentChange={handleIsFirstDocumentChange}
+                  recordFilter={recordFilter}
+                  onClearRecordFilter={handleClearRecordFilter}
+                />
+              )}
+            </div>
+            <ImportDocumentsDialog collectionName={activeCollection} />
+          </div>
         ) : (
           <div
             className="flex items-center justify-center h-full"
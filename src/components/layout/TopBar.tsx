@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react'
 import { useChromaDB } from '../../providers/ChromaDBProvider'
 import { usePanel } from '../../context/PanelContext'
 import { MessageCircle, PanelLeft, PanelRight, PanelLeftDashed, PanelRightDashed, Power } from 'lucide-react'
+import { LocalServerLogButton } from './LocalServerLog'
+import { environmentColor, environmentLabel } from '../../constants/profile-environments'
 
 type UpdateAvailability = 'available' | 'downloading' | 'downloaded'
 
@@ -44,6 +46,7 @@ export function TopBar() {
     }
   }
 
+  const envColor = environmentColor(currentProfile)
   const iconButtonClass = "size-7 p-0 flex items-center justify-center rounded-md hover:bg-black/[0.06] dark:hover:bg-white/[0.08] transition-colors"
   const updateLabel = updateState === 'downloading' ? 'Updating…' : 'Update'
 
@@ -67,6 +70,22 @@ export function TopBar() {
           {currentProfile?.name || 'Connected'}
         </span>
         <span className="text-[11px] text-foreground/40">{currentProfile?.url}</span>
+        {currentProfile?.environment && envColor && (
+          <span
+            className="h-4 px-1.5 inline-flex items-center rounded text-[10px] font-semibold uppercase tracking-wide text-white"
+            style={{ background: envColor }}
+          >
+            {environmentLabel(currentProfile.environment)}
+          </span>
+        )}
+        {currentProfile?.readOnly && (
+          <span
+            className="h-4 px-1.5 inline-flex items-center rounded text-[10px] font-medium border border-foreground/20 text-foreground/60"
+            title="Changes to this connection's data are blocked"
+          >
+            Read-only
+          </span>
+        )}
       </div>
 
       {/* Right side - Update + Panel toggles + Disconnect */}
@@ -102,6 +121,9 @@ export function TopBar() {
         >
           <MessageCircle className="size-3.5 text-foreground/60" />
         </button>
+        {currentProfile?.connectionType === 'local-folder' && (
+          <LocalServerLogButton profileId={currentProfile.id} className={iconButtonClass} />
+        )}
         <div className="w-px h-4 bg-foreground/10 mx-1" />
         <button
           type="button"
@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, X } from 'lucide-react'
+import type { ConnectionProfile } from '@/types/electron'
+import { connectionInputClassName } from './connection-form'
+
+export interface ConnectionAdvancedForm {
+  headers: { name: string; value: string }[]
+  proxyUrl: string
+  caFile: string
+  certFile: string
+  keyFile: string
+  keyPassphrase: string
+}
+
+export const EMPTY_CONNECTION_ADVANCED_FORM: ConnectionAdvancedForm = {
+  headers: [],
+  proxyUrl: '',
+  caFile: '',
+  certFile: '',
+  keyFile: '',
+  keyPassphrase: '',
+}
+
+export function connectionAdvancedFormFromProfile(profile: ConnectionProfile): ConnectionAdvancedForm {
+  return {
+    headers: Object.entries(profile.customHeaders ?? {}).map(([name, value]) => ({ name, value })),
+    proxyUrl: profile.proxyUrl ?? '',
+    caFile: profile.caFile ?? '',
+    certFile: profile.clientCertificate?.certFile ?? '',
+    keyFile: profile.clientCertificate?.keyFile ?? '',
+    keyPassphrase: profile.clientCertificate?.passphrase ?? '',
+  }
+}
+
+export function validateConnectionAdvancedForm(form: ConnectionAdvancedForm): string | null {
+  const names = new Set<string>()
+  for (const header of form.headers) {
+    const name = header.name.trim()
+    if (!name && !header.value.trim()) continue
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) return `"${name}" is not a valid header name`
+    if (names.has(name.toLowerCase())) return `Header "${name}" is set twice`
+    names.add(name.toLowerCase())
+  }
+  if (form.proxyUrl.trim()) {
+    try {
+      const { protocol } = new URL(form.proxyUrl.trim())
+      if (protocol !== 'http:' && protocol !== 'https:') return 'Proxy URL must start with http:// or https://'
+    } catch {
+      return 'Please enter a valid proxy URL (e.g., http://proxy.internal:3128)'
+    }
+  }
+  if (Boolean(form.certFile.trim()) !== Boolean(form.keyFile.trim())) {
+    return 'A client certificate needs both a certificate file and a key file'
+  }
+  return null
+}
+
+/** Copy the filled-in settings onto `profile`; empty fields are left unset. */
+export function applyConnectionAdvancedForm(profile: ConnectionProfile, form: ConnectionAdvancedForm): void {
+  const headers = form.headers.filter(header => header.name.trim())
+  if (headers.length > 0) {
+    profile.customHeaders = Object.fromEntries(headers.map(header => [header.name.trim(), header.value.trim()]))
+  }
+  if (form.proxyUrl.trim()) profile.proxyUrl = form.proxyUrl.trim()
+  if (form.caFile.trim()) profile.caFile = form.caFile.trim()
+  if (form.certFile.trim() && form.keyFile.trim()) {
+    profile.clientCertificate = { certFile: form.certFile.trim(), keyFile: form.keyFile.trim() }
+    if (form.keyPassphrase) profile.clientCertificate.passphrase = form.keyPassphrase
+  }
+}
+
+interface ConnectionAdvancedFieldsProps {
+  value: ConnectionAdvancedForm
+  onChange: (value: ConnectionAdvancedForm) => void
+}
+
+function FieldRow({ id, label, children }: { id: string; label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-3">
+      <label htmlFor={id} className="text-[12px] text-foreground/50 w-16 text-right">{label}</label>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Extra headers, proxy and TLS files for servers behind API gateways or
+ * corporate networks. Collapsed until used, since most connections need none.
+ */
+export function ConnectionAdvancedFields({ value, onChange }: ConnectionAdvancedFieldsProps) {
+  const inUse = value.headers.length > 0 || Boolean(value.proxyUrl || value.caFile || value.certFile || value.keyFile)
+  const [expanded, setExpanded] = useState(inUse)
+  const update = (changes: Partial<ConnectionAdvancedForm>) => onChange({ ...value, ...changes })
+  const updateHeader = (index: number, changes: Partial<{ name: string; value: string }>) =>
+    update({ headers: value.headers.map((header, i) => (i === index ? { ...header, ...changes } : header)) })
+
+  return (
+    <div className="space-y-2.5 pt-2">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-3 w-full"
+        aria-expanded={expanded || inUse}
+      >
+        <span className="flex items-center justify-end gap-0.5 text-[10px] text-foreground/30 w-16 uppercase tracking-wider">
+          {expanded || inUse ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          Advanced
+        </span>
+        <div className="flex-1 h-px bg-foreground/10" />
+      </button>
+
+      {(expanded || inUse) && (
+        <>
+          {value.headers.map((header, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-[12px] text-foreground/50 w-16 text-right mr-1">{index === 0 ? 'Headers' : ''}</span>
+              <input
+                type="text"
+                aria-label="Header name"
+                value={header.name}
+                onChange={(e) => updateHeader(index, { name: e.target.value })}
+                placeholder="X-Api-Key"
+                className={connectionInputClassName}
+              />
+              <input
+                type="password"
+                aria-label="Header value"
+                value={header.value}
+                onChange={(e) => updateHeader(index, { value: e.target.value })}
+                placeholder="value"
+                className={connectionInputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => update({ headers: value.headers.filter((_, i) => i !== index) })}
+                className="flex-shrink-0 text-foreground/40 hover:text-foreground/70"
+                aria-label="Remove header"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3">
+            <span className="w-16" />
+            <button
+              type="button"
+              onClick={() => update({ headers: [...value.headers, { name: '', value: '' }] })}
+              className="text-[11px] text-foreground/50 hover:text-foreground/80"
+              data-testid="add-connection-header"
+            >
+              + Add header
+            </button>
+          </div>
+
+          <FieldRow id="proxyUrl" label="Proxy">
+            <input
+              type="text"
+              id="proxyUrl"
+              value={value.proxyUrl}
+              onChange={(e) => update({ proxyUrl: e.target.value })}
+              placeholder="http://proxy.internal:3128"
+              className={connectionInputClassName}
+            />
+          </FieldRow>
+
+          <FieldRow id="caFile" label="CA file">
+            <input
+              type="text"
+              id="caFile"
+              value={value.caFile}
+              onChange={(e) => update({ caFile: e.target.value })}
+              placeholder="/path/to/ca-bundle.pem"
+              className={connectionInputClassName}
+            />
+          </FieldRow>
+
+          <FieldRow id="certFile" label="Client cert">
+            <input
+              type="text"
+              id="certFile"
+              value={value.certFile}
+              onChange={(e) => update({ certFile: e.target.value })}
+              placeholder="/path/to/client.crt"
+              className={connectionInputClassName}
+            />
+          </FieldRow>
+
+          <FieldRow id="keyFile" label="Client key">
+            <input
+              type="text"
+              id="keyFile"
+              value={value.keyFile}
+              onChange={(e) => update({ keyFile: e.target.value })}
+              placeholder="/path/to/client.key"
+              className={connectionInputClassName}
+            />
+          </FieldRow>
+
+          {value.keyFile.trim() && (
+            <FieldRow id="keyPassphrase" label="Passphrase">
+              <input
+                type="password"
+                id="keyPassphrase"
+                value={value.keyPassphrase}
+                onChange={(e) => update({ keyPassphrase: e.target.value })}
+                placeholder="Only for encrypted keys"
+                className={connectionInputClassName}
+              />
+            </FieldRow>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import type { ConnectionProfile, ProfileEnvironment } from '@/types/electron'
+import { PROFILE_ENVIRONMENTS } from '../../constants/profile-environments'
+import { connectionInputClassName } from './connection-form'
+
+export interface ConnectionEnvironmentForm {
+  environment: ProfileEnvironment | ''
+  // Empty keeps the environment's default color
+  color: string
+  readOnly: boolean
+}
+
+export const EMPTY_CONNECTION_ENVIRONMENT_FORM: ConnectionEnvironmentForm = {
+  environment: '',
+  color: '',
+  readOnly: false,
+}
+
+export function connectionEnvironmentFormFromProfile(profile: ConnectionProfile): ConnectionEnvironmentForm {
+  return {
+    environment: profile.environment ?? '',
+    color: profile.environmentColor ?? '',
+    readOnly: profile.readOnly ?? false,
+  }
+}
+
+/** Copy the tag, color and read-only flag onto `profile`; defaults are left unset. */
+export function applyConnectionEnvironmentForm(profile: ConnectionProfile, form: ConnectionEnvironmentForm): void {
+  if (form.environment) {
+    profile.environment = form.environment
+    if (form.color) profile.environmentColor = form.color
+  }
+  if (form.readOnly) profile.readOnly = true
+}
+
+interface ConnectionEnvironmentFieldsProps {
+  value: ConnectionEnvironmentForm
+  onChange: (value: ConnectionEnvironmentForm) => void
+}
+
+/**
+ * Environment tag and read-only mode. The tag colors the connection window;
+ * prod also asks for the collection name before destructive actions.
+ */
+export function ConnectionEnvironmentFields({ value, onChange }: ConnectionEnvironmentFieldsProps) {
+  const update = (changes: Partial<ConnectionEnvironmentForm>) => onChange({ ...value, ...changes })
+  const defaultColor = PROFILE_ENVIRONMENTS.find(option => option.value === value.environment)?.color
+
+  return (
+    <div className="space-y-2.5 pt-2">
+      <div className="flex items-center gap-3">
+        <label htmlFor="environment" className="text-[12px] text-foreground/50 w-16 text-right">Env</label>
+        <select
+          id="environment"
+          value={value.environment}
+          onChange={(e) => update({ environment: e.target.value as ProfileEnvironment | '', color: '' })}
+          className={connectionInputClassName}
+        >
+          <option value="">None</option>
+          {PROFILE_ENVIRONMENTS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {defaultColor && (
+          <input
+            type="color"
+            aria-label="Environment color"
+            value={value.color || defaultColor}
+            onChange={(e) => update({ color: e.target.value })}
+            className="flex-shrink-0 h-6 w-8 cursor-pointer rounded bg-transparent"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="w-16" />
+        <label className="flex items-center gap-2 text-[12px] text-foreground/70">
+          <input
+            type="checkbox"
+            checked={value.readOnly}
+            onChange={(e) => update({ readOnly: e.target.checked })}
+          />
+          Read-only
+          <span className="text-[11px] text-foreground/40">Block every change to data</span>
+        </label>
+      </div>
+    </div>
+  )
+}
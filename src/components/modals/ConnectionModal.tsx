@@ -1,14 +1,38 @@
 import { useState, FormEvent, useEffect, useCallback } from 'react'
 import { TriangleAlert } from 'lucide-react'
-import type { ConnectionProfile } from '@/types/electron'
+import type { ConnectionProfile, ProfileImportPreview } from '@/types/electron'
+import { environmentColor } from '../../constants/profile-environments'
+import { connectionInputClassName } from './connection-form'
+import {
+  EMPTY_SSH_TUNNEL_FORM,
+  SshTunnelFields,
+  type SshTunnelForm,
+  sshTunnelFormFromProfile,
+  sshTunnelFromForm,
+  validateSshTunnelForm,
+} from './SshTunnelFields'
+import {
+  applyConnectionAdvancedForm,
+  ConnectionAdvancedFields,
+  connectionAdvancedFormFromProfile,
+  EMPTY_CONNECTION_ADVANCED_FORM,
+  validateConnectionAdvancedForm,
+  type ConnectionAdvancedForm,
+} from './ConnectionAdvancedFields'
+import {
+  applyConnectionEnvironmentForm,
+  ConnectionEnvironmentFields,
+  connectionEnvironmentFormFromProfile,
+  EMPTY_CONNECTION_ENVIRONMENT_FORM,
+  type ConnectionEnvironmentForm,
+} from './ConnectionEnvironmentFields'
+import { ExportProfilesDialog, ImportProfilesDialog } from './ProfileTransferDialogs'
 
 interface ConnectionModalProps {
   isOpen: boolean
   onConnect: (profile: ConnectionProfile) => void
 }
 
-const inputClassName = "w-full h-7 text-[13px] px-2.5 rounded bg-black/[0.06] dark:bg-white/[0.08] text-foreground placeholder:text-muted-foreground/40 focus:outline-none focus:bg-black/[0.08] dark:focus:bg-white/[0.12] transition-colors border-0"
-
 type Theme = 'light' | 'dark' | 'system'
 type ResolvedTheme = 'light' | 'dark'
 
@@ -19,7 +43,9 @@ function getSystemTheme(): ResolvedTheme {
 const CLOUD_URL = 'https://api.trychroma.com'
 const SELF_HOSTED_DEFAULT_URL = 'http://localhost:8000'
 
-function inferConnectionType(profile: ConnectionProfile): 'cloud' | 'self-hosted' {
+type ConnectionType = NonNullable<ConnectionProfile['connectionType']>
+
+function inferConnectionType(profile: ConnectionProfile): ConnectionType {
   if (profile.connectionType) return profile.connectionType
   try {
     const host = new URL(profile.url).hostname
@@ -32,9 +58,11 @@ function inferConnectionType(profile: ConnectionProfile): 'cloud' | 'self-hosted
 export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalProps) {
   const [profiles, setProfiles] = useState<ConnectionProfile[]>([])
   const [selectedProfileId, setSelectedProfileId] = useState<string>('')
-  const [connectionType, setConnectionType] = useState<'cloud' | 'self-hosted'>('self-hosted')
+  const [connectionType, setConnectionType] = useState<ConnectionType>('self-hosted')
   const [profileName, setProfileName] = useState('')
   const [url, setUrl] = useState(SELF_HOSTED_DEFAULT_URL)
+  // Kept apart from `url` so switching types doesn't put a path in the URL field
+  const [folder, setFolder] = useState('')
   const [tenant, setTenant] = useState('')
   const [database, setDatabase] = useState('')
   const [apiKey, setApiKey] = useState('')
@@ -42,8 +70,13 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
   const [authToken, setAuthToken] = useState('')
   const [authTokenHeader, setAuthTokenHeader] = useState<'authorization' | 'x-chroma-token'>('authorization')
   const [authCredentials, setAuthCredentials] = useState('')
+  const [sshTunnel, setSshTunnel] = useState<SshTunnelForm>(EMPTY_SSH_TUNNEL_FORM)
+  const [advanced, setAdvanced] = useState<ConnectionAdvancedForm>(EMPTY_CONNECTION_ADVANCED_FORM)
+  const [environment, setEnvironment] = useState<ConnectionEnvironmentForm>(EMPTY_CONNECTION_ENVIRONMENT_FORM)
   const [error, setError] = useState('')
   const [isConnecting, setIsConnecting] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [importPreview, setImportPreview] = useState<ProfileImportPreview | null>(null)
   const [resolvedTheme, setResolvedTheme] = useState<ResolvedTheme>(() => getSystemTheme())
 
   const loadProfiles = useCallback(async () => {
@@ -87,7 +120,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
     }
   }, [])
 
-  const handleConnectionTypeChange = (newType: 'cloud' | 'self-hosted') => {
+  const handleConnectionTypeChange = (newType: ConnectionType) => {
     if (newType === connectionType) return
     // Swap URL defaults between modes so the user isn't left staring at a
     // localhost URL after picking Cloud (or an empty field after picking
@@ -100,6 +133,25 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
     setConnectionType(newType)
   }
 
+  const handleChooseFolder = async () => {
+    try {
+      const directory = await window.electronAPI.profiles.choosePersistDirectory()
+      if (directory) setFolder(directory)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to choose a folder')
+    }
+  }
+
+  const handleOpenImport = async () => {
+    setError('')
+    try {
+      const preview = await window.electronAPI.profiles.openProfilesFile()
+      if (preview) setImportPreview(preview)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read connections file')
+    }
+  }
+
   const handleContextMenu = useCallback((e: React.MouseEvent, profileId: string) => {
     e.preventDefault()
     e.stopPropagation()
@@ -132,9 +184,11 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
 
     const profile = profiles.find(p => p.id === profileId)
     if (profile) {
-      setConnectionType(inferConnectionType(profile))
+      const type = inferConnectionType(profile)
+      setConnectionType(type)
       setProfileName(profile.name)
-      setUrl(profile.url)
+      setUrl(type === 'local-folder' ? SELF_HOSTED_DEFAULT_URL : profile.url)
+      setFolder(type === 'local-folder' ? profile.url : '')
       setTenant(profile.tenant || '')
       setDatabase(profile.database || '')
       setApiKey(profile.apiKey || '')
@@ -142,6 +196,9 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
       setAuthToken(profile.authToken || '')
       setAuthTokenHeader(profile.authTokenHeader || 'authorization')
       setAuthCredentials(profile.authCredentials || '')
+      setSshTunnel(sshTunnelFormFromProfile(profile))
+      setAdvanced(connectionAdvancedFormFromProfile(profile))
+      setEnvironment(connectionEnvironmentFormFromProfile(profile))
     }
   }
 
@@ -149,6 +206,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
     setConnectionType('self-hosted')
     setProfileName('')
     setUrl(SELF_HOSTED_DEFAULT_URL)
+    setFolder('')
     setTenant('')
     setDatabase('')
     setApiKey('')
@@ -156,6 +214,9 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
     setAuthToken('')
     setAuthTokenHeader('authorization')
     setAuthCredentials('')
+    setSshTunnel(EMPTY_SSH_TUNNEL_FORM)
+    setAdvanced(EMPTY_CONNECTION_ADVANCED_FORM)
+    setEnvironment(EMPTY_CONNECTION_ENVIRONMENT_FORM)
   }
 
   const handleDeleteProfile = async (profileId: string) => {
@@ -200,6 +261,11 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
       return 'Profile name is required'
     }
 
+    const advancedError = validateConnectionAdvancedForm(advanced)
+    if (advancedError) {
+      return advancedError
+    }
+
     if (connectionType === 'cloud') {
       if (!apiKey.trim()) {
         return 'API key is required for Chroma Cloud'
@@ -214,6 +280,10 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
       return null
     }
 
+    if (connectionType === 'local-folder') {
+      return folder.trim() ? null : 'Choose the folder Chroma keeps its data in'
+    }
+
     if (!url.trim()) {
       return 'URL is required'
     }
@@ -224,7 +294,11 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
       return 'Please enter a valid URL (e.g., http://localhost:8000)'
     }
 
-    return null
+    if (sshTunnel.enabled && advanced.proxyUrl.trim()) {
+      return 'A proxy cannot be used with an SSH tunnel; remove one of them'
+    }
+
+    return validateSshTunnelForm(sshTunnel)
   }
 
   const handleSubmit = async (e: FormEvent) => {
@@ -244,20 +318,27 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
         id: selectedProfileId || crypto.randomUUID(),
         name: profileName || `Connection-${Date.now()}`,
         connectionType,
-        url: connectionType === 'cloud' ? (url.trim() || CLOUD_URL) : url.trim(),
+        url: connectionType === 'cloud'
+          ? (url.trim() || CLOUD_URL)
+          : connectionType === 'local-folder' ? folder.trim() : url.trim(),
         createdAt: Date.now(),
       }
 
       if (tenant.trim()) profile.tenant = tenant.trim()
       if (database.trim()) profile.database = database.trim()
+      applyConnectionEnvironmentForm(profile, environment)
 
       if (connectionType === 'cloud') {
+        applyConnectionAdvancedForm(profile, advanced)
         if (apiKey.trim()) profile.apiKey = apiKey.trim()
-      } else {
+      } else if (connectionType === 'self-hosted') {
+        applyConnectionAdvancedForm(profile, advanced)
         if (authType !== 'none') profile.authType = authType
         if (authToken.trim()) profile.authToken = authToken.trim()
         if (authType === 'token' && authTokenHeader !== 'authorization') profile.authTokenHeader = authTokenHeader
         if (authCredentials.trim()) profile.authCredentials = authCredentials.trim()
+        const tunnel = sshTunnelFromForm(sshTunnel)
+        if (tunnel) profile.sshTunnel = tunnel
       }
 
       // Test connection first before saving or proceeding
@@ -317,10 +398,11 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
             {/* Form fields */}
             <div className="flex-1 space-y-4 overflow-y-auto">
               {/* Connection type selector */}
-              <div className="grid grid-cols-2 gap-0.5 p-0.5 rounded bg-black/[0.06] dark:bg-white/[0.08]">
+              <div className="grid grid-cols-3 gap-0.5 p-0.5 rounded bg-black/[0.06] dark:bg-white/[0.08]">
                 {([
                   { value: 'self-hosted', label: 'Self-hosted' },
                   { value: 'cloud', label: 'Chroma Cloud' },
+                  { value: 'local-folder', label: 'Local folder' },
                 ] as const).map((opt) => {
                   const active = connectionType === opt.value
                   return (
@@ -350,24 +432,56 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                     value={profileName}
                     onChange={(e) => setProfileName(e.target.value)}
                     placeholder="My Connection"
-                    className={inputClassName}
+                    className={connectionInputClassName}
                   />
                 </div>
 
-                <div className="flex items-center gap-3">
-                  <label htmlFor="url" className="text-[12px] text-foreground/50 w-16 text-right">URL</label>
-                  <input
-                    type="text"
-                    id="url"
-                    value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    placeholder={connectionType === 'cloud' ? CLOUD_URL : 'http://localhost:8000'}
-                    required={connectionType === 'self-hosted'}
-                    className={inputClassName}
-                  />
-                </div>
+                {connectionType === 'local-folder' ? (
+                  <div className="flex items-center gap-3">
+                    <label htmlFor="folder" className="text-[12px] text-foreground/50 w-16 text-right">Folder</label>
+                    <input
+                      type="text"
+                      id="folder"
+                      value={folder}
+                      onChange={(e) => setFolder(e.target.value)}
+                      placeholder="/path/to/chroma_data"
+                      required
+                      className={connectionInputClassName}
+                    />
+                    <button
+                      type="button"
+                      onClick={handleChooseFolder}
+                      className="flex-shrink-0 h-6 px-2 text-[11px] rounded bg-black/[0.06] dark:bg-white/[0.08] text-foreground/70 hover:bg-black/[0.10] dark:hover:bg-white/[0.12] transition-colors"
+                    >
+                      Choose…
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-3">
+                    <label htmlFor="url" className="text-[12px] text-foreground/50 w-16 text-right">URL</label>
+                    <input
+                      type="text"
+                      id="url"
+                      value={url}
+                      onChange={(e) => setUrl(e.target.value)}
+                      placeholder={connectionType === 'cloud' ? CLOUD_URL : 'http://localhost:8000'}
+                      required={connectionType === 'self-hosted'}
+                      className={connectionInputClassName}
+                    />
+                  </div>
+                )}
               </div>
 
+              {connectionType === 'local-folder' && (
+                <div className="flex gap-3">
+                  <span className="w-16 flex-shrink-0" />
+                  <p className="text-[11px] leading-snug text-foreground/40">
+                    A Chroma server runs on this folder while a window for it is open. It needs
+                    the chroma command (pip install chromadb) or uv.
+                  </p>
+                </div>
+              )}
+
               {/* Auth section - self-hosted only */}
               {connectionType === 'self-hosted' && (
                 <div className="space-y-2.5 pt-2">
@@ -382,7 +496,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                       id="authType"
                       value={authType}
                       onChange={(e) => setAuthType(e.target.value as 'none' | 'token' | 'basic')}
-                      className={inputClassName}
+                      className={connectionInputClassName}
                     >
                       <option value="none">None</option>
                       <option value="token">Token</option>
@@ -398,7 +512,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                           id="authTokenHeader"
                           value={authTokenHeader}
                           onChange={(e) => setAuthTokenHeader(e.target.value as 'authorization' | 'x-chroma-token')}
-                          className={inputClassName}
+                          className={connectionInputClassName}
                         >
                           <option value="authorization">Authorization: Bearer</option>
                           <option value="x-chroma-token">X-Chroma-Token</option>
@@ -412,7 +526,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                           value={authToken}
                           onChange={(e) => setAuthToken(e.target.value)}
                           placeholder="••••••••"
-                          className={inputClassName}
+                          className={connectionInputClassName}
                         />
                       </div>
                     </>
@@ -427,13 +541,17 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                         value={authCredentials}
                         onChange={(e) => setAuthCredentials(e.target.value)}
                         placeholder="username:password"
-                        className={inputClassName}
+                        className={connectionInputClassName}
                       />
                     </div>
                   )}
                 </div>
               )}
 
+              {connectionType === 'self-hosted' && (
+                <SshTunnelFields value={sshTunnel} onChange={setSshTunnel} />
+              )}
+
               {/* Tenant/Database — universal for Chroma 1.5+; API Key only for Cloud */}
               <div className="space-y-2.5 pt-2">
                 <div className="flex items-center gap-3">
@@ -444,7 +562,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                     value={tenant}
                     onChange={(e) => setTenant(e.target.value)}
                     placeholder="default_tenant"
-                    className={inputClassName}
+                    className={connectionInputClassName}
                   />
                 </div>
 
@@ -456,7 +574,7 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                     value={database}
                     onChange={(e) => setDatabase(e.target.value)}
                     placeholder="default_database"
-                    className={inputClassName}
+                    className={connectionInputClassName}
                   />
                 </div>
 
@@ -469,11 +587,17 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                       value={apiKey}
                       onChange={(e) => setApiKey(e.target.value)}
                       placeholder="••••••••"
-                      className={inputClassName}
+                      className={connectionInputClassName}
                     />
                   </div>
                 )}
               </div>
+
+              <ConnectionEnvironmentFields value={environment} onChange={setEnvironment} />
+
+              {connectionType !== 'local-folder' && (
+                <ConnectionAdvancedFields value={advanced} onChange={setAdvanced} />
+              )}
             </div>
 
             {/* Error + Action anchored to bottom */}
@@ -540,15 +664,21 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
                         : 'hover:bg-black/[0.04] dark:hover:bg-white/[0.06]'
                     }`}
                   >
-                    <div className={`text-[12px] truncate ${
+                    <div className={`flex items-center gap-1.5 text-[12px] ${
                       isSelected ? 'text-foreground' : 'text-foreground/60'
                     }`}>
-                      {profile.name}
+                      {environmentColor(profile) && (
+                        <span className="size-1.5 flex-shrink-0 rounded-full" style={{ background: environmentColor(profile)! }} />
+                      )}
+                      <span className="truncate">{profile.name}</span>
                     </div>
                     <div className="text-[10px] text-foreground/30 truncate">
                       {inferConnectionType(profile) === 'cloud'
                         ? 'Chroma Cloud'
-                        : profile.url.replace(/^https?:\/\//, '')}
+                        : inferConnectionType(profile) === 'local-folder'
+                          ? `Folder ${profile.url}`
+                          : profile.url.replace(/^https?:\/\//, '')}
+                      {profile.sshTunnel && ` via ${profile.sshTunnel.host}`}
                     </div>
                   </button>
                 )
@@ -570,8 +700,35 @@ export default function ConnectionModal({ isOpen, onConnect }: ConnectionModalPr
           >
             + New
           </button>
+          <div className="mt-1 flex gap-1">
+            <button
+              type="button"
+              onClick={handleOpenImport}
+              className="flex-1 h-5 text-[10px] rounded text-foreground/40 hover:bg-black/[0.04] dark:hover:bg-white/[0.06] hover:text-foreground/60 transition-colors"
+            >
+              Import...
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsExportOpen(true)}
+              disabled={profiles.length === 0}
+              className="flex-1 h-5 text-[10px] rounded text-foreground/40 hover:bg-black/[0.04] dark:hover:bg-white/[0.06] hover:text-foreground/60 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+              Export...
+            </button>
+          </div>
         </div>
       </div>
+
+      {isExportOpen && <ExportProfilesDialog profiles={profiles} onClose={() => setIsExportOpen(false)} />}
+      {importPreview && (
+        <ImportProfilesDialog
+          key={importPreview.fileToken}
+          preview={importPreview}
+          onClose={() => setImportPreview(null)}
+          onImported={loadProfiles}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,351 @@
+import { useState, type ReactNode } from 'react'
+import * as DialogPrimitive from '@radix-ui/react-dialog'
+import type {
+  ConnectionProfile,
+  ExportProfilesResult,
+  ImportProfilesResult,
+  ProfileConflictPolicy,
+  ProfileImportPreview,
+} from '@/types/electron'
+import { formStyles } from '../../styles/form-controls'
+import { cn } from '@/lib/utils'
+
+// Short passphrases make the encrypted secrets easy to brute-force
+const MIN_PASSPHRASE_LENGTH = 8
+
+const CONFLICT_POLICIES: { value: ProfileConflictPolicy; label: string }[] = [
+  { value: 'skip', label: 'Skip them' },
+  { value: 'replace', label: 'Replace the saved ones' },
+  { value: 'keep-both', label: 'Keep both' },
+]
+
+interface TransferDialogProps {
+  onClose: () => void
+  busy: boolean
+  title: string
+  description: ReactNode
+  children: ReactNode
+  footer: ReactNode
+}
+
+function TransferDialog({ onClose, busy, title, description, children, footer }: TransferDialogProps) {
+  return (
+    <DialogPrimitive.Root open onOpenChange={(next) => { if (!next && !busy) onClose() }}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay
+          className="fixed inset-0 z-50 bg-black/20 data-[state=open]:animate-in data-[state=closed]:animate-out data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0"
+        />
+        <DialogPrimitive.Content
+          className={cn(
+            "fixed left-[50%] top-[50%] z-50 translate-x-[-50%] translate-y-[-50%]",
+            "w-[360px] rounded-xl",
+            "bg-background/80 backdrop-blur-2xl backdrop-saturate-150",
+            "shadow-[0_24px_48px_-12px_rgba(0,0,0,0.3)]",
+            "ring-1 ring-black/10 dark:ring-white/10",
+            "duration-200 data-[state=open]:animate-in data-[state=closed]:animate-out",
+            "data-[state=closed]:fade-out-0 data-[state=open]:fade-in-0",
+            "data-[state=closed]:zoom-out-95 data-[state=open]:zoom-in-95"
+          )}
+        >
+          <div className="px-5 pt-5 pb-4 space-y-3 text-[11px]">
+            <div className="text-center">
+              <DialogPrimitive.Title className="text-[13px] font-semibold text-foreground">{title}</DialogPrimitive.Title>
+              <DialogPrimitive.Description className="mt-1 text-muted-foreground leading-[1.4]">
+                {description}
+              </DialogPrimitive.Description>
+            </div>
+            {children}
+          </div>
+          <div className="px-4 pb-4 flex gap-2">{footer}</div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  )
+}
+
+function describeConnection(entry: Pick<ConnectionProfile, 'connectionType' | 'url'>): string {
+  if (entry.connectionType === 'cloud') return 'Chroma Cloud'
+  if (entry.connectionType === 'local-folder') return `Folder ${entry.url}`
+  return entry.url.replace(/^https?:\/\//, '')
+}
+
+interface ExportProfilesDialogProps {
+  onClose: () => void
+  profiles: ConnectionProfile[]
+}
+
+/**
+ * Save saved connections to a file a teammate can import. Secrets are left
+ * out unless the user gives a passphrase to encrypt them with.
+ */
+export function ExportProfilesDialog({ onClose, profiles }: ExportProfilesDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(profiles.map(p => p.id)))
+  const [includeSecrets, setIncludeSecrets] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+  const [result, setResult] = useState<ExportProfilesResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggle = (id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const validationError = selectedIds.size === 0
+    ? 'Choose at least one connection'
+    : includeSecrets && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : includeSecrets && passphrase !== confirmPassphrase
+        ? 'The passphrases do not match'
+        : null
+
+  const handleExport = async () => {
+    if (validationError) return
+    setIsExporting(true)
+    setError(null)
+    try {
+      const exported = await window.electronAPI.profiles.exportProfiles({
+        // In the sidebar's order, not the order they were ticked
+        profileIds: profiles.filter(p => selectedIds.has(p.id)).map(p => p.id),
+        passphrase: includeSecrets ? passphrase : undefined,
+      })
+      if (exported) setResult(exported)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export connections')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <TransferDialog
+      onClose={onClose}
+      busy={isExporting}
+      title="Export Connections"
+      description="Save connections to a file to share or move to another machine."
+      footer={result ? (
+        <button type="button" onClick={onClose} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+          Close
+        </button>
+      ) : (
+        <>
+          <button type="button" onClick={onClose} disabled={isExporting} className={cn(formStyles.dialogButton, 'flex-1')}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!!validationError || isExporting}
+            className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+          >
+            {isExporting ? 'Exporting...' : 'Export...'}
+          </button>
+        </>
+      )}
+    >
+      {result ? (
+        <div className="text-center">
+          Exported <span className="font-medium text-foreground">{result.profileCount}</span>{' '}
+          {result.profileCount === 1 ? 'connection' : 'connections'} to{' '}
+          <span className="font-medium text-foreground">{result.fileName}</span>
+          {result.includesSecrets ? ', with encrypted secrets' : ', without secrets'}
+        </div>
+      ) : (
+        <>
+          <div className="max-h-40 overflow-y-auto rounded-md bg-black/[0.03] dark:bg-white/[0.05] py-1">
+            {profiles.map(profile => (
+              <label key={profile.id} className="flex items-center gap-2 px-2 py-0.5">
+                <input type="checkbox" checked={selectedIds.has(profile.id)} onChange={() => toggle(profile.id)} />
+                <span className="truncate text-foreground">{profile.name}</span>
+                <span className="truncate text-muted-foreground">{describeConnection(profile)}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeSecrets} onChange={(e) => setIncludeSecrets(e.target.checked)} />
+              Include API keys, tokens and passwords, encrypted
+            </label>
+            {includeSecrets ? (
+              <>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  aria-label="Passphrase"
+                  className={cn(formStyles.input, 'w-full')}
+                  style={formStyles.inputShadow}
+                  autoFocus
+                />
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm passphrase"
+                  aria-label="Confirm passphrase"
+                  className={cn(formStyles.input, 'w-full')}
+                  style={formStyles.inputShadow}
+                />
+                <div className="text-muted-foreground">Share the passphrase separately from the file.</div>
+              </>
+            ) : (
+              <div className="text-muted-foreground">
+                Secrets, custom headers and proxy passwords are left out; whoever imports the file adds their own.
+              </div>
+            )}
+          </div>
+
+          {/* Passphrase problems wait until one is being typed */}
+          {(error || (validationError && (selectedIds.size === 0 || passphrase))) && (
+            <div className="text-destructive">{error ?? validationError}</div>
+          )}
+        </>
+      )}
+    </TransferDialog>
+  )
+}
+
+interface ImportProfilesDialogProps {
+  preview: ProfileImportPreview
+  onClose: () => void
+  // Called once profiles were saved, so the list can be reloaded
+  onImported: () => void
+}
+
+function formatExportedAt(exportedAt: string): string {
+  const date = new Date(exportedAt)
+  return Number.isNaN(date.getTime()) ? 'at an unknown date' : date.toLocaleString()
+}
+
+/**
+ * Review a connections file before saving its profiles, choosing what happens
+ * to ones whose name or server matches a saved connection.
+ */
+export function ImportProfilesDialog({ preview, onClose, onImported }: ImportProfilesDialogProps) {
+  const [onConflict, setOnConflict] = useState<ProfileConflictPolicy>('skip')
+  const [passphrase, setPassphrase] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+  const [result, setResult] = useState<ImportProfilesResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const conflicts = preview.profiles.filter(entry => entry.conflict).length
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    setError(null)
+    try {
+      const imported = await window.electronAPI.profiles.importProfiles({
+        fileToken: preview.fileToken,
+        onConflict,
+        passphrase: passphrase || undefined,
+      })
+      setResult(imported)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import connections')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <TransferDialog
+      onClose={onClose}
+      busy={isImporting}
+      title="Import Connections"
+      description={
+        <>
+          <span className="font-medium text-foreground">{preview.fileName}</span>, exported {formatExportedAt(preview.exportedAt)}
+        </>
+      }
+      footer={result ? (
+        <button type="button" onClick={onClose} className={cn(formStyles.dialogPrimaryButton, 'flex-1')}>
+          Close
+        </button>
+      ) : (
+        <>
+          <button type="button" onClick={onClose} disabled={isImporting} className={cn(formStyles.dialogButton, 'flex-1')}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={isImporting}
+            className={cn(formStyles.dialogPrimaryButton, 'flex-1')}
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </>
+      )}
+    >
+      {result ? (
+        <div className="text-center">
+          Imported <span className="font-medium text-foreground">{result.imported}</span>
+          {result.replaced > 0 && <>, replaced <span className="font-medium text-foreground">{result.replaced}</span></>}
+          {result.skipped > 0 && <>, skipped <span className="font-medium text-foreground">{result.skipped}</span></>}
+        </div>
+      ) : (
+        <>
+          <div className="max-h-40 overflow-y-auto rounded-md bg-black/[0.03] dark:bg-white/[0.05] py-1">
+            {preview.profiles.map((entry, index) => (
+              <div key={index} className="px-2 py-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="truncate text-foreground">{entry.name}</span>
+                  <span className="truncate text-muted-foreground">{describeConnection(entry)}</span>
+                </div>
+                {entry.conflict && (
+                  <div className="text-amber-600 dark:text-amber-400">Matches saved “{entry.conflict.name}”</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {conflicts > 0 && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="profile-import-conflicts" className="text-muted-foreground">
+                {conflicts === 1 ? '1 matching connection:' : `${conflicts} matching connections:`}
+              </label>
+              <select
+                id="profile-import-conflicts"
+                value={onConflict}
+                onChange={(e) => setOnConflict(e.target.value as ProfileConflictPolicy)}
+                className={cn(formStyles.select, 'flex-1')}
+              >
+                {CONFLICT_POLICIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {preview.encryptedSecrets && (
+            <div className="space-y-1">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                aria-label="Passphrase"
+                className={cn(formStyles.input, 'w-full')}
+                style={formStyles.inputShadow}
+                autoFocus
+              />
+              <div className="text-muted-foreground">
+                The file's secrets are encrypted. Leave this empty to import the connections without them.
+              </div>
+            </div>
+          )}
+
+          {error && <div className="text-destructive">{error}</div>}
+        </>
+      )}
+    </TransferDialog>
+  )
+}
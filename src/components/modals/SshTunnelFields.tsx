@@ -0,0 +1,154 @@
+import type { ConnectionProfile, SshTunnelConfig } from '@/types/electron'
+import { connectionInputClassName } from './connection-form'
+
+export interface SshTunnelForm {
+  enabled: boolean
+  host: string
+  port: string
+  user: string
+  auth: 'agent' | 'key'
+  keyPath: string
+}
+
+export const EMPTY_SSH_TUNNEL_FORM: SshTunnelForm = {
+  enabled: false,
+  host: '',
+  port: '',
+  user: '',
+  auth: 'agent',
+  keyPath: '',
+}
+
+export function sshTunnelFormFromProfile(profile: ConnectionProfile): SshTunnelForm {
+  const tunnel = profile.sshTunnel
+  if (!tunnel) return EMPTY_SSH_TUNNEL_FORM
+  return {
+    enabled: true,
+    host: tunnel.host,
+    port: tunnel.port ? String(tunnel.port) : '',
+    user: tunnel.user,
+    auth: tunnel.keyPath ? 'key' : 'agent',
+    keyPath: tunnel.keyPath ?? '',
+  }
+}
+
+export function validateSshTunnelForm(form: SshTunnelForm): string | null {
+  if (!form.enabled) return null
+  if (!form.host.trim()) return 'SSH host is required'
+  if (!form.user.trim()) return 'SSH user is required'
+  if (form.port.trim()) {
+    const port = Number(form.port)
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return 'SSH port must be between 1 and 65535'
+  }
+  if (form.auth === 'key' && !form.keyPath.trim()) return 'SSH key file is required'
+  return null
+}
+
+export function sshTunnelFromForm(form: SshTunnelForm): SshTunnelConfig | undefined {
+  if (!form.enabled) return undefined
+  const tunnel: SshTunnelConfig = { host: form.host.trim(), user: form.user.trim() }
+  if (form.port.trim()) tunnel.port = Number(form.port)
+  if (form.auth === 'key') tunnel.keyPath = form.keyPath.trim()
+  return tunnel
+}
+
+interface SshTunnelFieldsProps {
+  value: SshTunnelForm
+  onChange: (value: SshTunnelForm) => void
+}
+
+/**
+ * Jump host settings for a self-hosted server that is only reachable over
+ * SSH. The URL above is then resolved from the jump host, e.g.
+ * http://localhost:8000 for Chroma running on the jump host itself.
+ */
+export function SshTunnelFields({ value, onChange }: SshTunnelFieldsProps) {
+  const update = (changes: Partial<SshTunnelForm>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className="space-y-2.5 pt-2">
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] text-foreground/30 w-16 text-right uppercase tracking-wider">SSH</span>
+        <div className="flex-1 h-px bg-foreground/10" />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="w-16" />
+        <label className="flex items-center gap-2 text-[12px] text-foreground/70">
+          <input
+            type="checkbox"
+            checked={value.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            data-testid="ssh-tunnel-enabled"
+          />
+          Connect through an SSH tunnel
+        </label>
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="flex items-center gap-3">
+            <label htmlFor="sshHost" className="text-[12px] text-foreground/50 w-16 text-right">Host</label>
+            <input
+              type="text"
+              id="sshHost"
+              value={value.host}
+              onChange={(e) => update({ host: e.target.value })}
+              placeholder="bastion.example.com"
+              className={connectionInputClassName}
+            />
+            <input
+              type="text"
+              id="sshPort"
+              aria-label="SSH port"
+              inputMode="numeric"
+              value={value.port}
+              onChange={(e) => update({ port: e.target.value })}
+              placeholder="22"
+              className={`${connectionInputClassName} !w-16`}
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="sshUser" className="text-[12px] text-foreground/50 w-16 text-right">User</label>
+            <input
+              type="text"
+              id="sshUser"
+              value={value.user}
+              onChange={(e) => update({ user: e.target.value })}
+              placeholder="ubuntu"
+              className={connectionInputClassName}
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <label htmlFor="sshAuth" className="text-[12px] text-foreground/50 w-16 text-right">Key</label>
+            <select
+              id="sshAuth"
+              value={value.auth}
+              onChange={(e) => update({ auth: e.target.value as 'agent' | 'key' })}
+              className={connectionInputClassName}
+            >
+              <option value="agent">SSH agent</option>
+              <option value="key">Key file</option>
+            </select>
+          </div>
+
+          {value.auth === 'key' && (
+            <div className="flex items-center gap-3">
+              <label htmlFor="sshKeyPath" className="text-[12px] text-foreground/50 w-16 text-right">Key file</label>
+              <input
+                type="text"
+                id="sshKeyPath"
+                value={value.keyPath}
+                onChange={(e) => update({ keyPath: e.target.value })}
+                placeholder="~/.ssh/id_ed25519"
+                className={connectionInputClassName}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
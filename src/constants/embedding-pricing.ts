@@ -0,0 +1,110 @@
+import type { EmbeddingFunctionType } from './embedding-functions'
+import type { EmbeddingInputStats, EmbeddingUsage } from '../types/electron'
+
+// Providers that run on the user's machine or their own server, so cost nothing per token
+const LOCAL_PROVIDERS = new Set<string>(['default', 'ollama', 'sentence-transformer', 'huggingface-server'])
+
+// Average characters per token of each provider's tokenizer on English text.
+// Exact counts would need every provider's tokenizer; this is close enough to
+// tell a few cents from a few hundred dollars.
+const CHARACTERS_PER_TOKEN: Partial<Record<EmbeddingFunctionType, number>> = {
+  openai: 4,
+  cohere: 4,
+  'google-gemini': 4,
+  voyageai: 3.5,
+  mistral: 3.5,
+  jina: 4,
+  'together-ai': 4,
+}
+const DEFAULT_CHARACTERS_PER_TOKEN = 4
+
+// List prices in USD per million input tokens, keyed "type:modelName". Models
+// missing here show tokens and requests but no cost.
+export const EMBEDDING_PRICES_PER_MILLION_TOKENS: Record<string, number> = {
+  'openai:text-embedding-3-small': 0.02,
+  'openai:text-embedding-3-large': 0.13,
+  'openai:text-embedding-ada-002': 0.1,
+  'cohere:embed-v4.0': 0.12,
+  'cohere:embed-english-v3.0': 0.1,
+  'cohere:embed-multilingual-v3.0': 0.1,
+  'cohere:embed-english-light-v3.0': 0.1,
+  'cohere:embed-multilingual-light-v3.0': 0.1,
+  'google-gemini:gemini-embedding-001': 0.15,
+  'mistral:mistral-embed': 0.1,
+  'voyageai:voyage-3.5': 0.06,
+  'voyageai:voyage-3.5-lite': 0.02,
+  'voyageai:voyage-3-large': 0.18,
+  'voyageai:voyage-3': 0.06,
+  'voyageai:voyage-3-lite': 0.02,
+  'voyageai:voyage-code-3': 0.18,
+  'voyageai:voyage-finance-2': 0.12,
+  'voyageai:voyage-law-2': 0.12,
+  'together-ai:togethercomputer/m2-bert-80M-8k-retrieval': 0.008,
+}
+
+export interface EmbeddingFunctionRef {
+  type: string
+  modelName?: string
+}
+
+export interface EmbeddingEstimate {
+  documents: number
+  tokens: number
+  requests: number
+  // null when the model's price is unknown
+  costUsd: number | null
+}
+
+// Chroma stores some functions under their Python names
+const SERVER_NAME_TYPES: Record<string, string> = {
+  onnx_mini_lm_l6_v2: 'default',
+  google_generative_ai: 'google-gemini',
+}
+
+// The function a collection's stored configuration embeds with
+export function embeddingFunctionRefFromConfig(
+  config: { name: string; config?: Record<string, unknown> } | null | undefined
+): EmbeddingFunctionRef {
+  if (!config) return { type: 'default' }
+  const modelName = config.config?.model_name
+  return {
+    type: SERVER_NAME_TYPES[config.name] ?? config.name.replace(/_/g, '-'),
+    modelName: typeof modelName === 'string' ? modelName : undefined,
+  }
+}
+
+export function estimateTokens(characters: number, type: string): number {
+  const perToken = CHARACTERS_PER_TOKEN[type as EmbeddingFunctionType] ?? DEFAULT_CHARACTERS_PER_TOKEN
+  return Math.ceil(characters / perToken)
+}
+
+function pricePerMillionTokens(ef: EmbeddingFunctionRef): number | null {
+  if (LOCAL_PROVIDERS.has(ef.type)) return 0
+  return EMBEDDING_PRICES_PER_MILLION_TOKENS[`${ef.type}:${ef.modelName ?? ''}`] ?? null
+}
+
+export function estimateEmbedding(input: EmbeddingInputStats, ef: EmbeddingFunctionRef): EmbeddingEstimate {
+  const tokens = estimateTokens(input.characters, ef.type)
+  const price = pricePerMillionTokens(ef)
+  return {
+    documents: input.documents,
+    tokens,
+    requests: input.requests,
+    costUsd: price === null ? null : (tokens / 1_000_000) * price,
+  }
+}
+
+// Recorded usage priced the same way as an estimate
+export function estimateUsage(usage: EmbeddingUsage): EmbeddingEstimate {
+  return estimateEmbedding(
+    { documents: usage.texts, characters: usage.characters, requests: usage.requests },
+    { type: usage.type, modelName: usage.modelName }
+  )
+}
+
+export function formatCost(costUsd: number | null): string {
+  if (costUsd === null) return 'unknown cost'
+  if (costUsd === 0) return 'free'
+  if (costUsd < 0.01) return 'under $0.01'
+  return `$${costUsd.toFixed(2)}`
+}
@@ -0,0 +1,24 @@
+import type { ConnectionProfile, ProfileEnvironment } from '@/types/electron'
+
+export const PROFILE_ENVIRONMENTS: { value: ProfileEnvironment; label: string; color: string }[] = [
+  { value: 'dev', label: 'Dev', color: '#16a34a' },
+  { value: 'staging', label: 'Staging', color: '#d97706' },
+  { value: 'prod', label: 'Prod', color: '#dc2626' },
+]
+
+export function environmentLabel(environment: ProfileEnvironment): string {
+  return PROFILE_ENVIRONMENTS.find(option => option.value === environment)?.label ?? environment
+}
+
+/** The profile's chosen color, else its environment's; null for untagged profiles. */
+export function environmentColor(profile: Pick<ConnectionProfile, 'environment' | 'environmentColor'> | null): string | null {
+  if (!profile?.environment) return null
+  return profile.environmentColor
+    ?? PROFILE_ENVIRONMENTS.find(option => option.value === profile.environment)?.color
+    ?? null
+}
+
+/** Prod profiles make the user type the collection name before destructive actions. */
+export function requiresTypedConfirmation(profile: Pick<ConnectionProfile, 'environment'> | null | undefined): boolean {
+  return profile?.environment === 'prod'
+}
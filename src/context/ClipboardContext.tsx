@@ -1,33 +1,14 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react'
-
-interface CollectionClipboard {
-  type: 'collection'
-  collection: CollectionInfo
-  sourceProfileId: string
-}
-
-interface DocumentsClipboard {
-  type: 'documents'
-  documents: Array<{
-    id: string
-    document: string | null
-    metadata: Record<string, unknown> | null
-  }>
-  sourceCollectionName: string
-  sourceProfileId: string
-}
-
-type ClipboardItem = CollectionClipboard | DocumentsClipboard
+import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react'
 
 interface ClipboardContextValue {
-  clipboard: ClipboardItem | null
+  clipboard: ClipboardEntry | null
 
   // Collection methods
-  copyCollection: (collection: CollectionInfo, profileId: string) => void
+  copyCollection: (collection: CollectionInfo, profile: ConnectionProfile) => void
   hasCopiedCollection: boolean
 
   // Document methods
-  copyDocuments: (documents: DocumentRecord[], collectionName: string, profileId: string) => void
+  copyDocuments: (documents: DocumentRecord[], collectionName: string, profile: ConnectionProfile) => void
   hasCopiedDocuments: boolean
 
   // Shared
@@ -41,30 +22,53 @@ interface ClipboardProviderProps {
 }
 
 export function ClipboardProvider({ children }: ClipboardProviderProps) {
-  const [clipboard, setClipboard] = useState<ClipboardItem | null>(null)
+  const [clipboard, setClipboard] = useState<ClipboardEntry | null>(null)
+
+  // The clipboard is held by the main process and shared by every window, so
+  // a copy in one connection's window can be pasted into another's
+  useEffect(() => {
+    let cancelled = false
+    window.electronAPI.clipboard.read()
+      .then(item => {
+        if (!cancelled) setClipboard(item)
+      })
+      .catch(error => console.error('Failed to read clipboard:', error))
+    const unsubscribe = window.electronAPI.clipboard.onChange(setClipboard)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
 
-  const copyCollection = useCallback((collection: CollectionInfo, profileId: string) => {
-    setClipboard({ type: 'collection', collection, sourceProfileId: profileId })
+  const writeClipboard = useCallback((item: ClipboardEntry | null) => {
+    setClipboard(item)
+    window.electronAPI.clipboard.write(item).catch(error => console.error('Failed to write clipboard:', error))
   }, [])
 
-  const copyDocuments = useCallback((documents: DocumentRecord[], collectionName: string, profileId: string) => {
-    // Copy documents without embeddings (they'll be regenerated on paste)
+  const copyCollection = useCallback((collection: CollectionInfo, profile: ConnectionProfile) => {
+    writeClipboard({ type: 'collection', collection, sourceProfileId: profile.id, sourceProfileName: profile.name })
+  }, [writeClipboard])
+
+  const copyDocuments = useCallback((documents: DocumentRecord[], collectionName: string, profile: ConnectionProfile) => {
+    // Copy documents without embeddings (they'll be regenerated on paste, or
+    // read from the source collection when pasting into another connection)
     const docsToClipboard = documents.map(doc => ({
       id: doc.id,
       document: doc.document,
       metadata: doc.metadata,
     }))
-    setClipboard({
+    writeClipboard({
       type: 'documents',
       documents: docsToClipboard,
       sourceCollectionName: collectionName,
-      sourceProfileId: profileId,
+      sourceProfileId: profile.id,
+      sourceProfileName: profile.name,
     })
-  }, [])
+  }, [writeClipboard])
 
   const clearClipboard = useCallback(() => {
-    setClipboard(null)
-  }, [])
+    writeClipboard(null)
+  }, [writeClipboard])
 
   const value: ClipboardContextValue = {
     clipboard,
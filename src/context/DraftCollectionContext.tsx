@@ -28,6 +28,8 @@ export interface DraftCollection {
   } | null
   // If copying from an existing collection, this will be set
   sourceCollection?: CollectionInfo
+  // Set when that collection lives on another connection
+  sourceProfile?: { id: string; name: string }
 }
 
 interface DraftCollectionContextValue {
@@ -37,7 +39,7 @@ interface DraftCollectionContextValue {
 
   // Actions
   startCreation: () => void
-  startCopyFromCollection: (collection: CollectionInfo) => void
+  startCopyFromCollection: (collection: CollectionInfo, sourceProfile?: { id: string; name: string }) => void
   updateDraft: (updates: Partial<DraftCollection>) => void
   cancelCreation: () => void
   saveDraft: () => Promise<void>
@@ -71,7 +73,7 @@ export function DraftCollectionProvider({ children }: DraftCollectionProviderPro
   const [isCreating, setIsCreating] = useState(false)
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
 
-  const { currentProfile } = useChromaDB()
+  const { currentProfile, collections } = useChromaDB()
   const { setActiveCollection } = useCollection()
   const createMutation = useCreateCollectionMutation(currentProfile?.id || '')
 
@@ -82,7 +84,7 @@ export function DraftCollectionProvider({ children }: DraftCollectionProviderPro
     setActiveCollection(null)
   }, [setActiveCollection])
 
-  const startCopyFromCollection = useCallback((collection: CollectionInfo) => {
+  const startCopyFromCollection = useCallback((collection: CollectionInfo, sourceProfile?: { id: string; name: string }) => {
     // Find matching embedding function from collection's config
     let embeddingFunctionId: string = DEFAULT_EF.id
     let embeddingFunctionUrl = DEFAULT_EF.url || ''
@@ -127,17 +129,22 @@ export function DraftCollectionProvider({ children }: DraftCollectionProviderPro
       }
     }
 
+    // A copy from another connection keeps its name unless it is taken here
+    const crossConnection = sourceProfile !== undefined && sourceProfile.id !== currentProfile?.id
+    const keepName = crossConnection && !collections.some(c => c.name === collection.name)
+
     setDraftCollection({
-      name: `${collection.name}-copy`,
+      name: keepName ? collection.name : `${collection.name}-copy`,
       embeddingFunctionId,
       embeddingFunctionUrl,
       hnsw,
       firstDocument: null,
       sourceCollection: collection,
+      sourceProfile: crossConnection ? sourceProfile : undefined,
     })
     setValidationErrors({})
     setActiveCollection(null)
-  }, [setActiveCollection])
+  }, [setActiveCollection, currentProfile?.id, collections])
 
   const updateDraft = useCallback((updates: Partial<DraftCollection>) => {
     setDraftCollection((prev) => {
@@ -0,0 +1,79 @@
+import { createContext, useCallback, useContext, useRef, useState, ReactNode } from 'react'
+import type { ConnectionProfile } from '@/types/electron'
+import { useChromaDB } from '../providers/ChromaDBProvider'
+import { requiresTypedConfirmation } from '../constants/profile-environments'
+import { TypeToConfirmDialog } from '../components/modals/TypeToConfirmDialog'
+
+export interface ProtectedActionRequest {
+  // e.g. "Delete 3 Documents"
+  title: string
+  collectionName: string
+  confirmLabel: string
+  // The profile the action changes; the window's own when omitted
+  profile?: ConnectionProfile | null
+}
+
+type ConfirmProtectedAction = (request: ProtectedActionRequest) => Promise<boolean>
+
+interface PendingRequest {
+  id: number
+  request: ProtectedActionRequest
+  profileName: string
+  resolve: (confirmed: boolean) => void
+}
+
+const ProtectedActionContext = createContext<ConfirmProtectedAction | undefined>(undefined)
+
+/**
+ * Lets destructive actions ask for the collection name to be typed before
+ * they run on a prod profile. On other profiles the confirmation resolves
+ * straight away, so callers don't branch on the environment.
+ */
+export function ProtectedActionProvider({ children }: { children: ReactNode }) {
+  const { currentProfile } = useChromaDB()
+  const [pending, setPending] = useState<PendingRequest | null>(null)
+  const nextId = useRef(0)
+
+  const confirmProtectedAction = useCallback<ConfirmProtectedAction>((request) => {
+    const profile = request.profile ?? currentProfile
+    if (!profile || !requiresTypedConfirmation(profile)) return Promise.resolve(true)
+    return new Promise(resolve => {
+      setPending({ id: ++nextId.current, request, profileName: profile.name, resolve })
+    })
+  }, [currentProfile])
+
+  const settle = (confirmed: boolean) => {
+    pending?.resolve(confirmed)
+    setPending(null)
+  }
+
+  return (
+    <ProtectedActionContext.Provider value={confirmProtectedAction}>
+      {children}
+      <TypeToConfirmDialog
+        // A fresh dialog per request, so nothing typed carries over
+        key={pending?.id ?? 0}
+        open={pending !== null}
+        onOpenChange={(open) => { if (!open) settle(false) }}
+        title={pending?.request.title ?? ''}
+        description={
+          <>
+            <span className="font-medium text-foreground">{pending?.profileName}</span> is a production connection.
+            This changes <span className="font-medium text-foreground">{pending?.request.collectionName}</span> there.
+          </>
+        }
+        confirmText={pending?.request.collectionName ?? ''}
+        confirmLabel={pending?.request.confirmLabel ?? 'Confirm'}
+        onConfirm={() => settle(true)}
+      />
+    </ProtectedActionContext.Provider>
+  )
+}
+
+export function useConfirmProtectedAction() {
+  const context = useContext(ProtectedActionContext)
+  if (context === undefined) {
+    throw new Error('useConfirmProtectedAction must be used within a ProtectedActionProvider')
+  }
+  return context
+}
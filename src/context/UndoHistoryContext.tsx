@@ -0,0 +1,25 @@
+import { createContext, useContext, useState, ReactNode } from 'react'
+import { useUndoHistory } from '../hooks/useUndoHistory'
+
+const UndoHistoryContext = createContext<string | null>(null)
+
+/**
+ * Handles Edit > Undo and Redo for the window and keeps the last failure, so
+ * the documents view can show it with its other errors. The next undo or redo
+ * clears it.
+ */
+export function UndoHistoryProvider({ children }: { children: ReactNode }) {
+  const [error, setError] = useState<string | null>(null)
+  useUndoHistory(setError)
+
+  return (
+    <UndoHistoryContext.Provider value={error}>
+      {children}
+    </UndoHistoryContext.Provider>
+  )
+}
+
+/** Why the last undo or redo failed, or null. */
+export function useUndoHistoryError(): string | null {
+  return useContext(UndoHistoryContext)
+}
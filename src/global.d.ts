@@ -1,19 +1,40 @@
 import type {
+  ClipboardEntry as ContractClipboardEntry,
+  CollectionHealthReport as ContractCollectionHealthReport,
   CollectionInfo as ContractCollectionInfo,
   ConnectionProfile as ContractConnectionProfile,
   CopyCollectionParams as ContractCopyCollectionParams,
   CopyCollectionResult as ContractCopyCollectionResult,
+  CopyDocumentsResult as ContractCopyDocumentsResult,
   CopyProgress as ContractCopyProgress,
   CreateCollectionParams as ContractCreateCollectionParams,
   CreateDocumentParams as ContractCreateDocumentParams,
   CreateDocumentsBatchParams as ContractCreateDocumentsBatchParams,
   DeleteDocumentsParams as ContractDeleteDocumentsParams,
+  DocumentInclude as ContractDocumentInclude,
   DocumentRecord as ContractDocumentRecord,
+  DocumentsPage as ContractDocumentsPage,
+  DocumentsPageParams as ContractDocumentsPageParams,
+  HealthFinding as ContractHealthFinding,
+  HealthScanProgress as ContractHealthScanProgress,
   ElectronAPI as ContractElectronAPI,
+  EmbedQueryParams as ContractEmbedQueryParams,
   EmbeddingFunctionOverride as ContractEmbeddingFunctionOverride,
   EmbeddingFunctionType as ContractEmbeddingFunctionType,
+  ExportDocumentsResult as ContractExportDocumentsResult,
+  ExportFileTarget as ContractExportFileTarget,
+  ExportProgress as ContractExportProgress,
   HNSWConfig as ContractHNSWConfig,
+  ImportColumnMapping as ContractImportColumnMapping,
+  ImportDocumentsResult as ContractImportDocumentsResult,
+  ImportFilePreview as ContractImportFilePreview,
+  ImportProgress as ContractImportProgress,
+  MetadataKeyStats as ContractMetadataKeyStats,
+  MetadataSchema as ContractMetadataSchema,
+  QueryByEmbeddingParams as ContractQueryByEmbeddingParams,
   SearchDocumentsParams as ContractSearchDocumentsParams,
+  SnapshotCollectionResult as ContractSnapshotCollectionResult,
+  SnapshotSummary as ContractSnapshotSummary,
   UpdateDocumentParams as ContractUpdateDocumentParams,
   UpdateInfo as ContractUpdateInfo,
   UpdateStatus as ContractUpdateStatus,
@@ -24,8 +45,13 @@ declare global {
   type EmbeddingFunctionOverride = ContractEmbeddingFunctionOverride
   type ConnectionProfile = ContractConnectionProfile
   type CollectionInfo = ContractCollectionInfo
+  type DocumentInclude = ContractDocumentInclude
   type DocumentRecord = ContractDocumentRecord
   type SearchDocumentsParams = ContractSearchDocumentsParams
+  type DocumentsPageParams = ContractDocumentsPageParams
+  type DocumentsPage = ContractDocumentsPage
+  type QueryByEmbeddingParams = ContractQueryByEmbeddingParams
+  type EmbedQueryParams = ContractEmbedQueryParams
   type UpdateDocumentParams = ContractUpdateDocumentParams
   type CreateDocumentParams = ContractCreateDocumentParams
   type DeleteDocumentsParams = ContractDeleteDocumentsParams
@@ -35,6 +61,22 @@ declare global {
   type CopyCollectionParams = ContractCopyCollectionParams
   type CopyCollectionResult = ContractCopyCollectionResult
   type CopyProgress = ContractCopyProgress
+  type CopyDocumentsResult = ContractCopyDocumentsResult
+  type ClipboardEntry = ContractClipboardEntry
+  type CollectionHealthReport = ContractCollectionHealthReport
+  type HealthFinding = ContractHealthFinding
+  type HealthScanProgress = ContractHealthScanProgress
+  type ExportDocumentsResult = ContractExportDocumentsResult
+  type ExportFileTarget = ContractExportFileTarget
+  type ExportProgress = ContractExportProgress
+  type ImportColumnMapping = ContractImportColumnMapping
+  type ImportDocumentsResult = ContractImportDocumentsResult
+  type ImportFilePreview = ContractImportFilePreview
+  type ImportProgress = ContractImportProgress
+  type MetadataKeyStats = ContractMetadataKeyStats
+  type MetadataSchema = ContractMetadataSchema
+  type SnapshotCollectionResult = ContractSnapshotCollectionResult
+  type SnapshotSummary = ContractSnapshotSummary
   type UpdateInfo = ContractUpdateInfo
   type UpdateStatus = ContractUpdateStatus
   type ElectronAPI = ContractElectronAPI
@@ -1,5 +1,5 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import type { ConnectionProfile, SearchDocumentsParams, UpdateDocumentParams, CreateDocumentParams, DeleteDocumentsParams, CreateDocumentsBatchParams, CreateCollectionParams } from '@/types/electron'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData, type QueryClient } from '@tanstack/react-query'
+import type { ConnectionProfile, DocumentsPage, DocumentsPageParams, QueryByEmbeddingParams, SearchDocumentsParams, UpdateDocumentParams, CreateDocumentParams, DeleteDocumentsParams, CreateDocumentsBatchParams, CreateCollectionParams, MetadataSchema, MeasureEmbeddingInputParams, EmbeddingInputStats, EmbeddingUsage } from '@/types/electron'
 
 // Query Keys
 export const chromaQueryKeys = {
@@ -8,6 +8,77 @@ export const chromaQueryKeys = {
   collections: (profileId: string) => [...chromaQueryKeys.all, 'collections', profileId] as const,
   documents: (profileId: string, params: SearchDocumentsParams) =>
     [...chromaQueryKeys.all, 'documents', profileId, params] as const,
+  // Shares the 'documents' prefix (and params.collectionName) so document
+  // mutations invalidate paged reads along with search results.
+  documentPages: (profileId: string, params: DocumentPagesQueryParams) =>
+    [...chromaQueryKeys.all, 'documents', profileId, params, 'pages'] as const,
+  similarDocuments: (profileId: string, params: QueryByEmbeddingParams) =>
+    [...chromaQueryKeys.all, 'documents', profileId, params, 'similar'] as const,
+  queryEmbedding: (profileId: string, collectionName: string, queryText: string) =>
+    [...chromaQueryKeys.all, 'queryEmbedding', profileId, collectionName, queryText] as const,
+  // Deliberately outside the 'documents' prefix: a report describes the scan
+  // that produced it and is only replaced by running a new one
+  collectionHealth: (profileId: string, collectionName: string, nearDuplicateThreshold: number) =>
+    [...chromaQueryKeys.all, 'health', profileId, collectionName, nearDuplicateThreshold] as const,
+  // sampleSize null = full scan
+  metadataSchema: (profileId: string, collectionName: string, sampleSize: number | null) =>
+    [...chromaQueryKeys.all, 'metadataSchema', profileId, collectionName, sampleSize] as const,
+  embeddingInput: (profileId: string, params: MeasureEmbeddingInputParams) =>
+    [...chromaQueryKeys.all, 'embeddingInput', profileId, params] as const,
+  embeddingUsage: (profileId: string) => [...chromaQueryKeys.all, 'embeddingUsage', profileId] as const,
+}
+
+export const DOCUMENTS_PAGE_SIZE = 100
+// Rows a paged read keeps at once. Scrolling past them drops pages from the
+// far end, which are read again when scrolled back to.
+export const MAX_DOCUMENT_ROWS = 1000
+
+// Paged read params; `maxResults` caps the rows loaded across all pages (0 = no cap).
+export type DocumentPagesQueryParams = Omit<DocumentsPageParams, 'offset' | 'pageSize'> & {
+  maxResults: number
+  // Lower-cased ID fragment; rows without it are dropped as their page arrives
+  idContains?: string
+}
+
+type LoadedDocumentsPage = DocumentsPage & { fetchTimeMs: number }
+
+// Pages to keep for MAX_DOCUMENT_ROWS rows, counted from whichever end needs
+// more of them, plus the page being read. Pages thinned by an ID filter make
+// the window span more pages, never fewer rows.
+function windowPageCount(pages: LoadedDocumentsPage[] | undefined): number {
+  const pagesFor = (ordered: LoadedDocumentsPage[]) => {
+    let rows = 0
+    let count = 0
+    for (const page of ordered) {
+      if (rows >= MAX_DOCUMENT_ROWS) break
+      rows += page.documents.length
+      count++
+    }
+    return count
+  }
+  if (!pages) return 1
+  return Math.max(pagesFor(pages), pagesFor([...pages].reverse())) + 1
+}
+
+// Refetch every document read of one collection, and the collection list for
+// its count, after records were written outside the mutations below
+export function invalidateCollectionDocuments(queryClient: QueryClient, profileId: string, collectionName: string) {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey
+      return (
+        key[0] === 'chroma' &&
+        key[1] === 'documents' &&
+        key[2] === profileId &&
+        typeof key[3] === 'object' &&
+        key[3] !== null &&
+        (key[3] as SearchDocumentsParams).collectionName === collectionName
+      )
+    },
+  })
+  queryClient.invalidateQueries({
+    queryKey: chromaQueryKeys.collections(profileId),
+  })
 }
 
 // Profile Query
@@ -66,6 +137,216 @@ export function useDocumentsQuery(
   })
 }
 
+// Similar Documents Query - nearest neighbours of a stored record's embedding
+export function useSimilarDocumentsQuery(
+  profileId: string | null,
+  params: QueryByEmbeddingParams | null
+) {
+  return useQuery({
+    queryKey: chromaQueryKeys.similarDocuments(profileId || '', params ?? { collectionName: '', documentId: '' }),
+    queryFn: async (): Promise<DocumentsQueryResult> => {
+      if (!profileId || !params) {
+        throw new Error('Profile ID and source document are required')
+      }
+      const startTime = performance.now()
+      const documents = await window.electronAPI.chromadb.queryByEmbedding(profileId, params)
+      const fetchTimeMs = Math.round(performance.now() - startTime)
+      return { documents, fetchTimeMs }
+    },
+    enabled: !!profileId && !!params?.collectionName && !!params.documentId,
+    staleTime: 1000 * 15, // 15 seconds
+  })
+}
+
+// Single Record Embedding Query - table reads omit embeddings, so views that
+// show a vector fetch it per record when they need it
+export function useDocumentEmbeddingQuery(
+  profileId: string | null,
+  collectionName: string,
+  documentId: string,
+  enabled: boolean = true
+) {
+  const params: SearchDocumentsParams = {
+    collectionName,
+    ids: [documentId],
+    nResults: 1,
+    include: ['embeddings'],
+  }
+  return useQuery({
+    queryKey: chromaQueryKeys.documents(profileId || '', params),
+    queryFn: async (): Promise<number[] | null> => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      const [record] = await window.electronAPI.chromadb.searchDocuments(profileId, params)
+      return record?.embedding ?? null
+    },
+    enabled: enabled && !!profileId && !!collectionName && !!documentId,
+    staleTime: 1000 * 60, // 1 minute
+  })
+}
+
+// Embeddings for a set of records, keyed by ID - feeds the embedding map
+export function useDocumentEmbeddingsQuery(
+  profileId: string | null,
+  collectionName: string,
+  ids: string[],
+  enabled: boolean = true
+) {
+  const params: SearchDocumentsParams = {
+    collectionName,
+    ids,
+    nResults: ids.length,
+    include: ['embeddings'],
+  }
+  return useQuery({
+    queryKey: chromaQueryKeys.documents(profileId || '', params),
+    queryFn: async (): Promise<Map<string, number[]>> => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      const records = await window.electronAPI.chromadb.searchDocuments(profileId, params)
+      const embeddings = new Map<string, number[]>()
+      for (const record of records) {
+        if (record.embedding && record.embedding.length > 0) {
+          embeddings.set(record.id, record.embedding)
+        }
+      }
+      return embeddings
+    },
+    enabled: enabled && !!profileId && !!collectionName && ids.length > 0,
+    staleTime: 1000 * 60, // 1 minute
+  })
+}
+
+// Query Text Embedding - the vector a semantic text query was ranked against
+export function useQueryEmbeddingQuery(
+  profileId: string | null,
+  collectionName: string,
+  queryText: string | undefined,
+  enabled: boolean = true
+) {
+  return useQuery({
+    queryKey: chromaQueryKeys.queryEmbedding(profileId || '', collectionName, queryText ?? ''),
+    queryFn: async (): Promise<number[]> => {
+      if (!profileId || !queryText) {
+        throw new Error('Profile ID and query text are required')
+      }
+      return window.electronAPI.chromadb.embedQuery(profileId, { collectionName, queryText })
+    },
+    enabled: enabled && !!profileId && !!collectionName && !!queryText,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  })
+}
+
+// Metadata Schema Query - per-key types and value statistics, from a sample
+// of the collection or (sampleSize null) every record
+export function useMetadataSchemaQuery(
+  profileId: string | null,
+  collectionName: string,
+  sampleSize: number | null,
+  enabled: boolean = true
+) {
+  return useQuery({
+    queryKey: chromaQueryKeys.metadataSchema(profileId || '', collectionName, sampleSize),
+    queryFn: async (): Promise<MetadataSchema> => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      return window.electronAPI.chromadb.getMetadataSchema(profileId, {
+        collectionName,
+        sampleSize: sampleSize ?? undefined,
+      })
+    },
+    enabled: enabled && !!profileId && !!collectionName,
+    staleTime: 1000 * 60, // 1 minute
+  })
+}
+
+// Embedding Input Query - the text a copy or re-embed would send, measured
+// once per dialog so the estimate doesn't shift under the user
+export function useEmbeddingInputQuery(
+  profileId: string | null,
+  params: MeasureEmbeddingInputParams,
+  enabled: boolean = true
+) {
+  return useQuery({
+    queryKey: chromaQueryKeys.embeddingInput(profileId || '', params),
+    queryFn: async (): Promise<EmbeddingInputStats> => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      return window.electronAPI.chromadb.measureEmbeddingInput(profileId, params)
+    },
+    enabled: enabled && !!profileId && !!params.collectionName,
+    staleTime: Infinity,
+    gcTime: 0,
+  })
+}
+
+// Embedding Usage Query - what this profile has sent to each embedding function
+export function useEmbeddingUsageQuery(profileId: string | null) {
+  return useQuery({
+    queryKey: chromaQueryKeys.embeddingUsage(profileId || ''),
+    queryFn: async (): Promise<EmbeddingUsage[]> => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      return window.electronAPI.profiles.getEmbeddingUsage(profileId)
+    },
+    enabled: !!profileId,
+  })
+}
+
+// Paged Documents Query - pages are fetched on demand via fetchNextPage and
+// fetchPreviousPage, keeping about MAX_DOCUMENT_ROWS rows
+export function useDocumentPagesQuery(
+  profileId: string | null,
+  params: DocumentPagesQueryParams,
+  enabled: boolean = true
+) {
+  const queryClient = useQueryClient()
+  const queryKey = chromaQueryKeys.documentPages(profileId || '', params)
+  // Each page read re-renders, so the limit is current before the next one
+  const loaded = queryClient.getQueryData<InfiniteData<LoadedDocumentsPage, number>>(queryKey)
+
+  return useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }): Promise<LoadedDocumentsPage> => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      const { maxResults, idContains, ...pageParams } = params
+      const pageSize = maxResults > 0
+        ? Math.min(DOCUMENTS_PAGE_SIZE, maxResults - pageParam)
+        : DOCUMENTS_PAGE_SIZE
+      const startTime = performance.now()
+      const page = await window.electronAPI.chromadb.getDocumentsPage(profileId, {
+        ...pageParams,
+        offset: pageParam,
+        pageSize,
+      })
+      const fetchTimeMs = Math.round(performance.now() - startTime)
+      const documents = idContains
+        ? page.documents.filter(doc => doc.id.toLowerCase().includes(idContains))
+        : page.documents
+      return { ...page, documents, fetchTimeMs }
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => {
+      if (lastPage.nextOffset === null) return undefined
+      if (params.maxResults > 0 && lastPage.nextOffset >= params.maxResults) return undefined
+      return lastPage.nextOffset
+    },
+    // Every page but the last starts a whole page after the one before it
+    getPreviousPageParam: (_firstPage, _allPages, firstPageParam) =>
+      firstPageParam > 0 ? Math.max(0, firstPageParam - DOCUMENTS_PAGE_SIZE) : undefined,
+    maxPages: windowPageCount(loaded?.pages),
+    enabled: enabled && !!profileId && !!params.collectionName,
+    staleTime: 1000 * 15, // 15 seconds
+  })
+}
+
 // Connect Mutation
 export function useConnectMutation() {
   const queryClient = useQueryClient()
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import type { HealthScanProgress } from '@/types/electron'
+import { chromaQueryKeys } from './useChromaQueries'
+
+/**
+ * Health report for one collection. Scans are expensive, so nothing runs until
+ * `scan()` is called; the last report stays cached while the user follows its
+ * findings into the documents view and back.
+ */
+export function useCollectionHealth(
+  profileId: string | null,
+  collectionName: string,
+  nearDuplicateThreshold: number
+) {
+  const [progress, setProgress] = useState<HealthScanProgress | null>(null)
+
+  const query = useQuery({
+    queryKey: chromaQueryKeys.collectionHealth(profileId || '', collectionName, nearDuplicateThreshold),
+    queryFn: async () => {
+      if (!profileId) {
+        throw new Error('Profile ID is required')
+      }
+      return window.electronAPI.chromadb.scanCollectionHealth(profileId, { collectionName, nearDuplicateThreshold })
+    },
+    enabled: false,
+    staleTime: Infinity,
+    gcTime: 1000 * 60 * 30, // 30 minutes
+    retry: false,
+  })
+
+  const isScanning = query.isFetching
+  useEffect(() => {
+    if (!isScanning) return
+    setProgress(null)
+    return window.electronAPI.chromadb.onHealthScanProgress(setProgress)
+  }, [isScanning])
+
+  return {
+    report: query.data ?? null,
+    scannedAt: query.dataUpdatedAt > 0 ? new Date(query.dataUpdatedAt) : null,
+    error: query.error,
+    isScanning,
+    progress: isScanning ? progress : null,
+    scan: () => {
+      void query.refetch()
+    },
+    cancel: () => {
+      if (profileId) {
+        window.electronAPI.chromadb.cancelHealthScan(profileId).catch(() => {
+          // The scan already finished
+        })
+      }
+    },
+  }
+}
@@ -1,5 +1,12 @@
 import { useState, useMemo } from 'react'
-import { DocumentFilters, MetadataFilter, MetadataOperator } from '../types/filters'
+import {
+  buildChromaWhereDocumentClause,
+  DocumentFilterOperator,
+  DocumentFilters,
+  MetadataFilter,
+  MetadataOperator,
+  QueryDocumentFilter,
+} from '../types/filters'
 import type { SearchDocumentsParams } from '@/types/electron'
 import type { Where } from 'chromadb'
 
@@ -9,6 +16,8 @@ export interface UseDocumentFiltersReturn {
   setNResults: (n: number) => void
   addMetadataFilter: (key: string, operator: MetadataOperator, value: string) => void
   removeMetadataFilter: (id: string) => void
+  addDocumentFilter: (operator: DocumentFilterOperator, value: string) => void
+  removeDocumentFilter: (id: string) => void
   clearAllFilters: () => void
   hasActiveFilters: boolean
   buildSearchParams: (collectionName: string) => SearchDocumentsParams
@@ -18,6 +27,7 @@ const initialFilters: DocumentFilters = {
   queryText: '',
   nResults: 10,
   metadataFilters: [],
+  documentFilters: [],
 }
 
 function generateId(): string {
@@ -100,12 +110,38 @@ export function useDocumentFilters(): UseDocumentFiltersReturn {
     }))
   }
 
+  const addDocumentFilter = (operator: DocumentFilterOperator, value: string) => {
+    if (value === '') return
+
+    const newFilter: QueryDocumentFilter = {
+      id: generateId(),
+      operator,
+      value,
+    }
+
+    setFilters((prev) => ({
+      ...prev,
+      documentFilters: [...prev.documentFilters, newFilter],
+    }))
+  }
+
+  const removeDocumentFilter = (id: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      documentFilters: prev.documentFilters.filter((f) => f.id !== id),
+    }))
+  }
+
   const clearAllFilters = () => {
     setFilters(initialFilters)
   }
 
   const hasActiveFilters = useMemo(() => {
-    return filters.queryText.trim() !== '' || filters.metadataFilters.length > 0
+    return (
+      filters.queryText.trim() !== '' ||
+      filters.metadataFilters.length > 0 ||
+      filters.documentFilters.length > 0
+    )
   }, [filters])
 
   const buildSearchParams = (collectionName: string): SearchDocumentsParams => {
@@ -125,6 +161,12 @@ export function useDocumentFilters(): UseDocumentFiltersReturn {
       params.metadataFilter = whereClause
     }
 
+    // Add document text filter if present
+    const whereDocumentClause = buildChromaWhereDocumentClause(filters.documentFilters)
+    if (whereDocumentClause) {
+      params.documentFilter = whereDocumentClause
+    }
+
     return params
   }
 
@@ -134,6 +176,8 @@ export function useDocumentFilters(): UseDocumentFiltersReturn {
     setNResults,
     addMetadataFilter,
     removeMetadataFilter,
+    addDocumentFilter,
+    removeDocumentFilter,
     clearAllFilters,
     hasActiveFilters,
     buildSearchParams,
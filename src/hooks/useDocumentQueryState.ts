@@ -0,0 +1,191 @@
+import { useCallback, useMemo, useRef, useState } from 'react'
+import type { QueryByEmbeddingParams, SearchDocumentsParams } from '@/types/electron'
+import {
+  AdvancedClauses,
+  QueryDocumentFilter,
+  QueryFilterGroup,
+  QueryScope,
+  buildChromaWhereClause,
+  buildChromaWhereDocumentClause,
+  createFilterGroup,
+  hasValidFilters,
+  parseVectorInput,
+  whereClauseToFilterGroup,
+  whereDocumentClauseToFilters,
+} from '../types/filters'
+
+/**
+ * Query toolbar state for one collection: the editable inputs, the values last
+ * committed by a search, and the search params derived from them. Everything
+ * resets when the collection changes. `dimension` validates pasted vectors;
+ * `recordIds`, when set, limits every query to those records.
+ */
+export function useDocumentQueryState(
+  collectionName: string,
+  dimension: number | null,
+  recordIds: string[] | null = null
+) {
+  const [scope, setScope] = useState<QueryScope>('query')
+  const [searchText, setSearchText] = useState('')
+  const [idSearch, setIdSearch] = useState('')
+  const [vectorText, setVectorText] = useState('')
+  const [nResults, setNResults] = useState(100)
+  const [filterGroup, setFilterGroup] = useState<QueryFilterGroup>(() => createFilterGroup())
+  const [documentFilters, setDocumentFilters] = useState<QueryDocumentFilter[]>([])
+  // Non-null while the toolbar is in Advanced mode; these clauses then replace
+  // the ones compiled from the visual builder.
+  const [advancedClauses, setAdvancedClauses] = useState<AdvancedClauses | null>(null)
+  // Source record of a "find similar" search; replaces the query text while set
+  const [similarToId, setSimilarToId] = useState<string | null>(null)
+  const collectionNameRef = useRef(collectionName)
+
+  // "Committed" search text, ID and text filters. Only updated when the toolbar
+  // fires onSearch (300ms debounce after typing, or immediately on Enter). Keeps
+  // queries from refetching on every keystroke, and keeps half-typed regexes
+  // from reaching the server.
+  const [committedSearchText, setCommittedSearchText] = useState('')
+  const [committedIdSearch, setCommittedIdSearch] = useState('')
+  const [committedVectorText, setCommittedVectorText] = useState('')
+  const [committedDocumentFilters, setCommittedDocumentFilters] = useState<QueryDocumentFilter[]>([])
+
+  // nResults is treated as a view preference, not a filter — leave it alone.
+  const handleClearAllFilters = useCallback(() => {
+    setScope('query')
+    setSearchText('')
+    setIdSearch('')
+    setVectorText('')
+    setCommittedSearchText('')
+    setCommittedIdSearch('')
+    setCommittedVectorText('')
+    setFilterGroup(createFilterGroup())
+    setDocumentFilters([])
+    setCommittedDocumentFilters([])
+    setAdvancedClauses(null)
+    setSimilarToId(null)
+  }, [])
+
+  if (collectionNameRef.current !== collectionName) {
+    collectionNameRef.current = collectionName
+    handleClearAllFilters()
+  }
+
+  // Errors reflect what is typed; only a valid committed vector is queried
+  const vectorError = scope === 'vector' ? parseVectorInput(vectorText, dimension).error : null
+  const queryEmbedding = useMemo(
+    () => (scope === 'vector' ? parseVectorInput(committedVectorText, dimension).value : undefined),
+    [scope, committedVectorText, dimension]
+  )
+
+  // `metadataFilter` updates immediately as filters change; `queryText`,
+  // `queryEmbedding` and `documentFilter` use the committed values.
+  const searchParams = useMemo<SearchDocumentsParams>(() => {
+    const queryText = scope === 'query'
+      ? committedSearchText.trim() || undefined
+      : undefined
+
+    return {
+      collectionName,
+      queryText,
+      queryEmbedding,
+      nResults,
+      ids: recordIds ?? undefined,
+      metadataFilter: advancedClauses ? advancedClauses.where : buildChromaWhereClause(filterGroup),
+      documentFilter: advancedClauses
+        ? advancedClauses.whereDocument
+        : buildChromaWhereDocumentClause(committedDocumentFilters),
+    }
+  }, [collectionName, scope, committedSearchText, queryEmbedding, nResults, recordIds, filterGroup, committedDocumentFilters, advancedClauses])
+
+  // Filters still narrow the neighbours; the limit applies to the ranked list
+  const similarParams = useMemo<QueryByEmbeddingParams | null>(() => {
+    if (!similarToId) return null
+    return {
+      collectionName,
+      documentId: similarToId,
+      nResults,
+      metadataFilter: searchParams.metadataFilter,
+      documentFilter: searchParams.documentFilter,
+    }
+  }, [collectionName, similarToId, nResults, searchParams.metadataFilter, searchParams.documentFilter])
+
+  // Lower-cased ID fragment for client-side filtering, empty when not searching by ID
+  const idFilterValue = scope === 'id' ? committedIdSearch.trim().toLowerCase() : ''
+
+  const hasActiveFilters =
+    similarToId !== null ||
+    recordIds !== null ||
+    (scope === 'query' && committedSearchText.trim().length > 0) ||
+    queryEmbedding !== undefined ||
+    idFilterValue.length > 0 ||
+    (advancedClauses
+      ? advancedClauses.where !== undefined || advancedClauses.whereDocument !== undefined
+      : hasValidFilters(filterGroup) || committedDocumentFilters.some(f => f.value !== ''))
+
+  // Commit the current inputs so the query refetches (called debounced or on Enter)
+  const handleSearch = useCallback(() => {
+    setCommittedSearchText(searchText)
+    setCommittedIdSearch(idSearch)
+    setCommittedVectorText(vectorText)
+    setCommittedDocumentFilters(documentFilters)
+  }, [searchText, idSearch, vectorText, documentFilters])
+
+  const clearSimilar = useCallback(() => setSimilarToId(null), [])
+
+  // Advanced mode starts from whatever the visual builder currently applies
+  const enterAdvancedMode = useCallback(() => {
+    setAdvancedClauses({
+      where: buildChromaWhereClause(filterGroup),
+      whereDocument: buildChromaWhereDocumentClause(committedDocumentFilters),
+    })
+  }, [filterGroup, committedDocumentFilters])
+
+  // Convert the applied clauses back into rows. Returns false, leaving Advanced
+  // mode on, when they use something the visual builder can't represent.
+  const exitAdvancedMode = useCallback((): boolean => {
+    if (!advancedClauses) return true
+    const group = advancedClauses.where
+      ? whereClauseToFilterGroup(advancedClauses.where)
+      : createFilterGroup()
+    const textFilters = advancedClauses.whereDocument
+      ? whereDocumentClauseToFilters(advancedClauses.whereDocument)
+      : []
+    if (!group || !textFilters) return false
+
+    setFilterGroup(group)
+    setDocumentFilters(textFilters)
+    setCommittedDocumentFilters(textFilters)
+    setAdvancedClauses(null)
+    return true
+  }, [advancedClauses])
+
+  return {
+    scope,
+    setScope,
+    searchText,
+    setSearchText,
+    idSearch,
+    setIdSearch,
+    vectorText,
+    setVectorText,
+    vectorError,
+    nResults,
+    setNResults,
+    filterGroup,
+    setFilterGroup,
+    documentFilters,
+    setDocumentFilters,
+    advancedClauses,
+    setAdvancedClauses,
+    enterAdvancedMode,
+    exitAdvancedMode,
+    searchParams,
+    similarParams,
+    similarToId,
+    findSimilar: setSimilarToId,
+    clearSimilar,
+    idFilterValue,
+    hasActiveFilters,
+    handleSearch,
+    handleClearAllFilters,
+  }
+}
@@ -0,0 +1,110 @@
+import { useMemo } from 'react'
+import type { DocumentRecord, ExportSource, QueryByEmbeddingParams, SearchDocumentsParams } from '@/types/electron'
+import { useDocumentPagesQuery, useDocumentsQuery, useSimilarDocumentsQuery } from './useChromaQueries'
+
+const NO_DOCUMENTS: DocumentRecord[] = []
+
+/**
+ * Documents for the table. A semantic query (by text or raw vector) or a "find
+ * similar" search is ranked server-side and arrives in one response; plain browsing and metadata filtering
+ * are read page by page as the table scrolls, so large collections never load
+ * in full. Paged results hold a window of pages that moves with the scroll,
+ * so `documents` may start past the first match (`hasPrevious`).
+ * `idContains` is a lower-cased ID fragment the rows must contain.
+ */
+export function useDocumentResults(
+  profileId: string | null,
+  params: SearchDocumentsParams,
+  similarParams: QueryByEmbeddingParams | null = null,
+  idContains: string = ''
+) {
+  const isSimilarQuery = similarParams !== null
+  const isSemanticQuery = !isSimilarQuery && (!!params.queryText || !!params.queryEmbedding)
+  const searchQuery = useDocumentsQuery(profileId, params, isSemanticQuery)
+  const similarQuery = useSimilarDocumentsQuery(profileId, similarParams)
+  const pagesQuery = useDocumentPagesQuery(
+    profileId,
+    {
+      collectionName: params.collectionName,
+      metadataFilter: params.metadataFilter,
+      documentFilter: params.documentFilter,
+      ids: params.ids,
+      maxResults: params.nResults ?? 0,
+      idContains: idContains || undefined,
+    },
+    !isSemanticQuery && !isSimilarQuery
+  )
+
+  const pages = pagesQuery.data?.pages
+  const pagedDocuments = useMemo(
+    () => (pages ? pages.flatMap(page => page.documents) : NO_DOCUMENTS),
+    [pages]
+  )
+
+  const rankedQuery = isSimilarQuery ? similarQuery : searchQuery
+  const rankedData = rankedQuery.data?.documents
+  const rankedDocuments = useMemo(() => {
+    if (!rankedData) return NO_DOCUMENTS
+    return idContains ? rankedData.filter(doc => doc.id.toLowerCase().includes(idContains)) : rankedData
+  }, [rankedData, idContains])
+
+  if (isSemanticQuery || isSimilarQuery) {
+    return {
+      documents: rankedDocuments,
+      loading: rankedQuery.isLoading,
+      error: rankedQuery.error,
+      isFetching: rankedQuery.isFetching,
+      fetchTimeMs: rankedQuery.data?.fetchTimeMs ?? null,
+      total: null,
+      loadedThrough: null,
+      hasMore: false,
+      isFetchingMore: false,
+      loadMore: () => {},
+      hasPrevious: false,
+      isFetchingPrevious: false,
+      loadPrevious: () => {},
+    }
+  }
+
+  const lastPage = pages?.[pages.length - 1]
+  return {
+    documents: pagedDocuments,
+    loading: pagesQuery.isLoading,
+    error: pagesQuery.error,
+    isFetching: pagesQuery.isFetching,
+    fetchTimeMs: lastPage?.fetchTimeMs ?? null,
+    total: lastPage?.total ?? null,
+    // Records read up to the end of the window, counting rows the ID filter dropped
+    loadedThrough: lastPage ? lastPage.nextOffset ?? lastPage.total : null,
+    hasMore: pagesQuery.hasNextPage,
+    isFetchingMore: pagesQuery.isFetchingNextPage,
+    loadMore: () => {
+      if (pagesQuery.hasNextPage && !pagesQuery.isFetchingNextPage) {
+        void pagesQuery.fetchNextPage({ cancelRefetch: false })
+      }
+    },
+    hasPrevious: pagesQuery.hasPreviousPage,
+    isFetchingPrevious: pagesQuery.isFetchingPreviousPage,
+    loadPrevious: () => {
+      if (pagesQuery.hasPreviousPage && !pagesQuery.isFetchingPreviousPage) {
+        void pagesQuery.fetchPreviousPage({ cancelRefetch: false })
+      }
+    },
+  }
+}
+
+/** The export source that reproduces what useDocumentResults shows for the same params. */
+export function resultSetExportSource(
+  params: SearchDocumentsParams,
+  similarParams: QueryByEmbeddingParams | null
+): ExportSource {
+  if (similarParams) return { kind: 'similar', similar: similarParams }
+  if (params.queryText || params.queryEmbedding) return { kind: 'search', search: params }
+  return {
+    kind: 'filter',
+    metadataFilter: params.metadataFilter,
+    documentFilter: params.documentFilter,
+    ids: params.ids,
+    maxResults: params.nResults || undefined,
+  }
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react'
+
+export interface DocumentsMenuHandlers {
+  onNewDocument: () => void
+  onDeleteSelected: () => void
+  onCopyDocuments: () => void
+  onPasteDocuments: () => void
+  onSelectAll: () => void
+  onClearFilters: () => void
+  onEditDocument: () => void
+}
+
+// Menu events dispatched from useMenuHandlers, mapped to the handler they trigger
+const MENU_EVENTS: [string, keyof DocumentsMenuHandlers][] = [
+  ['menu:new-document', 'onNewDocument'],
+  ['menu:delete-selected', 'onDeleteSelected'],
+  ['menu:copy-documents', 'onCopyDocuments'],
+  ['menu:paste-documents', 'onPasteDocuments'],
+  ['menu:select-all-documents', 'onSelectAll'],
+  ['menu:clear-filters', 'onClearFilters'],
+  ['menu:edit-document', 'onEditDocument'],
+]
+
+// Focus the first search input in the query toolbar
+function focusSearch() {
+  const searchInput = document.querySelector('input[placeholder*="Search"]') as HTMLInputElement
+  if (searchInput) {
+    searchInput.focus()
+    searchInput.select()
+  }
+}
+
+// Click the embedding function selector button
+function configureEmbedding() {
+  const embeddingButton = document.querySelector('[data-embedding-selector]') as HTMLButtonElement
+  if (embeddingButton) {
+    embeddingButton.click()
+  }
+}
+
+/**
+ * Native app menu commands for the documents view. Listeners are registered
+ * once and always call the latest handlers.
+ */
+export function useDocumentsMenuEvents(handlers: DocumentsMenuHandlers) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    const listeners = MENU_EVENTS.map(([eventName, handlerName]) => {
+      const listener = () => handlersRef.current[handlerName]()
+      window.addEventListener(eventName, listener)
+      return [eventName, listener] as const
+    })
+    window.addEventListener('menu:focus-search', focusSearch)
+    window.addEventListener('menu:configure-embedding', configureEmbedding)
+
+    return () => {
+      listeners.forEach(([eventName, listener]) => window.removeEventListener(eventName, listener))
+      window.removeEventListener('menu:focus-search', focusSearch)
+      window.removeEventListener('menu:configure-embedding', configureEmbedding)
+    }
+  }, [])
+}
@@ -31,6 +31,19 @@ export function useMenuHandlers() {
     window.dispatchEvent(new CustomEvent('menu:clear-filters'))
   }, [])
 
+  // File menu handlers
+  const handleImportDocuments = useCallback(() => {
+    // Dispatch event for MainContent to open the import wizard
+    if (activeCollection) {
+      window.dispatchEvent(new CustomEvent('menu:import-documents'))
+    }
+  }, [activeCollection])
+
+  const handleRestoreSnapshot = useCallback(() => {
+    // Dispatch event for RestoreSnapshotDialog to pick a snapshot file
+    window.dispatchEvent(new CustomEvent('menu:restore-snapshot'))
+  }, [])
+
   // Collection menu handlers
   const handleNewCollection = useCallback(() => {
     startCreation()
@@ -69,6 +82,11 @@ export function useMenuHandlers() {
     window.dispatchEvent(new CustomEvent('menu:paste-collection'))
   }, [])
 
+  const handleCompareCollections = useCallback(() => {
+    // Dispatch event for CollectionPanel to open the compare dialog
+    window.dispatchEvent(new CustomEvent('menu:compare-collections'))
+  }, [])
+
   // Document menu handlers
   const handleNewDocument = useCallback(() => {
     // Dispatch event for DocumentsView to create a new document
@@ -126,6 +144,10 @@ export function useMenuHandlers() {
     const unsubFocusSearch = window.electronAPI.menu.onFocusSearch(handleFocusSearch)
     const unsubClearFilters = window.electronAPI.menu.onClearFilters(handleClearFilters)
 
+    // File menu
+    const unsubImportDocuments = window.electronAPI.menu.onImportDocuments(handleImportDocuments)
+    const unsubRestoreSnapshot = window.electronAPI.menu.onRestoreSnapshot(handleRestoreSnapshot)
+
     // Collection menu
     const unsubNewCollection = window.electronAPI.menu.onNewCollection(handleNewCollection)
     const unsubDuplicateCollection = window.electronAPI.menu.onDuplicateCollection(handleDuplicateCollection)
@@ -133,6 +155,7 @@ export function useMenuHandlers() {
     const unsubDeleteCollection = window.electronAPI.menu.onDeleteCollection(handleDeleteCollection)
     const unsubCopyCollection = window.electronAPI.menu.onCopyCollection(handleCopyCollection)
     const unsubPasteCollection = window.electronAPI.menu.onPasteCollection(handlePasteCollection)
+    const unsubCompareCollections = window.electronAPI.menu.onCompareCollections(handleCompareCollections)
 
     // Document menu
     const unsubNewDocument = window.electronAPI.menu.onNewDocument(handleNewDocument)
@@ -154,12 +177,15 @@ export function useMenuHandlers() {
       unsubToggleRight()
       unsubFocusSearch()
       unsubClearFilters()
+      unsubImportDocuments()
+      unsubRestoreSnapshot()
       unsubNewCollection()
       unsubDuplicateCollection()
       unsubRenameCollection()
       unsubDeleteCollection()
       unsubCopyCollection()
       unsubPasteCollection()
+      unsubCompareCollections()
       unsubNewDocument()
       unsubEditDocument()
       unsubDeleteSelected()
@@ -175,12 +201,15 @@ export function useMenuHandlers() {
     handleToggleRightPanel,
     handleFocusSearch,
     handleClearFilters,
+    handleImportDocuments,
+    handleRestoreSnapshot,
     handleNewCollection,
     handleDuplicateCollection,
     handleRenameCollection,
     handleDeleteCollection,
     handleCopyCollection,
     handlePasteCollection,
+    handleCompareCollections,
     handleNewDocument,
     handleEditDocument,
     handleDeleteSelected,
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ProjectionMethod } from '../lib/projection'
+import type { ProjectionRequest, ProjectionResponse } from '../workers/projection.worker'
+
+interface ProjectionState {
+  coordinates: number[][] | null
+  computing: boolean
+  error: string | null
+}
+
+function createProjectionWorker(): Worker {
+  return new Worker(new URL('../workers/projection.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Project `vectors` to 2D or 3D in a web worker. A new input supersedes any
+ * projection still running: the busy worker is terminated rather than left to
+ * finish a layout nobody will see.
+ */
+export function useProjection(
+  vectors: number[][] | null,
+  method: ProjectionMethod,
+  components: 2 | 3
+): ProjectionState {
+  const [state, setState] = useState<ProjectionState>({ coordinates: null, computing: false, error: null })
+  const workerRef = useRef<Worker | null>(null)
+  const busyRef = useRef(false)
+  const jobIdRef = useRef(0)
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!vectors || vectors.length === 0) {
+      setState({ coordinates: null, computing: false, error: null })
+      return
+    }
+
+    if (busyRef.current) {
+      workerRef.current?.terminate()
+      workerRef.current = null
+    }
+    const worker = workerRef.current ?? createProjectionWorker()
+    workerRef.current = worker
+
+    const id = ++jobIdRef.current
+    worker.onmessage = (event: MessageEvent<ProjectionResponse>) => {
+      if (event.data.id !== jobIdRef.current) return
+      busyRef.current = false
+      if ('error' in event.data) {
+        setState({ coordinates: null, computing: false, error: event.data.error })
+      } else {
+        setState({ coordinates: event.data.coordinates, computing: false, error: null })
+      }
+    }
+    worker.onerror = (event) => {
+      busyRef.current = false
+      setState({ coordinates: null, computing: false, error: event.message || 'Projection worker failed' })
+    }
+
+    busyRef.current = true
+    setState(previous => ({ ...previous, computing: true, error: null }))
+    const request: ProjectionRequest = { id, method, components, vectors }
+    worker.postMessage(request)
+  }, [vectors, method, components])
+
+  return state
+}
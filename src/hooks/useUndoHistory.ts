@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { invalidateCollectionDocuments } from './useChromaQueries'
+
+function isEditable(element: Element | null): boolean {
+  if (!element) return false
+  if (element instanceof HTMLElement && element.isContentEditable) return true
+  return element instanceof HTMLTextAreaElement || (element instanceof HTMLInputElement && element.type !== 'checkbox')
+}
+
+/**
+ * Edit > Undo and Redo. Inside a text field they act on the text; anywhere
+ * else they undo or redo the window's last document change, which the main
+ * process records as each mutation runs. `onError` gets why an undo or redo
+ * failed, and null once one is tried again.
+ */
+export function useUndoHistory(onError: (message: string | null) => void) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const run = (action: 'undo' | 'redo') => async () => {
+      if (isEditable(document.activeElement)) {
+        document.execCommand(action)
+        return
+      }
+      onError(null)
+      try {
+        const change = await window.electronAPI.history[action]()
+        if (change) {
+          invalidateCollectionDocuments(queryClient, change.profileId, change.collectionName)
+        }
+      } catch (error) {
+        onError(`Could not ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    const unsubUndo = window.electronAPI.menu.onUndo(run('undo'))
+    const unsubRedo = window.electronAPI.menu.onRedo(run('redo'))
+    return () => {
+      unsubUndo()
+      unsubRedo()
+    }
+  }, [queryClient, onError])
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useLayoutEffect, useState } from 'react'
+
+interface VirtualRowsOptions {
+  count: number
+  rowHeight: number
+  // Height of content rendered above the virtualized rows (header, draft rows)
+  offsetTop?: number
+  overscan?: number
+  // Row identities, so rows added or dropped above the viewport don't move the ones in it
+  rowKeys?: string[]
+}
+
+// How many rows the list grew (positive) or shrank by above its old first row
+function topShift(previous: string[], next: string[]): number {
+  if (previous.length === 0 || next.length === 0) return 0
+  const dropped = previous.indexOf(next[0])
+  if (dropped > 0) return -dropped
+  const added = next.indexOf(previous[0])
+  return added > 0 ? added : 0
+}
+
+/**
+ * Windowing for fixed-height table rows. Returns the slice of rows to render and
+ * the spacer heights that stand in for the rows above and below it. Attach
+ * `scrollRef` to the scrolling element.
+ */
+export function useVirtualRows({ count, rowHeight, offsetTop = 0, overscan = 10, rowKeys }: VirtualRowsOptions) {
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null)
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 })
+
+  // Shifted while rendering, so the window and anything reading `start` or
+  // `end` see the new rows where they will be scrolled to, not a frame late
+  const [keys, setKeys] = useState(rowKeys)
+  const [pendingShift, setPendingShift] = useState(0)
+  if (rowKeys !== keys) {
+    setKeys(rowKeys)
+    const shift = keys && rowKeys ? topShift(keys, rowKeys) : 0
+    if (shift !== 0) {
+      setPendingShift(pending => pending + shift)
+      setViewport(current => ({ ...current, scrollTop: Math.max(0, current.scrollTop + shift * rowHeight) }))
+    }
+  }
+
+  useLayoutEffect(() => {
+    if (!scrollElement || pendingShift === 0) return
+    scrollElement.scrollTop += pendingShift * rowHeight
+    setPendingShift(0)
+  }, [scrollElement, pendingShift, rowHeight])
+
+  useEffect(() => {
+    if (!scrollElement) return
+    const update = () => {
+      setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight })
+    }
+    update()
+    scrollElement.addEventListener('scroll', update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(scrollElement)
+    return () => {
+      scrollElement.removeEventListener('scroll', update)
+      observer.disconnect()
+    }
+  }, [scrollElement])
+
+  const firstVisible = Math.floor(Math.max(0, viewport.scrollTop - offsetTop) / rowHeight)
+  const start = Math.min(count, Math.max(0, firstVisible - overscan))
+  const end = Math.min(count, firstVisible + Math.ceil(viewport.height / rowHeight) + overscan)
+
+  // Center row `index` when it is outside the viewport
+  const scrollToIndex = useCallback((index: number) => {
+    if (!scrollElement) return
+    const rowTop = offsetTop + index * rowHeight
+    const { scrollTop, clientHeight } = scrollElement
+    if (rowTop < scrollTop + offsetTop || rowTop + rowHeight > scrollTop + clientHeight) {
+      scrollElement.scrollTop = rowTop - clientHeight / 2
+    }
+  }, [scrollElement, offsetTop, rowHeight])
+
+  return {
+    scrollRef: setScrollElement,
+    scrollToIndex,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  }
+}
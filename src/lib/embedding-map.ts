@@ -0,0 +1,115 @@
+/**
+ * Layout and colour helpers for the embedding map. Kept free of React and the
+ * canvas so they can be unit tested.
+ */
+
+export const CATEGORY_PALETTE = [
+  '#007AFF', '#FF9500', '#34C759', '#AF52DE', '#FF2D55',
+  '#5AC8FA', '#FFCC00', '#A2845E', '#5856D6', '#00C7BE',
+]
+export const OTHER_COLOR = '#8E8E93'
+export const DEFAULT_POINT_COLOR = '#007AFF'
+
+export interface LegendEntry {
+  label: string
+  color: string
+}
+
+export interface ColorScale {
+  kind: 'none' | 'categorical' | 'numeric'
+  colors: string[]
+  legend: LegendEntry[]
+}
+
+// Blue → orange, the ends of the numeric gradient
+function gradientColor(t: number): string {
+  const hue = 215 - t * 185
+  return `hsl(${hue.toFixed(0)} 85% 52%)`
+}
+
+/**
+ * One colour per value. All-numeric values get a gradient between their min and
+ * max; anything else is categorical, with the most frequent categories taking
+ * the palette and the rest shown as "Other". Missing values are grey.
+ */
+export function buildColorScale(values: unknown[]): ColorScale {
+  const present = values.filter(value => value !== undefined && value !== null)
+  if (present.length === 0) {
+    return { kind: 'none', colors: values.map(() => DEFAULT_POINT_COLOR), legend: [] }
+  }
+
+  if (present.every(value => typeof value === 'number')) {
+    const numbers = present as number[]
+    const min = Math.min(...numbers)
+    const max = Math.max(...numbers)
+    const range = max - min
+    const colors = values.map(value =>
+      typeof value === 'number' ? gradientColor(range > 0 ? (value - min) / range : 0.5) : OTHER_COLOR
+    )
+    return {
+      kind: 'numeric',
+      colors,
+      legend: [
+        { label: String(min), color: gradientColor(0) },
+        { label: String(max), color: gradientColor(1) },
+      ],
+    }
+  }
+
+  const counts = new Map<string, number>()
+  for (const value of present) {
+    const key = String(value)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  const categories = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, CATEGORY_PALETTE.length)
+    .map(([category]) => category)
+  const colorByCategory = new Map(categories.map((category, index) => [category, CATEGORY_PALETTE[index]]))
+
+  const legend = categories.map(category => ({ label: category, color: colorByCategory.get(category)! }))
+  if (counts.size > categories.length || present.length < values.length) {
+    legend.push({ label: 'Other', color: OTHER_COLOR })
+  }
+  return {
+    kind: 'categorical',
+    colors: values.map(value =>
+      value === undefined || value === null ? OTHER_COLOR : colorByCategory.get(String(value)) ?? OTHER_COLOR
+    ),
+    legend,
+  }
+}
+
+/** Center the points on the origin and scale them into [-1, 1] on every axis. */
+export function normalizeCoordinates(points: number[][]): number[][] {
+  if (points.length === 0) return []
+  const dims = points[0].length
+  const center = Array.from({ length: dims }, (_, d) => {
+    let min = Infinity
+    let max = -Infinity
+    for (const point of points) {
+      min = Math.min(min, point[d])
+      max = Math.max(max, point[d])
+    }
+    return (min + max) / 2
+  })
+  let extent = 0
+  for (const point of points) {
+    for (let d = 0; d < dims; d++) extent = Math.max(extent, Math.abs(point[d] - center[d]))
+  }
+  const scale = extent > 0 ? 1 / extent : 1
+  return points.map(point => point.map((value, d) => (value - center[d]) * scale))
+}
+
+/**
+ * Rotate a 3D point by yaw (around y) then pitch (around x). Returns the screen
+ * plane x, y and the depth, larger meaning closer to the viewer.
+ */
+export function rotatePoint(point: number[], yaw: number, pitch: number): [number, number, number] {
+  const [x, y, z = 0] = point
+  const x1 = x * Math.cos(yaw) + z * Math.sin(yaw)
+  const z1 = -x * Math.sin(yaw) + z * Math.cos(yaw)
+  const y2 = y * Math.cos(pitch) - z1 * Math.sin(pitch)
+  const z2 = y * Math.sin(pitch) + z1 * Math.cos(pitch)
+  return [x1, y2, z2]
+}
@@ -0,0 +1,269 @@
+/**
+ * Dimensionality reduction for the embedding map. Both methods are plain
+ * TypeScript so they can run in a worker without extra dependencies; they are
+ * sized for result sets of a few thousand points, not whole collections.
+ */
+
+export type ProjectionMethod = 'pca' | 'umap'
+
+export interface UmapOptions {
+  nNeighbors?: number
+  minDist?: number
+  nEpochs?: number
+  seed?: number
+}
+
+// UMAP's kNN search runs on a randomly projected copy; 64 dimensions keep
+// neighbourhoods of typical text embeddings largely intact (Johnson–Lindenstrauss)
+// at a fraction of the cost of exact distances.
+const UMAP_REDUCED_DIMENSIONS = 64
+const POWER_ITERATIONS = 100
+const POWER_TOLERANCE = 1e-9
+
+/** Deterministic PRNG so the same input always produces the same layout. */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function normalize(v: Float64Array): number {
+  const norm = Math.sqrt(dot(v, v))
+  if (norm > 0) for (let i = 0; i < v.length; i++) v[i] /= norm
+  return norm
+}
+
+/**
+ * Project onto the top principal components, found by power iteration with
+ * deflation. The covariance matrix is never formed: each step computes
+ * Xᵀ(Xv), which stays cheap for wide embeddings.
+ */
+export function pca(vectors: number[][], components: number, seed = 42): number[][] {
+  const n = vectors.length
+  if (n === 0) return []
+  const dim = vectors[0].length
+  const k = Math.min(components, dim)
+  const random = mulberry32(seed)
+
+  const mean = new Float64Array(dim)
+  for (const vector of vectors) {
+    for (let j = 0; j < dim; j++) mean[j] += vector[j] / n
+  }
+  const centered = vectors.map(vector => Float64Array.from(vector, (value, j) => value - mean[j]))
+
+  const basis: Float64Array[] = []
+  const projected = new Float64Array(n)
+  for (let c = 0; c < k; c++) {
+    let v = Float64Array.from({ length: dim }, () => random() - 0.5)
+    normalize(v)
+    for (let iter = 0; iter < POWER_ITERATIONS; iter++) {
+      for (let i = 0; i < n; i++) projected[i] = dot(centered[i], v)
+      const next = new Float64Array(dim)
+      for (let i = 0; i < n; i++) {
+        const weight = projected[i]
+        const row = centered[i]
+        for (let j = 0; j < dim; j++) next[j] += weight * row[j]
+      }
+      // Deflate: keep the component orthogonal to the ones already found
+      for (const previous of basis) {
+        const overlap = dot(next, previous)
+        for (let j = 0; j < dim; j++) next[j] -= overlap * previous[j]
+      }
+      if (normalize(next) === 0) break
+      const converged = Math.abs(dot(next, v)) > 1 - POWER_TOLERANCE
+      v = next
+      if (converged) break
+    }
+    basis.push(v)
+  }
+
+  return centered.map(row => {
+    const coordinates = basis.map(component => dot(row, component))
+    // Pad when the data has fewer components than requested
+    while (coordinates.length < components) coordinates.push(0)
+    return coordinates
+  })
+}
+
+// Gaussian random projection, scaled so distances are preserved in expectation
+function randomProjection(vectors: number[][], dimensions: number, random: () => number): number[][] {
+  const dim = vectors[0].length
+  const gaussian = () => {
+    // Box–Muller
+    const u = 1 - random()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+  }
+  const scale = 1 / Math.sqrt(dimensions)
+  const matrix = Array.from({ length: dimensions }, () => Float64Array.from({ length: dim }, () => gaussian() * scale))
+  return vectors.map(vector => {
+    const row = Float64Array.from(vector)
+    return matrix.map(axis => dot(row, axis))
+  })
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i]
+    sum += d * d
+  }
+  return sum
+}
+
+/** Exact k nearest neighbours by brute force; returns indices and distances. */
+export function nearestNeighbors(points: number[][], k: number): { indices: number[][]; distances: number[][] } {
+  const indices: number[][] = []
+  const distances: number[][] = []
+  for (let i = 0; i < points.length; i++) {
+    const candidates: { index: number; distance: number }[] = []
+    for (let j = 0; j < points.length; j++) {
+      if (j !== i) candidates.push({ index: j, distance: Math.sqrt(squaredDistance(points[i], points[j])) })
+    }
+    candidates.sort((a, b) => a.distance - b.distance)
+    const nearest = candidates.slice(0, k)
+    indices.push(nearest.map(c => c.index))
+    distances.push(nearest.map(c => c.distance))
+  }
+  return { indices, distances }
+}
+
+// Curve parameters a, b for min_dist, fitted offline for the usual spread of 1
+function curveParameters(minDist: number): { a: number; b: number } {
+  if (minDist <= 0.05) return { a: 1.929, b: 0.7915 }
+  if (minDist <= 0.1) return { a: 1.577, b: 0.8951 }
+  if (minDist <= 0.25) return { a: 1.069, b: 1.0 }
+  return { a: 0.5834, b: 1.334 }
+}
+
+interface Edge {
+  from: number
+  to: number
+  weight: number
+}
+
+// Fuzzy simplicial set: per-point membership strengths, symmetrised with the
+// probabilistic t-conorm a + b - ab.
+function fuzzyGraph(indices: number[][], distances: number[][]): Edge[] {
+  const n = indices.length
+  const target = Math.log2(Math.max(2, indices[0]?.length ?? 2))
+  const weights = new Map<number, number>()
+
+  for (let i = 0; i < n; i++) {
+    const rho = distances[i].find(d => d > 0) ?? 0
+    let low = 0
+    let high = Infinity
+    let sigma = 1
+    for (let step = 0; step < 64; step++) {
+      let sum = 0
+      for (const d of distances[i]) sum += Math.exp(-Math.max(0, d - rho) / sigma)
+      if (Math.abs(sum - target) < 1e-5) break
+      if (sum > target) {
+        high = sigma
+        sigma = (low + high) / 2
+      } else {
+        low = sigma
+        sigma = high === Infinity ? sigma * 2 : (low + high) / 2
+      }
+    }
+    indices[i].forEach((j, position) => {
+      const weight = Math.exp(-Math.max(0, distances[i][position] - rho) / sigma)
+      weights.set(i * n + j, weight)
+    })
+  }
+
+  const edges: Edge[] = []
+  for (const [key, weight] of weights) {
+    const from = Math.floor(key / n)
+    const to = key % n
+    const reverse = weights.get(to * n + from) ?? 0
+    // Each undirected edge once
+    if (reverse > 0 && to < from) continue
+    edges.push({ from, to, weight: weight + reverse - weight * reverse })
+  }
+  return edges
+}
+
+function scaleToBox(points: number[][], size: number): number[][] {
+  const dims = points[0]?.length ?? 0
+  let maxAbs = 0
+  for (const point of points) for (let d = 0; d < dims; d++) maxAbs = Math.max(maxAbs, Math.abs(point[d]))
+  const scale = maxAbs > 0 ? size / maxAbs : 1
+  return points.map(point => point.map(value => value * scale))
+}
+
+/**
+ * UMAP layout: kNN graph on a randomly projected copy, fuzzy membership weights,
+ * then stochastic gradient descent with negative sampling, initialised from PCA.
+ */
+export function umap(vectors: number[][], components: number, options: UmapOptions = {}): number[][] {
+  const n = vectors.length
+  // Too few points for a neighbourhood graph; PCA gives the same picture
+  if (n <= 3) return pca(vectors, components)
+
+  const nNeighbors = Math.min(options.nNeighbors ?? 15, n - 1)
+  const nEpochs = options.nEpochs ?? (n > 2000 ? 200 : 400)
+  const random = mulberry32(options.seed ?? 42)
+  const { a, b } = curveParameters(options.minDist ?? 0.1)
+
+  const reduced = vectors[0].length > UMAP_REDUCED_DIMENSIONS
+    ? randomProjection(vectors, UMAP_REDUCED_DIMENSIONS, random)
+    : vectors
+  const { indices, distances } = nearestNeighbors(reduced, nNeighbors)
+  const edges = fuzzyGraph(indices, distances)
+  const embedding = scaleToBox(pca(reduced, components), 10)
+
+  // Strong edges are sampled every epoch, weak ones proportionally less often
+  const maxWeight = edges.reduce((max, edge) => Math.max(max, edge.weight), 0)
+  const epochsPerSample = edges.map(edge => maxWeight / edge.weight)
+  const nextSample = [...epochsPerSample]
+  const negativeSamples = 5
+
+  const clip = (value: number) => Math.max(-4, Math.min(4, value))
+
+  for (let epoch = 0; epoch < nEpochs; epoch++) {
+    const alpha = 1 - epoch / nEpochs
+    for (let e = 0; e < edges.length; e++) {
+      if (nextSample[e] > epoch + 1) continue
+      nextSample[e] += epochsPerSample[e]
+
+      const head = embedding[edges[e].from]
+      const tail = embedding[edges[e].to]
+      const distSq = squaredDistance(head, tail)
+      if (distSq > 0) {
+        const coefficient = (-2 * a * b * Math.pow(distSq, b - 1)) / (1 + a * Math.pow(distSq, b))
+        for (let d = 0; d < components; d++) {
+          const grad = clip(coefficient * (head[d] - tail[d])) * alpha
+          head[d] += grad
+          tail[d] -= grad
+        }
+      }
+
+      for (let s = 0; s < negativeSamples; s++) {
+        const other = embedding[Math.floor(random() * n)]
+        if (other === head) continue
+        const negDistSq = squaredDistance(head, other)
+        const coefficient = (2 * b) / ((0.001 + negDistSq) * (1 + a * Math.pow(negDistSq, b)))
+        for (let d = 0; d < components; d++) {
+          head[d] += (negDistSq > 0 ? clip(coefficient * (head[d] - other[d])) : 4) * alpha
+        }
+      }
+    }
+  }
+
+  return embedding
+}
+
+export function project(method: ProjectionMethod, vectors: number[][], components: 2 | 3): number[][] {
+  return method === 'pca' ? pca(vectors, components) : umap(vectors, components)
+}
@@ -15,6 +15,12 @@ export const formStyles = {
   /** Icon button (24x24) */
   iconButton: "h-6 w-6 p-0 text-[11px] rounded-md bg-black/[0.03] dark:bg-white/[0.05] hover:bg-black/[0.06] dark:hover:bg-white/[0.08]",
 
+  /** Secondary action in a sheet-style dialog (Cancel, Close) */
+  dialogButton: "h-[22px] px-3 text-[12px] font-normal rounded-md bg-white/10 dark:bg-white/10 text-foreground/90 ring-1 ring-black/10 dark:ring-white/15 shadow-sm transition-all duration-100 hover:bg-white/20 dark:hover:bg-white/15 active:bg-white/25 dark:active:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-ring/50",
+
+  /** Default action in a sheet-style dialog */
+  dialogPrimaryButton: "h-[22px] px-3 text-[12px] font-medium rounded-md bg-primary hover:bg-primary/90 active:bg-primary/80 text-primary-foreground shadow-sm transition-all duration-100 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-primary/50 focus-visible:ring-offset-1",
+
   /** Sidebar input variant */
   inputSidebar: "w-full h-6 text-[11px] py-0 px-1.5 pr-5 rounded-md bg-black/[0.04] dark:bg-white/[0.06] placeholder:text-sidebar-foreground/50 text-sidebar-foreground focus:outline-none focus:ring-1 focus:ring-sidebar-ring/50 transition-colors",
 
@@ -1,4 +1,6 @@
 export type {
+  ClientCertificateConfig,
+  CollectionHealthReport,
   CollectionInfo,
   ConnectionProfile,
   CopyCollectionParams,
@@ -7,15 +9,84 @@ export type {
   CreateCollectionParams,
   CreateDocumentParams,
   CreateDocumentsBatchParams,
+  CreateDocumentsBatchResult,
   DeleteDocumentsParams,
+  DocumentInclude,
   DocumentRecord,
+  DocumentsPage,
+  DocumentsPageParams,
   ElectronAPI,
+  EmbedQueryParams,
   EmbeddingFunctionOverride,
   EmbeddingFunctionType,
+  HealthFinding,
+  HealthScanProgress,
+  HistoryChange,
   HNSWConfig,
+  LocalServerLogLine,
+  MetadataKeyStats,
+  MetadataSchema,
+  ProfileEnvironment,
+  QueryByEmbeddingParams,
   SearchDocumentsParams,
+  SshTunnelConfig,
   UpdateDocumentParams,
   UpdateInfo,
   UpdateStatus,
+  UpsertDocumentsParams,
 } from '../../electron/ipc-contract'
 
+export type {
+  ExportDocumentsResult,
+  ExportFileTarget,
+  ExportFormat,
+  ExportProgress,
+  ExportSource,
+  IdCollisionPolicy,
+  ImportColumnMapping,
+  ImportColumnType,
+  ImportDocumentsResult,
+  ImportFilePreview,
+  ImportProgress,
+  SnapshotCollectionResult,
+  SnapshotSummary,
+} from '../../electron/ipc-contract-transfer'
+
+export type {
+  ApplyDiffResult,
+  ClipboardEntry,
+  CollectionDiff,
+  CollectionRef,
+  CopyDocumentsResult,
+  DiffEntry,
+  DiffField,
+  DiffProgress,
+} from '../../electron/ipc-contract-copy'
+
+export type {
+  BulkMetadataChange,
+  BulkMetadataProgress,
+  BulkMetadataResult,
+  BulkMetadataTarget,
+  MetadataOperation,
+  MetadataScalarType,
+} from '../../electron/ipc-contract-bulk'
+
+export type {
+  ReembedProgress,
+  ReembedResult,
+} from '../../electron/ipc-contract-reembed'
+
+export type {
+  EmbeddingInputStats,
+  EmbeddingUsage,
+  MeasureEmbeddingInputParams,
+} from '../../electron/ipc-contract-usage'
+
+export type {
+  ExportProfilesResult,
+  ImportProfilesResult,
+  ProfileConflictPolicy,
+  ProfileImportEntry,
+  ProfileImportPreview,
+} from '../../electron/ipc-contract-profiles'
@@ -1,17 +1,18 @@
-import type { Where } from 'chromadb'
+import type { Where, WhereDocument } from 'chromadb'
+// The operator set and clause parsers are shared with the IPC handlers, so the
+// builder accepts exactly what the main process will
+import {
+  METADATA_OPERATORS,
+  parseWhereClause,
+  parseWhereDocumentClause,
+  type MetadataKeyStats,
+  type MetadataOperator,
+} from '../../electron/ipc-contract'
 
-// Query scope: semantic search or filter-by-ID
-export type QueryScope = 'query' | 'id'
+export type { MetadataOperator }
 
-export type MetadataOperator =
-  | '$eq'
-  | '$ne'
-  | '$gt'
-  | '$gte'
-  | '$lt'
-  | '$lte'
-  | '$in'
-  | '$nin'
+// Query scope: semantic search, filter-by-ID, or nearest neighbours of a pasted vector
+export type QueryScope = 'query' | 'id' | 'vector'
 
 export interface MetadataFilter {
   id: string // UUID for React keys
@@ -20,10 +21,14 @@ export interface MetadataFilter {
   value: string
 }
 
+// Full-text operators applied to the document text via where_document
+export type DocumentFilterOperator = '$contains' | '$not_contains' | '$regex'
+
 export interface DocumentFilters {
   queryText: string
   nResults: number // Max results for semantic search
   metadataFilters: MetadataFilter[]
+  documentFilters: QueryDocumentFilter[]
 }
 
 // A single metadata filter condition (used by QueryToolbar)
@@ -34,6 +39,39 @@ export interface QueryMetadataFilter {
   value: string
 }
 
+// Boolean combinator for a filter group
+export type FilterCombinator = '$and' | '$or'
+
+// A group of conditions and nested groups joined by one combinator. The
+// toolbar's root is always a group, so flat filter lists are a group of leaves.
+export interface QueryFilterGroup {
+  id: string
+  combinator: FilterCombinator
+  children: QueryFilterNode[]
+}
+
+export type QueryFilterNode = QueryMetadataFilter | QueryFilterGroup
+
+// A single document text condition (used by QueryToolbar)
+export interface QueryDocumentFilter {
+  id: string
+  operator: DocumentFilterOperator
+  value: string
+}
+
+// A fixed set of records the documents view is limited to, with a label saying
+// where they came from (e.g. a health report finding)
+export interface RecordFilter {
+  label: string
+  ids: string[]
+}
+
+// Raw clauses edited as JSON in the toolbar's Advanced mode
+export interface AdvancedClauses {
+  where?: Where
+  whereDocument?: WhereDocument
+}
+
 // Legacy filter row type (kept for any consumers still using the old FilterRow component)
 export type FilterRowType = 'search' | 'metadata' | 'select'
 
@@ -64,6 +102,14 @@ export function getOperatorLabel(operator: MetadataOperator): string {
   }
 }
 
+export function getDocumentOperatorLabel(operator: DocumentFilterOperator): string {
+  switch (operator) {
+    case '$contains': return 'contains'
+    case '$not_contains': return 'not contains'
+    case '$regex': return 'matches'
+  }
+}
+
 export function getOperatorsForType(
   valueType: 'string' | 'number' | 'boolean' | 'unknown'
 ): MetadataOperator[] {
@@ -78,6 +124,18 @@ export function getOperatorsForType(
   }
 }
 
+// A key's filter type from the inferred schema: its only scalar type, or
+// 'unknown' when values are mixed (so range operators are not offered)
+export function getSchemaFieldType(stats: MetadataKeyStats): 'string' | 'number' | 'boolean' | 'unknown' {
+  const scalarTypes = (['string', 'number', 'boolean'] as const).filter(type => stats.types[type])
+  return scalarTypes.length === 1 && !stats.types.array ? scalarTypes[0] : 'unknown'
+}
+
+// Most common values for a key, as suggestions for a filter value input
+export function getSchemaValueSuggestions(stats: MetadataKeyStats | undefined): string[] {
+  return stats ? [...new Set(stats.topValues.map(entry => String(entry.value)))] : []
+}
+
 // Parse a raw string filter value into the correct primitive(s) for Chroma's where clause
 export function parseFilterValue(
   value: string,
@@ -111,17 +169,227 @@ function coerce(value: string, fieldType?: 'string' | 'number' | 'boolean'): str
   return value
 }
 
+type FieldTypes = Record<string, 'string' | 'number' | 'boolean'>
+
+export function isFilterGroup(node: QueryFilterNode): node is QueryFilterGroup {
+  return 'children' in node
+}
+
+export function createFilterGroup(
+  combinator: FilterCombinator = '$and',
+  children: QueryFilterNode[] = []
+): QueryFilterGroup {
+  return { id: crypto.randomUUID(), combinator, children }
+}
+
+// True when the tree holds at least one condition that would reach the server
+export function hasValidFilters(node: QueryFilterNode): boolean {
+  if (isFilterGroup(node)) return node.children.some(hasValidFilters)
+  return !!(node.field.trim() && node.value.trim())
+}
+
+// Replace the node with the given id anywhere in the tree; returns a new tree.
+export function updateFilterNode(
+  group: QueryFilterGroup,
+  id: string,
+  update: (node: QueryFilterNode) => QueryFilterNode
+): QueryFilterGroup {
+  if (group.id === id) return update(group) as QueryFilterGroup
+  return {
+    ...group,
+    children: group.children.map(child => {
+      if (child.id === id) return update(child)
+      return isFilterGroup(child) ? updateFilterNode(child, id, update) : child
+    }),
+  }
+}
+
+// Remove the node with the given id from wherever it sits below the root.
+export function removeFilterNode(group: QueryFilterGroup, id: string): QueryFilterGroup {
+  return {
+    ...group,
+    children: group.children
+      .filter(child => child.id !== id)
+      .map(child => (isFilterGroup(child) ? removeFilterNode(child, id) : child)),
+  }
+}
+
+/**
+ * Compile a filter tree to a Chroma where clause. Incomplete conditions and
+ * empty groups are dropped, and a group left with one member collapses into it,
+ * since Chroma rejects `$and`/`$or` with fewer than two operands.
+ */
 export function buildChromaWhereClause(
-  filters: QueryMetadataFilter[],
-  fieldTypes?: Record<string, 'string' | 'number' | 'boolean'>
+  filters: QueryFilterGroup | QueryMetadataFilter[],
+  fieldTypes?: FieldTypes
 ): Where | undefined {
-  const valid = filters.filter(f => f.field.trim() && f.value.trim())
+  const group = Array.isArray(filters) ? { id: 'root', combinator: '$and' as const, children: filters } : filters
+  return compileNode(group, fieldTypes)
+}
+
+function compileNode(node: QueryFilterNode, fieldTypes?: FieldTypes): Where | undefined {
+  if (!isFilterGroup(node)) {
+    if (!node.field.trim() || !node.value.trim()) return undefined
+    return {
+      [node.field]: { [node.operator]: parseFilterValue(node.value, node.operator, fieldTypes?.[node.field]) },
+    } as Where
+  }
+
+  const clauses = node.children
+    .map(child => compileNode(child, fieldTypes))
+    .filter((clause): clause is Where => clause !== undefined)
+
+  if (clauses.length === 0) return undefined
+  if (clauses.length === 1) return clauses[0]
+  return { [node.combinator]: clauses } as Where
+}
+
+/**
+ * Turn a where clause back into an editable filter tree. Returns null when the
+ * clause uses something the builder can't show, such as an unknown operator or
+ * a value its rows would compile to something else.
+ */
+export function whereClauseToFilterGroup(where: Where): QueryFilterGroup | null {
+  const node = whereToNode(where)
+  if (!node) return null
+  return isFilterGroup(node) ? node : createFilterGroup('$and', [node])
+}
+
+function whereToNode(where: unknown): QueryFilterNode | null {
+  if (!where || typeof where !== 'object' || Array.isArray(where)) return null
+  const entries = Object.entries(where)
+
+  if (entries.length === 1 && (entries[0][0] === '$and' || entries[0][0] === '$or')) {
+    const [combinator, operands] = entries[0] as [FilterCombinator, unknown]
+    if (!Array.isArray(operands)) return null
+    const children = operands.map(whereToNode)
+    if (children.some(child => child === null)) return null
+    return createFilterGroup(combinator, children as QueryFilterNode[])
+  }
+
+  // Several fields in one object are an implicit $and
+  if (entries.length > 1) {
+    const children = entries.map(([field, condition]) => whereToNode({ [field]: condition }))
+    if (children.some(child => child === null)) return null
+    return createFilterGroup('$and', children as QueryFilterNode[])
+  }
+
+  if (entries.length === 0) return null
+  const [field, condition] = entries[0]
+  if (field.startsWith('$')) return null
+
+  // A bare value is shorthand for $eq
+  if (isPrimitive(condition)) {
+    if (!isRowValue(condition, false)) return null
+    return { id: crypto.randomUUID(), field, operator: '$eq', value: String(condition) }
+  }
+
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) return null
+  const conditionEntries = Object.entries(condition)
+  if (conditionEntries.length !== 1) return null
+  const [operator, value] = conditionEntries[0]
+  if (!METADATA_OPERATORS.includes(operator as MetadataOperator)) return null
+
+  if (operator === '$in' || operator === '$nin') {
+    if (!Array.isArray(value) || !value.every(item => isPrimitive(item) && isRowValue(item, true))) return null
+    return { id: crypto.randomUUID(), field, operator, value: value.map(String).join(', ') }
+  }
+  if (!isPrimitive(value) || !isRowValue(value, false)) return null
+  return { id: crypto.randomUUID(), field, operator: operator as MetadataOperator, value: String(value) }
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+}
+
+// Whether a row holding the value as text compiles back to the same value.
+// Rows guess types, so the string "2020" would come back as a number, and
+// list rows split on commas.
+function isRowValue(value: string | number | boolean, inList: boolean): boolean {
+  const text = String(value)
+  if (inList && text.includes(',')) return false
+  return coerce(text.trim()) === value
+}
+
+// Document text is matched literally, so values are not trimmed or coerced.
+export function buildChromaWhereDocumentClause(filters: QueryDocumentFilter[]): WhereDocument | undefined {
+  const valid = filters.filter(f => f.value !== '')
   if (valid.length === 0) return undefined
 
-  const clauses = valid.map(f => ({
-    [f.field]: { [f.operator]: parseFilterValue(f.value, f.operator, fieldTypes?.[f.field]) },
-  } as Where))
+  const clauses = valid.map(f => ({ [f.operator]: f.value } as WhereDocument))
 
   if (clauses.length === 1) return clauses[0]
   return { $and: clauses }
 }
+
+const DOCUMENT_FILTER_OPERATORS: DocumentFilterOperator[] = ['$contains', '$not_contains', '$regex']
+
+// Turn a where_document clause back into text filter rows, or null when it isn't
+// a single condition or an $and of conditions the rows support.
+export function whereDocumentClauseToFilters(whereDocument: WhereDocument): QueryDocumentFilter[] | null {
+  const operands = '$and' in whereDocument && Array.isArray(whereDocument.$and)
+    ? whereDocument.$and
+    : [whereDocument]
+
+  const filters: QueryDocumentFilter[] = []
+  for (const operand of operands) {
+    const entries = Object.entries(operand)
+    if (entries.length !== 1) return null
+    const [operator, value] = entries[0]
+    if (!DOCUMENT_FILTER_OPERATORS.includes(operator as DocumentFilterOperator) || typeof value !== 'string') {
+      return null
+    }
+    filters.push({ id: crypto.randomUUID(), operator: operator as DocumentFilterOperator, value })
+  }
+  return filters
+}
+
+export type ParsedClause<T> = { value: T | undefined; error: null } | { value: undefined; error: string }
+
+/**
+ * Parse the text of a raw where / where_document editor. Blank text means no
+ * clause; anything else must be JSON that passes the IPC contract's validation.
+ */
+export function parseWhereJson(text: string): ParsedClause<Where> {
+  return parseClauseJson(text, value => parseWhereClause(value, 'where'))
+}
+
+export function parseWhereDocumentJson(text: string): ParsedClause<WhereDocument> {
+  return parseClauseJson(text, value => parseWhereDocumentClause(value, 'where_document'))
+}
+
+function parseClauseJson<T>(text: string, validate: (value: unknown) => T): ParsedClause<T> {
+  if (text.trim() === '') return { value: undefined, error: null }
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (err) {
+    return { value: undefined, error: err instanceof Error ? err.message : 'Invalid JSON' }
+  }
+  try {
+    return { value: validate(json), error: null }
+  } catch (err) {
+    return { value: undefined, error: err instanceof Error ? err.message : 'Invalid clause' }
+  }
+}
+
+/**
+ * Parse a pasted query vector: a JSON array of finite numbers, checked against
+ * the collection's dimension when it is known.
+ */
+export function parseVectorInput(text: string, dimension?: number | null): ParsedClause<number[]> {
+  if (text.trim() === '') return { value: undefined, error: null }
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { value: undefined, error: 'Vector must be a JSON array of numbers' }
+  }
+  if (!Array.isArray(json) || json.length === 0 || !json.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    return { value: undefined, error: 'Vector must be a non-empty JSON array of numbers' }
+  }
+  if (dimension && json.length !== dimension) {
+    return { value: undefined, error: `Vector has ${json.length} dimensions; this collection expects ${dimension}` }
+  }
+  return { value: json, error: null }
+}
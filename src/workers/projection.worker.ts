@@ -0,0 +1,27 @@
+import { project, type ProjectionMethod } from '../lib/projection'
+
+export interface ProjectionRequest {
+  id: number
+  method: ProjectionMethod
+  components: 2 | 3
+  vectors: number[][]
+}
+
+export type ProjectionResponse =
+  | { id: number; coordinates: number[][] }
+  | { id: number; error: string }
+
+// The renderer tsconfig has no WebWorker lib, so type just the bits we use
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<ProjectionRequest>) => void) | null
+  postMessage: (message: ProjectionResponse) => void
+}
+
+worker.onmessage = (event) => {
+  const { id, method, components, vectors } = event.data
+  try {
+    worker.postMessage({ id, coordinates: project(method, vectors, components) })
+  } catch (error) {
+    worker.postMessage({ id, error: error instanceof Error ? error.message : 'Projection failed' })
+  }
+}
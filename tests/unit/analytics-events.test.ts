@@ -47,6 +47,16 @@ describe('analytics event helpers', () => {
     })
   })
 
+  it('classifies local folder connections as local', () => {
+    expect(getConnectionAnalyticsProperties(profile({
+      connectionType: 'local-folder',
+      url: '/Users/me/chroma_data',
+    }))).toEqual({
+      connection_type: 'local-folder',
+      connection_mode: 'local',
+    })
+  })
+
   it('reports newly added settings API key providers without account fields', () => {
     expect(getAddedApiKeyProviders(
       { OPENAI_API_KEY: '', COHERE_API_KEY: 'existing' },
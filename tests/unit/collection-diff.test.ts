@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { applyCollectionDiff, compareRecords, diffCollections } from '../../electron/collection-diff'
+import { MAX_DIFF_ENTRIES } from '../../electron/types'
+import { memoryCollection, record } from './memory-collection'
+
+const withEmbeddings = { compareEmbeddings: true, embeddingTolerance: 0.01 }
+
+describe('comparing records', () => {
+  it('treats missing and empty metadata alike and ignores embedding noise within the tolerance', () => {
+    expect(compareRecords(record('a', { metadata: null }), record('a', { metadata: {} }), 0)).toEqual([])
+    expect(compareRecords(record('a'), record('a', { embedding: [1.005, 0] }), 0.01)).toEqual([])
+    expect(compareRecords(record('a'), record('a', { embedding: [1.1, 0] }), 0.01)).toEqual(['embedding'])
+    expect(compareRecords(record('a'), record('a', { embedding: [1.1, 0] }), null)).toEqual([])
+  })
+
+  it('lists every field that differs', () => {
+    const changed = record('a', { document: 'new', metadata: { source: 'other' } })
+    expect(compareRecords(record('a'), changed, 0)).toEqual(['document', 'metadata'])
+  })
+})
+
+describe('diffing collections', () => {
+  it('finds records only in A, only in B and changed in both', async () => {
+    const a = memoryCollection([record('same'), record('changed'), record('new')])
+    const b = memoryCollection([record('same'), record('changed', { document: 'edited' }), record('stale')])
+
+    const diff = await diffCollections(a.collection, b.collection, withEmbeddings, () => {})
+
+    expect(diff).toMatchObject({ onlyInA: 1, onlyInB: 1, changed: 1, unchanged: 1, truncated: false, cancelled: false })
+    expect(diff.entries).toEqual([
+      { id: 'changed', kind: 'changed', fields: ['document'] },
+      { id: 'new', kind: 'onlyInA' },
+      { id: 'stale', kind: 'onlyInB' },
+    ])
+  })
+
+  it('keeps counting past the entry cap', async () => {
+    const records = Array.from({ length: MAX_DIFF_ENTRIES + 5 }, (_, i) => record(`r${i}`))
+    const diff = await diffCollections(memoryCollection(records).collection, memoryCollection([]).collection, withEmbeddings, () => {})
+
+    expect(diff.onlyInA).toBe(MAX_DIFF_ENTRIES + 5)
+    expect(diff.entries).toHaveLength(MAX_DIFF_ENTRIES)
+    expect(diff.truncated).toBe(true)
+  })
+
+  it('returns what it has when cancelled', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const diff = await diffCollections(
+      memoryCollection([record('a')]).collection,
+      memoryCollection([]).collection,
+      withEmbeddings,
+      () => {},
+      controller.signal
+    )
+    expect(diff).toMatchObject({ cancelled: true, onlyInA: 0 })
+  })
+})
+
+describe('applying a diff', () => {
+  it('upserts source records with their embeddings and deletes the extras', async () => {
+    const a = memoryCollection([record('changed', { embedding: [0, 1] }), record('new')])
+    const b = memoryCollection([record('changed'), record('stale')])
+
+    const result = await applyCollectionDiff(a.collection, b.collection, { upsertIds: ['changed', 'new'], deleteIds: ['stale'] }, () => {})
+
+    expect(result).toEqual({ success: true, upserted: 2, deleted: 1 })
+    expect([...b.store.keys()].sort()).toEqual(['changed', 'new'])
+    expect(b.store.get('changed')?.embedding).toEqual([0, 1])
+  })
+
+  it('does not read the whole source when only deleting', async () => {
+    const a = memoryCollection([record('a')])
+    const b = memoryCollection([record('stale')])
+
+    const result = await applyCollectionDiff(a.collection, b.collection, { upsertIds: [], deleteIds: ['stale'] }, () => {})
+
+    expect(result).toEqual({ success: true, upserted: 0, deleted: 1 })
+    expect(b.store.size).toBe(0)
+  })
+})
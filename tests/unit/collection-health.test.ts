@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { HealthAccumulator, cosineSimilarity } from '../../electron/chromadb-health'
+
+function record(id: string, embedding: number[] | null, document: string | null = null) {
+  return { id, document, embedding }
+}
+
+describe('collection health report', () => {
+  it('flags missing, NaN, zero and wrong-dimension vectors', () => {
+    const accumulator = new HealthAccumulator('l2')
+    const comparable = accumulator.addRecords([
+      record('ok-1', [3, 4]),
+      record('ok-2', [1, 0]),
+      record('missing', null),
+      record('nan', [NaN, 1]),
+      record('zero', [0, 0]),
+      record('wide', [1, 2, 3]),
+    ])
+    expect(comparable.map(r => r.id)).toEqual(['ok-1', 'ok-2', 'wide'])
+
+    const report = accumulator.report('docs', 0.98, false)
+    expect(report.scannedRecords).toBe(6)
+    expect(report.dimension).toBe(2)
+    expect(report.dimensionCounts).toEqual({ 2: 4, 3: 1 })
+    const byKind = Object.fromEntries(report.findings.map(f => [f.kind, f.ids]))
+    expect(byKind).toEqual({
+      'missing-embedding': ['missing'],
+      'dimension-mismatch': ['wide'],
+      'nan-vector': ['nan'],
+      'zero-vector': ['zero'],
+    })
+    expect(report.norms?.min).toBe(0)
+    expect(report.norms?.max).toBe(5)
+  })
+
+  it('only flags unnormalized vectors in cosine collections', () => {
+    const records = [record('unit', [0.6, 0.8]), record('long', [3, 4])]
+    const l2 = new HealthAccumulator('l2')
+    l2.addRecords(records)
+    expect(l2.report('docs', 0.98, false).findings).toEqual([])
+
+    const cosine = new HealthAccumulator('cosine')
+    cosine.addRecords(records)
+    expect(cosine.report('docs', 0.98, false).findings.map(f => [f.kind, f.ids])).toEqual([
+      ['unnormalized-vector', ['long']],
+    ])
+  })
+
+  it('reports duplicate IDs, duplicate texts and near-duplicate pairs once', () => {
+    const accumulator = new HealthAccumulator('l2')
+    accumulator.addRecords([record('a', [1, 0], 'same'), record('b', [1, 0.01], 'same')])
+    accumulator.addRecords([record('a', [1, 0], 'other')])
+    accumulator.addNearDuplicate('a', 'b', 0.9999)
+    accumulator.addNearDuplicate('b', 'a', 0.9999)
+
+    const report = accumulator.report('docs', 0.98, true)
+    expect(report.partial).toBe(true)
+    expect(report.nearDuplicates).toEqual([{ ids: ['a', 'b'], similarity: 0.9999 }])
+    const byKind = Object.fromEntries(report.findings.map(f => [f.kind, f]))
+    expect(byKind['duplicate-id'].ids).toEqual(['a'])
+    expect(byKind['duplicate-text'].ids).toEqual(['a', 'b'])
+    expect(byKind['near-duplicate'].count).toBe(2)
+  })
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBe(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { copyDocuments } from '../../electron/chromadb-copy'
+import { resolveCopyIds } from '../../electron/document-ids'
+import type { CopyDocumentsParams, CopyProgress } from '../../electron/types'
+import { memoryCollection, record } from './memory-collection'
+
+const params: CopyDocumentsParams = {
+  sourceProfileId: 'local',
+  sourceCollectionName: 'docs',
+  ids: ['a', 'b', 'c'],
+  targetCollectionName: 'docs',
+  regenerateEmbeddings: false,
+}
+
+describe('copy ids', () => {
+  it('suffixes taken ids and keeps pasted ids distinct from each other', () => {
+    expect(resolveCopyIds(['a', 'b', 'a'], new Set(['a', 'a-copy']))).toEqual(['a-copy-2', 'b', 'a-copy-3'])
+  })
+})
+
+describe('copying documents between collections', () => {
+  it('carries embeddings over and renames ids already in the target', async () => {
+    const source = memoryCollection([record('a'), record('b'), record('c')])
+    const target = memoryCollection([record('b'), record('b-copy')])
+    const progress: CopyProgress[] = []
+
+    const result = await copyDocuments(source.collection, target.collection, params, p => progress.push(p))
+
+    expect(result).toEqual({ success: true, totalDocuments: 3, copiedDocuments: 3, renamedDocuments: 1, copiedIds: ['a', 'b-copy-2', 'c'] })
+    expect(target.writes.flatMap(write => write.ids)).toEqual(['a', 'b-copy-2', 'c'])
+    expect(target.store.get('b-copy-2')?.embedding).toEqual([1, 0])
+    expect(progress.at(-1)).toMatchObject({ phase: 'complete', processedDocuments: 3 })
+  })
+
+  it('leaves embeddings to the target function when regenerating', async () => {
+    const source = memoryCollection([record('a')])
+    const target = memoryCollection([])
+
+    await copyDocuments(source.collection, target.collection, { ...params, ids: ['a'], regenerateEmbeddings: true }, () => {})
+    expect(target.store.get('a')?.embedding).toBeNull()
+  })
+
+  it('stops between batches when cancelled', async () => {
+    const source = memoryCollection([record('a')])
+    const target = memoryCollection([])
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await copyDocuments(source.collection, target.collection, params, () => {}, controller.signal)
+    expect(result).toMatchObject({ success: false, copiedDocuments: 0, error: 'Operation cancelled' })
+    expect(target.writes).toEqual([])
+  })
+})
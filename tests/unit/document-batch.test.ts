@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { writeDocumentBatches } from '../../electron/chromadb-batch'
+import { memoryCollection, record } from './memory-collection'
+
+const documents = [
+  { id: 'new', document: 'fresh' },
+  { id: 'taken', document: 'replacement' },
+]
+
+describe('writing document batches', () => {
+  it('writes nothing and lists the conflicts when failing on existing IDs', async () => {
+    const target = memoryCollection([record('taken')])
+
+    const result = await writeDocumentBatches(target.collection, documents, 'fail')
+
+    expect(result).toMatchObject({ createdIds: [], conflictingIds: ['taken'], errors: ['1 ID already exists in the collection'] })
+    expect(target.writes).toEqual([])
+  })
+
+  it('adds only new IDs when skipping', async () => {
+    const target = memoryCollection([record('taken')])
+
+    const result = await writeDocumentBatches(target.collection, documents, 'skip')
+
+    expect(result).toEqual({ createdIds: ['new'], conflictingIds: ['taken'], skipped: 1, overwritten: 0, errors: [] })
+    expect(target.writes).toEqual([{ method: 'add', ids: ['new'] }])
+    expect(target.store.get('taken')?.document).toBe('text taken')
+  })
+
+  it('upserts everything when overwriting', async () => {
+    const target = memoryCollection([record('taken')])
+
+    const result = await writeDocumentBatches(target.collection, documents, 'overwrite')
+
+    expect(result).toEqual({ createdIds: ['new'], conflictingIds: ['taken'], skipped: 0, overwritten: 1, errors: [] })
+    expect(target.store.get('taken')?.document).toBe('replacement')
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { DocumentHistory, MAX_HISTORY_ENTRIES, historyEntry, readImage, restoreImage } from '../../electron/document-history'
+import { memoryCollection, record } from './memory-collection'
+
+const change = { label: 'Delete 1 Document', profileId: 'local', collectionName: 'docs' }
+
+describe('history entries', () => {
+  it('keeps only the records a change touched', () => {
+    const entry = historyEntry(change, [record('a'), record('b')], [record('a'), record('b', { document: 'edited' })])
+    expect(entry?.before.map(r => r.id)).toEqual(['b'])
+    expect(entry?.after).toEqual([record('b', { document: 'edited' })])
+  })
+
+  it('records nothing for a change that changed nothing', () => {
+    expect(historyEntry(change, [record('a')], [record('a')])).toBeNull()
+  })
+})
+
+describe('restoring images', () => {
+  it('brings deleted records back with their embeddings and removes added ones', async () => {
+    const target = memoryCollection([record('added')])
+    const before = [record('deleted')]
+    const after = await readImage(target.collection, ['deleted', 'added'])
+
+    await restoreImage(target.collection, before, after)
+
+    expect([...target.store.values()]).toEqual([record('deleted')])
+  })
+})
+
+describe('document history', () => {
+  it('moves entries between the undo and redo stacks and clears redo on a new change', async () => {
+    const history = new DocumentHistory()
+    const applied: string[] = []
+    const entry = { ...change, before: [], after: [] }
+    history.push(entry)
+
+    expect(await history.undo(async e => { applied.push(`undo ${e.label}`) })).toBe(entry)
+    expect(await history.undo(async () => {})).toBeNull()
+    expect(await history.redo(async e => { applied.push(`redo ${e.label}`) })).toBe(entry)
+    expect(applied).toEqual(['undo Delete 1 Document', 'redo Delete 1 Document'])
+
+    await history.undo(async () => {})
+    history.push({ ...entry, label: 'Edit Document' })
+    expect(await history.redo(async () => {})).toBeNull()
+  })
+
+  it('keeps an entry when applying it fails and drops the oldest past the limit', async () => {
+    const history = new DocumentHistory()
+    for (let i = 0; i <= MAX_HISTORY_ENTRIES; i++) {
+      history.push({ ...change, label: `change ${i}`, before: [], after: [] })
+    }
+
+    await expect(history.undo(async () => { throw new Error('offline') })).rejects.toThrow('offline')
+    const labels: string[] = []
+    while (await history.undo(async e => { labels.push(e.label) })) {
+      // drain
+    }
+    expect(labels).toHaveLength(MAX_HISTORY_ENTRIES)
+    expect(labels[0]).toBe(`change ${MAX_HISTORY_ENTRIES}`)
+    expect(labels.at(-1)).toBe('change 1')
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import {
+  embeddingFunctionRefFromConfig,
+  estimateEmbedding,
+  estimateUsage,
+  formatCost,
+} from '../../src/constants/embedding-pricing'
+import { trackEmbeddingUsage } from '../../electron/embedding-usage'
+
+describe('embedding estimates', () => {
+  it('prices tokens from the model list price', () => {
+    const estimate = estimateEmbedding(
+      { documents: 1000, characters: 4_000_000, requests: 10 },
+      { type: 'openai', modelName: 'text-embedding-3-large' }
+    )
+    expect(estimate).toEqual({ documents: 1000, tokens: 1_000_000, requests: 10, costUsd: 0.13 })
+    expect(formatCost(estimate.costUsd)).toBe('$0.13')
+  })
+
+  it('treats local functions as free and unlisted models as unknown', () => {
+    const input = { documents: 1, characters: 400, requests: 1 }
+    expect(formatCost(estimateEmbedding(input, { type: 'ollama', modelName: 'nomic-embed-text' }).costUsd)).toBe('free')
+    expect(estimateEmbedding(input, { type: 'openai', modelName: 'my-finetune' }).costUsd).toBeNull()
+    expect(formatCost(null)).toBe('unknown cost')
+    expect(formatCost(0.0004)).toBe('under $0.01')
+  })
+
+  it('prices recorded usage like an estimate', () => {
+    const usage = { type: 'voyageai', modelName: 'voyage-3.5', requests: 2, texts: 20, characters: 3_500_000, firstUsedAt: 0, lastUsedAt: 0 }
+    expect(estimateUsage(usage)).toMatchObject({ documents: 20, tokens: 1_000_000, costUsd: 0.06 })
+  })
+
+  it('reads Python function names from a stored configuration', () => {
+    expect(embeddingFunctionRefFromConfig({ name: 'google_generative_ai', config: { model_name: 'gemini-embedding-001' } }))
+      .toEqual({ type: 'google-gemini', modelName: 'gemini-embedding-001' })
+    expect(embeddingFunctionRefFromConfig(null)).toEqual({ type: 'default' })
+  })
+})
+
+describe('embedding usage tracking', () => {
+  it('records texts only after the provider succeeds', async () => {
+    const recorded: string[][] = []
+    let fail = false
+    const ef = {
+      name: 'stub',
+      generate: async (texts: string[]) => {
+        if (fail) throw new Error('rate limited')
+        return texts.map(() => [0])
+      },
+    }
+    const tracked = trackEmbeddingUsage(ef, texts => recorded.push(texts))
+
+    await tracked.generate(['a', 'b'])
+    fail = true
+    await expect(tracked.generate(['c'])).rejects.toThrow('rate limited')
+
+    expect(recorded).toEqual([['a', 'b']])
+    expect(tracked.name).toBe('stub')
+  })
+})
@@ -0,0 +1,162 @@
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Collection } from 'chromadb'
+import { exportDocuments, filterPagesById } from '../../electron/chromadb-export'
+import { readDocumentPages, readDocuments } from '../../electron/chromadb-search'
+import { csvField, csvLine, exportObject } from '../../electron/export-file'
+import { encodeLevels, encodeThriftStruct, ParquetFileWriter } from '../../electron/parquet-writer'
+import type { DocumentRecord, ExportProgress } from '../../electron/types'
+import { memoryCollection } from './memory-collection'
+
+function record(id: string, overrides: Partial<DocumentRecord> = {}): DocumentRecord {
+  return { id, document: `text ${id}`, metadata: { n: 1 }, embedding: [0.5, 1], ...overrides }
+}
+
+// Serves `get` from an in-memory list the way Chroma pages through a read
+function fakeCollection(total: number) {
+  const calls: { limit?: number; offset?: number }[] = []
+  const collection = {
+    get: async ({ limit = total, offset = 0 }: { limit?: number; offset?: number }) => {
+      calls.push({ limit, offset })
+      const ids = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, i) => `id-${offset + i}`)
+      return { ids, documents: ids.map(() => null), metadatas: ids.map(() => null), embeddings: [] }
+    },
+  }
+  return { collection: collection as unknown as Collection, calls }
+}
+
+async function collect<T>(pages: AsyncIterable<T[]>): Promise<T[][]> {
+  const result: T[][] = []
+  for await (const page of pages) result.push(page)
+  return result
+}
+
+describe('export file formats', () => {
+  it('quotes CSV fields only when needed', () => {
+    expect(csvField('plain')).toBe('plain')
+    expect(csvField('a,b')).toBe('"a,b"')
+    expect(csvField('say "hi"\nbye')).toBe('"say ""hi""\nbye"')
+  })
+
+  it('writes optional columns only when asked', () => {
+    const row = record('a', { distance: 0.25 })
+    expect(exportObject(row, { embeddings: false, distances: false })).toEqual({ id: 'a', document: 'text a', metadata: { n: 1 } })
+    expect(exportObject(row, { embeddings: true, distances: true })).toMatchObject({ embedding: [0.5, 1], distance: 0.25 })
+    expect(csvLine(row, { embeddings: true, distances: true })).toBe('a,text a,"{""n"":1}","[0.5,1]",0.25')
+    expect(csvLine(record('b', { document: null, metadata: null }), { embeddings: false, distances: false })).toBe('b,,')
+  })
+})
+
+describe('parquet encoding', () => {
+  it('encodes thrift compact structs', () => {
+    const struct = encodeThriftStruct([
+      [1, { type: 'i32', value: 1 }],
+      [4, { type: 'binary', value: 'id' }],
+      [20, { type: 'i64', value: -1 }],
+    ])
+    // field deltas 1 and 3, then a long-form header for field 20
+    expect([...struct]).toEqual([0x15, 0x02, 0x38, 0x02, 0x69, 0x64, 0x06, 0x28, 0x01, 0x00])
+  })
+
+  it('encodes levels as length-prefixed RLE runs', () => {
+    expect([...encodeLevels([1, 1, 1, 0], 1)]).toEqual([4, 0, 0, 0, 0x06, 0x01, 0x02, 0x00])
+  })
+
+  it('frames the file with magic bytes and a footer length', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'export-test-'))
+    try {
+      const filePath = path.join(dir, 'out.parquet')
+      const writer = await ParquetFileWriter.open(filePath, [
+        { name: 'id', type: 'utf8', required: true },
+        { name: 'embedding', type: 'float-list' },
+      ])
+      await writer.appendRows([['a', [1, 2]], ['b', null]])
+      await writer.close()
+
+      const bytes = await readFile(filePath)
+      expect(bytes.subarray(0, 4).toString()).toBe('PAR1')
+      expect(bytes.subarray(-4).toString()).toBe('PAR1')
+      const footerLength = bytes.readInt32LE(bytes.length - 8)
+      expect(footerLength).toBeGreaterThan(0)
+      expect(footerLength).toBeLessThan(bytes.length - 12)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('reads without a query', () => {
+  const { collection } = memoryCollection(Array.from({ length: 400 }, (_, i) => record(`r${i}`)))
+
+  it('stay bounded when no limit is given', async () => {
+    expect(await readDocuments(collection, { collectionName: 'docs', nResults: 0 })).toHaveLength(300)
+    expect(await readDocuments(collection, { collectionName: 'docs', nResults: 0, ids: ['r1', 'r399'] })).toHaveLength(2)
+    expect(await readDocuments(collection, { collectionName: 'docs', nResults: 0, limit: 350, offset: 100 })).toHaveLength(300)
+    expect(await readDocuments(collection, { collectionName: 'docs', nResults: 5 })).toHaveLength(5)
+  })
+})
+
+describe('streamed export', () => {
+  let dir: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'export-test-'))
+  })
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('pages through a read until it runs out or hits maxResults', async () => {
+    const { collection, calls } = fakeCollection(7)
+    expect((await collect(readDocumentPages(collection, {}, 3))).map(page => page.length)).toEqual([3, 3, 1])
+    expect(calls.map(call => call.offset)).toEqual([0, 3, 6])
+
+    const capped = await collect(readDocumentPages(fakeCollection(7).collection, { maxResults: 4 }, 3))
+    expect(capped.map(page => page.length)).toEqual([3, 1])
+  })
+
+  it('drops pages with no ID match', async () => {
+    const pages = filterPagesById(readDocumentPages(fakeCollection(12).collection, {}, 5), 'ID-1')
+    expect((await collect(pages)).map(page => page.map(doc => doc.id))).toEqual([['id-1'], ['id-10', 'id-11']])
+  })
+
+  it('writes JSONL and reports progress', async () => {
+    const filePath = path.join(dir, 'out.jsonl')
+    const progress: ExportProgress[] = []
+    const result = await exportDocuments(
+      [[record('a')], [record('b')]],
+      2,
+      { filePath, fileName: 'out.jsonl', format: 'jsonl' },
+      { embeddings: false, distances: false },
+      p => progress.push(p)
+    )
+
+    expect(result).toEqual({ success: true, fileName: 'out.jsonl', exportedRows: 2 })
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line))
+    expect(lines.map(line => line.id)).toEqual(['a', 'b'])
+    expect(progress.at(-1)).toMatchObject({ phase: 'complete', processedRows: 2 })
+  })
+
+  it('deletes the partial file when cancelled', async () => {
+    const filePath = path.join(dir, 'out.csv')
+    const controller = new AbortController()
+    async function* pages() {
+      yield [record('a')]
+      controller.abort()
+      yield [record('b')]
+    }
+
+    const result = await exportDocuments(
+      pages(),
+      null,
+      { filePath, fileName: 'out.csv', format: 'csv' },
+      { embeddings: false, distances: false },
+      () => {},
+      controller.signal
+    )
+
+    expect(result).toMatchObject({ success: false, error: 'Operation cancelled' })
+    await expect(stat(filePath)).rejects.toThrow()
+  })
+})
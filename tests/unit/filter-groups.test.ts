@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  QueryFilterGroup,
+  buildChromaWhereClause,
+  createFilterGroup,
+  parseWhereJson,
+  removeFilterNode,
+  whereClauseToFilterGroup,
+  whereDocumentClauseToFilters,
+} from '../../src/types/filters'
+
+function condition(id: string, field: string, operator: '$eq' | '$gte' | '$in', value: string) {
+  return { id, field, operator, value }
+}
+
+describe('metadata filter groups', () => {
+  const tree: QueryFilterGroup = {
+    id: 'root',
+    combinator: '$and',
+    children: [
+      {
+        id: 'sources',
+        combinator: '$or',
+        children: [
+          condition('a', 'source', '$eq', 'a'),
+          condition('b', 'source', '$eq', 'b'),
+        ],
+      },
+      condition('year', 'year', '$gte', '2020'),
+    ],
+  }
+
+  it('compiles nested groups to nested where clauses', () => {
+    expect(buildChromaWhereClause(tree)).toEqual({
+      $and: [
+        { $or: [{ source: { $eq: 'a' } }, { source: { $eq: 'b' } }] },
+        { year: { $gte: 2020 } },
+      ],
+    })
+  })
+
+  it('collapses single-member groups and drops empty ones', () => {
+    const pruned = removeFilterNode(removeFilterNode(tree, 'b'), 'year')
+    expect(buildChromaWhereClause(pruned)).toEqual({ source: { $eq: 'a' } })
+    expect(buildChromaWhereClause(createFilterGroup('$or', [createFilterGroup()]))).toBeUndefined()
+  })
+
+  it('round-trips a compiled where clause back into the builder', () => {
+    const where = buildChromaWhereClause(tree)!
+    const restored = whereClauseToFilterGroup(where)
+    expect(restored).not.toBeNull()
+    expect(buildChromaWhereClause(restored!)).toEqual(where)
+  })
+
+  it('expands shorthand and implicit $and clauses', () => {
+    const restored = whereClauseToFilterGroup({ source: 'a', tag: { $in: ['x', 'y'] } })
+    expect(restored?.combinator).toBe('$and')
+    expect(buildChromaWhereClause(restored!)).toEqual({
+      $and: [{ source: { $eq: 'a' } }, { tag: { $in: ['x', 'y'] } }],
+    })
+  })
+
+  it('rejects clauses the builder cannot show', () => {
+    expect(whereClauseToFilterGroup({ title: { $contains: 'x' } } as never)).toBeNull()
+  })
+
+  it('rejects values whose type the rows would change', () => {
+    expect(whereClauseToFilterGroup({ year: '2020' })).toBeNull()
+    expect(whereClauseToFilterGroup({ flag: { $ne: 'true' } })).toBeNull()
+    expect(whereClauseToFilterGroup({ tag: { $in: ['a,b', 'c'] } })).toBeNull()
+    expect(whereClauseToFilterGroup({ year: 2020, flag: true, tag: { $nin: ['a', 'b'] } })).not.toBeNull()
+  })
+
+  it('parses raw editor JSON with the contract validation', () => {
+    expect(parseWhereJson('  ')).toEqual({ value: undefined, error: null })
+    expect(parseWhereJson('{"year": {"$gte": 2020}}')).toEqual({ value: { year: { $gte: 2020 } }, error: null })
+    expect(parseWhereJson('{"year": ').error).toBeTruthy()
+    expect(parseWhereJson('{"year": {"$contains": "x"}}').error).toMatch(/where\.year\.\$contains/)
+  })
+
+  it('converts where_document clauses back into text filter rows when they fit', () => {
+    expect(whereDocumentClauseToFilters({ $and: [{ $contains: 'a' }, { $regex: 'b+' }] })?.map(f => f.operator))
+      .toEqual(['$contains', '$regex'])
+    expect(whereDocumentClauseToFilters({ $or: [{ $contains: 'a' }, { $contains: 'b' }] })).toBeNull()
+  })
+})
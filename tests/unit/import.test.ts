@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { importDocuments } from '../../electron/chromadb-import'
+import { DelimitedParser, headerColumns, importFileFormat } from '../../electron/import-file'
+import {
+  coerceImportValue,
+  inferImportColumnType,
+  mapImportRow,
+  suggestImportMapping,
+} from '../../electron/import-mapping'
+import type { ImportDocumentsParams } from '../../electron/types'
+import { memoryCollection, record } from './memory-collection'
+
+describe('delimited file parsing', () => {
+  it('handles quoted delimiters, escaped quotes, line breaks and CRLF', () => {
+    const parser = new DelimitedParser(',')
+    const records = [
+      ...parser.push('id,text\r\n1,"a, b"\r\n2,"say ""hi"""\n3,"line one\nline two"\n\n'),
+      ...parser.end(),
+    ]
+    expect(records).toEqual([
+      ['id', 'text'],
+      ['1', 'a, b'],
+      ['2', 'say "hi"'],
+      ['3', 'line one\nline two'],
+    ])
+  })
+
+  it('keeps records intact across chunk boundaries', () => {
+    const parser = new DelimitedParser('\t')
+    const records = [
+      ...parser.push('a\t"b'),
+      ...parser.push('""c"\r'),
+      ...parser.push('\nd\te'),
+      ...parser.end(),
+    ]
+    expect(records).toEqual([['a', 'b"c'], ['d', 'e']])
+  })
+
+  it('names blank and repeated header columns', () => {
+    expect(headerColumns(['id', ' ', 'tag', 'tag'])).toEqual(['id', 'column_2', 'tag', 'tag_2'])
+  })
+
+  it('detects the format from the extension', () => {
+    expect(importFileFormat('/data/rows.NDJSON')).toBe('jsonl')
+    expect(importFileFormat('/data/rows.tab')).toBe('tsv')
+    expect(importFileFormat('/data/rows.txt')).toBeNull()
+  })
+})
+
+describe('import row mapping', () => {
+  it('coerces cells to the chosen metadata type', () => {
+    expect(coerceImportValue(' 42 ', 'number')).toBe(42)
+    expect(coerceImportValue('Yes', 'boolean')).toBe(true)
+    expect(coerceImportValue('["a","b"]', 'array')).toEqual(['a', 'b'])
+    expect(coerceImportValue(7, 'string')).toBe('7')
+    expect(coerceImportValue('', 'number')).toBeNull()
+    expect(() => coerceImportValue('abc', 'number')).toThrow('abc is not a number')
+    expect(() => coerceImportValue('[1,"a"]', 'array')).toThrow('same type')
+  })
+
+  it('builds records and names the failing column', () => {
+    const mapping = {
+      idColumn: 'id',
+      documentColumn: 'text',
+      embeddingColumn: null,
+      metadataColumns: [{ column: 'year', key: 'published', type: 'number' as const }],
+    }
+    expect(mapImportRow({ id: ' 1 ', text: 'hello', year: '2020' }, mapping)).toEqual({
+      id: '1',
+      document: 'hello',
+      metadata: { published: 2020 },
+    })
+    expect(mapImportRow({ id: '2', text: 'no year', year: '' }, mapping)).toEqual({ id: '2', document: 'no year' })
+    expect(() => mapImportRow({ id: '3', text: 'x', year: 'soon' }, mapping)).toThrow('year: soon is not a number')
+    expect(() => mapImportRow({ id: '', text: 'x' }, mapping)).toThrow('id: missing ID')
+    expect(() => mapImportRow({ id: '4', text: '' }, mapping)).toThrow('no document text to embed')
+  })
+
+  it('accepts rows with only an embedding', () => {
+    const record = mapImportRow(
+      { vector: '[0.1, 0.2]' },
+      { idColumn: null, documentColumn: null, embeddingColumn: 'vector', metadataColumns: [] }
+    )
+    expect(record.embedding).toEqual([0.1, 0.2])
+    expect(record.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(() => mapImportRow(
+      { vector: '[]' },
+      { idColumn: null, documentColumn: null, embeddingColumn: 'vector', metadataColumns: [] }
+    )).toThrow('vector: embedding must be a non-empty array of numbers')
+  })
+
+  it('infers the most specific column type', () => {
+    expect(inferImportColumnType(['1', '0', ''])).toBe('number')
+    expect(inferImportColumnType(['true', 'no'])).toBe('boolean')
+    expect(inferImportColumnType(['["x"]', '[]'])).toBe('string')
+    expect(inferImportColumnType([['x'], ['y']])).toBe('array')
+    expect(inferImportColumnType(['12', 'n/a'])).toBe('string')
+  })
+
+  it('suggests a mapping from column names and sample values', () => {
+    const mapping = suggestImportMapping(
+      ['ID', 'Content', 'embedding', 'score'],
+      [{ ID: 'a', Content: 'text', embedding: '[1,2]', score: '0.5' }]
+    )
+    expect(mapping).toEqual({
+      idColumn: 'ID',
+      documentColumn: 'Content',
+      embeddingColumn: 'embedding',
+      metadataColumns: [{ column: 'score', key: 'score', type: 'number' }],
+    })
+
+    // A "values" column holding text is metadata, not an embedding
+    expect(suggestImportMapping(['values'], [{ values: 'high' }]).embeddingColumn).toBeNull()
+  })
+})
+
+describe('importing documents', () => {
+  const params: ImportDocumentsParams = {
+    fileToken: 'file',
+    collectionName: 'docs',
+    mapping: { idColumn: 'id', documentColumn: 'text', embeddingColumn: null, metadataColumns: [] },
+    onCollision: 'fail',
+  }
+  const batches = (rows: Record<string, unknown>[]) => async function* () {
+    yield rows
+  }
+
+  it('fails on IDs already stored or repeated in the file, compared as the import writes them', async () => {
+    const target = memoryCollection([record('7'), record('taken')])
+    const rows = [{ id: 7, text: 'a' }, { id: 'dup', text: 'b' }, { id: ' dup ', text: 'c' }, { id: 'new', text: 'd' }]
+
+    const result = await importDocuments(target.collection, batches(rows), rows.length, params, () => {})
+
+    expect(result.error).toBe('2 IDs already exist or repeat in the file: "dup", "7". Nothing was imported.')
+    expect(target.writes).toEqual([])
+  })
+
+  it('reports blank IDs as row errors instead of collisions', async () => {
+    const target = memoryCollection([record('taken')])
+    const rows = [{ id: '', text: 'a' }, { id: ' ', text: 'b' }, { id: 'new', text: 'c' }]
+
+    const result = await importDocuments(target.collection, batches(rows), rows.length, params, () => {})
+
+    expect(result).toMatchObject({ success: true, importedRows: 1, failedRows: 2 })
+    expect(result.errors).toEqual(['Row 1: id: missing ID', 'Row 2: id: missing ID'])
+  })
+})
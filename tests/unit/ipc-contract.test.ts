@@ -1,12 +1,29 @@
 import { describe, expect, it } from 'vitest'
 import {
+  parseCollectionHealthParams,
   parseConnectionProfile,
   parseCopyCollectionParams,
   parseCreateCollectionParams,
+  parseCreateDocumentsBatchParams,
+  parseDocumentsPageParams,
   parseEmbeddingOverride,
+  parseMetadataSchemaParams,
+  parseQueryByEmbeddingParams,
   parseSearchDocumentsParams,
+  parseWhereClause,
+  parseWhereDocumentClause,
   validateExternalUrl,
 } from '../../electron/ipc-contract'
+import { parseExportDocumentsParams, parseImportDocumentsParams } from '../../electron/ipc-contract-transfer'
+import {
+  parseApplyDiffParams,
+  parseClipboardEntry,
+  parseCopyDocumentsParams,
+  parseDiffCollectionsParams,
+} from '../../electron/ipc-contract-copy'
+import { parseBulkMetadataParams } from '../../electron/ipc-contract-bulk'
+import { parseFinishReembedParams, parseReembedCollectionParams } from '../../electron/ipc-contract-reembed'
+import { parseMeasureEmbeddingInputParams } from '../../electron/ipc-contract-usage'
 
 describe('ipc contract validators', () => {
   it('preserves self-hosted auth fields on connection profiles', () => {
@@ -26,8 +43,74 @@ describe('ipc contract validators', () => {
     })
   })
 
+  it('validates the SSH tunnel on connection profiles', () => {
+    const profile = { id: 'prod', name: 'Prod', url: 'http://10.0.0.5:8000', createdAt: 1 }
+    expect(parseConnectionProfile({ ...profile, sshTunnel: { host: 'bastion', user: 'ops' } }).sshTunnel)
+      .toEqual({ host: 'bastion', port: undefined, user: 'ops', keyPath: undefined })
+    expect(() => parseConnectionProfile({ ...profile, sshTunnel: { host: 'bastion', user: 'ops', port: 70000 } }))
+      .toThrow('profile.sshTunnel.port')
+    expect(() => parseConnectionProfile({ ...profile, sshTunnel: { host: 'bastion' } })).toThrow('profile.sshTunnel.user')
+    expect(() => parseConnectionProfile({ ...profile, sshTunnel: { host: 'bastion', user: 'ops' }, proxyUrl: 'http://proxy:3128' }))
+      .toThrow('cannot be combined with profile.sshTunnel')
+  })
+
+  it('rejects SSH tunnel values that ssh would read as options', () => {
+    const profile = { id: 'prod', name: 'Prod', url: 'http://10.0.0.5:8000', createdAt: 1 }
+    const tunnel = { host: 'bastion', user: 'ops' }
+    for (const [field, value] of [
+      ['host', '-oProxyCommand=touch /tmp/pwned'],
+      ['user', '-oProxyCommand=sh'],
+      ['user', 'ops root'],
+      ['host', 'bastion\n'],
+      ['host', ''],
+      ['keyPath', '-oProxyCommand=sh'],
+      ['keyPath', '/keys/id\trsa'],
+    ]) {
+      expect(() => parseConnectionProfile({ ...profile, sshTunnel: { ...tunnel, [field]: value } }))
+        .toThrow(`profile.sshTunnel.${field}`)
+    }
+  })
+
+  it('validates headers, proxy and client certificates on connection profiles', () => {
+    const profile = { id: 'gw', name: 'Gateway', url: 'https://chroma.example.com', createdAt: 1 }
+    expect(parseConnectionProfile({
+      ...profile,
+      customHeaders: { 'X-Tenant': 'acme' },
+      proxyUrl: 'http://proxy.internal:3128',
+      clientCertificate: { certFile: '/certs/client.crt', keyFile: '/certs/client.key' },
+    })).toMatchObject({
+      customHeaders: { 'X-Tenant': 'acme' },
+      proxyUrl: 'http://proxy.internal:3128',
+      clientCertificate: { certFile: '/certs/client.crt', keyFile: '/certs/client.key' },
+    })
+    expect(() => parseConnectionProfile({ ...profile, customHeaders: { 'X Tenant': 'acme' } })).toThrow('invalid header name')
+    expect(() => parseConnectionProfile({ ...profile, customHeaders: { 'X-Tenant': 'a\r\nHost: evil' } })).toThrow('single-line')
+    expect(() => parseConnectionProfile({ ...profile, proxyUrl: 'socks5://proxy:1080' })).toThrow('profile.proxyUrl')
+    expect(() => parseConnectionProfile({ ...profile, clientCertificate: { certFile: '/certs/client.crt' } }))
+      .toThrow('profile.clientCertificate.keyFile')
+  })
+
+  it('validates read-only mode and the environment tag on connection profiles', () => {
+    const profile = { id: 'prod', name: 'Prod', url: 'http://10.0.0.5:8000', createdAt: 1 }
+    expect(parseConnectionProfile({ ...profile, readOnly: true, environment: 'prod', environmentColor: '#B91C1C' }))
+      .toMatchObject({ readOnly: true, environment: 'prod', environmentColor: '#B91C1C' })
+    expect(() => parseConnectionProfile({ ...profile, environment: 'qa' })).toThrow('profile.environment')
+    expect(() => parseConnectionProfile({ ...profile, environmentColor: 'red' })).toThrow('profile.environmentColor')
+    expect(() => parseConnectionProfile({ ...profile, readOnly: 'yes' })).toThrow('profile.readOnly')
+  })
+
   it('rejects invalid search payloads before service code runs', () => {
     expect(() => parseSearchDocumentsParams({ collectionName: '', ids: [1] })).toThrow(/collectionName/)
+    expect(() => parseSearchDocumentsParams({ collectionName: 'docs', include: ['vectors'] })).toThrow(/params.include.0/)
+  })
+
+  it('bounds document page offsets and sizes', () => {
+    expect(parseDocumentsPageParams({ collectionName: 'docs', offset: 200, pageSize: 100 })).toMatchObject({
+      offset: 200,
+      pageSize: 100,
+    })
+    expect(() => parseDocumentsPageParams({ collectionName: 'docs', offset: -1, pageSize: 100 })).toThrow(/params.offset/)
+    expect(() => parseDocumentsPageParams({ collectionName: 'docs', offset: 0, pageSize: 5000 })).toThrow(/params.pageSize/)
   })
 
   it('keeps create collection metadata and hnsw config typed', () => {
@@ -82,6 +165,155 @@ describe('ipc contract validators', () => {
     })
   })
 
+  it('validates where and where_document clauses against the supported operators', () => {
+    const where = { $and: [{ $or: [{ source: 'a' }, { source: { $eq: 'b' } }] }, { year: { $gte: 2020 } }] }
+    expect(parseWhereClause(where)).toEqual(where)
+    expect(() => parseWhereClause({ year: { $like: 2020 } })).toThrow(/where\.year\.\$like must be one of/)
+    expect(() => parseWhereClause({ year: { $gt: '2020' } })).toThrow(/must be a finite number/)
+    expect(() => parseWhereClause({ $and: [{ a: 1 }] })).toThrow(/at least two clauses/)
+    expect(() => parseWhereClause({ a: 1, b: 2 })).toThrow(/exactly one key/)
+
+    expect(parseWhereDocumentClause({ $or: [{ $contains: 'a' }, { $regex: '^b' }] })).toBeTruthy()
+    expect(() => parseWhereDocumentClause({ $contains: '' })).toThrow(/non-empty string/)
+    expect(() => parseSearchDocumentsParams({
+      collectionName: 'docs',
+      documentFilter: { $startsWith: 'a' },
+    })).toThrow(/params\.documentFilter\.\$startsWith/)
+  })
+
+  it('accepts a raw query vector of finite numbers', () => {
+    expect(parseSearchDocumentsParams({ collectionName: 'docs', queryEmbedding: [0.1, -2, 3e-4] }).queryEmbedding)
+      .toEqual([0.1, -2, 3e-4])
+    expect(() => parseSearchDocumentsParams({ collectionName: 'docs', queryEmbedding: [] })).toThrow(/must not be empty/)
+    expect(() => parseSearchDocumentsParams({ collectionName: 'docs', queryEmbedding: [1, '2'] }))
+      .toThrow(/params\.queryEmbedding must be an array of finite numbers/)
+  })
+
+  it('requires a source document for find-similar queries', () => {
+    expect(parseQueryByEmbeddingParams({ collectionName: 'docs', documentId: 'doc-1', nResults: 25 })).toMatchObject({
+      documentId: 'doc-1',
+      nResults: 25,
+    })
+    expect(() => parseQueryByEmbeddingParams({ collectionName: 'docs' })).toThrow(/params\.documentId/)
+  })
+
+  it('bounds the near-duplicate threshold of health scans', () => {
+    expect(parseCollectionHealthParams({ collectionName: 'docs' })).toEqual({
+      collectionName: 'docs',
+      nearDuplicateThreshold: undefined,
+    })
+    expect(parseCollectionHealthParams({ collectionName: 'docs', nearDuplicateThreshold: 0.95 }).nearDuplicateThreshold).toBe(0.95)
+    expect(() => parseCollectionHealthParams({ collectionName: 'docs', nearDuplicateThreshold: 1.5 })).toThrow('nearDuplicateThreshold')
+  })
+
+  it('requires a positive integer schema sample size when one is given', () => {
+    expect(parseMetadataSchemaParams({ collectionName: 'docs' })).toEqual({ collectionName: 'docs', sampleSize: undefined })
+    expect(parseMetadataSchemaParams({ collectionName: 'docs', sampleSize: 500 }).sampleSize).toBe(500)
+    expect(() => parseMetadataSchemaParams({ collectionName: 'docs', sampleSize: 0 })).toThrow('sampleSize')
+  })
+
+  it('validates import column mappings and the collision policy', () => {
+    const params = {
+      collectionName: 'docs',
+      fileToken: 'token',
+      mapping: {
+        idColumn: 'id',
+        documentColumn: null,
+        metadataColumns: [{ column: 'year', key: 'year', type: 'number' }],
+        embeddingColumn: 'vector',
+      },
+      onCollision: 'skip',
+    }
+    expect(parseImportDocumentsParams(params)).toEqual(params)
+    expect(() => parseImportDocumentsParams({ ...params, onCollision: 'merge' })).toThrow('params.onCollision')
+    expect(() => parseImportDocumentsParams({
+      ...params,
+      mapping: { ...params.mapping, metadataColumns: [{ column: 'year', key: 'year', type: 'null' }] },
+    })).toThrow('params.mapping.metadataColumns[0].type')
+  })
+
+  it('validates export sources', () => {
+    const params = {
+      collectionName: 'docs',
+      fileToken: 'token',
+      source: { kind: 'filter', metadataFilter: { year: { $gte: 2020 } }, maxResults: 100 },
+      includeEmbeddings: true,
+      includeDistances: false,
+    }
+    expect(parseExportDocumentsParams(params)).toMatchObject(params)
+    expect(() => parseExportDocumentsParams({ ...params, source: { kind: 'everything' } })).toThrow('params.source.kind')
+    expect(() => parseExportDocumentsParams({ ...params, source: { kind: 'filter', maxResults: 0 } })).toThrow('params.source.maxResults')
+    expect(() => parseExportDocumentsParams({ ...params, includeEmbeddings: 'yes' })).toThrow('params.includeEmbeddings')
+  })
+
+  it('validates clipboard entries shared between windows', () => {
+    const entry = {
+      type: 'documents',
+      documents: [{ id: 'a', document: 'hello', metadata: null }],
+      sourceCollectionName: 'docs',
+      sourceProfileId: 'local',
+      sourceProfileName: 'Local',
+    }
+    expect(parseClipboardEntry(entry)).toEqual(entry)
+    expect(parseClipboardEntry(null)).toBeNull()
+    expect(() => parseClipboardEntry({ ...entry, documents: [{ id: 'a', document: 1 }] })).toThrow('entry.documents[0].document')
+    expect(() => parseClipboardEntry({ ...entry, type: 'collection', collection: { name: 'docs' } })).toThrow('entry.collection.id')
+  })
+
+  it('requires ids and a source connection when copying documents', () => {
+    const params = { sourceProfileId: 'local', sourceCollectionName: 'docs', ids: ['a'], targetCollectionName: 'docs', regenerateEmbeddings: false }
+    expect(parseCopyDocumentsParams(params)).toEqual(params)
+    expect(() => parseCopyDocumentsParams({ ...params, ids: [] })).toThrow('params.ids')
+    expect(() => parseCopyDocumentsParams({ ...params, sourceProfileId: undefined })).toThrow('params.sourceProfileId')
+  })
+
+  it('requires two different collections to compare and at least one change to apply', () => {
+    const a = { profileId: 'local', collectionName: 'docs' }
+    const b = { profileId: 'cloud', collectionName: 'docs' }
+    const params = { a, b, compareEmbeddings: true, embeddingTolerance: 0.001 }
+    expect(parseDiffCollectionsParams(params)).toEqual(params)
+    expect(() => parseDiffCollectionsParams({ ...params, b: a })).toThrow('params.b must be a different collection')
+    expect(() => parseDiffCollectionsParams({ ...params, embeddingTolerance: -1 })).toThrow('params.embeddingTolerance')
+
+    expect(parseApplyDiffParams({ a, b, upsertIds: ['x'], deleteIds: [] })).toMatchObject({ upsertIds: ['x'] })
+    expect(() => parseApplyDiffParams({ a, b, upsertIds: [], deleteIds: [] })).toThrow('at least one change')
+  })
+
+  it('accepts a collision policy on batch creation', () => {
+    const params = { collectionName: 'docs', documents: [{ id: 'a', document: 'text' }] }
+    expect(parseCreateDocumentsBatchParams(params).onCollision).toBeUndefined()
+    expect(parseCreateDocumentsBatchParams({ ...params, onCollision: 'skip' }).onCollision).toBe('skip')
+    expect(() => parseCreateDocumentsBatchParams({ ...params, onCollision: 'merge' })).toThrow('params.onCollision')
+  })
+
+  it('validates bulk metadata operations and their target', () => {
+    const params = {
+      collectionName: 'docs',
+      target: { kind: 'ids', ids: ['a'] },
+      operation: { kind: 'replace', key: '', find: 'x', replace: '' },
+      dryRun: true,
+    }
+    expect(parseBulkMetadataParams(params).operation).toEqual({ kind: 'replace', key: null, find: 'x', replace: '' })
+    expect(() => parseBulkMetadataParams({ ...params, target: { kind: 'ids', ids: [] } })).toThrow('params.target.ids')
+    expect(() => parseBulkMetadataParams({ ...params, operation: { kind: 'rename', key: 'a', newKey: 'a' } }))
+      .toThrow('params.operation.newKey must differ')
+    expect(() => parseBulkMetadataParams({ ...params, operation: { kind: 'set', key: 'a', value: null } }))
+      .toThrow('params.operation.value')
+  })
+
+  it('accepts a re-embed without a function, to resume one', () => {
+    expect(parseReembedCollectionParams({ collectionName: 'docs' })).toEqual({ collectionName: 'docs', embeddingFunction: undefined })
+    expect(() => parseReembedCollectionParams({ collectionName: 'docs', embeddingFunction: { type: 'word2vec' } }))
+      .toThrow('params.embeddingFunction.type')
+    expect(() => parseFinishReembedParams({ collectionName: 'docs', keep: 'both' })).toThrow('params.keep')
+  })
+
+  it('requires a known purpose when measuring embedding input', () => {
+    expect(parseMeasureEmbeddingInputParams({ collectionName: 'docs', purpose: 'copy' }))
+      .toEqual({ collectionName: 'docs', ids: undefined, purpose: 'copy', embeddingFunction: undefined })
+    expect(() => parseMeasureEmbeddingInputParams({ collectionName: 'docs', purpose: 'create' })).toThrow('params.purpose')
+  })
+
   it('only allows http and https external URLs', () => {
     expect(validateExternalUrl('https://trychroma.com/docs')).toBe('https://trychroma.com/docs')
     expect(() => validateExternalUrl('file:///etc/passwd')).toThrow(/http: or https:/)
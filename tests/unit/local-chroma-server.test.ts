@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { LOCAL_SERVER_COMMANDS, localServerArgs, localServerSearchPath } from '../../electron/local-chroma-server'
+
+describe('local chroma server', () => {
+  it('serves the folder on a loopback port with chroma, then through uvx', () => {
+    const [chroma, uvx] = LOCAL_SERVER_COMMANDS
+
+    expect(chroma.command).toBe('chroma')
+    expect(localServerArgs(chroma, '/data/chroma', 51000))
+      .toEqual(['run', '--path', '/data/chroma', '--host', '127.0.0.1', '--port', '51000'])
+    expect(uvx.command).toBe('uvx')
+    expect(localServerArgs(uvx, '/data/chroma', 51000).slice(0, 4)).toEqual(['--from', 'chromadb', 'chroma', 'run'])
+  })
+
+  it('adds the usual pip and uv install locations to the search path once', () => {
+    const searchPath = localServerSearchPath('/usr/bin:/usr/local/bin', '/home/me').split(':')
+
+    expect(searchPath.slice(0, 2)).toEqual(['/usr/bin', '/usr/local/bin'])
+    expect(searchPath).toContain('/home/me/.local/bin')
+    expect(searchPath.filter(entry => entry === '/usr/local/bin')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,87 @@
+import type { Collection } from 'chromadb'
+import type { DocumentRecord } from '../../electron/types'
+
+type Metadata = NonNullable<DocumentRecord['metadata']>
+
+interface GetArgs {
+  ids?: string[]
+  where?: Record<string, unknown>
+  limit?: number
+  offset?: number
+  include?: string[]
+}
+
+interface WriteArgs {
+  ids: string[]
+  documents?: (string | null)[]
+  metadatas?: (Metadata | null)[]
+  embeddings?: (number[] | null)[]
+}
+
+export interface MemoryCollectionOptions {
+  // Stands in for the collection's embedding function on writes without vectors
+  embed?: (document: string | null) => number[] | null
+}
+
+export function record(id: string, overrides: Partial<DocumentRecord> = {}): DocumentRecord {
+  return { id, document: `text ${id}`, metadata: { source: id }, embedding: [1, 0], ...overrides }
+}
+
+/**
+ * An in-memory collection covering the reads and writes the main process
+ * makes. `where` matches metadata values exactly, and `writes` lists the IDs
+ * each add, upsert and update sent.
+ */
+export function memoryCollection(records: DocumentRecord[], options: MemoryCollectionOptions = {}) {
+  const store = new Map(records.map(record => [record.id, record]))
+  const writes: { method: 'add' | 'upsert' | 'update'; ids: string[] }[] = []
+  const embed = options.embed ?? (() => null)
+
+  const write = (method: 'add' | 'upsert') => async (payload: WriteArgs) => {
+    writes.push({ method, ids: payload.ids })
+    payload.ids.forEach((id, i) => {
+      // Like Chroma, add leaves an existing record as it is
+      if (method === 'add' && store.has(id)) return
+      const document = payload.documents?.[i] ?? null
+      store.set(id, {
+        id,
+        document,
+        metadata: payload.metadatas?.[i] ?? null,
+        embedding: payload.embeddings?.[i] ?? embed(document),
+      })
+    })
+  }
+
+  const collection = {
+    count: async () => store.size,
+    get: async ({ ids, where, limit, offset = 0, include = ['documents', 'metadatas'] }: GetArgs) => {
+      let matches = (ids ?? [...store.keys()]).filter(id => store.has(id))
+      if (where) {
+        matches = matches.filter(id => Object.entries(where).every(([key, value]) => store.get(id)!.metadata?.[key] === value))
+      }
+      const page = matches.slice(offset, limit === undefined ? undefined : offset + limit).map(id => store.get(id)!)
+      return {
+        ids: page.map(record => record.id),
+        documents: include.includes('documents') ? page.map(record => record.document) : undefined,
+        metadatas: include.includes('metadatas') ? page.map(record => record.metadata) : undefined,
+        embeddings: include.includes('embeddings') ? page.map(record => record.embedding) : undefined,
+      }
+    },
+    add: write('add'),
+    upsert: write('upsert'),
+    // Merges metadata the way Chroma does: null values delete their keys
+    update: async ({ ids, metadatas }: { ids: string[]; metadatas: Record<string, unknown>[] }) => {
+      writes.push({ method: 'update', ids })
+      ids.forEach((id, i) => {
+        const current = store.get(id)!
+        const merged: Record<string, unknown> = { ...current.metadata, ...metadatas[i] }
+        Object.keys(merged).forEach(key => { if (merged[key] === null) delete merged[key] })
+        store.set(id, { ...current, metadata: merged as Metadata })
+      })
+    },
+    delete: async ({ ids }: { ids: string[] }) => {
+      ids.forEach(id => store.delete(id))
+    },
+  }
+  return { collection: collection as unknown as Collection, store, writes }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { bulkUpdateMetadata } from '../../electron/chromadb-bulk'
+import { applyMetadataOperation, metadataUpdate } from '../../electron/metadata-operations'
+import { memoryCollection, record } from './memory-collection'
+
+describe('metadata operations', () => {
+  it('leaves records untouched when there is nothing to change', () => {
+    expect(applyMetadataOperation({ tag: 'a' }, { kind: 'set', key: 'tag', value: 'a' })).toBeNull()
+    expect(applyMetadataOperation({ tag: 'a' }, { kind: 'delete', key: 'other' })).toBeNull()
+    expect(applyMetadataOperation(null, { kind: 'rename', key: 'tag', newKey: 'label' })).toBeNull()
+  })
+
+  it('renames, converts and replaces values', () => {
+    expect(applyMetadataOperation({ tag: 'a', n: 1 }, { kind: 'rename', key: 'tag', newKey: 'label' })).toEqual({ n: 1, label: 'a' })
+    expect(applyMetadataOperation({ year: ' 2024 ' }, { kind: 'convert', key: 'year', type: 'number' })).toEqual({ year: 2024 })
+    expect(applyMetadataOperation({ a: 'x-y', b: 'x', c: 3 }, { kind: 'replace', key: null, find: 'x', replace: 'z' }))
+      .toEqual({ a: 'z-y', b: 'z', c: 3 })
+  })
+
+  it('throws when an operation cannot apply to a record', () => {
+    expect(() => applyMetadataOperation({ tag: 'a', label: 'b' }, { kind: 'rename', key: 'tag', newKey: 'label' }))
+      .toThrow('already has "label"')
+    expect(() => applyMetadataOperation({ year: 'soon' }, { kind: 'convert', key: 'year', type: 'number' }))
+      .toThrow('"soon" is not a number')
+  })
+
+  it('sends removed keys as null so the update deletes them', () => {
+    expect(metadataUpdate({ tag: 'a', n: 1 }, { n: 1 })).toEqual({ n: 1, tag: null })
+  })
+})
+
+describe('bulk metadata updates', () => {
+  const records = {
+    'doc-1': { status: 'draft', year: '2024' },
+    'doc-2': { status: 'draft', year: 'unknown' },
+    'note-1': { status: 'published', year: '2023' },
+  }
+  const stored = () => Object.entries(records).map(([id, metadata]) => record(id, { metadata }))
+
+  it('counts and samples changes on a dry run without writing', async () => {
+    const target = memoryCollection(stored())
+
+    const result = await bulkUpdateMetadata(
+      target.collection,
+      { target: { kind: 'filter', metadataFilter: { status: 'draft' } }, operation: { kind: 'convert', key: 'year', type: 'number' }, dryRun: true },
+      () => {}
+    )
+
+    expect(result).toMatchObject({ success: true, matched: 2, changed: 1, failed: 1, errors: ['doc-2: "unknown" is not a number'] })
+    expect(result.samples).toEqual([{ id: 'doc-1', before: records['doc-1'], after: { status: 'draft', year: 2024 } }])
+    expect(target.writes).toEqual([])
+  })
+
+  it('updates the records matching the ID search', async () => {
+    const target = memoryCollection(stored())
+
+    const result = await bulkUpdateMetadata(
+      target.collection,
+      { target: { kind: 'filter', idContains: 'DOC' }, operation: { kind: 'delete', key: 'year' }, dryRun: false },
+      () => {}
+    )
+
+    expect(result).toMatchObject({ success: true, matched: 2, changed: 2 })
+    expect(target.store.get('doc-1')?.metadata).toEqual({ status: 'draft' })
+    expect(target.store.get('note-1')?.metadata).toEqual(records['note-1'])
+  })
+
+  it('stops before the next batch once cancelled', async () => {
+    const target = memoryCollection(stored())
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await bulkUpdateMetadata(
+      target.collection,
+      { target: { kind: 'ids', ids: ['doc-1'] }, operation: { kind: 'set', key: 'status', value: 'done' }, dryRun: false },
+      () => {},
+      controller.signal
+    )
+
+    expect(result).toMatchObject({ success: false, changed: 0, error: 'Operation cancelled' })
+    expect(target.writes).toEqual([])
+  })
+})
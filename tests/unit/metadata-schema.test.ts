@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { MetadataSchemaAccumulator, scanWindows } from '../../electron/chromadb-schema'
+import { getOperatorsForType, getSchemaFieldType } from '../../src/types/filters'
+
+describe('metadata schema inference', () => {
+  it('tallies types, fill rate, distinct and top values per key', () => {
+    const accumulator = new MetadataSchemaAccumulator()
+    accumulator.addMetadatas([
+      { source: 'web', year: 2020, draft: false },
+      { source: 'web', year: 2024 },
+      { source: 'pdf', year: '1999', tags: ['a', 'b'] },
+      null,
+    ])
+
+    const schema = accumulator.schema('docs', 10, true)
+    expect(schema).toMatchObject({ collectionName: 'docs', totalRecords: 10, scannedRecords: 4, sampled: true })
+    expect(schema.keys.map(stats => stats.key)).toEqual(['draft', 'source', 'tags', 'year'])
+
+    const byKey = Object.fromEntries(schema.keys.map(stats => [stats.key, stats]))
+    expect(byKey.source).toMatchObject({
+      types: { string: 3 },
+      fillRate: 0.75,
+      distinctCount: 2,
+      topValues: [{ value: 'web', count: 2 }, { value: 'pdf', count: 1 }],
+      min: null,
+    })
+    expect(byKey.year).toMatchObject({ types: { number: 2, string: 1 }, distinctCount: 3, min: 2020, max: 2024 })
+    expect(byKey.tags).toMatchObject({ types: { array: 1 }, distinctCount: 0, topValues: [] })
+  })
+
+  it('keeps 1 and "1" apart', () => {
+    const accumulator = new MetadataSchemaAccumulator()
+    accumulator.addMetadatas([{ rank: 1 }, { rank: '1' }, { rank: 1 }])
+    expect(accumulator.schema('docs', 3, false).keys[0].topValues).toEqual([
+      { value: 1, count: 2 },
+      { value: '1', count: 1 },
+    ])
+  })
+
+  it('narrows filter operators to the inferred type', () => {
+    const accumulator = new MetadataSchemaAccumulator()
+    accumulator.addMetadatas([{ year: 2020, flag: true, mixed: 1 }, { year: null, mixed: 'x' }])
+    const byKey = Object.fromEntries(accumulator.schema('docs', 2, false).keys.map(stats => [stats.key, stats]))
+    expect(getSchemaFieldType(byKey.year)).toBe('number')
+    expect(getSchemaFieldType(byKey.flag)).toBe('boolean')
+    expect(getSchemaFieldType(byKey.mixed)).toBe('unknown')
+    expect(getOperatorsForType(getSchemaFieldType(byKey.mixed))).not.toContain('$gt')
+  })
+})
+
+describe('schema scan windows', () => {
+  it('walks the whole collection without a sample size', () => {
+    expect(scanWindows(1200)).toEqual([
+      { offset: 0, limit: 500 },
+      { offset: 500, limit: 500 },
+      { offset: 1000, limit: 200 },
+    ])
+    expect(scanWindows(300, 1000)).toEqual([{ offset: 0, limit: 300 }])
+  })
+
+  it('spreads a sample across the collection', () => {
+    expect(scanWindows(10000, 1000)).toEqual([
+      { offset: 0, limit: 500 },
+      { offset: 5000, limit: 500 },
+    ])
+    expect(scanWindows(10000, 700)).toEqual([
+      { offset: 0, limit: 500 },
+      { offset: 5000, limit: 200 },
+    ])
+  })
+})
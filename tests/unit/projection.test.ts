@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { mulberry32, pca, umap } from '../../src/lib/projection'
+import { buildColorScale, normalizeCoordinates } from '../../src/lib/embedding-map'
+
+// Two tight clusters in 16 dimensions, separated along the first axis
+function clusters(perCluster: number): number[][] {
+  const random = mulberry32(7)
+  const vectors: number[][] = []
+  for (const offset of [-5, 5]) {
+    for (let i = 0; i < perCluster; i++) {
+      vectors.push(Array.from({ length: 16 }, (_, d) => (d === 0 ? offset : 0) + (random() - 0.5) * 0.2))
+    }
+  }
+  return vectors
+}
+
+describe('embedding projection', () => {
+  it('puts the direction of greatest variance on the first principal component', () => {
+    const coordinates = pca(clusters(10), 2)
+    expect(coordinates).toHaveLength(20)
+    expect(coordinates[0]).toHaveLength(2)
+    const first = coordinates.slice(0, 10).map(point => Math.sign(point[0]))
+    const second = coordinates.slice(10).map(point => Math.sign(point[0]))
+    expect(new Set(first).size).toBe(1)
+    expect(new Set(second).size).toBe(1)
+    expect(first[0]).toBe(-second[0])
+  })
+
+  it('is deterministic and pads missing components', () => {
+    expect(pca(clusters(5), 3)).toEqual(pca(clusters(5), 3))
+    expect(pca([[1], [2], [3]], 2).every(point => point[1] === 0)).toBe(true)
+  })
+
+  it('keeps UMAP clusters apart', () => {
+    const coordinates = umap(clusters(12), 2, { nEpochs: 100 })
+    expect(coordinates).toHaveLength(24)
+    const centroid = (points: number[][]) => points.reduce((sum, p) => sum + p[0], 0) / points.length
+    const spread = Math.abs(centroid(coordinates.slice(0, 12)) - centroid(coordinates.slice(12)))
+    expect(spread).toBeGreaterThan(1)
+    expect(coordinates.flat().every(Number.isFinite)).toBe(true)
+  })
+})
+
+describe('embedding map helpers', () => {
+  it('scales coordinates into [-1, 1]', () => {
+    const normalized = normalizeCoordinates([[0, 10], [4, 20], [2, 30]])
+    expect(normalized).toEqual([[-0.2, -1], [0.2, 0], [0, 1]])
+  })
+
+  it('colours numbers on a gradient and strings by category', () => {
+    expect(buildColorScale([1, 5, null]).kind).toBe('numeric')
+    const categorical = buildColorScale(['a', 'b', 'a', undefined])
+    expect(categorical.kind).toBe('categorical')
+    expect(categorical.colors[0]).toBe(categorical.colors[2])
+    expect(categorical.legend.map(entry => entry.label)).toEqual(['a', 'b', 'Other'])
+    expect(buildColorScale([undefined, undefined]).kind).toBe('none')
+  })
+})
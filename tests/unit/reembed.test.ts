@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import type { ChromaClient } from 'chromadb'
+import { finishReembed, reembedCollection } from '../../electron/chromadb-reembed'
+import type { EmbeddingFunctionFactory } from '../../electron/embedding-function-factory'
+import { memoryCollection, record } from './memory-collection'
+
+type MemoryCollection = ReturnType<typeof memoryCollection> & { name: string; configuration?: unknown }
+
+// Vectors the fake embedding function gives documents written to a new collection
+const REEMBEDDED = [0, 1]
+
+// An in-memory client whose collections can be renamed, like Chroma's modify
+function memoryClient(collections: Record<string, Record<string, string>>) {
+  const store = new Map<string, MemoryCollection>(
+    Object.entries(collections).map(([name, documents]) => [
+      name,
+      { name, ...memoryCollection(Object.entries(documents).map(([id, document]) => record(id, { document }))) },
+    ])
+  )
+  const handle = (entry: MemoryCollection) => ({
+    ...(entry.collection as unknown as object),
+    name: entry.name,
+    metadata: null,
+    configuration: entry.configuration,
+    modify: async ({ name }: { name: string }) => {
+      if (store.has(name)) throw new Error(`Collection ${name} already exists`)
+      store.delete(entry.name)
+      entry.name = name
+      store.set(name, entry)
+    },
+  })
+  const client = {
+    getCollection: async ({ name }: { name: string }) => {
+      const entry = store.get(name)
+      if (!entry) throw new Error(`Collection ${name} does not exist`)
+      return handle(entry)
+    },
+    createCollection: async ({ name }: { name: string }) => {
+      const entry = {
+        name,
+        ...memoryCollection([], { embed: () => REEMBEDDED }),
+        configuration: { embedding_function: { name: 'openai', type: 'known', config: { model_name: 'text-embedding-3-small' } } },
+      }
+      store.set(name, entry)
+      return handle(entry)
+    },
+    deleteCollection: async ({ name }: { name: string }) => {
+      store.delete(name)
+    },
+  }
+  return { client: client as unknown as ChromaClient, store }
+}
+
+const efFactory = { getEmbeddingFunction: async () => ({}) } as unknown as EmbeddingFunctionFactory
+const openai = { type: 'openai' as const, modelName: 'text-embedding-3-small' }
+// Each record's document, marked when the fake function embedded it
+const documents = (store: Map<string, MemoryCollection>, name: string) => Object.fromEntries(
+  [...store.get(name)?.store.values() ?? []].map(r => [r.id, r.embedding === REEMBEDDED ? `embedded:${r.document}` : r.document])
+)
+
+describe('re-embedding a collection', () => {
+  it('fills a shadow collection, swaps names and keeps the original as a backup', async () => {
+    const { client, store } = memoryClient({ docs: { a: 'alpha', b: 'beta' } })
+
+    const result = await reembedCollection(client, efFactory, 'docs', openai, () => {})
+
+    expect(result).toEqual({ success: true, totalDocuments: 2, embeddedDocuments: 2, resumedDocuments: 0, backupName: 'docs-pre-reembed' })
+    expect(documents(store, 'docs')).toEqual({ a: 'embedded:alpha', b: 'embedded:beta' })
+    expect(documents(store, 'docs-pre-reembed')).toEqual({ a: 'alpha', b: 'beta' })
+    expect(store.has('docs-reembed')).toBe(false)
+  })
+
+  it('resumes an interrupted run by skipping records already embedded', async () => {
+    const { client, store } = memoryClient({ docs: { a: 'alpha', b: 'beta' } })
+    const controller = new AbortController()
+    controller.abort()
+    const paused = await reembedCollection(client, efFactory, 'docs', openai, () => {}, controller.signal)
+    expect(paused).toMatchObject({ success: false, error: 'Operation cancelled' })
+    store.get('docs-reembed')!.store.set('a', record('a', { document: 'alpha', embedding: REEMBEDDED }))
+
+    const result = await reembedCollection(client, efFactory, 'docs', null, () => {})
+
+    expect(result).toMatchObject({ success: true, embeddedDocuments: 1, resumedDocuments: 1 })
+    expect(documents(store, 'docs')).toEqual({ a: 'embedded:alpha', b: 'embedded:beta' })
+  })
+
+  it('re-embeds records edited and drops records deleted while paused', async () => {
+    const { client, store } = memoryClient({ docs: { a: 'alpha', b: 'beta', c: 'gamma' } })
+    const controller = new AbortController()
+    controller.abort()
+    await reembedCollection(client, efFactory, 'docs', openai, () => {}, controller.signal)
+    const shadow = store.get('docs-reembed')!.store
+    for (const [id, document] of [['a', 'alpha'], ['b', 'beta'], ['c', 'gamma']]) {
+      shadow.set(id, record(id, { document, embedding: REEMBEDDED }))
+    }
+    const source = store.get('docs')!.store
+    source.set('a', record('a', { document: 'alpha 2' }))
+    source.delete('c')
+
+    const result = await reembedCollection(client, efFactory, 'docs', null, () => {})
+
+    expect(result).toMatchObject({ success: true, embeddedDocuments: 1, resumedDocuments: 1 })
+    expect(documents(store, 'docs')).toEqual({ a: 'embedded:alpha 2', b: 'embedded:beta' })
+  })
+
+  it('refuses to resume with a different function', async () => {
+    const { client } = memoryClient({ docs: { a: 'alpha' } })
+    const controller = new AbortController()
+    controller.abort()
+    await reembedCollection(client, efFactory, 'docs', openai, () => {}, controller.signal)
+
+    const result = await reembedCollection(client, efFactory, 'docs', { type: 'cohere', modelName: 'embed-english-v3.0' }, () => {})
+
+    expect(result.error).toMatch(/interrupted re-embed with openai/)
+  })
+
+  it('puts the original back when asked to restore it', async () => {
+    const { client, store } = memoryClient({ docs: { a: 'alpha' } })
+    await reembedCollection(client, efFactory, 'docs', openai, () => {})
+
+    await finishReembed(client, { collectionName: 'docs', keep: 'original' })
+
+    expect(documents(store, 'docs')).toEqual({ a: 'alpha' })
+    expect(Array.from(store.keys())).toEqual(['docs'])
+  })
+
+  it('finishes a swap cut short between its renames before deleting the backup', async () => {
+    const { client, store } = memoryClient({ 'docs-pre-reembed': { a: 'alpha' }, 'docs-reembed': { a: 'alpha 2' } })
+
+    await finishReembed(client, { collectionName: 'docs', keep: 'reembedded' })
+
+    expect(documents(store, 'docs')).toEqual({ a: 'alpha 2' })
+    expect(Array.from(store.keys())).toEqual(['docs'])
+  })
+
+  it('keeps the backup when neither re-embedded collection exists', async () => {
+    const { client, store } = memoryClient({ 'docs-pre-reembed': { a: 'alpha' } })
+
+    await expect(finishReembed(client, { collectionName: 'docs', keep: 'reembedded' })).rejects.toThrow(/was kept/)
+    expect(Array.from(store.keys())).toEqual(['docs-pre-reembed'])
+  })
+})
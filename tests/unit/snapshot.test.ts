@@ -0,0 +1,102 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { Collection } from 'chromadb'
+import {
+  parseSnapshotHeader,
+  readSnapshotHeader,
+  readSnapshotRecords,
+  SnapshotCollection,
+  writeSnapshot,
+} from '../../electron/collection-snapshot'
+import { buildCollectionMetadata, extractHnswConfig, userCollectionMetadata } from '../../electron/chromadb-metadata'
+import type { CopyProgress, DocumentRecord } from '../../electron/types'
+
+const collection: SnapshotCollection = {
+  name: 'docs',
+  metadata: { owner: 'search' },
+  hnsw: { space: 'cosine', maxNeighbors: 32 },
+  embeddingFunction: { name: 'openai', type: 'known', config: { model_name: 'text-embedding-3-small' } },
+  documentCount: 3,
+}
+
+function record(id: string): DocumentRecord {
+  return { id, document: `text ${id}`, metadata: { n: Number(id) }, embedding: [0.25, -1] }
+}
+
+async function* pagesOf(...pages: DocumentRecord[][]) {
+  yield* pages
+}
+
+async function collect<T>(batches: AsyncIterable<T[]>): Promise<T[][]> {
+  const result: T[][] = []
+  for await (const batch of batches) result.push(batch)
+  return result
+}
+
+describe('collection snapshots', () => {
+  let dir: string
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'snapshot-test-'))
+  })
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('round-trips settings and records', async () => {
+    const filePath = path.join(dir, 'docs.chromasnap')
+    const progress: CopyProgress[] = []
+    const result = await writeSnapshot(filePath, collection, pagesOf([record('1'), record('2')], [record('3')]), p => progress.push(p))
+
+    expect(result).toEqual({ success: true, fileName: 'docs.chromasnap', documentCount: 3 })
+    expect(progress.at(-1)).toMatchObject({ phase: 'complete', processedDocuments: 3 })
+
+    const header = await readSnapshotHeader(filePath)
+    expect(header.collection).toEqual(collection)
+    const batches = await collect(readSnapshotRecords(filePath, 2))
+    expect(batches.map(batch => batch.map(r => r.id))).toEqual([['1', '2'], ['3']])
+    expect(batches[0][0]).toEqual(record('1'))
+  })
+
+  it('deletes the partial file when cancelled', async () => {
+    const filePath = path.join(dir, 'docs.chromasnap')
+    const controller = new AbortController()
+    async function* pages() {
+      yield [record('1')]
+      controller.abort()
+      yield [record('2')]
+    }
+
+    const result = await writeSnapshot(filePath, collection, pages(), () => {}, controller.signal)
+    expect(result).toMatchObject({ success: false, error: 'Operation cancelled' })
+    await expect(readSnapshotHeader(filePath)).rejects.toThrow('Not a Chroma Explorer snapshot')
+  })
+
+  it('rejects files that are not snapshots', async () => {
+    const filePath = path.join(dir, 'notes.chromasnap')
+    await writeFile(filePath, 'id,document\n1,hello\n')
+    await expect(readSnapshotHeader(filePath)).rejects.toThrow('Not a Chroma Explorer snapshot')
+    expect(() => parseSnapshotHeader(JSON.stringify({ format: 'chroma-explorer-snapshot', version: 99, collection: {} })))
+      .toThrow('newer version')
+  })
+})
+
+describe('collection settings', () => {
+  it('splits HNSW settings from metadata so they can be rebuilt', () => {
+    const source = {
+      metadata: { owner: 'search', 'hnsw:space': 'ip', 'hnsw:M': 16 },
+      configuration: { hnsw: { space: 'cosine', ef_search: 80 } },
+    } as unknown as Collection
+
+    const hnsw = extractHnswConfig(source)
+    expect(hnsw).toEqual({ space: 'cosine', efSearch: 80, maxNeighbors: 16 })
+    expect(userCollectionMetadata(source)).toEqual({ owner: 'search' })
+    expect(buildCollectionMetadata(userCollectionMetadata(source), hnsw)).toEqual({
+      owner: 'search',
+      'hnsw:space': 'cosine',
+      'hnsw:search_ef': 80,
+      'hnsw:M': 16,
+    })
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { describeSshFailure, sshTunnelArgs } from '../../electron/ssh-tunnel'
+
+const agent = { host: 'bastion.example.com', user: 'ops' }
+const keyFile = { ...agent, port: 2222, keyPath: '~/.ssh/prod' }
+
+describe('ssh tunnel', () => {
+  it('forwards a loopback port to the target without prompting', () => {
+    const args = sshTunnelArgs(agent, 51000, { host: 'chroma.internal', port: 8000 })
+
+    expect(args.slice(0, 5)).toEqual(['-N', '-L', '127.0.0.1:51000:chroma.internal:8000', '-p', '22'])
+    expect(args).toContain('BatchMode=yes')
+    expect(args).not.toContain('-i')
+    expect(args.slice(-2)).toEqual(['--', 'ops@bastion.example.com'])
+  })
+
+  it('uses only the configured key file when one is set', () => {
+    const args = sshTunnelArgs(keyFile, 51000, { host: 'localhost', port: 8000 })
+
+    expect(args).toEqual(expect.arrayContaining(['-p', '2222', '-i', '~/.ssh/prod', 'IdentitiesOnly=yes']))
+  })
+
+  it('explains common ssh failures', () => {
+    expect(describeSshFailure('ops@bastion.example.com: Permission denied (publickey).', 255, agent))
+      .toMatch(/SSH agent holds a key/)
+    expect(describeSshFailure('Permission denied (publickey).', 255, keyFile)).toMatch(/~\/\.ssh\/prod/)
+    expect(describeSshFailure('ssh: Could not resolve hostname bastion.example.com: nodename nor servname provided', 255, agent))
+      .toBe('Could not resolve the SSH host "bastion.example.com".')
+    expect(describeSshFailure('ssh: connect to host bastion.example.com port 2222: Connection refused', 255, keyFile))
+      .toBe('The SSH host bastion.example.com:2222 refused the connection.')
+    expect(describeSshFailure('', 1, agent)).toBe('ssh exited with code 1')
+  })
+})
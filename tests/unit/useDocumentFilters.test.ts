@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { buildWhereClause, inferValueType } from '../../src/hooks/useDocumentFilters'
+import { buildChromaWhereDocumentClause } from '../../src/types/filters'
 
 describe('document filter helpers', () => {
   it('infers booleans, numbers, and strings', () => {
@@ -25,5 +26,21 @@ describe('document filter helpers', () => {
       ],
     })
   })
-})
 
+  it('builds where_document clauses from text filters, skipping empty values', () => {
+    expect(buildChromaWhereDocumentClause([
+      { id: '1', operator: '$contains', value: 'chroma' },
+      { id: '2', operator: '$regex', value: '' },
+    ])).toEqual({ $contains: 'chroma' })
+
+    expect(buildChromaWhereDocumentClause([
+      { id: '1', operator: '$not_contains', value: 'draft' },
+      { id: '2', operator: '$regex', value: '^v\\d+' },
+    ])).toEqual({
+      $and: [
+        { $not_contains: 'draft' },
+        { $regex: '^v\\d+' },
+      ],
+    })
+  })
+})